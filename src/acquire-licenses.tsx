@@ -0,0 +1,5 @@
+import { AcquireLicensesForm } from "./components/forms";
+
+export default function AcquireLicenses() {
+  return <AcquireLicensesForm />;
+}
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
+import { StorefrontDropdown } from "./components/storefront-dropdown";
+import { APP_STORE_GENRES, GAME_SUBGENRES, GAMES_GENRE_ID, type AppStoreGenre } from "./utils/app-store-genres";
+import { resolveStorefront } from "./utils/storefronts";
+import { GenreAppsView } from "./views/genre-apps-view";
+
+const GENRE_ICONS: Record<number, Icon> = {
+  6018: Icon.Book,
+  6000: Icon.Building,
+  6026: Icon.Code,
+  6017: Icon.LightBulb,
+  6016: Icon.FilmStrip,
+  6015: Icon.BankNote,
+  6023: Icon.Mug,
+  [GAMES_GENRE_ID]: Icon.GameController,
+  6027: Icon.Brush,
+  6013: Icon.Heartbeat,
+  6012: Icon.Leaf,
+  6021: Icon.Document,
+  6020: Icon.MedicalSupport,
+  6011: Icon.Music,
+  6010: Icon.Map,
+  6009: Icon.Megaphone,
+  6008: Icon.Camera,
+  6007: Icon.CheckList,
+  6006: Icon.Bookmark,
+  6024: Icon.Cart,
+  6005: Icon.TwoPeople,
+  6004: Icon.SoccerBall,
+  6003: Icon.Airplane,
+  6002: Icon.WrenchScrewdriver,
+  6001: Icon.CloudSun,
+};
+
+export default function BrowseCategories() {
+  const [storefront, setStorefront] = useState<string>(() => resolveStorefront());
+
+  const renderGenre = (genre: AppStoreGenre, icon: Icon) => (
+    <List.Item
+      key={genre.id}
+      title={genre.name}
+      icon={icon}
+      actions={
+        <ActionPanel>
+          <Action.Push
+            title={`Browse ${genre.name}`}
+            icon={Icon.AppWindowGrid3x3}
+            target={<GenreAppsView genre={genre} storefront={storefront} />}
+          />
+          <Action.CopyToClipboard title="Copy Genre ID" content={String(genre.id)} />
+        </ActionPanel>
+      }
+    />
+  );
+
+  return (
+    <List
+      navigationTitle="Browse Categories"
+      searchBarPlaceholder="Filter categories..."
+      searchBarAccessory={<StorefrontDropdown value={storefront} onChange={setStorefront} />}
+    >
+      <List.Section title="Categories">
+        {APP_STORE_GENRES.map((genre) => renderGenre(genre, GENRE_ICONS[genre.id] ?? Icon.AppWindowGrid2x2))}
+      </List.Section>
+      <List.Section title="Games">
+        {GAME_SUBGENRES.map((genre) => renderGenre(genre, Icon.GameController))}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,38 @@
+import { logger } from "@chrismessina/raycast-logger";
+import { environment, LaunchType, showHUD } from "@raycast/api";
+import { describeAutoArchiveReport, runAutoArchive } from "./utils/auto-archive";
+import { checkForUpdates, describeUpdates } from "./utils/update-checker";
+
+export default async function Command() {
+  // Background runs stay quiet unless something changed
+  const isUserInitiated = environment.launchType === LaunchType.UserInitiated;
+
+  try {
+    const { newUpdates, checkedCount, failedCount } = await checkForUpdates();
+
+    // Also picks up versions a previous run had to skip
+    const archiveReport = await runAutoArchive();
+    const archiveSummary = describeAutoArchiveReport(archiveReport);
+    if (archiveReport.results.length > 0) {
+      logger.log(`[AutoArchive] ${archiveSummary}`);
+    }
+
+    if (newUpdates.length > 0 || archiveSummary) {
+      await showHUD(
+        [newUpdates.length > 0 ? `⬆️ ${describeUpdates(newUpdates)}` : "", archiveSummary].filter(Boolean).join(" · "),
+      );
+    } else if (isUserInitiated) {
+      if (checkedCount === 0) {
+        await showHUD("No favorites or downloads to check");
+      } else if (failedCount === checkedCount) {
+        await showHUD("❌ Could not reach the App Store");
+      } else {
+        await showHUD("✅ All apps are up to date");
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error("[Updates] Update check failed", { error: message });
+    if (isUserInitiated) await showHUD("❌ Update check failed");
+  }
+}
@@ -5,6 +5,7 @@ import { getAppStoreUrl } from "../utils/constants";
 import { downloadAppIcon } from "../utils/icon-downloader";
 import { extractAppStoreId } from "../utils/parse-app-query";
 import { downloadScreenshots } from "../utils/screenshot-downloader";
+import { AppVersionsView } from "../views/app-versions-view";
 import { DeveloperAppsView } from "../views/developer-apps-view";
 import { FavoriteActions } from "./favorite-actions";
 
@@ -40,7 +41,7 @@ export function AppActions({
   showDeveloperApps = true,
 }: AppActionsProps) {
   // Create a fallback App Store URL if trackViewUrl is not available
-  const appStoreUrl = app.trackViewUrl || (app.id ? getAppStoreUrl(app.id) : undefined);
+  const appStoreUrl = app.trackViewUrl || (app.id ? getAppStoreUrl(app.id, app.storefront) : undefined);
 
   // Favorites/history entries persisted before `artistId` existed still carry
   // the developer URL, so recover the ID from it rather than hiding the action.
@@ -95,6 +96,14 @@ export function AppActions({
         onAction={handleDownload}
         shortcut={Keyboard.Shortcut.Common.Save}
       />
+      {app.bundleId && (
+        <Action.Push
+          title="Download Older Version…"
+          icon={Icon.Clock}
+          target={<AppVersionsView app={app} />}
+          shortcut={{ modifiers: ["cmd", "opt"], key: "v" }}
+        />
+      )}
       <FavoriteActions
         app={app}
         isFavorited={isFavorited}
@@ -125,7 +134,7 @@ export function AppActions({
         <Action.Push
           title={`View Apps by ${developerName}`}
           icon={Icon.Person}
-          target={<DeveloperAppsView artistId={artistId} developerName={developerName} />}
+          target={<DeveloperAppsView artistId={artistId} developerName={developerName} storefront={app.storefront} />}
           shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
         />
       )}
@@ -48,7 +48,7 @@ export function AppDetailContent({ app, isFavorited = false }: AppDetailContentP
   }
 
   // Create a fallback App Store URL if trackViewUrl is not available
-  const appStoreUrl = app.trackViewUrl || getAppStoreUrl(app.id);
+  const appStoreUrl = app.trackViewUrl || getAppStoreUrl(app.id, app.storefront);
 
   // Get the app rating
   const rating = app.averageUserRatingForCurrentVersion || app.averageUserRating;
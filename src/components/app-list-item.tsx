@@ -13,6 +13,8 @@ interface AppListItemProps {
   onDownload: (app: AppDetails) => Promise<string | null | undefined>;
   onAddFavorite: (app: AppDetails) => Promise<void>;
   onRemoveFavorite: (bundleId: string) => Promise<void>;
+  /** Accessories shown before the standard five, e.g. which search sources found the app. */
+  badges?: List.Item.Accessory[];
   /** Set false inside DeveloperAppsView, where the action would re-push the same view. */
   showDeveloperApps?: boolean;
   /**
@@ -36,6 +38,7 @@ export function AppListItem({
   onDownload,
   onAddFavorite,
   onRemoveFavorite,
+  badges = [],
   showDeveloperApps = true,
   children,
 }: AppListItemProps) {
@@ -47,6 +50,7 @@ export function AppListItem({
       subtitle={subtitle}
       icon={app.iconUrl ? { source: app.iconUrl, mask: Image.Mask.RoundedRectangle } : Icon.AppWindow}
       accessories={[
+        ...badges,
         { text: app.version },
         { text: formatPrice(app.price, app.currency) },
         { text: formatDate(app.currentVersionReleaseDate || app.releaseDate) },
@@ -26,7 +26,7 @@ export function CopyActions({ app, isFavorited = false }: CopyActionsProps) {
   }
 
   // Create a fallback App Store URL if trackViewUrl is not available
-  const appStoreUrl = app.trackViewUrl || getAppStoreUrl(app.id);
+  const appStoreUrl = app.trackViewUrl || getAppStoreUrl(app.id, app.storefront);
 
   return (
     <ActionPanel.Section title="Copy">
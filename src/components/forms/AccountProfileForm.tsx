@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api";
+import type { AccountProfile, AccountProfileInput } from "../../utils/account-profiles";
+import { STOREFRONTS } from "../../utils/storefronts";
+
+// Form.Dropdown needs a value for "no storefront"
+const NO_STOREFRONT = "none";
+
+interface AccountProfileFormProps {
+  /** Profile being edited; omit to add one */
+  profile?: AccountProfile;
+  /** Prefill for a new profile, e.g. the signed-in Apple ID */
+  initialEmail?: string;
+  onSubmit: (input: AccountProfileInput, options: { previousEmail?: string; password?: string }) => Promise<void>;
+}
+
+/**
+ * Add or edit a named Apple ID profile. The password is optional here: without
+ * one, switching to the profile asks for it.
+ */
+export function AccountProfileForm({ profile, initialEmail, onSubmit }: AccountProfileFormProps) {
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string | undefined>();
+  const [emailError, setEmailError] = useState<string | undefined>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  async function handleSubmit(values: {
+    name: string;
+    email: string;
+    password: string;
+    storefront: string;
+    notes: string;
+  }) {
+    if (!values.name.trim()) {
+      setNameError("Name is required");
+      return;
+    }
+    if (!values.email.includes("@")) {
+      setEmailError("Please enter a valid Apple ID");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(
+        {
+          name: values.name,
+          email: values.email,
+          storefront: values.storefront === NO_STOREFRONT ? undefined : values.storefront,
+          notes: values.notes,
+        },
+        { previousEmail: profile?.email, password: values.password || undefined },
+      );
+      pop();
+    } catch {
+      // The hook has shown a failure toast; keep the form open
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Form
+      isLoading={isSubmitting}
+      navigationTitle={profile ? `Edit ${profile.name}` : "Add Account Profile"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Profile" icon={Icon.Person} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="Personal, Test, Japan…"
+        defaultValue={profile?.name}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+      <Form.TextField
+        id="email"
+        title="Apple ID"
+        placeholder="name@example.com"
+        defaultValue={profile?.email ?? initialEmail}
+        error={emailError}
+        onChange={() => setEmailError(undefined)}
+      />
+      <Form.PasswordField
+        id="password"
+        title="Password"
+        placeholder={profile ? "Leave empty to keep the saved password" : "Optional"}
+        info="Saved in the Keychain so switching doesn't ask for it"
+      />
+      <Form.Dropdown
+        id="storefront"
+        title="Storefront"
+        defaultValue={profile?.storefront ?? NO_STOREFRONT}
+        info="Searches use this storefront while the profile is active"
+      >
+        <Form.Dropdown.Item value={NO_STOREFRONT} title="Use Preference" />
+        {STOREFRONTS.map((storefront) => (
+          <Form.Dropdown.Item
+            key={storefront.code}
+            value={storefront.code}
+            title={`${storefront.name} (${storefront.code.toUpperCase()})`}
+            keywords={[storefront.code]}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.TextArea id="notes" title="Notes" placeholder="What this account is for" defaultValue={profile?.notes} />
+    </Form>
+  );
+}
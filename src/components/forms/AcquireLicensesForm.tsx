@@ -0,0 +1,105 @@
+import { useMemo, useState } from "react";
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { useFavoriteApps } from "../../hooks";
+import { isFreeApp } from "../../ipatool";
+import type { AppDetails } from "../../types";
+import { resolveLicenseTargets } from "../../utils/license-acquisition";
+import { LicenseAcquisitionView } from "../../views/license-acquisition-view";
+
+interface AcquireLicensesFormProps {
+  /** Favorites to start with selected */
+  initialBundleIds?: string[];
+}
+
+/**
+ * Pick free favorites and paste more apps, then claim licenses for all of them
+ * on the signed-in Apple ID
+ */
+export function AcquireLicensesForm({ initialBundleIds = [] }: AcquireLicensesFormProps) {
+  const { push } = useNavigation();
+  const { favoriteApps, isLoading } = useFavoriteApps();
+  const [selectedBundleIds, setSelectedBundleIds] = useState<string[]>(initialBundleIds);
+  const [appList, setAppList] = useState("");
+  const [appListError, setAppListError] = useState<string | undefined>();
+  const [isResolving, setIsResolving] = useState(false);
+
+  const freeFavorites = useMemo(
+    () =>
+      favoriteApps
+        .filter((favorite) => isFreeApp(favorite.app.price))
+        .map((favorite) => (favorite.storefront ? { ...favorite.app, storefront: favorite.storefront } : favorite.app)),
+    [favoriteApps],
+  );
+  const paidFavoriteCount = favoriteApps.length - freeFavorites.length;
+
+  async function handleSubmit() {
+    const selected = freeFavorites.filter((app) => selectedBundleIds.includes(app.bundleId));
+    if (selected.length === 0 && !appList.trim()) {
+      setAppListError("Pick favorites or paste at least one app");
+      return;
+    }
+
+    let pasted: AppDetails[] = [];
+    let unresolved: string[] = [];
+    if (appList.trim()) {
+      setIsResolving(true);
+      const toast = await showToast({ style: Toast.Style.Animated, title: "Looking Up Apps" });
+      try {
+        ({ apps: pasted, unresolved } = await resolveLicenseTargets(appList));
+        await toast.hide();
+      } finally {
+        setIsResolving(false);
+      }
+    }
+
+    const apps = [...selected, ...pasted.filter((app) => !selected.some((item) => item.bundleId === app.bundleId))];
+    if (apps.length === 0) {
+      setAppListError("None of these entries is an App Store app");
+      return;
+    }
+    push(<LicenseAcquisitionView apps={apps} unresolved={unresolved} />);
+  }
+
+  return (
+    <Form
+      isLoading={isLoading || isResolving}
+      navigationTitle="Acquire Licenses"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Acquire Licenses" icon={Icon.Receipt} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Adds free apps to the signed-in Apple ID without downloading them. Paid apps are never purchased." />
+      <Form.TagPicker
+        id="favorites"
+        title="Favorites"
+        placeholder="Free favorites to license"
+        value={selectedBundleIds}
+        onChange={setSelectedBundleIds}
+        info={paidFavoriteCount > 0 ? `${paidFavoriteCount} paid favorite(s) are not listed` : undefined}
+      >
+        {freeFavorites.map((app) => (
+          <Form.TagPicker.Item
+            key={app.bundleId}
+            value={app.bundleId}
+            title={app.name}
+            icon={app.iconUrl || Icon.AppWindow}
+          />
+        ))}
+      </Form.TagPicker>
+      <Form.TextArea
+        id="appList"
+        title="More Apps"
+        placeholder={"com.example.app\nhttps://apps.apple.com/us/app/example/id123456789"}
+        info="Bundle IDs, App Store links or track IDs, one per line"
+        value={appList}
+        error={appListError}
+        onChange={(value) => {
+          setAppList(value);
+          setAppListError(undefined);
+        }}
+      />
+    </Form>
+  );
+}
@@ -1,2 +1,4 @@
 export { AppleLoginForm } from "./AppleLoginForm";
 export { AppleTwoFactorForm } from "./AppleTwoFactorForm";
+export { AcquireLicensesForm } from "./AcquireLicensesForm";
+export { AccountProfileForm } from "./AccountProfileForm";
@@ -0,0 +1,42 @@
+import { Grid, List } from "@raycast/api";
+import { STOREFRONTS } from "../utils/storefronts";
+
+interface StorefrontDropdownProps {
+  value: string;
+  onChange: (storefront: string) => void;
+}
+
+/**
+ * Search bar accessory that overrides the storefront preference for the
+ * current search. List and Grid need their own dropdown components, so both
+ * variants are exported from here to keep the storefront list in one place.
+ */
+export function StorefrontDropdown({ value, onChange }: StorefrontDropdownProps) {
+  return (
+    <List.Dropdown tooltip="App Store Storefront" value={value} onChange={onChange}>
+      {STOREFRONTS.map((storefront) => (
+        <List.Dropdown.Item
+          key={storefront.code}
+          title={`${storefront.name} (${storefront.code.toUpperCase()})`}
+          value={storefront.code}
+          keywords={[storefront.code]}
+        />
+      ))}
+    </List.Dropdown>
+  );
+}
+
+export function StorefrontGridDropdown({ value, onChange }: StorefrontDropdownProps) {
+  return (
+    <Grid.Dropdown tooltip="App Store Storefront" value={value} onChange={onChange}>
+      {STOREFRONTS.map((storefront) => (
+        <Grid.Dropdown.Item
+          key={storefront.code}
+          title={`${storefront.name} (${storefront.code.toUpperCase()})`}
+          value={storefront.code}
+          keywords={[storefront.code]}
+        />
+      ))}
+    </Grid.Dropdown>
+  );
+}
@@ -1,9 +1,17 @@
 import { logger } from "@chrismessina/raycast-logger";
 import { getPreferenceValues } from "@raycast/api";
+import { DEFAULT_FILENAME_TEMPLATE, validateFilenameTemplate } from "./utils/filename-template";
 
 // Integrity verification options
 export type IntegrityVerification = "basic" | "checksum" | "off";
 
+// Which archived IPAs "Prune Downloads" may move to the Trash; null means no limit
+export interface RetentionPolicy {
+  keepVersionsPerApp: number | null;
+  maxAgeDays: number | null;
+  keepFavorites: boolean;
+}
+
 // Configuration interface for return values
 export interface Config {
   maxDownloadTimeout: number; // in milliseconds
@@ -11,6 +19,11 @@ export interface Config {
   tempCleanupOnExit: boolean;
   integrityVerification: IntegrityVerification;
   allowedScreenshotDomains: string[]; // Allowed domains for screenshot downloads
+  storefront: string; // Default App Store storefront (lowercase ISO country code)
+  queueConcurrency: number; // App downloads the queue runs at once
+  retention: RetentionPolicy;
+  filenameTemplate: string; // Where a finished download is saved, relative to the download path, without .ipa
+  autoArchiveDailyLimit: number; // New versions auto-archive may download per day
 }
 
 // Preferences interface (what comes from Raycast preferences)
@@ -20,6 +33,13 @@ interface Preferences {
   tempCleanupOnExit: boolean;
   integrityVerification: IntegrityVerification;
   allowedScreenshotDomains?: string; // Optional comma-separated list of additional domains
+  storefront?: string;
+  queueConcurrency?: string;
+  retentionKeepVersions?: string;
+  retentionMaxAgeDays?: string;
+  retentionKeepFavorites?: boolean;
+  filenameTemplate?: string;
+  autoArchiveDailyLimit?: string;
 }
 
 // Default configuration values (all defaults live in code except downloadTimeoutSeconds)
@@ -40,8 +60,19 @@ const defaultConfig: Config = {
     "a4-ssl.mzstatic.com",
     "a5-ssl.mzstatic.com",
   ],
+  storefront: "us",
+  queueConcurrency: 1,
+  retention: { keepVersionsPerApp: null, maxAgeDays: null, keepFavorites: true },
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+  autoArchiveDailyLimit: 5,
 };
 
+// Blank, zero or non-numeric turns a retention limit off
+function parseRetentionLimit(value: string | undefined): number | null {
+  const parsed = parseInt(value?.trim() || "", 10);
+  return parsed > 0 ? parsed : null;
+}
+
 /**
  * Get configuration values from preferences with fallback to defaults
  * @returns Configuration object with all settings
@@ -74,12 +105,44 @@ export function getConfig(): Config {
       allowedScreenshotDomains = [...allowedScreenshotDomains, ...additionalDomains];
     }
 
+    // storefront from preference (two-letter country code; anything else falls back to the default)
+    const storefrontPreference = preferences.storefront?.trim().toLowerCase() ?? "";
+    const storefront = /^[a-z]{2}$/.test(storefrontPreference) ? storefrontPreference : defaultConfig.storefront;
+
+    // queueConcurrency from preference (dropdown, 1-3)
+    const queueConcurrency = parseInt(preferences.queueConcurrency || "", 10);
+    const validatedQueueConcurrency =
+      queueConcurrency >= 1 && queueConcurrency <= 3 ? queueConcurrency : defaultConfig.queueConcurrency;
+
+    // retention rules; each limit is optional and the favorites exemption defaults on
+    const retention: RetentionPolicy = {
+      keepVersionsPerApp: parseRetentionLimit(preferences.retentionKeepVersions),
+      maxAgeDays: parseRetentionLimit(preferences.retentionMaxAgeDays),
+      keepFavorites: preferences.retentionKeepFavorites ?? defaultConfig.retention.keepFavorites,
+    };
+
+    // filenameTemplate from preference (blank or invalid falls back to "{cleanName} {version}")
+    let filenameTemplate = preferences.filenameTemplate?.trim() || defaultConfig.filenameTemplate;
+    const templateError = validateFilenameTemplate(filenameTemplate);
+    if (templateError) {
+      logger.warn(`[Config] Ignoring filename template "${filenameTemplate}": ${templateError}`);
+      filenameTemplate = defaultConfig.filenameTemplate;
+    }
+
+    // autoArchiveDailyLimit from preference (blank, zero or non-numeric falls back to the default)
+    const autoArchiveDailyLimit = parseInt(preferences.autoArchiveDailyLimit?.trim() || "", 10);
+
     return {
       maxDownloadTimeout,
       maxStallTimeout: validatedStallTimeout,
       tempCleanupOnExit,
       integrityVerification,
       allowedScreenshotDomains,
+      storefront,
+      queueConcurrency: validatedQueueConcurrency,
+      retention,
+      filenameTemplate,
+      autoArchiveDailyLimit: autoArchiveDailyLimit > 0 ? autoArchiveDailyLimit : defaultConfig.autoArchiveDailyLimit,
     };
   } catch (error) {
     logger.error("[Config] Error reading preferences, using defaults:", error);
@@ -87,6 +150,61 @@ export function getConfig(): Config {
   }
 }
 
+/**
+ * Preferences that getConfig had to correct or ignore, for Diagnose Setup.
+ * getConfig falls back silently, so a typo otherwise goes unnoticed.
+ * @returns One line per problem, empty when everything was used as entered
+ */
+export function getPreferenceIssues(): string[] {
+  const preferences = getPreferenceValues<Preferences>();
+  const issues: string[] = [];
+  const isBlank = (value?: string) => !value?.trim();
+  const isWholeNumber = (value?: string) => /^\d+$/.test(value?.trim() ?? "");
+
+  if (!isBlank(preferences.downloadTimeoutSeconds)) {
+    if (!isWholeNumber(preferences.downloadTimeoutSeconds)) {
+      issues.push(`Download Timeout "${preferences.downloadTimeoutSeconds}" is not a number; using 90 seconds`);
+    } else if (parseInt(preferences.downloadTimeoutSeconds, 10) < 30) {
+      issues.push(
+        `Download Timeout of ${preferences.downloadTimeoutSeconds} seconds is raised to the 30-second minimum`,
+      );
+    }
+  }
+
+  if (!isBlank(preferences.maxStallTimeout)) {
+    if (!isWholeNumber(preferences.maxStallTimeout)) {
+      issues.push(`Max Stall Timeout "${preferences.maxStallTimeout}" is not a number; using 30000 ms`);
+    } else if (parseInt(preferences.maxStallTimeout, 10) < 5000) {
+      issues.push(`Max Stall Timeout of ${preferences.maxStallTimeout} ms is raised to the 5000 ms minimum`);
+    }
+  }
+
+  const queueConcurrency = parseInt(preferences.queueConcurrency || "", 10);
+  if (!isBlank(preferences.queueConcurrency) && !(queueConcurrency >= 1 && queueConcurrency <= 3)) {
+    issues.push(`Simultaneous App Downloads "${preferences.queueConcurrency}" is not 1–3; using 1`);
+  }
+
+  const templateError = preferences.filenameTemplate?.trim()
+    ? validateFilenameTemplate(preferences.filenameTemplate.trim())
+    : undefined;
+  if (templateError) {
+    issues.push(`Filename Template is ignored: ${templateError}`);
+  }
+
+  const limits: [string, string | undefined][] = [
+    ["Keep Versions per App", preferences.retentionKeepVersions],
+    ["Delete Files Older Than", preferences.retentionMaxAgeDays],
+    ["Auto-Archive Daily Limit", preferences.autoArchiveDailyLimit],
+  ];
+  for (const [title, value] of limits) {
+    if (!isBlank(value) && !isWholeNumber(value)) {
+      issues.push(`${title} "${value}" is not a whole number and is ignored`);
+    }
+  }
+
+  return issues;
+}
+
 /**
  * Get a specific configuration value
  * @param key The configuration key to retrieve
@@ -109,6 +227,11 @@ export function logCurrentConfig(): void {
       tempCleanupOnExit: config.tempCleanupOnExit,
       integrityVerification: config.integrityVerification,
       allowedScreenshotDomains: `${config.allowedScreenshotDomains.length} domains`,
+      storefront: config.storefront,
+      queueConcurrency: config.queueConcurrency,
+      retention: config.retention,
+      filenameTemplate: config.filenameTemplate,
+      autoArchiveDailyLimit: config.autoArchiveDailyLimit,
     });
   } catch (error) {
     logger.error("[Config] Error logging configuration:", error);
@@ -0,0 +1,101 @@
+import {
+  Action,
+  ActionPanel,
+  Clipboard,
+  Color,
+  Icon,
+  Image,
+  Keyboard,
+  List,
+  openExtensionPreferences,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { useDiagnostics } from "./hooks";
+import { useAuthNavigation } from "./hooks/use-auth-navigation";
+import {
+  describeDiagnostics,
+  formatDiagnosticsReport,
+  type DiagnosticCheck,
+  type DiagnosticFix,
+  type DiagnosticStatus,
+} from "./utils/diagnostics";
+
+const STATUS_ICONS: Record<DiagnosticStatus, Image.ImageLike> = {
+  pass: { source: Icon.CheckCircle, tintColor: Color.Green },
+  warn: { source: Icon.Warning, tintColor: Color.Orange },
+  fail: { source: Icon.XMarkCircle, tintColor: Color.Red },
+};
+
+const STATUS_LABELS: Record<DiagnosticStatus, string> = { pass: "Pass", warn: "Warning", fail: "Fail" };
+
+function buildCheckMarkdown(check: DiagnosticCheck): string {
+  return [
+    `## ${check.title}`,
+    "",
+    `**${STATUS_LABELS[check.status]}**: ${check.summary}`,
+    ...(check.details?.length ? ["", ...check.details.map((detail) => `- ${detail}`)] : []),
+    ...(check.fix?.kind === "copy-command" ? ["", "```sh", check.fix.command, "```"] : []),
+  ].join("\n");
+}
+
+export default function DiagnoseSetup() {
+  const { checks, isRunning, rerun } = useDiagnostics();
+  const authNavigation = useAuthNavigation();
+
+  const renderFixAction = (fix: DiagnosticFix) => {
+    switch (fix.kind) {
+      case "preferences":
+        return <Action title={fix.title} icon={Icon.Gear} onAction={openExtensionPreferences} />;
+      case "sign-in":
+        return <Action title={fix.title} icon={Icon.Person} onAction={() => authNavigation.pushLoginForm(rerun)} />;
+      case "copy-command":
+        return (
+          <Action
+            title={fix.title}
+            icon={Icon.Terminal}
+            onAction={async () => {
+              await Clipboard.copy(fix.command);
+              await showToast({ style: Toast.Style.Success, title: "Copied Command", message: fix.command });
+            }}
+          />
+        );
+      case "open-url":
+        return <Action.OpenInBrowser title={fix.title} url={fix.url} />;
+    }
+  };
+
+  return (
+    <List isLoading={isRunning} isShowingDetail navigationTitle="Diagnose Setup">
+      <List.Section title="Checks" subtitle={isRunning ? "Running…" : describeDiagnostics(checks)}>
+        {checks.map((check) => (
+          <List.Item
+            key={check.id}
+            title={check.title}
+            icon={STATUS_ICONS[check.status]}
+            accessories={[{ text: STATUS_LABELS[check.status] }]}
+            detail={<List.Item.Detail markdown={buildCheckMarkdown(check)} />}
+            actions={
+              <ActionPanel>
+                {check.fix && check.status !== "pass" && renderFixAction(check.fix)}
+                <Action.CopyToClipboard
+                  title="Copy Report as Markdown"
+                  content={formatDiagnosticsReport(checks)}
+                  shortcut={Keyboard.Shortcut.Common.Copy}
+                />
+                {!isRunning && (
+                  <Action
+                    title="Run Checks Again"
+                    icon={Icon.ArrowClockwise}
+                    shortcut={Keyboard.Shortcut.Common.Refresh}
+                    onAction={rerun}
+                  />
+                )}
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
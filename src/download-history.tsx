@@ -1,10 +1,17 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { Action, ActionPanel, Icon, Image, Keyboard, List } from "@raycast/api";
+import { Action, ActionPanel, Color, Icon, Image, Keyboard, List } from "@raycast/api";
 import { useAppDownload, useDownloadHistory, useFavoriteApps, useLatestVersions, useVersionAccessories } from "./hooks";
 import { useAuthNavigation } from "./hooks/use-auth-navigation";
+import { getLatestRecordPerApp } from "./hooks/use-download-history";
 import { cleanAppNameForFilename, formatFriendlyDateTime } from "./utils/formatting";
 import type { DownloadHistoryItem } from "./utils/storage";
+import { getStorefrontName, resolveStorefront } from "./utils/storefronts";
 import AppDetailView from "./views/app-detail-view";
+import { AppDownloadHistoryView } from "./views/app-download-history-view";
+import { AppVersionsView } from "./views/app-versions-view";
+import { ExecutableAnalysisView } from "./views/executable-analysis-view";
+import { IpaInspectorView } from "./views/ipa-inspector-view";
+import { RetentionPreviewView } from "./views/retention-preview-view";
 
 type SortOption = "recent" | "oldest" | "mostDownloaded" | "leastDownloaded" | "name";
 
@@ -17,15 +24,25 @@ export default function DownloadHistory() {
   const authNavigation = useAuthNavigation();
   const { downloadAppDetails } = useAppDownload(authNavigation);
   const { favoriteApps, isFavorite, addFavorite, removeFavorite } = useFavoriteApps();
-  const { downloadHistory, removeFromHistory, clearHistory, refresh, isLoading } = useDownloadHistory(100);
+  const { downloadHistory, reverifyFile, removeFromHistory, clearHistory, getDownloadCount, refresh, isLoading } =
+    useDownloadHistory();
+
+  // History keeps a record per version; the list shows each app's latest
+  const appHistory = useMemo(() => getLatestRecordPerApp(downloadHistory), [downloadHistory]);
+  const versionCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    downloadHistory.forEach((item) => counts.set(item.app.bundleId, (counts.get(item.app.bundleId) ?? 0) + 1));
+    return counts;
+  }, [downloadHistory]);
 
   // Get bundle IDs for version checking
-  const bundleIds = useMemo(() => downloadHistory.map((item) => item.app.bundleId), [downloadHistory]);
+  const bundleIds = useMemo(() => appHistory.map((item) => item.app.bundleId), [appHistory]);
   const { latestVersions, forceRefresh } = useLatestVersions(bundleIds);
+  const defaultStorefront = useMemo(() => resolveStorefront(), []);
 
   // Sort and filter history
   useEffect(() => {
-    let filtered = downloadHistory;
+    let filtered = appHistory;
 
     // Apply favorites filter
     if (showOnlyFavorites) {
@@ -51,9 +68,9 @@ export default function DownloadHistory() {
         case "oldest":
           return new Date(a.downloadDate).getTime() - new Date(b.downloadDate).getTime();
         case "mostDownloaded":
-          return b.downloadCount - a.downloadCount;
+          return getDownloadCount(b.app.bundleId) - getDownloadCount(a.app.bundleId);
         case "leastDownloaded":
-          return a.downloadCount - b.downloadCount;
+          return getDownloadCount(a.app.bundleId) - getDownloadCount(b.app.bundleId);
         case "name":
           return a.app.name.localeCompare(b.app.name);
         default:
@@ -62,7 +79,7 @@ export default function DownloadHistory() {
     });
 
     setFilteredHistory(filtered);
-  }, [downloadHistory, searchText, sortBy, showOnlyFavorites, favoriteApps, isFavorite]);
+  }, [appHistory, searchText, sortBy, showOnlyFavorites, favoriteApps, isFavorite, getDownloadCount]);
 
   // Separate apps with updates from those without
   const appsWithUpdates = useMemo(() => {
@@ -93,14 +110,27 @@ export default function DownloadHistory() {
           ? [{ tag: { value: `Update: ${latestVersionInfo.latestVersion}`, color: "#00FF00" } }]
           : []),
         ...(isFavorited ? [{ icon: Icon.Heart, tooltip: "Favorite" }] : []),
-        { text: `${item.downloadCount}×`, tooltip: "Download count" },
+        ...(item.cancelledAt
+          ? [{ tag: { value: "Cancelled", color: Color.SecondaryText }, tooltip: "Last download was cancelled" }]
+          : []),
+        ...(item.externalVersionId
+          ? [{ tag: "Pinned", tooltip: `Older version (external version ID ${item.externalVersionId})` }]
+          : []),
+        // Only call out the storefront when it isn't the one the user normally browses
+        ...(item.storefront && item.storefront !== defaultStorefront
+          ? [{ tag: item.storefront.toUpperCase(), tooltip: `Storefront: ${getStorefrontName(item.storefront)}` }]
+          : []),
+        ...((versionCounts.get(item.app.bundleId) ?? 1) > 1
+          ? [{ text: `${versionCounts.get(item.app.bundleId)} versions`, tooltip: "Versions in download history" }]
+          : []),
+        { text: `${getDownloadCount(item.app.bundleId)}×`, tooltip: "Download count" },
         { text: formatFriendlyDateTime(item.downloadDate), tooltip: "Last downloaded" },
       ];
 
       map.set(item.app.bundleId, accessories);
     });
     return map;
-  }, [filteredHistory, latestVersions, isFavorite]);
+  }, [filteredHistory, latestVersions, isFavorite, defaultStorefront, versionCounts, getDownloadCount]);
 
   // Toggle favorite status
   const toggleFavorite = useCallback(
@@ -134,8 +164,20 @@ export default function DownloadHistory() {
           icon={iconUrl ? { source: iconUrl, mask: Image.Mask.RoundedRectangle } : Icon.AppWindow}
           actions={
             <ActionPanel>
+              {item.externalVersionId && (
+                <Action
+                  title={`Download Version ${app.version} Again`}
+                  onAction={async () => {
+                    // Pinned entries re-fetch the same older build rather than the latest
+                    await downloadAppDetails(app, { externalVersionId: item.externalVersionId });
+                    await refresh();
+                  }}
+                  icon={Icon.Download}
+                  shortcut={Keyboard.Shortcut.Common.Save}
+                />
+              )}
               <Action
-                title="Download Again"
+                title={item.externalVersionId ? "Download Latest Version" : "Download Again"}
                 onAction={async () => {
                   // Get the latest version info before downloading
                   const latestVersionInfo = latestVersions.get(app.bundleId);
@@ -153,7 +195,19 @@ export default function DownloadHistory() {
                   await refresh();
                 }}
                 icon={Icon.Download}
-                shortcut={Keyboard.Shortcut.Common.Save}
+                shortcut={item.externalVersionId ? undefined : Keyboard.Shortcut.Common.Save}
+              />
+              <Action.Push
+                title="Download Older Version…"
+                target={<AppVersionsView app={app} />}
+                icon={Icon.Clock}
+                shortcut={{ modifiers: ["cmd", "opt"], key: "v" }}
+              />
+              <Action.Push
+                title="View All Downloaded Versions"
+                target={<AppDownloadHistoryView bundleId={app.bundleId} appName={app.name} />}
+                icon={Icon.List}
+                shortcut={{ modifiers: ["cmd", "opt"], key: "a" }}
               />
               <Action.Push
                 title="View App Details"
@@ -161,6 +215,37 @@ export default function DownloadHistory() {
                 icon={Icon.AppWindowSidebarLeft}
                 shortcut={{ modifiers: ["cmd"], key: "i" }}
               />
+              {item.filePath && (
+                <Action.Push
+                  title="Inspect IPA"
+                  target={<IpaInspectorView filePath={item.filePath} appName={app.name} />}
+                  icon={Icon.MagnifyingGlass}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "i" }}
+                />
+              )}
+              {item.filePath && (
+                <Action
+                  title="Re-Verify File"
+                  onAction={() => reverifyFile(item)}
+                  icon={Icon.CheckCircle}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "k" }}
+                />
+              )}
+              {item.sha256 && (
+                <Action.CopyToClipboard
+                  title="Copy Checksum"
+                  content={item.sha256}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "h" }}
+                />
+              )}
+              {item.filePath && (
+                <Action.Push
+                  title="Analyze Executable"
+                  target={<ExecutableAnalysisView filePath={item.filePath} appName={app.name} />}
+                  icon={Icon.Cog}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "x" }}
+                />
+              )}
               <Action
                 title={isFavorited ? "Remove from Favorites" : "Add to Favorites"}
                 onAction={() => toggleFavorite(item)}
@@ -168,12 +253,22 @@ export default function DownloadHistory() {
                 shortcut={Keyboard.Shortcut.Common.Pin}
               />
               <Action
-                title="Delete History Item"
+                title={
+                  (versionCounts.get(app.bundleId) ?? 1) > 1
+                    ? "Delete All Versions from History"
+                    : "Delete History Item"
+                }
                 onAction={() => removeFromHistory(app.bundleId)}
                 icon={Icon.Trash}
                 style={Action.Style.Destructive}
                 shortcut={Keyboard.Shortcut.Common.Remove}
               />
+              <Action.Push
+                title="Prune Downloads…"
+                target={<RetentionPreviewView />}
+                icon={Icon.Eraser}
+                shortcut={{ modifiers: ["cmd", "opt"], key: "p" }}
+              />
               <Action
                 title="Clear All History"
                 onAction={clearHistory}
@@ -191,10 +286,12 @@ export default function DownloadHistory() {
       latestVersions,
       downloadAppDetails,
       toggleFavorite,
+      reverifyFile,
       removeFromHistory,
       clearHistory,
       refresh,
       accessoriesMap,
+      versionCounts,
     ],
   );
 
@@ -231,6 +328,12 @@ export default function DownloadHistory() {
               icon={Icon.RotateClockwise}
               shortcut={Keyboard.Shortcut.Common.Refresh}
             />
+            <Action.Push
+              title="Prune Downloads…"
+              target={<RetentionPreviewView />}
+              icon={Icon.Eraser}
+              shortcut={{ modifiers: ["cmd", "opt"], key: "p" }}
+            />
             <Action
               title="Clear All History"
               onAction={clearHistory}
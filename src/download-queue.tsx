@@ -0,0 +1,171 @@
+import { useEffect, useMemo } from "react";
+import { Action, ActionPanel, Color, Icon, Image, Keyboard, List } from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { useAppDownload, useDownloadQueue } from "./hooks";
+import { useAuthNavigation } from "./hooks/use-auth-navigation";
+import type { DownloadQueueItem } from "./utils/download-queue";
+import { formatDownloadProgress } from "./utils/download-stats";
+import { formatFriendlyDateTime } from "./utils/formatting";
+import AppDetailView from "./views/app-detail-view";
+
+export default function DownloadQueue() {
+  const authNavigation = useAuthNavigation();
+  const { resumeQueue } = useAppDownload(authNavigation);
+  const startQueue = () =>
+    resumeQueue().catch((error) => showFailureToast(error, { title: "Could not start the download queue" }));
+  const { items, isLoading, removeItem, retryItem, retryAllFailed, clearFailed, moveItem } = useDownloadQueue();
+
+  // Pick up anything left pending when Raycast (or the command that queued it) was closed
+  useEffect(() => {
+    startQueue();
+  }, []);
+
+  const activeItems = useMemo(() => items.filter((item) => item.status === "active"), [items]);
+  const pendingItems = useMemo(() => items.filter((item) => item.status === "pending"), [items]);
+  const failedItems = useMemo(() => items.filter((item) => item.status === "failed"), [items]);
+
+  const queueActions = (
+    <ActionPanel.Section>
+      {failedItems.length > 0 && (
+        <Action
+          title="Retry All Failed"
+          icon={Icon.ArrowClockwise}
+          onAction={async () => {
+            await retryAllFailed();
+            startQueue();
+          }}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+        />
+      )}
+      {failedItems.length > 0 && (
+        <Action
+          title="Clear Failed Downloads"
+          icon={Icon.Trash}
+          style={Action.Style.Destructive}
+          onAction={clearFailed}
+          shortcut={Keyboard.Shortcut.Common.RemoveAll}
+        />
+      )}
+    </ActionPanel.Section>
+  );
+
+  const renderItem = (item: DownloadQueueItem, index: number, section: DownloadQueueItem[]) => {
+    const { app } = item;
+    const versionLabel = item.externalVersionId ? `${app.version} (pinned)` : app.version;
+
+    const accessories: List.Item.Accessory[] = [];
+    if (item.status === "active") {
+      accessories.push({
+        tag: {
+          value: item.progress !== undefined ? `${Math.floor(item.progress * 100)}%` : "Starting…",
+          color: Color.Blue,
+        },
+        tooltip: item.transfer ? formatDownloadProgress(item.transfer) : undefined,
+      });
+    } else if (item.status === "failed") {
+      accessories.push({ tag: { value: "Failed", color: Color.Red }, tooltip: item.error });
+    }
+    if (item.attempts > 1) {
+      accessories.push({ text: `${item.attempts}×`, tooltip: "Attempts" });
+    }
+    accessories.push({ text: formatFriendlyDateTime(item.addedAt), tooltip: "Added to queue" });
+
+    return (
+      <List.Item
+        key={item.id}
+        title={app.name}
+        subtitle={item.status === "failed" ? item.error : versionLabel}
+        icon={app.iconUrl ? { source: app.iconUrl, mask: Image.Mask.RoundedRectangle } : Icon.AppWindow}
+        keywords={[app.bundleId, app.sellerName].filter(Boolean)}
+        accessories={accessories}
+        actions={
+          <ActionPanel>
+            <ActionPanel.Section>
+              {item.status === "failed" && (
+                <Action
+                  title="Retry Download"
+                  icon={Icon.ArrowClockwise}
+                  onAction={async () => {
+                    await retryItem(item.id);
+                    startQueue();
+                  }}
+                />
+              )}
+              {item.status === "pending" && index > 0 && (
+                <Action
+                  title="Move Earlier"
+                  icon={Icon.ArrowUp}
+                  onAction={() => moveItem(item.id, "up")}
+                  shortcut={Keyboard.Shortcut.Common.MoveUp}
+                />
+              )}
+              {item.status === "pending" && index < section.length - 1 && (
+                <Action
+                  title="Move Later"
+                  icon={Icon.ArrowDown}
+                  onAction={() => moveItem(item.id, "down")}
+                  shortcut={Keyboard.Shortcut.Common.MoveDown}
+                />
+              )}
+              {item.status === "pending" && index > 0 && (
+                <Action
+                  title="Download Next"
+                  icon={Icon.ChevronUp}
+                  onAction={() => moveItem(item.id, "top")}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "arrowUp" }}
+                />
+              )}
+              {item.status !== "active" && (
+                <Action
+                  title={item.status === "pending" ? "Cancel Download" : "Remove from Queue"}
+                  icon={Icon.XMarkCircle}
+                  style={Action.Style.Destructive}
+                  onAction={() => removeItem(item.id)}
+                  shortcut={Keyboard.Shortcut.Common.Remove}
+                />
+              )}
+              <Action.Push
+                title="View App Details"
+                target={<AppDetailView app={app} />}
+                icon={Icon.AppWindowSidebarLeft}
+                shortcut={{ modifiers: ["cmd"], key: "i" }}
+              />
+              {item.error && <Action.CopyToClipboard title="Copy Error" content={item.error} />}
+            </ActionPanel.Section>
+            {queueActions}
+          </ActionPanel>
+        }
+      />
+    );
+  };
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Filter queued downloads...">
+      {items.length === 0 && !isLoading && (
+        <List.EmptyView
+          title="Download Queue Is Empty"
+          description="Apps you download are queued here and processed in order. Finished downloads move to Download History."
+          icon={Icon.Download}
+        />
+      )}
+
+      {activeItems.length > 0 && (
+        <List.Section title="Downloading" subtitle={activeItems.length.toString()}>
+          {activeItems.map((item, index) => renderItem(item, index, activeItems))}
+        </List.Section>
+      )}
+
+      {pendingItems.length > 0 && (
+        <List.Section title="Up Next" subtitle={pendingItems.length.toString()}>
+          {pendingItems.map((item, index) => renderItem(item, index, pendingItems))}
+        </List.Section>
+      )}
+
+      {failedItems.length > 0 && (
+        <List.Section title="Failed" subtitle={failedItems.length.toString()}>
+          {failedItems.map((item, index) => renderItem(item, index, failedItems))}
+        </List.Section>
+      )}
+    </List>
+  );
+}
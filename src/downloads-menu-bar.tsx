@@ -0,0 +1,181 @@
+import fs from "fs";
+import { useMemo } from "react";
+import { Icon, Image, launchCommand, LaunchType, MenuBarExtra, showInFinder } from "@raycast/api";
+import { useAppUpdates, useDownloadHistory, useDownloadQueue, useFavoriteApps } from "./hooks";
+import { getHistoryRecordKey, getLatestRecordPerApp } from "./hooks/use-download-history";
+import type { SearchLaunchContext } from "./search";
+import type { AppDetails } from "./types";
+import type { DownloadQueueItem } from "./utils/download-queue";
+import { formatDownloadProgress } from "./utils/download-stats";
+import { formatFriendlyDateTime } from "./utils/formatting";
+import { isCancelledOnlyRecord } from "./utils/storage";
+
+const RECENT_DOWNLOADS_SHOWN = 3;
+
+function appIcon(app: { iconUrl?: string }): Image.ImageLike {
+  return app.iconUrl ? { source: app.iconUrl, mask: Image.Mask.RoundedRectangle } : Icon.AppWindow;
+}
+
+function formatProgress(item: DownloadQueueItem): string {
+  return item.progress !== undefined ? `${Math.floor(item.progress * 100)}%` : "Starting…";
+}
+
+// Bytes, speed and ETA when the download has reported them
+function formatProgressDetails(item: DownloadQueueItem): string {
+  return item.transfer ? formatDownloadProgress(item.transfer) : formatProgress(item);
+}
+
+async function openAppDetails(app: AppDetails) {
+  const context: SearchLaunchContext = { app };
+  await launchCommand({ name: "search", type: LaunchType.UserInitiated, context });
+}
+
+async function openCommand(name: string) {
+  await launchCommand({ name, type: LaunchType.UserInitiated });
+}
+
+export default function DownloadsMenuBar() {
+  const { items, isLoading: isQueueLoading, removeItem } = useDownloadQueue();
+  const { downloadHistory, isLoading: isHistoryLoading } = useDownloadHistory();
+  const { favoriteApps, isLoading: isFavoritesLoading } = useFavoriteApps();
+  const { updates, lastCheckedAt, isLoading: isUpdatesLoading, dismissUpdate, dismissAllUpdates } = useAppUpdates();
+
+  const activeItems = items.filter((item) => item.status === "active");
+  const pendingItems = items.filter((item) => item.status === "pending");
+  const failedCount = items.filter((item) => item.status === "failed").length;
+
+  // Updates already downloaded since they were reported have nothing left to show
+  const favoriteUpdates = useMemo(() => {
+    const downloaded = new Set(
+      downloadHistory.filter((record) => !isCancelledOnlyRecord(record)).map(getHistoryRecordKey),
+    );
+    return updates.flatMap((update) => {
+      const favorite = favoriteApps.find((item) => item.app.bundleId === update.bundleId);
+      if (!favorite || downloaded.has(`${update.bundleId}@${update.toVersion}`)) return [];
+      return [
+        { update, app: favorite.storefront ? { ...favorite.app, storefront: favorite.storefront } : favorite.app },
+      ];
+    });
+  }, [updates, favoriteApps, downloadHistory]);
+
+  const recentDownloads = useMemo(
+    () =>
+      getLatestRecordPerApp(downloadHistory)
+        .filter((record) => record.filePath && fs.existsSync(record.filePath))
+        .slice(0, RECENT_DOWNLOADS_SHOWN),
+    [downloadHistory],
+  );
+
+  const title =
+    activeItems.length > 0
+      ? formatProgress(activeItems[0])
+      : favoriteUpdates.length > 0
+        ? String(favoriteUpdates.length)
+        : undefined;
+
+  return (
+    <MenuBarExtra
+      icon={Icon.Download}
+      title={title}
+      tooltip="iOS App Downloads"
+      isLoading={isQueueLoading || isHistoryLoading || isFavoritesLoading || isUpdatesLoading}
+    >
+      {activeItems.length > 0 && (
+        <MenuBarExtra.Section title="Downloading">
+          {activeItems.map((item) => (
+            <MenuBarExtra.Item
+              key={item.id}
+              title={item.app.name}
+              subtitle={formatProgressDetails(item)}
+              icon={appIcon(item.app)}
+              tooltip="Open the app's details"
+              onAction={() => openAppDetails(item.app)}
+            />
+          ))}
+        </MenuBarExtra.Section>
+      )}
+
+      {(pendingItems.length > 0 || failedCount > 0) && (
+        <MenuBarExtra.Section title="Queued">
+          {pendingItems.map((item) => (
+            <MenuBarExtra.Submenu key={item.id} title={item.app.name} icon={appIcon(item.app)}>
+              <MenuBarExtra.Item title="View App Details" icon={Icon.Info} onAction={() => openAppDetails(item.app)} />
+              <MenuBarExtra.Item title="Cancel Download" icon={Icon.XMarkCircle} onAction={() => removeItem(item.id)} />
+            </MenuBarExtra.Submenu>
+          ))}
+          {failedCount > 0 && (
+            <MenuBarExtra.Item
+              title={`${failedCount} Failed ${failedCount === 1 ? "Download" : "Downloads"}`}
+              icon={Icon.ExclamationMark}
+              onAction={() => openCommand("download-queue")}
+            />
+          )}
+        </MenuBarExtra.Section>
+      )}
+
+      {favoriteUpdates.length > 0 && (
+        <MenuBarExtra.Section title="Favorite Updates">
+          {favoriteUpdates.map(({ update, app }) => (
+            <MenuBarExtra.Submenu
+              key={update.bundleId}
+              title={`${update.name} ${update.toVersion}`}
+              icon={appIcon({ iconUrl: update.iconUrl || app.iconUrl })}
+            >
+              <MenuBarExtra.Item title="View App Details" icon={Icon.Info} onAction={() => openAppDetails(app)} />
+              <MenuBarExtra.Item
+                title="Dismiss"
+                subtitle={`was ${update.fromVersion}`}
+                icon={Icon.EyeDisabled}
+                onAction={() => dismissUpdate(update.bundleId)}
+              />
+            </MenuBarExtra.Submenu>
+          ))}
+          <MenuBarExtra.Item title="Dismiss All Updates" icon={Icon.EyeDisabled} onAction={dismissAllUpdates} />
+        </MenuBarExtra.Section>
+      )}
+
+      {recentDownloads.length > 0 && (
+        <MenuBarExtra.Section title="Recent Downloads">
+          {recentDownloads.map((record) => (
+            <MenuBarExtra.Submenu
+              key={getHistoryRecordKey(record)}
+              title={`${record.app.name} ${record.app.version}`}
+              icon={appIcon(record.app)}
+            >
+              <MenuBarExtra.Item
+                title="Show in Finder"
+                subtitle={formatFriendlyDateTime(record.downloadDate)}
+                icon={Icon.Finder}
+                onAction={() => showInFinder(record.filePath as string)}
+              />
+              <MenuBarExtra.Item
+                title="View App Details"
+                icon={Icon.Info}
+                onAction={() => openAppDetails(record.app)}
+              />
+            </MenuBarExtra.Submenu>
+          ))}
+        </MenuBarExtra.Section>
+      )}
+
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          title="Open Download Queue"
+          icon={Icon.List}
+          onAction={() => openCommand("download-queue")}
+        />
+        <MenuBarExtra.Item
+          title="Open Download History"
+          icon={Icon.Clock}
+          onAction={() => openCommand("download-history")}
+        />
+        <MenuBarExtra.Item
+          title="Check for Updates Now"
+          subtitle={lastCheckedAt ? `last ${formatFriendlyDateTime(lastCheckedAt)}` : undefined}
+          icon={Icon.ArrowClockwise}
+          onAction={() => openCommand("check-for-updates")}
+        />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
@@ -1,22 +1,32 @@
 import { useMemo, useState } from "react";
-import { Action, ActionPanel, Icon, Image, Keyboard, List } from "@raycast/api";
+import { Action, ActionPanel, Color, Icon, Image, Keyboard, List } from "@raycast/api";
 import { useFrecencySorting } from "@raycast/utils";
 import { AppActionPanelContent } from "./components/app-action-panel";
 import { ExportActions } from "./components/export-actions";
+import { AcquireLicensesForm } from "./components/forms";
 import { useAppDownload, useDownloadHistory, useFavoriteApps } from "./hooks";
 import { useAuthNavigation } from "./hooks/use-auth-navigation";
 import type { FavoriteApp } from "./hooks/use-favorite-apps";
+import { isFreeApp } from "./ipatool";
 import { formatFriendlyDateTime } from "./utils/formatting";
+import { getStorefrontName, resolveStorefront } from "./utils/storefronts";
 
 type SortOption = "frecency" | "alphabetical" | "newest" | "oldest" | "mostDownloaded" | "leastDownloaded";
 
+// Entries store the storefront beside the app; put it back on the app so
+// downloads, details and App Store links resolve against the same store.
+function withStoredStorefront(item: FavoriteApp) {
+  return item.storefront && !item.app.storefront ? { ...item.app, storefront: item.storefront } : item.app;
+}
+
 export default function Favorites() {
   const [sortBy, setSortBy] = useState<SortOption>("frecency");
 
   const authNavigation = useAuthNavigation();
-  const { downloadAppDetails } = useAppDownload(authNavigation);
-  const { favoriteApps, clearFavorites, isLoading, addFavorite, removeFavorite } = useFavoriteApps();
+  const { downloadAppDetails, queueDownloads } = useAppDownload(authNavigation);
+  const { favoriteApps, clearFavorites, isLoading, addFavorite, removeFavorite, toggleAutoArchive } = useFavoriteApps();
   const { getDownloadCount } = useDownloadHistory();
+  const defaultStorefront = useMemo(() => resolveStorefront(), []);
 
   // Use frecency sorting
   const { data: frecencySortedApps, visitItem } = useFrecencySorting(favoriteApps, {
@@ -53,9 +63,33 @@ export default function Favorites() {
     return sorted;
   }, [sortBy, frecencySortedApps, favoriteApps, getDownloadCount]);
 
+  // Queue every favorite in the order shown, so the top of the list downloads first
+  const downloadAllAction = (
+    <Action
+      title="Download All Favorites"
+      icon={Icon.Download}
+      onAction={() => queueDownloads(sortedApps.map((item) => withStoredStorefront(item)))}
+      shortcut={{ modifiers: ["cmd", "opt"], key: "d" }}
+    />
+  );
+
+  // Every free favorite starts selected; the form lets some be dropped
+  const acquireLicensesAction = (
+    <Action.Push
+      title="Acquire Licenses…"
+      icon={Icon.Receipt}
+      target={
+        <AcquireLicensesForm
+          initialBundleIds={favoriteApps.filter((item) => isFreeApp(item.app.price)).map((item) => item.app.bundleId)}
+        />
+      }
+      shortcut={{ modifiers: ["cmd", "opt"], key: "l" }}
+    />
+  );
+
   // Render a favorite app item
   const renderFavoriteItem = (item: FavoriteApp, index: number) => {
-    const app = item.app;
+    const app = withStoredStorefront(item);
     const iconUrl = app.iconUrl;
     const downloadCount = getDownloadCount(app.bundleId);
 
@@ -73,6 +107,21 @@ export default function Favorites() {
       accessories.push({ text: formatFriendlyDateTime(item.favoritedDate), tooltip: "Favorited on" });
     }
 
+    if (item.autoArchive) {
+      accessories.unshift({
+        icon: { source: Icon.Box, tintColor: Color.Blue },
+        tooltip: "Auto-archive: new versions are downloaded by Check for App Updates",
+      });
+    }
+
+    // Only call out the storefront when it isn't the one the user normally browses
+    if (item.storefront && item.storefront !== defaultStorefront) {
+      accessories.unshift({
+        tag: item.storefront.toUpperCase(),
+        tooltip: `Storefront: ${getStorefrontName(item.storefront)}`,
+      });
+    }
+
     return (
       <List.Item
         key={`${app.bundleId}-${index}`}
@@ -97,8 +146,18 @@ export default function Favorites() {
               onAddFavorite={addFavorite}
               onRemoveFavorite={removeFavorite}
             />
+            <ActionPanel.Section>
+              <Action
+                title={item.autoArchive ? "Stop Auto-Archiving" : "Auto-Archive New Versions"}
+                icon={Icon.Box}
+                onAction={() => toggleAutoArchive(app.bundleId)}
+                shortcut={{ modifiers: ["cmd", "opt"], key: "r" }}
+              />
+            </ActionPanel.Section>
             <ExportActions />
             <ActionPanel.Section>
+              {downloadAllAction}
+              {acquireLicensesAction}
               <Action
                 title="Clear All Favorites"
                 onAction={clearFavorites}
@@ -132,6 +191,8 @@ export default function Favorites() {
           <ActionPanel>
             <ExportActions />
             <ActionPanel.Section>
+              {downloadAllAction}
+              {acquireLicensesAction}
               <Action
                 title="Clear All Favorites"
                 onAction={clearFavorites}
@@ -8,3 +8,15 @@ export * from "./use-favorite-apps";
 export * from "./use-download-history";
 export * from "./use-latest-versions";
 export * from "./use-version-accessories";
+export * from "./use-app-versions";
+export * from "./use-download-queue";
+export * from "./use-ipa-inspection";
+export * from "./use-executable-analysis";
+export * from "./use-ipa-library";
+export * from "./use-retention";
+export * from "./use-app-updates";
+export * from "./use-license-acquisition";
+export * from "./use-account-profiles";
+export * from "./use-auth-session";
+export * from "./use-diagnostics";
+export * from "./use-genre-apps";
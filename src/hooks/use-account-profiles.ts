@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useState } from "react";
+import { showToast, Toast } from "@raycast/api";
+import {
+  deleteAccountProfile,
+  getAccountProfiles,
+  saveAccountProfile,
+  switchToAccountProfile,
+  type AccountProfile,
+  type AccountProfileInput,
+} from "../utils/account-profiles";
+import { getAppleIdFromStorage, Needs2FAError, NeedsLoginError } from "../utils/auth";
+import { getStorefrontName } from "../utils/storefronts";
+
+interface UseAccountProfilesResult {
+  profiles: AccountProfile[];
+  /** Apple ID ipatool is signed in with, as stored by auth.ts */
+  activeEmail?: string;
+  isLoading: boolean;
+  saveProfile: (input: AccountProfileInput, options?: { previousEmail?: string; password?: string }) => Promise<void>;
+  deleteProfile: (profile: AccountProfile) => Promise<void>;
+  /**
+   * Sign in as the profile's Apple ID
+   * @returns What signing in still needs from the user, or null once signed in
+   */
+  switchTo: (profile: AccountProfile) => Promise<"login" | "2fa" | null>;
+  /** Re-read profiles and the signed-in Apple ID, e.g. after the login form */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for managing saved Apple ID profiles and switching between them
+ */
+export function useAccountProfiles(): UseAccountProfilesResult {
+  const [profiles, setProfiles] = useState<AccountProfile[]>([]);
+  const [activeEmail, setActiveEmail] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [stored, appleId] = await Promise.all([getAccountProfiles(), getAppleIdFromStorage()]);
+      setProfiles(stored);
+      setActiveEmail(appleId);
+    } catch (error) {
+      console.error("Error loading account profiles:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const saveProfile = useCallback(
+    async (input: AccountProfileInput, options?: { previousEmail?: string; password?: string }) => {
+      try {
+        const profile = await saveAccountProfile(input, options);
+        await refresh();
+        await showToast({ style: Toast.Style.Success, title: "Profile Saved", message: profile.name });
+      } catch (error) {
+        console.error("Error saving account profile:", error);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to Save Profile",
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    },
+    [refresh],
+  );
+
+  const deleteProfile = useCallback(
+    async (profile: AccountProfile) => {
+      try {
+        await deleteAccountProfile(profile.email);
+        await refresh();
+        await showToast({ style: Toast.Style.Success, title: "Profile Deleted", message: profile.name });
+      } catch (error) {
+        console.error("Error deleting account profile:", error);
+        await showToast({ style: Toast.Style.Failure, title: "Failed to Delete Profile" });
+      }
+    },
+    [refresh],
+  );
+
+  const switchTo = useCallback(
+    async (profile: AccountProfile): Promise<"login" | "2fa" | null> => {
+      const toast = await showToast({ style: Toast.Style.Animated, title: `Switching to ${profile.name}` });
+      try {
+        await switchToAccountProfile(profile);
+        toast.style = Toast.Style.Success;
+        toast.title = `Signed In as ${profile.name}`;
+        toast.message = profile.storefront ? `Storefront: ${getStorefrontName(profile.storefront)}` : profile.email;
+        return null;
+      } catch (error) {
+        if (error instanceof NeedsLoginError || error instanceof Needs2FAError) {
+          await toast.hide();
+          return error instanceof Needs2FAError ? "2fa" : "login";
+        }
+        console.error("Error switching account:", error);
+        toast.style = Toast.Style.Failure;
+        toast.title = "Failed to Switch Account";
+        toast.message = error instanceof Error ? error.message : String(error);
+        return null;
+      } finally {
+        await refresh();
+      }
+    },
+    [refresh],
+  );
+
+  return { profiles, activeEmail, isLoading, saveProfile, deleteProfile, switchTo, refresh };
+}
@@ -1,28 +1,47 @@
 import { logger } from "@chrismessina/raycast-logger";
 import { useState } from "react";
-import { Clipboard, showHUD, showInFinder, showToast, Toast } from "@raycast/api";
-import { checkForExistingDownload, downloadApp } from "../ipatool";
+import { Clipboard, launchCommand, LaunchType, showHUD, showInFinder, showToast, Toast } from "@raycast/api";
+import { checkForExistingDownload, downloadApp, type FileNameDetails } from "../ipatool";
 import type { AppDetails } from "../types";
+import { getActiveAccountProfile } from "../utils/account-profiles";
 import {
   BuiltInAppError,
+  DownloadCancelledError,
   ensureAuthenticated,
+  getAppleIdFromStorage,
   Needs2FAError,
   NeedsLoginError,
   NotYetReleasedError,
 } from "../utils/auth";
+import { checkSessionBeforeBatch } from "../utils/auth-session";
+import {
+  enqueueDownloads,
+  failDownloadsAwaitingAuth,
+  getDownloadQueue,
+  holdDownloadQueueForSignIn,
+  isDownloadQueued,
+  markQueuedDownloadAwaitingAuth,
+  processDownloadQueue,
+  reportQueuedDownloadProgress,
+  settleQueuedDownload,
+  waitForQueuedDownload,
+  type DownloadQueueItem,
+} from "../utils/download-queue";
+import { formatDownloadProgress } from "../utils/download-stats";
 import { handleAuthError, handleDownloadError } from "../utils/error-handler";
 import { analyzeIpatoolError, type IpatoolErrorInfo } from "../utils/ipatool-error-patterns";
-import { IpatoolSetupError } from "../utils/ipatool-validator";
+import { getIpatoolVersion, IpatoolSetupError } from "../utils/ipatool-validator";
+import { resolveStorefront } from "../utils/storefronts";
 import { AuthNavigationHelpers } from "./use-auth-navigation";
 import { useDownloadHistory } from "./use-download-history";
 
-// Global download state to prevent concurrent downloads across all hook instances
-const globalDownloadState = {
-  isAuthenticating: false,
-  isDownloading: false,
-  currentApp: null as string | null,
-  activeOpId: null as string | null,
-};
+// What one pass through the download flow leaves for the queue. A pass that
+// pushed the sign-in form leaves its item active: the pass resumed after
+// sign-in settles it. Any other pass settles it on the way out.
+interface DownloadAttempt {
+  awaitingAuth: boolean;
+  failureMessage?: string;
+}
 
 // Tracks how many times the sign-in form has been completed within a single
 // download operation. ipatool's `unsupported protocol scheme` purchase failure
@@ -51,78 +70,85 @@ const ERROR_TYPE_TITLES: Partial<Record<IpatoolErrorInfo["errorType"], string>>
   account_restriction: "Account Restricted",
 };
 
+const openDownloadQueueAction: Toast.ActionOptions = {
+  title: "Open Download Queue",
+  onAction: () => launchCommand({ name: "download-queue", type: LaunchType.UserInitiated }),
+};
+
+/**
+ * The sign-in form a download parked on was closed without signing in. The
+ * parked downloads fail (they can be retried from the queue) instead of
+ * holding the queue until they are removed by hand.
+ */
+async function abandonQueuedSignIn(): Promise<void> {
+  const failedIds = await failDownloadsAwaitingAuth("Sign-in was cancelled");
+  failedIds.forEach((id) => authAttemptsByOp.delete(id));
+  if (failedIds.length > 0) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Sign-In Cancelled",
+      message: `${failedIds.length} download${failedIds.length === 1 ? "" : "s"} stopped`,
+      primaryAction: openDownloadQueueAction,
+    });
+  }
+}
+
 /**
  * Hook for downloading an app
- * @param authNavigation Optional auth navigation helpers for form redirects
+ * @param navigation Optional auth navigation helpers for form redirects
  * @returns Object with download function and loading state
  */
-export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
-  const [isLoading, setIsLoading] = useState(globalDownloadState.isDownloading || globalDownloadState.isAuthenticating);
-  const [currentDownload, setCurrentDownload] = useState<string | null>(globalDownloadState.currentApp);
-  const { addToHistory } = useDownloadHistory();
+export function useAppDownload(navigation?: AuthNavigationHelpers) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [currentDownload, setCurrentDownload] = useState<string | null>(null);
+  const { addToHistory, recordCancelledDownload } = useDownloadHistory();
+
+  // Every sign-in form pushed for a queued download releases the queue if it is dismissed
+  const authNavigation: AuthNavigationHelpers | undefined = navigation && {
+    ...navigation,
+    pushLoginForm: (onSuccess) => navigation.pushLoginForm(onSuccess, abandonQueuedSignIn),
+    push2FAForm: (onSuccess) => navigation.push2FAForm(onSuccess, abandonQueuedSignIn),
+  };
 
   /**
-   * Download an app using ipatool
-   * @param bundleId The bundle ID of the app to download
-   * @param name The name of the app
-   * @param version The version of the app
-   * @param price The price of the app
+   * One pass of the download flow for a queue item: pre-checks, sign-in,
+   * overwrite prompt, ipatool, history, and the user-facing outcome
+   * @param item The queue item; its ID doubles as the operation ID
+   * @param attempt Filled in with what the queue needs to settle the item
    * @param showHudMessages Whether to show HUD messages during download
-   * @param appDetails Full app details for history recording
    * @returns The path to the downloaded file or undefined if download failed
    */
-  const handleDownload = async (
-    bundleId: string,
-    name: string,
-    version: string,
-    price: string,
+  const attemptDownload = async (
+    item: DownloadQueueItem,
+    attempt: DownloadAttempt,
     showHudMessages = true,
-    opId?: string,
-    expectedSizeBytes?: number,
-    appDetails?: AppDetails,
   ): Promise<string | null | undefined> => {
-    // Generate or reuse an operation ID for this logical download flow
-    const operationId = opId ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-
-    // Concurrency gate: block other requests while authenticating or downloading
-    if (globalDownloadState.activeOpId && globalDownloadState.activeOpId !== operationId) {
-      if (globalDownloadState.isAuthenticating) {
-        logger.log(
-          `[useAppDownload] Authentication in progress for ${globalDownloadState.currentApp}. Blocking new request for ${name}.`,
-        );
-        // Avoid showing HUD/toast here to prevent premature window closure or noisy errors
-        return undefined;
-      }
-      if (globalDownloadState.isDownloading) {
-        logger.log(
-          `[useAppDownload] Download in progress for ${globalDownloadState.currentApp}. Blocking new request for ${name}.`,
-        );
-        return undefined;
-      }
-    }
-
-    // Acquire lock if this is a new operation
-    if (!globalDownloadState.activeOpId) {
-      globalDownloadState.activeOpId = operationId;
-      globalDownloadState.currentApp = name;
-      globalDownloadState.isAuthenticating = true;
-    }
+    const { id: operationId, app: appDetails, externalVersionId } = item;
+    const { bundleId, name, version, price } = appDetails;
+    const expectedSizeBytes = appDetails.fileSizeBytes;
+    const fileNameDetails: FileNameDetails = {
+      trackId: appDetails.id || undefined,
+      developer: appDetails.sellerName || appDetails.artistName || undefined,
+      storefront: resolveStorefront(appDetails.storefront),
+    };
 
     // Update local state
     setIsLoading(true);
     setCurrentDownload(name);
 
-    let releaseLock = true;
     let progressToast: Toast | undefined;
 
-    // Single closure used by every "resume after auth" callback below. Capturing
-    // the full call shape here (including expectedSizeBytes + appDetails) is the
-    // forcing function: when handleDownload gains another parameter, exactly one
-    // place needs to know about it. The five retry sites used to each repeat the
-    // 8-arg call by hand, which is how appDetails went missing on resumes until
-    // we noticed and threaded it through.
-    const resumeDownload = () =>
-      handleDownload(bundleId, name, version, price, showHudMessages, operationId, expectedSizeBytes, appDetails);
+    // Single closure used by every "resume after auth" callback below. The
+    // queue item carries the whole call shape (app details, pinned version),
+    // so nothing can go missing between the first pass and the resumed one.
+    // An item removed from the queue while the form was up stays cancelled.
+    const resumeDownload = async () => {
+      if (!(await isDownloadQueued(operationId))) {
+        logger.log(`[useAppDownload] ${name} (${bundleId}) left the queue during sign-in; not resuming.`);
+        return;
+      }
+      await handleDownload(item, showHudMessages);
+    };
 
     try {
       // Pre-release / Coming Soon check.
@@ -168,14 +194,10 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
         const authenticated = await ensureAuthenticated();
         if (!authenticated) {
           logger.log(`[useAppDownload] Pre-authentication did not complete for ${name} (${bundleId})`);
+          attempt.failureMessage = "Not signed in to the App Store";
           return undefined;
         }
         logger.log(`[useAppDownload] Pre-authentication OK for ${name} (${bundleId})`);
-        // Transition to downloading phase for this operation
-        if (globalDownloadState.activeOpId === operationId) {
-          globalDownloadState.isAuthenticating = false;
-          globalDownloadState.isDownloading = true;
-        }
       } catch (error) {
         if (error instanceof NeedsLoginError || error instanceof Needs2FAError) {
           logger.log(
@@ -183,8 +205,9 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
           );
 
           if (authNavigation) {
-            // Keep the global lock while we wait for the inline auth flow to complete
-            releaseLock = false;
+            // Keep the item active while we wait for the inline auth flow to complete
+            attempt.awaitingAuth = true;
+            markQueuedDownloadAwaitingAuth(operationId);
             if (error instanceof NeedsLoginError) {
               logger.log(`[useAppDownload] Pushing Login form for ${name} (${bundleId})`);
               authNavigation.pushLoginForm?.(async () => {
@@ -200,8 +223,11 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
                   const info = analyzeIpatoolError(msg);
                   if (info.isAuthError) {
                     logger.error(`[useAppDownload] Authentication failed after login:`, authError);
+                    await settleQueuedDownload(operationId, undefined, info.userMessage);
                   } else {
                     logger.error(`[useAppDownload] Download retry after login failed:`, authError);
+                    // Still parked on the sign-in form as far as the queue knows; fail it so the rest can start
+                    await settleQueuedDownload(operationId, undefined, info.userMessage || msg);
                   }
                 }
               });
@@ -220,8 +246,10 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
                   const info = analyzeIpatoolError(msg);
                   if (info.isAuthError) {
                     logger.error(`[useAppDownload] Authentication failed after 2FA:`, authError);
+                    await settleQueuedDownload(operationId, undefined, info.userMessage);
                   } else {
                     logger.error(`[useAppDownload] Download retry after 2FA failed:`, authError);
+                    await settleQueuedDownload(operationId, undefined, info.userMessage || msg);
                   }
                 }
               });
@@ -232,6 +260,7 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
               `[useAppDownload] No authNavigation available. Delegating to handleAuthError with preferences option.`,
             );
             await handleAuthError(error, false, true);
+            attempt.failureMessage = "Sign in to your Apple ID to download";
           }
 
           return undefined;
@@ -243,7 +272,7 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
       // Check for an existing IPA in the downloads directory and prompt for
       // overwrite BEFORE showing any progress UI. If the user cancels here, we
       // return early without ever pretending a download started.
-      const existing = await checkForExistingDownload(bundleId, name, version);
+      const existing = await checkForExistingDownload(bundleId, name, version, fileNameDetails);
       if (existing.kind === "skipped") {
         logger.log(`[useAppDownload] User skipped download for ${name} (${bundleId}); existing file kept.`);
         if (showHudMessages) {
@@ -256,36 +285,62 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
         return null;
       }
 
-      // Create a toast for progress tracking (similar to video downloader)
+      // Create a toast for progress tracking (similar to video downloader).
+      // Pinned downloads name the version so they aren't mistaken for the latest.
+      const downloadLabel = externalVersionId ? `${name} ${version}` : name;
+      // Name the account profile in the toast when one is active, to make clear which Apple ID is used
+      const accountProfile = (await getActiveAccountProfile())?.name;
+      const accountPrefix = accountProfile ? `${accountProfile} · ` : "";
+      const cancelController = new AbortController();
       if (showHudMessages) {
         if (authNavigation) {
           logger.log(
-            `[useAppDownload] Showing Toast (animated): "Downloading ${name}..." (avoid HUD to keep view open)`,
+            `[useAppDownload] Showing Toast (animated): "Downloading ${downloadLabel}..." (avoid HUD to keep view open)`,
           );
           progressToast = await showToast({
             style: Toast.Style.Animated,
-            title: `Downloading ${name}...`,
-            message: "0%",
+            title: `Downloading ${downloadLabel}...`,
+            message: `${accountPrefix}0%`,
+            primaryAction: {
+              title: "Cancel Download",
+              shortcut: { modifiers: ["cmd"], key: "." },
+              onAction: () => cancelController.abort(),
+            },
           });
         } else {
-          logger.log(`[useAppDownload] Showing HUD: "Downloading ${name}..."`);
-          await showHUD(`Downloading ${name}...`);
+          logger.log(`[useAppDownload] Showing HUD: "Downloading ${downloadLabel}..."`);
+          await showHUD(`Downloading ${downloadLabel}...`);
         }
       }
 
-      const filePath = await downloadApp(bundleId, name, version, price, 0, undefined, {
-        suppressHUD: Boolean(authNavigation),
-        onProgress: progressToast
-          ? (progress: number) => {
-              const percentage = Math.floor(progress * 100);
-              if (progressToast) {
-                progressToast.message = `${percentage}%`;
+      let sha256: string | undefined;
+      const downloadStartedAt = Date.now();
+      let filePath: string | null | undefined;
+      try {
+        filePath = await downloadApp(bundleId, name, version, price, 0, undefined, {
+          suppressHUD: Boolean(authNavigation),
+          onProgress: progressToast
+            ? (progress, details) => {
+                const message = formatDownloadProgress(details);
+                if (progressToast) {
+                  progressToast.message = `${accountPrefix}${message}`;
+                }
+                logger.log(`[useAppDownload] Download progress: ${message}`);
+                reportQueuedDownloadProgress(operationId, progress, details);
               }
-              logger.log(`[useAppDownload] Download progress: ${percentage}%`);
-            }
-          : undefined,
-        expectedSizeBytes,
-      });
+            : (progress, details) => reportQueuedDownloadProgress(operationId, progress, details),
+          expectedSizeBytes,
+          externalVersionId,
+          onChecksum: (digest) => {
+            sha256 = digest;
+          },
+          fileNameDetails,
+          signal: cancelController.signal,
+        });
+      } finally {
+        // Nothing left to cancel once ipatool has stopped
+        if (progressToast) progressToast.primaryAction = undefined;
+      }
 
       if (filePath) {
         // Verify file actually exists before showing success
@@ -294,7 +349,17 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
           // Add to download history if app details are available
           if (appDetails) {
             try {
-              await addToHistory(appDetails, filePath);
+              const durationMs = Date.now() - downloadStartedAt;
+              const [appleId, ipatoolVersion] = await Promise.all([getAppleIdFromStorage(), getIpatoolVersion()]);
+              await addToHistory(appDetails, filePath, {
+                externalVersionId,
+                sha256,
+                fileSizeBytes: fs.statSync(filePath).size,
+                durationMs,
+                appleId,
+                accountProfile,
+                ipatoolVersion,
+              });
             } catch (error) {
               console.error("Error adding to download history:", error);
             }
@@ -311,7 +376,7 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
           if (progressToast) {
             progressToast.style = Toast.Style.Success;
             progressToast.title = "Download Complete";
-            progressToast.message = name;
+            progressToast.message = `${accountPrefix}${name}`;
             progressToast.primaryAction = {
               title: "Show in Finder",
               shortcut: { modifiers: ["cmd"], key: "o" },
@@ -362,6 +427,7 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
             await showHUD("Download Failed");
           }
 
+          attempt.failureMessage = "File not found at expected path";
           await handleDownloadError(
             new Error(`File not found at expected path: ${filePath}`),
             "verify downloaded file",
@@ -390,10 +456,24 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
           await showHUD("Download Failed");
         }
 
+        attempt.failureMessage = "Could not determine file path";
         await handleDownloadError(new Error("Could not determine file path"), "determine file path", "download");
         return undefined;
       }
     } catch (error) {
+      // Cancelled from the progress toast: ipatool is stopped and the partial
+      // file gone. Returning null takes the item out of the queue, freeing its slot.
+      if (error instanceof DownloadCancelledError) {
+        logger.log(`[useAppDownload] Download of ${name} (${bundleId}) cancelled by the user`);
+        await recordCancelledDownload(appDetails);
+        if (progressToast) {
+          progressToast.style = Toast.Style.Success;
+          progressToast.title = "Download Cancelled";
+          progressToast.message = name;
+        }
+        return null;
+      }
+
       // Pre-release / Coming Soon caught from ipatool. Typed error carries the
       // classification across the boundary so we don't have to re-parse a
       // wrapped string. Surface a clean "Not Released Yet" toast and stop —
@@ -430,6 +510,7 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
 
       if (error instanceof IpatoolSetupError) {
         logger.log(`[useAppDownload] ipatool setup failed for ${name} (${bundleId}): ${error.message}`);
+        attempt.failureMessage = error.message;
         if (progressToast) {
           progressToast.style = Toast.Style.Failure;
           progressToast.title = error.title;
@@ -450,6 +531,7 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
           logger.error(
             `[useAppDownload] Auth error persists after re-login for ${name} (${bundleId}); not re-prompting.`,
           );
+          attempt.failureMessage = "Apple rejected the request even though you're signed in";
           if (progressToast) {
             progressToast.style = Toast.Style.Failure;
             progressToast.title = "Could Not Download";
@@ -468,8 +550,9 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
         );
 
         if (authNavigation) {
-          // Keep the lock while waiting for inline auth flow
-          releaseLock = false;
+          // Keep the item active while waiting for inline auth flow
+          attempt.awaitingAuth = true;
+          markQueuedDownloadAwaitingAuth(operationId);
           // Let the form flow handle authentication
           if (error instanceof NeedsLoginError) {
             logger.log(`[useAppDownload] Pushing Login form (catch) for ${name} (${bundleId})`);
@@ -487,8 +570,10 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
                 const info = analyzeIpatoolError(msg);
                 if (info.isAuthError) {
                   logger.error(`[useAppDownload] Authentication failed after login (catch):`, authError);
+                  await settleQueuedDownload(operationId, undefined, info.userMessage);
                 } else {
                   logger.error(`[useAppDownload] Download retry after login failed (catch):`, authError);
+                  await settleQueuedDownload(operationId, undefined, info.userMessage || msg);
                 }
               }
             });
@@ -508,8 +593,10 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
                 const info = analyzeIpatoolError(msg);
                 if (info.isAuthError) {
                   logger.error(`[useAppDownload] Authentication failed after 2FA (catch):`, authError);
+                  await settleQueuedDownload(operationId, undefined, info.userMessage);
                 } else {
                   logger.error(`[useAppDownload] Download retry after 2FA failed (catch):`, authError);
+                  await settleQueuedDownload(operationId, undefined, info.userMessage || msg);
                 }
               }
             });
@@ -520,6 +607,7 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
             `[useAppDownload] No authNavigation available (catch). Delegating to handleAuthError with preferences option.`,
           );
           await handleAuthError(error, false, true);
+          attempt.failureMessage = "Sign in to your Apple ID to download";
         }
 
         return undefined;
@@ -554,9 +642,12 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
         logger.log(
           `[useAppDownload] Non-specific auth error detected. Routing via handleAuthError with potential form navigation.`,
         );
-        // Keep the global lock while waiting for inline auth flow via handler
+        // Keep the item active while waiting for inline auth flow via handler
         if (authNavigation) {
-          releaseLock = false;
+          attempt.awaitingAuth = true;
+          markQueuedDownloadAwaitingAuth(operationId);
+        } else {
+          attempt.failureMessage = errorAnalysis.userMessage;
         }
         await handleAuthError(
           new Error(errorAnalysis.userMessage),
@@ -578,47 +669,175 @@ export function useAppDownload(authNavigation?: AuthNavigationHelpers) {
         logger.log(
           `[useAppDownload] General download error handled. userMessage="${errorAnalysis.userMessage}" type=${errorAnalysis.errorType}`,
         );
+        attempt.failureMessage = errorAnalysis.userMessage;
         await handleDownloadError(new Error(errorAnalysis.userMessage), "download app", "download", false);
       }
 
       return undefined;
     } finally {
-      logger.log(`[useAppDownload] Cleaning up global/local download state for ${name} (${bundleId})`);
-      // Release the global lock only if this operation owns it and we're not waiting on auth UI
-      if (globalDownloadState.activeOpId === operationId && releaseLock) {
-        globalDownloadState.isAuthenticating = false;
-        globalDownloadState.isDownloading = false;
-        globalDownloadState.currentApp = null;
-        globalDownloadState.activeOpId = null;
-        // Operation is fully finished — forget its auth-attempt count.
-        authAttemptsByOp.delete(operationId);
-      }
-
+      logger.log(`[useAppDownload] Cleaning up local download state for ${name} (${bundleId})`);
       // Update local state
       setIsLoading(false);
       setCurrentDownload(null);
     }
   };
 
+  /**
+   * Run one pass for a queue item and settle it, unless the pass is waiting
+   * on the sign-in form (the resumed pass settles it then)
+   * @param item The queue item
+   * @param showHudMessages Whether to show HUD messages during download
+   * @returns The path to the downloaded file or undefined if download failed
+   */
+  const handleDownload = async (
+    item: DownloadQueueItem,
+    showHudMessages = true,
+  ): Promise<string | null | undefined> => {
+    const attempt: DownloadAttempt = { awaitingAuth: false };
+    const result = await attemptDownload(item, attempt, showHudMessages);
+    if (!attempt.awaitingAuth) {
+      // Operation is fully finished — forget its auth-attempt count.
+      authAttemptsByOp.delete(item.id);
+      await settleQueuedDownload(item.id, result, attempt.failureMessage);
+    }
+    return result;
+  };
+
+  // Queue executor: resolves once the item is settled, so a download parked on
+  // the sign-in form keeps its concurrency slot
+  const runQueueItem = async (item: DownloadQueueItem): Promise<void> => {
+    const settled = waitForQueuedDownload(item.id);
+    await handleDownload(item);
+    await settled;
+  };
+
+  /**
+   * Start whatever is pending in the persisted queue, including items left
+   * over from a command that was closed before they ran. With more than one
+   * pending, the session is checked first so an expired one asks for sign-in
+   * once instead of once per download.
+   */
+  const resumeQueue = async () => {
+    if (navigation) {
+      const pending = (await getDownloadQueue()).filter((item) => item.status === "pending").length;
+      const need = pending > 1 ? await checkSessionBeforeBatch() : null;
+      if (need) {
+        logger.log(`[useAppDownload] Holding ${pending} queued downloads until sign-in (${need})`);
+        holdDownloadQueueForSignIn(true);
+        const onSignedIn = () => {
+          holdDownloadQueueForSignIn(false);
+          processDownloadQueue(runQueueItem);
+        };
+        // Nothing in the batch has started; it stays pending for the next time the queue is opened
+        const onCancel = () => {
+          logger.log(`[useAppDownload] Sign-in dismissed; leaving ${pending} queued downloads pending`);
+          holdDownloadQueueForSignIn(false);
+        };
+        try {
+          if (need === "2fa") {
+            navigation.push2FAForm(onSignedIn, onCancel);
+          } else {
+            await navigation.pushLoginForm(onSignedIn, onCancel);
+          }
+        } catch (error) {
+          holdDownloadQueueForSignIn(false);
+          throw error;
+        }
+        return;
+      }
+    }
+    await processDownloadQueue(runQueueItem);
+  };
+
+  /**
+   * Start the queue for items just added to it. If the session check or the
+   * sign-in form throws, any of `items` the queue never picked up fail, so
+   * nothing waiting on them is left hanging.
+   */
+  const startQueueFor = (items: DownloadQueueItem[]) => {
+    resumeQueue().catch(async (error) => {
+      logger.error("[useAppDownload] Could not start the download queue:", error);
+      const message = error instanceof Error ? error.message : String(error);
+      const pendingIds = new Set(
+        (await getDownloadQueue()).filter((item) => item.status === "pending").map((item) => item.id),
+      );
+      for (const item of items) {
+        if (pendingIds.has(item.id)) await settleQueuedDownload(item.id, undefined, message);
+      }
+    });
+  };
+
   /**
    * Download an app from its full AppDetails record.
    *
-   * The only download entry point exposed to views. The positional
-   * `handleDownload` above stays internal because spelling out its eight
-   * arguments at each call site is how `fileSizeBytes` (the pre-release size
-   * gate and integrity check) or the trailing `appDetails` (download-history
-   * recording) got silently dropped from one of them. Pass a modified copy to
-   * override a field — download history does that to fetch a version newer
-   * than the stored one.
+   * The only download entry point exposed to views. Every download goes
+   * through the persistent queue, so a second request while one is running
+   * waits its turn instead of being dropped. The queue item stores the whole
+   * AppDetails record: `fileSizeBytes` (the pre-release size gate and
+   * integrity check) and the history record both come from it. Pass a
+   * modified copy to override a field — download history does that to fetch
+   * a version newer than the stored one.
    *
    * @param app The app to download
+   * @param options.externalVersionId Download this older build; `app.version` should carry its version string
    * @returns The path to the downloaded file, or null/undefined on failure
    */
-  const downloadAppDetails = (app: AppDetails): Promise<string | null | undefined> =>
-    handleDownload(app.bundleId, app.name, app.version, app.price, true, undefined, app.fileSizeBytes, app);
+  const downloadAppDetails = async (
+    app: AppDetails,
+    options?: { externalVersionId?: string },
+  ): Promise<string | null | undefined> => {
+    const { queued } = await enqueueDownloads([{ app, externalVersionId: options?.externalVersionId }]);
+    const [item] = queued;
+    if (!item) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Already in Download Queue",
+        message: app.name,
+        primaryAction: openDownloadQueueAction,
+      });
+      return null;
+    }
+
+    const queue = await getDownloadQueue();
+    const position = queue.findIndex((queuedItem) => queuedItem.id === item.id);
+    const ahead = queue
+      .slice(0, position)
+      .filter((queuedItem) => queuedItem.status === "pending" || queuedItem.status === "active").length;
+    if (ahead > 0) {
+      logger.log(`[useAppDownload] Queued ${app.name} (${app.bundleId}) behind ${ahead} download(s)`);
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Added to Download Queue",
+        message: `${app.name} — ${ahead} ahead`,
+        primaryAction: openDownloadQueueAction,
+      });
+    }
+
+    const result = waitForQueuedDownload(item.id);
+    startQueueFor([item]);
+    return result;
+  };
+
+  /**
+   * Queue several apps at once. Returns as soon as they are queued; progress
+   * and outcomes show in the Download Queue command.
+   * @param apps Apps to download, in order
+   */
+  const queueDownloads = async (apps: AppDetails[]): Promise<void> => {
+    const { queued, alreadyQueued } = await enqueueDownloads(apps.map((app) => ({ app })));
+    await showToast({
+      style: queued.length > 0 ? Toast.Style.Success : Toast.Style.Failure,
+      title: queued.length > 0 ? `Queued ${queued.length} ${queued.length === 1 ? "App" : "Apps"}` : "Nothing to Queue",
+      message: alreadyQueued > 0 ? `${alreadyQueued} already in the queue` : undefined,
+      primaryAction: openDownloadQueueAction,
+    });
+    startQueueFor(queued);
+  };
 
   return {
     downloadAppDetails,
+    queueDownloads,
+    resumeQueue,
     isLoading,
     currentDownload,
   };
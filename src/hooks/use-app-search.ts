@@ -1,24 +1,68 @@
 import { logger } from "@chrismessina/raycast-logger";
 import { debounce } from "lodash";
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { showToast, Toast } from "@raycast/api";
-import type { AppDetails, ITunesResult } from "../types";
+import type { AppDetails } from "../types";
+import { getActiveAccountProfile } from "../utils/account-profiles";
+import { ITUNES_SEARCH_MAX_LIMIT, ITUNES_SEARCH_PAGE_SIZE } from "../utils/constants";
 import {
+  convertIpaToolSearchAppToAppDetails,
   convertITunesResultToAppDetails,
   fetchITunesAppDetails,
   lookupITunesAppById,
-  searchITunesApps,
 } from "../utils/itunes-api";
 import { parseAppQuery } from "../utils/parse-app-query";
+import { matchesSearchFilters, removeSearchFilter, type SearchFilter } from "../utils/search-filters";
+import {
+  itunesSearchSource,
+  searchAppSources,
+  toUnifiedSearchResult,
+  type SearchSourceId,
+  type UnifiedSearchResult,
+} from "../utils/search-sources";
+import { normalizeStorefront, resolveStorefront } from "../utils/storefronts";
 import { useRecentSearches, type RecentSearch } from "./use-recent-searches";
 
+interface SearchPage {
+  term: string;
+  country: string;
+  limit: number;
+  /** How many sources answered the first page; later pages only ask iTunes */
+  sourceCount: number;
+  /** Every result fetched so far, in the order shown, one per app */
+  results: UnifiedSearchResult[];
+}
+
+/**
+ * A short page means Apple has run out of results; a full one may have more,
+ * up to the limit Apple allows
+ */
+function hasMorePages(page: SearchPage, returned = 0): boolean {
+  return returned >= page.limit && page.limit < ITUNES_SEARCH_MAX_LIMIT;
+}
+
 interface UseAppSearchResult {
   apps: AppDetails[];
   isLoading: boolean;
   error: string | null;
   totalResults: number;
+  /** How many results a filtered search fetched before its filters narrowed them, or 0 */
+  unfilteredResults: number;
+  /** Whether scrolling further can fetch more results for the current term */
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  /**
+   * Which sources found each app, keyed by app ID. Empty unless more than one
+   * source searched, since a badge only tells something when sources differ.
+   */
+  resultSources: Record<string, SearchSourceId[]>;
+  filters: SearchFilter[];
+  removeFilter: (filter: SearchFilter) => void;
+  clearFilters: () => void;
   searchText: string;
   setSearchText: (text: string) => void;
+  storefront: string;
+  setStorefront: (storefront: string) => void;
   recentSearches: RecentSearch[];
   clearRecentSearches: () => Promise<void>;
   removeRecentSearch: (query: string) => Promise<void>;
@@ -37,6 +81,35 @@ export function useAppSearch(initialSearchText = "", debounceMs = 500): UseAppSe
   const [apps, setApps] = useState<AppDetails[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [totalResults, setTotalResults] = useState<number>(0);
+  const [unfilteredResults, setUnfilteredResults] = useState<number>(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [resultSources, setResultSources] = useState<Record<string, SearchSourceId[]>>({});
+  // The term search being paged through. Replaced whenever a new search starts,
+  // which is how a page that arrives after the text changed knows to drop itself.
+  const pageRef = useRef<SearchPage | null>(null);
+  // Per-search storefront override, seeded from the preference. Read through a
+  // ref because the debounced search below is created once and would otherwise
+  // keep searching the storefront it was created with.
+  const [storefront, setStorefront] = useState<string>(() => resolveStorefront());
+  const storefrontRef = useRef(storefront);
+  storefrontRef.current = storefront;
+  // Set once the user picks a storefront, which the profile's must not replace
+  const storefrontChosenRef = useRef(false);
+
+  const chooseStorefront = useCallback((code: string) => {
+    storefrontChosenRef.current = true;
+    setStorefront(code);
+  }, []);
+
+  // A region-specific account profile, when active, seeds its own storefront instead
+  useEffect(() => {
+    getActiveAccountProfile()
+      .then((profile) => {
+        const code = normalizeStorefront(profile?.storefront);
+        if (code && !storefrontChosenRef.current) setStorefront(code);
+      })
+      .catch((error) => logger.error("[Search] Could not read the active account profile:", error));
+  }, []);
 
   // Use the recent searches hook
   const {
@@ -62,8 +135,33 @@ export function useAppSearch(initialSearchText = "", debounceMs = 500): UseAppSe
     });
   };
 
+  // Convert results to AppDetails. iTunes data is already enriched with full
+  // metadata; an app only ipatool found, which the storefront doesn't carry,
+  // shows what ipatool knows.
+  const showResults = (results: UnifiedSearchResult[], country: string, sourceCount = 1) => {
+    const mappedApps = results.flatMap((result) => {
+      if (result.itunes) return [convertITunesResultToAppDetails(result.itunes, { storefront: country })];
+      return result.ipatool ? [convertIpaToolSearchAppToAppDetails(result.ipatool)] : [];
+    });
+
+    // Deduplicate apps by bundleId to prevent duplicate keys in React
+    // Key on `id` when iTunes omits a bundleId — otherwise every partial
+    // record collapses onto the same empty-string key and results vanish.
+    const uniqueApps = Array.from(new Map(mappedApps.map((app) => [app.bundleId || app.id, app])).values());
+
+    logger.log(`[Search] Showing ${uniqueApps.length} app(s) after de-duplicating by bundle ID`);
+    setApps(uniqueApps);
+    setTotalResults(uniqueApps.length);
+    setResultSources(
+      sourceCount > 1 ? Object.fromEntries(results.map((result) => [String(result.trackId), result.sources])) : {},
+    );
+  };
+
   // Define the search function
   const performSearch = async (query: string) => {
+    pageRef.current = null;
+    setHasMore(false);
+    setResultSources({});
     if (!query) {
       setApps([]);
       setError(null);
@@ -72,6 +170,7 @@ export function useAppSearch(initialSearchText = "", debounceMs = 500): UseAppSe
 
     setIsLoading(true);
     setError(null);
+    const country = storefrontRef.current;
 
     try {
       // An App Store URL, track ID, or bundle ID resolves through the exact
@@ -79,15 +178,18 @@ export function useAppSearch(initialSearchText = "", debounceMs = 500): UseAppSe
       // If lookup finds nothing (e.g. a dotted string that only looked like a
       // bundle ID), fall back to a normal term search rather than dead-ending.
       const parsed = parseAppQuery(query);
-      logger.log(`[Search] "${query}" parsed as ${parsed.kind} → "${parsed.value}"`);
-      let itunesResults: ITunesResult[] = [];
+      logger.log(`[Search] "${query}" parsed as ${parsed.kind} → "${parsed.value}" (storefront ${country})`);
+      let searchResults: UnifiedSearchResult[] = [];
+      let sourceCount = 1;
+      const isLookup = parsed.kind === "trackId" || parsed.kind === "bundleId";
+      setUnfilteredResults(0);
 
-      if (parsed.kind !== "term") {
+      if (isLookup) {
         const app =
           parsed.kind === "trackId"
-            ? await lookupITunesAppById(parsed.value)
-            : await fetchITunesAppDetails(parsed.value);
-        itunesResults = app ? [app] : [];
+            ? await lookupITunesAppById(parsed.value, country)
+            : await fetchITunesAppDetails(parsed.value, country);
+        searchResults = app ? [toUnifiedSearchResult(app)] : [];
         logger.log(
           `[Search] ${parsed.kind} lookup for ${parsed.value}: ${app ? `matched "${app.trackName}"` : "no match"}`,
         );
@@ -99,32 +201,56 @@ export function useAppSearch(initialSearchText = "", debounceMs = 500): UseAppSe
       // like a bundle ID.
       const canFallBackToTermSearch = parsed.kind !== "trackId" || !parsed.fromUrl;
 
-      if (itunesResults.length === 0 && canFallBackToTermSearch) {
-        if (parsed.kind !== "term") {
+      if (parsed.kind === "filtered") {
+        // A filter on its own still needs something to search for, and the
+        // developer or genre it names is the closest thing to a term
+        const term = parsed.value || parsed.filters.find((f) => f.field === "developer" || f.field === "genre")?.value;
+        if (!term) {
+          setApps([]);
+          setTotalResults(0);
+          setError("Add a search term to go with the filters");
+          return;
+        }
+        // Filters only narrow what comes back, so ask for Apple's maximum page.
+        // Filters read iTunes metadata, so an app without any can't match.
+        const { results, hitCounts } = await searchAppSources(term, {
+          limit: ITUNES_SEARCH_MAX_LIMIT,
+          storefront: country,
+        });
+        searchResults = results.filter(
+          (result) => result.itunes && matchesSearchFilters(result.itunes, parsed.filters),
+        );
+        sourceCount = Object.keys(hitCounts).length;
+        setUnfilteredResults(results.length);
+        logger.log(
+          `[Search] Filtered search for "${term}": ${searchResults.length} of ${results.length} result(s) matched ${parsed.filters.length} filter(s)`,
+        );
+      } else if (searchResults.length === 0 && canFallBackToTermSearch) {
+        if (isLookup) {
           logger.log(`[Search] ${parsed.kind} lookup empty; falling back to term search for "${query}"`);
         }
-        // Search using iTunes API - no authentication required, rich data immediately
-        itunesResults = await searchITunesApps(query.trim(), 20);
-        logger.log(`[Search] Term search for "${query}" returned ${itunesResults.length} result(s)`);
+        // iTunes search needs no Apple ID; ipatool joins in when it's already
+        // signed in and can add apps the account's storefront has
+        const term = query.trim();
+        const { results, hitCounts } = await searchAppSources(term, {
+          limit: ITUNES_SEARCH_PAGE_SIZE,
+          storefront: country,
+        });
+        logger.log(`[Search] Term search for "${query}" returned ${results.length} result(s)`);
+        searchResults = results;
+        sourceCount = Object.keys(hitCounts).length;
+        const page = { term, country, limit: ITUNES_SEARCH_PAGE_SIZE, sourceCount, results };
+        pageRef.current = page;
+        setHasMore(hasMorePages(page, hitCounts.itunes));
       }
 
-      if (itunesResults.length === 0) {
+      if (searchResults.length === 0) {
         setApps([]);
         setTotalResults(0);
         return;
       }
 
-      // Convert iTunes results to AppDetails - already enriched with full metadata
-      const mappedApps = itunesResults.map((result) => convertITunesResultToAppDetails(result));
-
-      // Deduplicate apps by bundleId to prevent duplicate keys in React
-      // Key on `id` when iTunes omits a bundleId — otherwise every partial
-      // record collapses onto the same empty-string key and results vanish.
-      const uniqueApps = Array.from(new Map(mappedApps.map((app) => [app.bundleId || app.id, app])).values());
-
-      logger.log(`[Search] Showing ${uniqueApps.length} app(s) after de-duplicating by bundle ID`);
-      setApps(uniqueApps);
-      setTotalResults(uniqueApps.length);
+      showResults(searchResults, country, sourceCount);
 
       // Only add to recent searches after successful search with results and minimum length
       if (query.length >= 3) {
@@ -137,6 +263,39 @@ export function useAppSearch(initialSearchText = "", debounceMs = 500): UseAppSe
     }
   };
 
+  // Fetch the next page of the current term search when the list scrolls to its end
+  const loadMore = async () => {
+    const page = pageRef.current;
+    if (!page || !hasMore || isLoading) return;
+
+    const limit = Math.min(page.limit + ITUNES_SEARCH_PAGE_SIZE, ITUNES_SEARCH_MAX_LIMIT);
+    setIsLoading(true);
+    try {
+      // Only iTunes pages, so a page spawns no ipatool process and needs no
+      // lookups; the account search already contributed its hits to the first page
+      const { results: merged, hitCounts } = await searchAppSources(
+        page.term,
+        { limit, storefront: page.country, sources: [itunesSearchSource] },
+        page.results,
+      );
+      // The search text or storefront changed while this page was loading
+      if (pageRef.current !== page) return;
+
+      // The results already shown stay put and only the new ones are appended
+      const nextPage = { ...page, limit, results: merged };
+      pageRef.current = nextPage;
+      logger.log(
+        `[Search] Page for "${page.term}" at limit ${limit} added ${merged.length - page.results.length} result(s)`,
+      );
+      setHasMore(merged.length > page.results.length && hasMorePages(nextPage, hitCounts.itunes));
+      showResults(merged, page.country, page.sourceCount);
+    } catch (err) {
+      handleSearchError(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Create a debounced version of the search function that doesn't change on re-renders
   const debouncedSearch = useCallback(
     debounce((query: string) => {
@@ -145,7 +304,15 @@ export function useAppSearch(initialSearchText = "", debounceMs = 500): UseAppSe
     [], // Empty dependency array to ensure stability
   );
 
-  // Update search when text changes
+  const filters = useMemo(() => {
+    const parsed = parseAppQuery(searchText);
+    return parsed.kind === "filtered" ? parsed.filters : [];
+  }, [searchText]);
+
+  const removeFilter = (filter: SearchFilter) => setSearchText((text) => removeSearchFilter(text, filter));
+  const clearFilters = () => setSearchText((text) => filters.reduce(removeSearchFilter, text));
+
+  // Update search when text or storefront changes
   useEffect(() => {
     if (searchText) {
       debouncedSearch(searchText);
@@ -158,15 +325,24 @@ export function useAppSearch(initialSearchText = "", debounceMs = 500): UseAppSe
     return () => {
       debouncedSearch.cancel();
     };
-  }, [searchText, debouncedSearch]);
+  }, [searchText, storefront, debouncedSearch]);
 
   return {
     apps,
     isLoading,
     error,
     totalResults,
+    unfilteredResults,
+    hasMore,
+    loadMore,
+    resultSources,
+    filters,
+    removeFilter,
+    clearFilters,
     searchText,
     setSearchText: (text: string) => setSearchText(text),
+    storefront,
+    setStorefront: chooseStorefront,
     recentSearches,
     clearRecentSearches: clearSearches,
     removeRecentSearch: removeSearch,
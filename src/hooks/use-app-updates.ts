@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from "react";
+import { dismissAppUpdates, getUpdateCheckState, type AppUpdate } from "../utils/update-checker";
+
+interface UseAppUpdatesResult {
+  updates: AppUpdate[];
+  lastCheckedAt?: string;
+  isLoading: boolean;
+  dismissUpdate: (bundleId: string) => Promise<void>;
+  dismissAllUpdates: () => Promise<void>;
+}
+
+/**
+ * Hook for the updates recorded by the Check for App Updates command
+ * @returns Updates not yet dismissed, newest first, and actions to dismiss them
+ */
+export function useAppUpdates(): UseAppUpdatesResult {
+  const [updates, setUpdates] = useState<AppUpdate[]>([]);
+  const [lastCheckedAt, setLastCheckedAt] = useState<string>();
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      const state = await getUpdateCheckState();
+      setUpdates(state.updates);
+      setLastCheckedAt(state.lastCheckedAt);
+    } catch (error) {
+      console.error("Error loading app updates:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const dismissUpdate = useCallback(
+    async (bundleId: string) => {
+      try {
+        await dismissAppUpdates([bundleId]);
+        await load();
+      } catch (error) {
+        console.error("Error dismissing app update:", error);
+      }
+    },
+    [load],
+  );
+
+  const dismissAllUpdates = useCallback(async () => {
+    try {
+      await dismissAppUpdates();
+      await load();
+    } catch (error) {
+      console.error("Error dismissing app updates:", error);
+    }
+  }, [load]);
+
+  return { updates, lastCheckedAt, isLoading, dismissUpdate, dismissAllUpdates };
+}
@@ -0,0 +1,125 @@
+import { logger } from "@chrismessina/raycast-logger";
+import pLimit from "p-limit";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getAppVersionMetadata, listAppVersions, type AppVersionInfo } from "../ipatool";
+
+// Each metadata lookup is a separate ipatool invocation (a few hundred ms to a
+// couple of seconds), so resolve version strings a page at a time instead of
+// fetching metadata for an app's entire history up front.
+export const VERSIONS_PAGE_SIZE = 15;
+const METADATA_CONCURRENCY = 3;
+
+interface UseAppVersionsResult {
+  /** Version IDs loaded so far, newest first, with metadata where it resolved */
+  versions: AppVersionInfo[];
+  /** Total number of version IDs the App Store reported */
+  totalCount: number;
+  isLoading: boolean;
+  error: Error | null;
+  hasMore: boolean;
+  loadMore: () => void;
+  reload: () => void;
+}
+
+/**
+ * Hook for listing the older builds of an app that can still be downloaded
+ * @param bundleId Bundle ID of the app
+ * @param appName App name for logging and messages
+ * @param price App price, used to acquire a license for free apps when listing requires one
+ * @returns Paged version list with load-more and reload controls
+ */
+export function useAppVersions(bundleId: string, appName?: string, price?: string): UseAppVersionsResult {
+  const [versionIds, setVersionIds] = useState<string[]>([]);
+  const [versions, setVersions] = useState<AppVersionInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [reloadTrigger, setReloadTrigger] = useState(0);
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const loadMetadataPage = useCallback(
+    async (ids: string[]) => {
+      const limit = pLimit(METADATA_CONCURRENCY);
+      const page = await Promise.all(
+        ids.map((externalVersionId) =>
+          limit(async (): Promise<AppVersionInfo> => {
+            try {
+              return await getAppVersionMetadata(bundleId, externalVersionId);
+            } catch (err) {
+              // Keep the row: the ID alone is still downloadable, it just shows without a version string
+              logger.warn(`[Versions] Metadata lookup failed for ${bundleId} (${externalVersionId}):`, err);
+              return { externalVersionId };
+            }
+          }),
+        ),
+      );
+      if (isMountedRef.current) {
+        setVersions((prev) => [...prev, ...page]);
+      }
+    },
+    [bundleId],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadVersions() {
+      setIsLoading(true);
+      setError(null);
+      setVersions([]);
+      try {
+        const ids = await listAppVersions(bundleId, appName, price);
+        if (cancelled) return;
+        setVersionIds(ids);
+        await loadMetadataPage(ids.slice(0, VERSIONS_PAGE_SIZE));
+      } catch (err) {
+        logger.error(`[Versions] Failed to list versions for ${bundleId}:`, err);
+        if (!cancelled) {
+          setVersionIds([]);
+          setError(err instanceof Error ? err : new Error(String(err)));
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    loadVersions();
+    return () => {
+      cancelled = true;
+    };
+  }, [bundleId, appName, price, loadMetadataPage, reloadTrigger]);
+
+  const hasMore = versions.length < versionIds.length;
+
+  const loadMore = useCallback(() => {
+    if (isLoading || !hasMore) return;
+    setIsLoading(true);
+    loadMetadataPage(versionIds.slice(versions.length, versions.length + VERSIONS_PAGE_SIZE)).finally(() => {
+      if (isMountedRef.current) {
+        setIsLoading(false);
+      }
+    });
+  }, [isLoading, hasMore, versionIds, versions.length, loadMetadataPage]);
+
+  const reload = useCallback(() => {
+    setReloadTrigger((prev) => prev + 1);
+  }, []);
+
+  return {
+    versions,
+    totalCount: versionIds.length,
+    isLoading,
+    error,
+    hasMore,
+    loadMore,
+    reload,
+  };
+}
@@ -7,8 +7,12 @@ import { AppleTwoFactorForm } from "../components/forms/AppleTwoFactorForm";
 import { getAppleIdFromStorage, loginToAppleId, storeAppleId, storePassword } from "../utils/auth";
 
 export interface AuthNavigationHelpers {
-  pushLoginForm: (onSuccess?: () => void) => Promise<void>;
-  push2FAForm: (onSuccess?: () => void) => void;
+  /**
+   * `onCancel` runs when the form is closed without signing in. The Apple ID
+   * field starts with `initialEmail`, else the stored Apple ID.
+   */
+  pushLoginForm: (onSuccess?: () => void, onCancel?: () => void, initialEmail?: string) => Promise<void>;
+  push2FAForm: (onSuccess?: () => void, onCancel?: () => void) => void;
   popToRoot: () => void;
 }
 
@@ -16,7 +20,8 @@ export function useAuthNavigation(): AuthNavigationHelpers {
   const { push, pop } = useNavigation();
 
   const push2FAForm = useCallback(
-    (onSuccess?: () => void) => {
+    (onSuccess?: () => void, onCancel?: () => void) => {
+      let isVerified = false;
       push(
         <AppleTwoFactorForm
           onSubmit={async ({ code }) => {
@@ -31,6 +36,7 @@ export function useAuthNavigation(): AuthNavigationHelpers {
               return;
             }
 
+            isVerified = true;
             // Call success callback if provided
             if (onSuccess) {
               onSuccess();
@@ -40,14 +46,22 @@ export function useAuthNavigation(): AuthNavigationHelpers {
             pop();
           }}
         />,
+        () => {
+          if (!isVerified) onCancel?.();
+        },
       );
     },
     [push, pop],
   );
 
   const pushLoginForm = useCallback(
-    async (onSuccess?: () => void) => {
-      const storedEmail = await getAppleIdFromStorage();
+    async (onSuccess?: () => void, onCancel?: () => void, initialEmail?: string) => {
+      const storedEmail = initialEmail ?? (await getAppleIdFromStorage());
+      let isSignedIn = false;
+      const onSignedIn = () => {
+        isSignedIn = true;
+        onSuccess?.();
+      };
       push(
         <AppleLoginForm
           initialEmail={storedEmail}
@@ -60,18 +74,16 @@ export function useAuthNavigation(): AuthNavigationHelpers {
               // Attempt login
               await loginToAppleId(email, password);
 
-              // Call success callback if provided
-              if (onSuccess) {
-                onSuccess();
-              }
+              onSignedIn();
 
               // Pop back to the previous screen
               pop();
             } catch (error) {
               // If 2FA is needed, push the 2FA form
               if (error instanceof Error && error.name === "Needs2FAError") {
-                // Credentials already stored earlier; proceed to 2FA form
-                push2FAForm(onSuccess);
+                // Credentials already stored earlier; proceed to 2FA form. Backing
+                // out of it returns here, so only closing this form cancels.
+                push2FAForm(onSignedIn);
               } else {
                 // Show error toast and keep form open for retry
                 logger.error("[Auth] Login form submission failed", error);
@@ -80,6 +92,9 @@ export function useAuthNavigation(): AuthNavigationHelpers {
             }
           }}
         />,
+        () => {
+          if (!isSignedIn) onCancel?.();
+        },
       );
     },
     [push, pop, push2FAForm],
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from "react";
+import { getAuthSessionStatus, type AuthSessionStatus } from "../utils/auth-session";
+
+interface UseAuthSessionResult {
+  status: AuthSessionStatus | null;
+  isLoading: boolean;
+  /** Ask ipatool again, e.g. after signing in */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook that reads the ipatool session status on mount
+ */
+export function useAuthSession(): UseAuthSessionResult {
+  const [status, setStatus] = useState<AuthSessionStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setStatus(await getAuthSessionStatus());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { status, isLoading, refresh };
+}
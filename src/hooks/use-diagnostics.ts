@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { showToast, Toast } from "@raycast/api";
+import { describeDiagnostics, runDiagnostics, type DiagnosticCheck } from "../utils/diagnostics";
+
+interface UseDiagnosticsResult {
+  checks: DiagnosticCheck[];
+  isRunning: boolean;
+  /** Run every check again, e.g. after applying a fix */
+  rerun: () => Promise<void>;
+}
+
+/**
+ * Hook that runs the setup checks on mount, adding each result as it finishes
+ */
+export function useDiagnostics(): UseDiagnosticsResult {
+  const [checks, setChecks] = useState<DiagnosticCheck[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const isRunningRef = useRef(false);
+
+  const rerun = useCallback(async () => {
+    if (isRunningRef.current) return;
+    isRunningRef.current = true;
+    setIsRunning(true);
+    setChecks([]);
+    try {
+      const results = await runDiagnostics((check) => setChecks((current) => [...current, check]));
+      const failed = results.some((check) => check.status === "fail");
+      await showToast({
+        style: failed ? Toast.Style.Failure : Toast.Style.Success,
+        title: failed ? "Setup Has Problems" : "Setup Looks Good",
+        message: describeDiagnostics(results),
+      });
+    } catch (error) {
+      console.error("Error running diagnostics:", error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Diagnostics Failed",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      isRunningRef.current = false;
+      setIsRunning(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    rerun();
+  }, [rerun]);
+
+  return { checks, isRunning, rerun };
+}
@@ -1,13 +1,96 @@
+import fs from "fs";
+import path from "path";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { LocalStorage, showToast, Toast } from "@raycast/api";
 import type { AppDetails } from "../types";
-import { STORAGE_KEYS, withoutCachedITunesData } from "../utils/storage";
+import { safeJsonParse } from "../utils/common";
+import { reverifyIpa, type IpaReverifyStatus } from "../utils/ipa-checksum";
+import { DOWNLOAD_HISTORY_LIMIT, STORAGE_KEYS, withoutCachedITunesData } from "../utils/storage";
+import { resolveStorefront } from "../utils/storefronts";
+
+const REVERIFY_TITLES: Record<IpaReverifyStatus, string> = {
+  verified: "File Verified",
+  recorded: "Checksum Recorded",
+  modified: "File Has Changed",
+  corrupt: "File Is Corrupted",
+  missing: "File Not Found",
+};
 
 export interface DownloadHistoryItem {
   app: AppDetails;
   downloadDate: string;
+  /** Times this version was downloaded; the per-app total lives in DownloadCount */
   downloadCount: number;
   filePath?: string;
+  /** Storefront the app was downloaded from; absent on entries saved before storefronts were tracked */
+  storefront?: string;
+  /** External version ID when an older build was pinned via "Download Older Version…" */
+  externalVersionId?: string;
+  /** SHA-256 of the IPA, recorded in checksum verification mode or by "Re-Verify File" */
+  sha256?: string;
+  /** When "Re-Verify File" last checked the file */
+  lastVerifiedAt?: string;
+  fileSizeBytes?: number;
+  /** Time from starting ipatool to a verified file on disk */
+  durationMs?: number;
+  /** Apple ID signed in when the file was downloaded */
+  appleId?: string;
+  /** Name of that Apple ID's account profile, if it had one */
+  accountProfile?: string;
+  ipatoolVersion?: string;
+  /** Set when IPA Library added an existing file instead of a download creating it */
+  importedAt?: string;
+  /** When Prune Downloads moved the file to the Trash; filePath is cleared then */
+  trashedAt?: string;
+  /** Downloaded in the background because the app is set to auto-archive */
+  autoArchived?: boolean;
+  /** When a download of this version was last cancelled; see isCancelledOnlyRecord */
+  cancelledAt?: string;
+}
+
+/** What a finished download knows beyond the app itself */
+export interface DownloadRecordDetails {
+  /** Set when the download was pinned to an older build */
+  externalVersionId?: string;
+  sha256?: string;
+  fileSizeBytes?: number;
+  durationMs?: number;
+  appleId?: string;
+  accountProfile?: string;
+  ipatoolVersion?: string;
+}
+
+/**
+ * Identity of a history record: one per app version
+ * @param item A history record
+ * @returns Stable key for lists and lookups
+ */
+export function getHistoryRecordKey(item: Pick<DownloadHistoryItem, "app">): string {
+  return `${item.app.bundleId}@${item.app.version}`;
+}
+
+/**
+ * The most recent record for each app, newest first
+ * @param history Records in any order
+ * @returns One record per bundle ID
+ */
+export function getLatestRecordPerApp(history: DownloadHistoryItem[]): DownloadHistoryItem[] {
+  const latest = new Map<string, DownloadHistoryItem>();
+  for (const item of history) {
+    const current = latest.get(item.app.bundleId);
+    if (!current || new Date(item.downloadDate) > new Date(current.downloadDate)) {
+      latest.set(item.app.bundleId, item);
+    }
+  }
+  return [...latest.values()].sort((a, b) => new Date(b.downloadDate).getTime() - new Date(a.downloadDate).getTime());
+}
+
+// Changes read from storage rather than the hook's state: a queued download
+// can finish while a view holds a stale snapshot, and writing that snapshot
+// back would drop the new record
+async function readStoredHistory(): Promise<DownloadHistoryItem[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEYS.DOWNLOAD_HISTORY);
+  return stored ? safeJsonParse<DownloadHistoryItem[]>(stored, []) : [];
 }
 
 export interface DownloadCount {
@@ -16,11 +99,23 @@ export interface DownloadCount {
   lastDownloaded: string;
 }
 
+// Read from storage for the same reason as readStoredHistory
+async function readStoredCounts(): Promise<DownloadCount[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEYS.DOWNLOAD_COUNTS);
+  return stored ? safeJsonParse<DownloadCount[]>(stored, []) : [];
+}
+
 interface UseDownloadHistoryResult {
   downloadHistory: DownloadHistoryItem[];
   downloadCounts: DownloadCount[];
-  addToHistory: (app: AppDetails, filePath?: string) => Promise<void>;
+  addToHistory: (app: AppDetails, filePath?: string, details?: DownloadRecordDetails) => Promise<void>;
+  importToHistory: (app: AppDetails, filePath: string, fileSizeBytes: number, fileDate: string) => Promise<void>;
+  recordCancelledDownload: (app: AppDetails) => Promise<void>;
+  relinkHistoryRecord: (record: DownloadHistoryItem, filePath: string) => Promise<void>;
+  markFilesTrashed: (records: DownloadHistoryItem[]) => Promise<void>;
+  reverifyFile: (item: DownloadHistoryItem) => Promise<void>;
   removeFromHistory: (bundleId: string) => Promise<void>;
+  removeVersionFromHistory: (item: DownloadHistoryItem) => Promise<void>;
   clearHistory: () => Promise<void>;
   getDownloadCount: (bundleId: string) => number;
   refresh: () => Promise<void>;
@@ -29,10 +124,10 @@ interface UseDownloadHistoryResult {
 
 /**
  * Hook for managing download history with automatic persistence
- * @param historyLimit Maximum number of history items to keep
+ * @param historyLimit Maximum number of version records to keep
  * @returns Object with download history and management functions
  */
-export function useDownloadHistory(historyLimit = 100): UseDownloadHistoryResult {
+export function useDownloadHistory(historyLimit = DOWNLOAD_HISTORY_LIMIT): UseDownloadHistoryResult {
   const [downloadHistory, setDownloadHistory] = useState<DownloadHistoryItem[]>([]);
   const [downloadCounts, setDownloadCounts] = useState<DownloadCount[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -105,11 +200,12 @@ export function useDownloadHistory(historyLimit = 100): UseDownloadHistoryResult
    */
   const incrementDownloadCount = useCallback(
     async (bundleId: string) => {
-      const existingIndex = downloadCounts.findIndex((item) => item.bundleId === bundleId);
+      const storedCounts = await readStoredCounts();
+      const existingIndex = storedCounts.findIndex((item) => item.bundleId === bundleId);
 
       let newCounts: DownloadCount[];
       if (existingIndex >= 0) {
-        newCounts = [...downloadCounts];
+        newCounts = [...storedCounts];
         newCounts[existingIndex] = {
           ...newCounts[existingIndex],
           count: newCounts[existingIndex].count + 1,
@@ -117,7 +213,7 @@ export function useDownloadHistory(historyLimit = 100): UseDownloadHistoryResult
         };
       } else {
         newCounts = [
-          ...downloadCounts,
+          ...storedCounts,
           {
             bundleId,
             count: 1,
@@ -128,30 +224,33 @@ export function useDownloadHistory(historyLimit = 100): UseDownloadHistoryResult
 
       await persistCounts(newCounts);
     },
-    [downloadCounts, persistCounts],
+    [persistCounts],
   );
 
   /**
-   * Add an app to download history
+   * Record a finished download. Re-downloading a version replaces that
+   * version's record; other versions of the app are kept.
    */
   const addToHistory = useCallback(
-    async (app: AppDetails, filePath?: string) => {
+    async (app: AppDetails, filePath?: string, details?: DownloadRecordDetails) => {
       try {
-        // Remove existing entry for this app if it exists
-        const filteredHistory = downloadHistory.filter((item) => item.app.bundleId !== app.bundleId);
-
-        // Get current download count
-        const currentCount = getDownloadCount(app.bundleId);
+        // Queued downloads finish concurrently; each must see the others' records
+        const storedHistory = await readStoredHistory();
+        const key = getHistoryRecordKey({ app });
+        const previous = storedHistory.find((item) => getHistoryRecordKey(item) === key);
+        const otherRecords = storedHistory.filter((item) => getHistoryRecordKey(item) !== key);
 
         // Add new download at the beginning
         const newHistory: DownloadHistoryItem[] = [
           {
             app,
             downloadDate: new Date().toISOString(),
-            downloadCount: currentCount + 1,
+            downloadCount: (previous?.downloadCount ?? 0) + 1,
             filePath,
+            storefront: resolveStorefront(app.storefront),
+            ...details,
           },
-          ...filteredHistory,
+          ...otherRecords,
         ].slice(0, historyLimit);
 
         await persistHistory(newHistory);
@@ -167,16 +266,167 @@ export function useDownloadHistory(historyLimit = 100): UseDownloadHistoryResult
         });
       }
     },
-    [downloadHistory, persistHistory, getDownloadCount, incrementDownloadCount, historyLimit],
+    [persistHistory, incrementDownloadCount, historyLimit],
+  );
+
+  /**
+   * Add a file that was already on disk, dated by the file. Download counts
+   * are left alone since nothing was downloaded.
+   */
+  const importToHistory = useCallback(
+    async (app: AppDetails, filePath: string, fileSizeBytes: number, fileDate: string) => {
+      try {
+        const storedHistory = await readStoredHistory();
+        const key = getHistoryRecordKey({ app });
+        const record: DownloadHistoryItem = {
+          app,
+          downloadDate: fileDate,
+          downloadCount: 1,
+          filePath,
+          storefront: resolveStorefront(app.storefront),
+          fileSizeBytes,
+          importedAt: new Date().toISOString(),
+        };
+        const newHistory = [record, ...storedHistory.filter((item) => getHistoryRecordKey(item) !== key)]
+          .sort((a, b) => new Date(b.downloadDate).getTime() - new Date(a.downloadDate).getTime())
+          .slice(0, historyLimit);
+        await persistHistory(newHistory);
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Imported to History",
+          message: `${app.name} ${app.version}`,
+        });
+      } catch (error) {
+        console.error("Error importing to download history:", error);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to Import",
+          message: "Could not add the file to download history",
+        });
+      }
+    },
+    [persistHistory, historyLimit],
   );
 
   /**
-   * Remove an item from download history
+   * Note a cancelled download. A version downloaded before keeps its record
+   * and file; otherwise a record with no file and a count of 0 marks the attempt.
+   */
+  const recordCancelledDownload = useCallback(
+    async (app: AppDetails) => {
+      try {
+        const storedHistory = await readStoredHistory();
+        const key = getHistoryRecordKey({ app });
+        const previous = storedHistory.find((item) => getHistoryRecordKey(item) === key);
+        const cancelledAt = new Date().toISOString();
+
+        const newHistory = previous
+          ? storedHistory.map((item) => (getHistoryRecordKey(item) === key ? { ...item, cancelledAt } : item))
+          : [
+              {
+                app,
+                downloadDate: cancelledAt,
+                downloadCount: 0,
+                storefront: resolveStorefront(app.storefront),
+                cancelledAt,
+              },
+              ...storedHistory,
+            ].slice(0, historyLimit);
+        await persistHistory(newHistory);
+      } catch (error) {
+        console.error("Error recording cancelled download:", error);
+      }
+    },
+    [persistHistory, historyLimit],
+  );
+
+  /**
+   * Point a record at a file that was moved or renamed. The recorded SHA-256
+   * stays, so "Re-Verify File" can tell whether it's the file that was downloaded.
+   */
+  const relinkHistoryRecord = useCallback(
+    async (record: DownloadHistoryItem, filePath: string) => {
+      try {
+        const key = getHistoryRecordKey(record);
+        const fileSizeBytes = (await fs.promises.stat(filePath)).size;
+        const updated = (await readStoredHistory()).map((item) =>
+          getHistoryRecordKey(item) === key ? { ...item, filePath, fileSizeBytes, lastVerifiedAt: undefined } : item,
+        );
+        await persistHistory(updated);
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Relinked",
+          message: `${record.app.name} ${record.app.version} now points to ${path.basename(filePath)}`,
+        });
+      } catch (error) {
+        console.error("Error relinking history record:", error);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to Relink",
+          message: error instanceof Error ? error.message : "Could not update download history",
+        });
+      }
+    },
+    [persistHistory],
+  );
+
+  /**
+   * Keep records whose files went to the Trash, minus the path. The version
+   * stays in history with its provenance; only the file is gone.
+   */
+  const markFilesTrashed = useCallback(
+    async (records: DownloadHistoryItem[]) => {
+      const keys = new Set(records.map(getHistoryRecordKey));
+      const trashedAt = new Date().toISOString();
+      const updated = (await readStoredHistory()).map((item) =>
+        keys.has(getHistoryRecordKey(item)) ? { ...item, filePath: undefined, trashedAt } : item,
+      );
+      await persistHistory(updated);
+    },
+    [persistHistory],
+  );
+
+  /**
+   * Re-check a record's file against the SHA-256 captured at download time.
+   * A sound file stores its digest when none was on record; a mismatch is
+   * reported, never written over the original.
+   */
+  const reverifyFile = useCallback(
+    async (record: DownloadHistoryItem) => {
+      if (!record.filePath) return;
+      const toast = await showToast({ style: Toast.Style.Animated, title: `Verifying ${record.app.name}...` });
+      try {
+        const result = await reverifyIpa(record.filePath, record.sha256);
+        const isSound = result.status === "verified" || result.status === "recorded";
+        if (isSound && result.sha256) {
+          const key = getHistoryRecordKey(record);
+          const updated = (await readStoredHistory()).map((item) =>
+            getHistoryRecordKey(item) === key
+              ? { ...item, sha256: item.sha256 ?? result.sha256, lastVerifiedAt: new Date().toISOString() }
+              : item,
+          );
+          await persistHistory(updated);
+        }
+        toast.style = isSound ? Toast.Style.Success : Toast.Style.Failure;
+        toast.title = REVERIFY_TITLES[result.status];
+        toast.message = result.message;
+      } catch (error) {
+        console.error("Error re-verifying file:", error);
+        toast.style = Toast.Style.Failure;
+        toast.title = "Verification Failed";
+        toast.message = error instanceof Error ? error.message : String(error);
+      }
+    },
+    [persistHistory],
+  );
+
+  /**
+   * Remove every version of an app from download history
    */
   const removeFromHistory = useCallback(
     async (bundleId: string) => {
       try {
-        const filtered = downloadHistory.filter((item) => item.app.bundleId !== bundleId);
+        const filtered = (await readStoredHistory()).filter((item) => item.app.bundleId !== bundleId);
         await persistHistory(filtered);
         await showToast({
           style: Toast.Style.Success,
@@ -192,7 +442,32 @@ export function useDownloadHistory(historyLimit = 100): UseDownloadHistoryResult
         });
       }
     },
-    [downloadHistory, persistHistory],
+    [persistHistory],
+  );
+
+  /**
+   * Remove one version's record, keeping the app's other versions
+   */
+  const removeVersionFromHistory = useCallback(
+    async (record: DownloadHistoryItem) => {
+      try {
+        const key = getHistoryRecordKey(record);
+        await persistHistory((await readStoredHistory()).filter((item) => getHistoryRecordKey(item) !== key));
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Removed from History",
+          message: `${record.app.name} ${record.app.version} has been removed from download history`,
+        });
+      } catch (error) {
+        console.error("Error removing version from download history:", error);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to Remove",
+          message: "Could not remove from download history",
+        });
+      }
+    },
+    [persistHistory],
   );
 
   /**
@@ -232,7 +507,13 @@ export function useDownloadHistory(historyLimit = 100): UseDownloadHistoryResult
     downloadHistory: sortedHistory,
     downloadCounts: sortedCounts,
     addToHistory,
+    importToHistory,
+    recordCancelledDownload,
+    relinkHistoryRecord,
+    markFilesTrashed,
+    reverifyFile,
     removeFromHistory,
+    removeVersionFromHistory,
     clearHistory,
     getDownloadCount,
     refresh: loadData,
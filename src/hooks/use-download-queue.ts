@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useState } from "react";
+import { showToast, Toast } from "@raycast/api";
+import {
+  clearFailedDownloads,
+  getDownloadQueue,
+  moveQueuedDownload,
+  removeQueuedDownload,
+  retryQueuedDownloads,
+  subscribeToDownloadQueue,
+  type DownloadQueueItem,
+} from "../utils/download-queue";
+
+// Downloads started by another command only reach this one through
+// LocalStorage, so re-read while anything is active
+const ACTIVE_POLL_INTERVAL_MS = 2000;
+
+interface UseDownloadQueueResult {
+  items: DownloadQueueItem[];
+  isLoading: boolean;
+  removeItem: (id: string) => Promise<void>;
+  retryItem: (id: string) => Promise<void>;
+  retryAllFailed: () => Promise<void>;
+  clearFailed: () => Promise<void>;
+  moveItem: (id: string, direction: "up" | "down" | "top") => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for viewing and editing the persistent download queue. Processing is
+ * separate: call `resumeQueue` from useAppDownload to run pending items.
+ * @returns Queue items and the actions the Download Queue command offers
+ */
+export function useDownloadQueue(): UseDownloadQueueResult {
+  const [items, setItems] = useState<DownloadQueueItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setItems(await getDownloadQueue());
+    } catch (error) {
+      console.error("Error loading download queue:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToDownloadQueue(setItems);
+  }, [refresh]);
+
+  const hasActiveItems = items.some((item) => item.status === "active");
+  useEffect(() => {
+    if (!hasActiveItems) return;
+    const interval = setInterval(refresh, ACTIVE_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveItems, refresh]);
+
+  const removeItem = useCallback(async (id: string) => {
+    try {
+      const removed = await removeQueuedDownload(id);
+      await showToast(
+        removed
+          ? { style: Toast.Style.Success, title: "Removed from Queue" }
+          : {
+              style: Toast.Style.Failure,
+              title: "Download Already Running",
+              message: "Running downloads finish before they leave the queue",
+            },
+      );
+    } catch (error) {
+      console.error("Error removing queue item:", error);
+      await showToast({ style: Toast.Style.Failure, title: "Failed to Remove", message: String(error) });
+    }
+  }, []);
+
+  const retryItem = useCallback(async (id: string) => {
+    try {
+      await retryQueuedDownloads([id]);
+    } catch (error) {
+      console.error("Error retrying queue item:", error);
+      await showToast({ style: Toast.Style.Failure, title: "Failed to Retry", message: String(error) });
+    }
+  }, []);
+
+  const retryAllFailed = useCallback(async () => {
+    try {
+      await retryQueuedDownloads();
+    } catch (error) {
+      console.error("Error retrying failed downloads:", error);
+      await showToast({ style: Toast.Style.Failure, title: "Failed to Retry", message: String(error) });
+    }
+  }, []);
+
+  const clearFailed = useCallback(async () => {
+    try {
+      await clearFailedDownloads();
+      await showToast({ style: Toast.Style.Success, title: "Failed Downloads Cleared" });
+    } catch (error) {
+      console.error("Error clearing failed downloads:", error);
+      await showToast({ style: Toast.Style.Failure, title: "Failed to Clear", message: String(error) });
+    }
+  }, []);
+
+  const moveItem = useCallback(async (id: string, direction: "up" | "down" | "top") => {
+    try {
+      await moveQueuedDownload(id, direction);
+    } catch (error) {
+      console.error("Error reordering download queue:", error);
+    }
+  }, []);
+
+  return {
+    items,
+    isLoading,
+    removeItem,
+    retryItem,
+    retryAllFailed,
+    clearFailed,
+    moveItem,
+    refresh,
+  };
+}
@@ -0,0 +1,156 @@
+import { writeFile } from "fs/promises";
+import { homedir } from "os";
+import path from "path";
+import { logger } from "@chrismessina/raycast-logger";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Clipboard, showInFinder, showToast, Toast } from "@raycast/api";
+import { formatFileSize } from "../utils/formatting";
+import { analyzeIpaExecutable, type ExecutableAnalysis } from "../utils/ipa-inspector";
+import type { MachODylib, MachOSlice } from "../utils/macho";
+
+interface UseExecutableAnalysisResult {
+  analysis: ExecutableAnalysis | null;
+  /** The report as Markdown, shown in the Detail view and written by `exportToMarkdown` */
+  markdown: string;
+  isLoading: boolean;
+  error: Error | null;
+  reload: () => void;
+  exportToMarkdown: () => Promise<void>;
+}
+
+function describeDylib(dylib: MachODylib): string {
+  const kind = dylib.kind === "load" ? "" : ` _(${dylib.kind})_`;
+  return `- \`${dylib.path}\`${kind}`;
+}
+
+function generateSliceMarkdown(slice: MachOSlice): string {
+  const encryption = slice.encryption
+    ? `${slice.encryption.cryptId !== 0 ? "Encrypted" : "Not encrypted"} (cryptid ${slice.encryption.cryptId}, offset ${slice.encryption.cryptOffset}, size ${formatFileSize(slice.encryption.cryptSize)})`
+    : "No encryption info";
+
+  // System libraries first, then what the app embeds (@rpath, @executable_path)
+  const dylibs = [...slice.dylibs].sort(
+    (a, b) => Number(a.path.startsWith("@")) - Number(b.path.startsWith("@")) || a.path.localeCompare(b.path),
+  );
+
+  let markdown = `## ${slice.architecture}\n\n`;
+  markdown += `| | |\n|---|---|\n`;
+  markdown += `| **Platform** | ${slice.platform ?? "Unknown"} |\n`;
+  markdown += `| **Minimum OS** | ${slice.minimumOSVersion ?? "Not declared"} |\n`;
+  markdown += `| **SDK** | ${slice.sdkVersion ?? "Unknown"} |\n`;
+  markdown += `| **Encryption** | ${encryption} |\n`;
+  markdown += `| **File Type** | ${slice.fileType}${slice.isPIE ? " (PIE)" : ""} |\n`;
+  if (slice.uuid) markdown += `| **UUID** | \`${slice.uuid}\` |\n`;
+  if (slice.size !== undefined) markdown += `| **Slice Size** | ${formatFileSize(slice.size)} |\n`;
+  markdown += `\n### Linked Libraries (${dylibs.length})\n\n`;
+  markdown += dylibs.length > 0 ? dylibs.map(describeDylib).join("\n") : "_None_";
+  markdown += "\n\n";
+  return markdown;
+}
+
+/**
+ * Generate a Markdown report from an executable analysis
+ */
+function generateMarkdown(analysis: ExecutableAnalysis): string {
+  const { macho } = analysis;
+  const name = analysis.displayName ?? analysis.appBundleName;
+  const version = analysis.version
+    ? `${analysis.version}${analysis.buildNumber ? ` (${analysis.buildNumber})` : ""}`
+    : "Unknown";
+
+  let markdown = `# ${name} Executable Report\n\n`;
+  markdown += `Generated on ${new Date().toLocaleDateString()}\n\n`;
+  markdown += `- **File:** \`${path.basename(analysis.filePath)}\`\n`;
+  if (analysis.bundleId) markdown += `- **Bundle ID:** \`${analysis.bundleId}\`\n`;
+  markdown += `- **Version:** ${version}\n`;
+  markdown += `- **Executable:** \`${analysis.executablePath}\` (${formatFileSize(analysis.executableSizeBytes)})\n`;
+  markdown += `- **Architectures:** ${macho.slices.map((slice) => slice.architecture).join(", ")}${macho.isFat ? " (universal)" : ""}\n`;
+  markdown += `- **FairPlay Encrypted:** ${analysis.isEncrypted ? "Yes" : "No"}\n\n`;
+
+  for (const slice of macho.slices) {
+    markdown += generateSliceMarkdown(slice);
+  }
+
+  return markdown;
+}
+
+/**
+ * Hook for analyzing the main executable of a downloaded IPA
+ * @param filePath Path to the .ipa file
+ * @returns The Mach-O report, its Markdown rendering and an export action
+ */
+export function useExecutableAnalysis(filePath: string): UseExecutableAnalysisResult {
+  const [analysis, setAnalysis] = useState<ExecutableAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [reloadTrigger, setReloadTrigger] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    analyzeIpaExecutable(filePath)
+      .then((result) => {
+        if (!cancelled) setAnalysis(result);
+      })
+      .catch((err) => {
+        logger.error(`[Inspector] Failed to analyze executable in ${filePath}:`, err);
+        if (!cancelled) {
+          setAnalysis(null);
+          setError(err instanceof Error ? err : new Error(String(err)));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath, reloadTrigger]);
+
+  const reload = useCallback(() => setReloadTrigger((value) => value + 1), []);
+  const markdown = useMemo(() => (analysis ? generateMarkdown(analysis) : ""), [analysis]);
+
+  const exportToMarkdown = useCallback(async () => {
+    if (!analysis) return;
+    try {
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
+      const baseName = analysis.bundleId ?? path.basename(analysis.filePath, ".ipa");
+      const fileName = `${baseName}-executable-report-${timestamp}.md`;
+      const downloadsPath = path.join(homedir(), "Downloads", fileName);
+
+      await writeFile(downloadsPath, markdown, "utf-8");
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Export Complete",
+        message: `Report saved to ${fileName}`,
+        primaryAction: {
+          title: "Show in Finder",
+          shortcut: { modifiers: ["cmd"], key: "o" },
+          onAction: async () => {
+            await showInFinder(downloadsPath);
+          },
+        },
+        secondaryAction: {
+          title: "Copy Path",
+          shortcut: { modifiers: ["cmd"], key: "c" },
+          onAction: async (toast) => {
+            await Clipboard.copy(downloadsPath);
+            toast.message = "Path copied to clipboard";
+          },
+        },
+      });
+    } catch (err) {
+      console.error("Error exporting executable report:", err);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Export Failed",
+        message: "Could not export the executable report",
+      });
+    }
+  }, [analysis, markdown]);
+
+  return { analysis, markdown, isLoading, error, reload, exportToMarkdown };
+}
@@ -3,10 +3,15 @@ import { useCallback, useEffect, useState } from "react";
 import { LocalStorage, showToast, Toast } from "@raycast/api";
 import type { AppDetails } from "../types";
 import { STORAGE_KEYS, withoutCachedITunesData } from "../utils/storage";
+import { resolveStorefront } from "../utils/storefronts";
 
 export interface FavoriteApp {
   app: AppDetails;
   favoritedDate: string;
+  /** Storefront the app was favorited from; absent on entries saved before storefronts were tracked */
+  storefront?: string;
+  /** Download each new version into the app's archive folder */
+  autoArchive?: boolean;
 }
 
 interface UseFavoriteAppsResult {
@@ -14,6 +19,7 @@ interface UseFavoriteAppsResult {
   isFavorite: (bundleId: string) => boolean;
   addFavorite: (app: AppDetails) => Promise<void>;
   removeFavorite: (bundleId: string) => Promise<void>;
+  toggleAutoArchive: (bundleId: string) => Promise<void>;
   clearFavorites: () => Promise<void>;
   isLoading: boolean;
 }
@@ -84,6 +90,7 @@ export function useFavoriteApps(): UseFavoriteAppsResult {
           {
             app,
             favoritedDate: new Date().toISOString(),
+            storefront: resolveStorefront(app.storefront),
           },
         ];
 
@@ -133,6 +140,41 @@ export function useFavoriteApps(): UseFavoriteAppsResult {
     [favoriteApps, persistFavorites],
   );
 
+  /**
+   * Turn auto-archive on or off for a favorite
+   */
+  const toggleAutoArchive = useCallback(
+    async (bundleId: string) => {
+      try {
+        const favorite = favoriteApps.find((item) => item.app.bundleId === bundleId);
+        if (!favorite) return;
+
+        const autoArchive = !favorite.autoArchive;
+        await persistFavorites(
+          favoriteApps.map((item) => (item.app.bundleId === bundleId ? { ...item, autoArchive } : item)),
+        );
+        logger.log(
+          `[Favorites] Auto-archive ${autoArchive ? "enabled" : "disabled"} for ${favorite.app.name} (${bundleId})`,
+        );
+        await showToast({
+          style: Toast.Style.Success,
+          title: autoArchive ? "Auto-Archive Enabled" : "Auto-Archive Disabled",
+          message: autoArchive
+            ? `New versions of ${favorite.app.name} will be downloaded by Check for App Updates`
+            : `${favorite.app.name} will no longer be archived automatically`,
+        });
+      } catch (error) {
+        console.error("Error updating auto-archive:", error);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to Update Auto-Archive",
+          message: "Could not save the favorite",
+        });
+      }
+    },
+    [favoriteApps, persistFavorites],
+  );
+
   /**
    * Clear all favorite apps
    */
@@ -162,6 +204,7 @@ export function useFavoriteApps(): UseFavoriteAppsResult {
     isFavorite,
     addFavorite,
     removeFavorite,
+    toggleAutoArchive,
     clearFavorites,
     isLoading,
   };
@@ -0,0 +1,62 @@
+import { logger } from "@chrismessina/raycast-logger";
+import { useEffect, useMemo, useState } from "react";
+import { showFailureToast } from "@raycast/utils";
+import type { AppDetails } from "../types";
+import { fetchGenreApps, sortGenreApps, type GenreSort } from "../utils/app-store-genres";
+import { convertITunesResultToAppDetails } from "../utils/itunes-api";
+
+interface UseGenreAppsResult {
+  /** The genre's apps in the chosen order */
+  apps: AppDetails[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Hook that loads the apps listed under an App Store genre
+ * @param genreId App Store genre ID
+ * @param storefront Storefront to browse
+ * @param sort Order to show the apps in
+ */
+export function useGenreApps(genreId: number, storefront: string, sort: GenreSort): UseGenreAppsResult {
+  const [apps, setApps] = useState<AppDetails[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadGenreApps() {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const results = await fetchGenreApps(genreId, storefront);
+        logger.log(`[Genres] Genre ${genreId} has ${results.length} app(s) in ${storefront}`);
+        if (!cancelled) {
+          setApps(results.map((result) => convertITunesResultToAppDetails(result, { storefront })));
+        }
+      } catch (err) {
+        // A failed feed is not an empty genre; say which it was
+        console.error("Error loading genre apps:", err);
+        if (!cancelled) {
+          setApps([]);
+          setError(err instanceof Error ? err.message : String(err));
+          await showFailureToast(err, { title: "Could not load category" });
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    loadGenreApps();
+    return () => {
+      cancelled = true;
+    };
+  }, [genreId, storefront]);
+
+  const sortedApps = useMemo(() => sortGenreApps(apps, sort), [apps, sort]);
+
+  return { apps: sortedApps, isLoading, error };
+}
@@ -0,0 +1,51 @@
+import { logger } from "@chrismessina/raycast-logger";
+import { useCallback, useEffect, useState } from "react";
+import { inspectIpa, type IpaInspection } from "../utils/ipa-inspector";
+
+interface UseIpaInspectionResult {
+  inspection: IpaInspection | null;
+  isLoading: boolean;
+  error: Error | null;
+  reload: () => void;
+}
+
+/**
+ * Hook for inspecting a downloaded IPA on disk
+ * @param filePath Path to the .ipa file
+ * @returns The decoded Info.plist summary, or the error that prevented reading it
+ */
+export function useIpaInspection(filePath: string): UseIpaInspectionResult {
+  const [inspection, setInspection] = useState<IpaInspection | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [reloadTrigger, setReloadTrigger] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    inspectIpa(filePath)
+      .then((result) => {
+        if (!cancelled) setInspection(result);
+      })
+      .catch((err) => {
+        logger.error(`[Inspector] Failed to inspect ${filePath}:`, err);
+        if (!cancelled) {
+          setInspection(null);
+          setError(err instanceof Error ? err : new Error(String(err)));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath, reloadTrigger]);
+
+  const reload = useCallback(() => setReloadTrigger((value) => value + 1), []);
+
+  return { inspection, isLoading, error, reload };
+}
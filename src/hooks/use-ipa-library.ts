@@ -0,0 +1,147 @@
+import { logger } from "@chrismessina/raycast-logger";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { showToast, Toast } from "@raycast/api";
+import { getConfig } from "../config";
+import type { AppDetails } from "../types";
+import { getFilenameTemplateDepth } from "../utils/filename-template";
+import {
+  reconcileIpaLibrary,
+  scanIpaDirectory,
+  type IpaLibraryReport,
+  type ScannedIpaFile,
+} from "../utils/ipa-library";
+import {
+  convertIpaToolSearchAppToAppDetails,
+  convertITunesResultToAppDetails,
+  fetchITunesAppDetails,
+} from "../utils/itunes-api";
+import { getDownloadsDirectory } from "../utils/paths";
+import { useDownloadHistory, type DownloadHistoryItem } from "./use-download-history";
+
+interface UseIpaLibraryResult {
+  report: IpaLibraryReport | null;
+  directory: string;
+  isLoading: boolean;
+  error: Error | null;
+  rescan: () => void;
+  relinkFile: (record: DownloadHistoryItem, file: ScannedIpaFile) => Promise<void>;
+  importFile: (file: ScannedIpaFile) => Promise<void>;
+  removeVersionFromHistory: (record: DownloadHistoryItem) => Promise<void>;
+}
+
+/**
+ * Build the history entry for a file downloaded outside the extension. The
+ * App Store supplies name, icon and developer; the archive supplies the version,
+ * since the store only knows the current one.
+ */
+async function resolveImportedApp(file: ScannedIpaFile): Promise<AppDetails> {
+  const identity = file.identity;
+  if (!identity?.bundleId) {
+    throw new Error(`${file.fileName} has no bundle ID to import it under`);
+  }
+
+  const itunesData = await fetchITunesAppDetails(identity.bundleId);
+  if (itunesData) {
+    const app = convertITunesResultToAppDetails(itunesData);
+    return { ...app, version: identity.version ?? app.version };
+  }
+
+  // Delisted or region-locked: keep what the archive says about itself
+  logger.log(`[Library] ${identity.bundleId} not found on the App Store; importing from Info.plist`);
+  return {
+    ...convertIpaToolSearchAppToAppDetails({
+      id: 0,
+      bundleId: identity.bundleId,
+      name: identity.displayName ?? identity.appBundleName.replace(/\.app$/, ""),
+      version: identity.version ?? "",
+      price: 0,
+      developer: "",
+    }),
+    id: "",
+  };
+}
+
+/**
+ * Hook for the IPA Library: scans the download folder once and reconciles it
+ * with download history whenever history changes
+ * @returns Files and missing records grouped per app, and actions to fix them
+ */
+export function useIpaLibrary(): UseIpaLibraryResult {
+  const [files, setFiles] = useState<ScannedIpaFile[] | null>(null);
+  const [isScanning, setIsScanning] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [scanTrigger, setScanTrigger] = useState(0);
+  const directory = useMemo(() => getDownloadsDirectory(), []);
+  const {
+    downloadHistory,
+    importToHistory,
+    relinkHistoryRecord,
+    removeVersionFromHistory,
+    isLoading: isHistoryLoading,
+  } = useDownloadHistory();
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsScanning(true);
+    setError(null);
+
+    scanIpaDirectory(directory, getFilenameTemplateDepth(getConfig().filenameTemplate))
+      .then((result) => {
+        if (!cancelled) setFiles(result);
+      })
+      .catch((err) => {
+        logger.error(`[Library] Failed to scan ${directory}:`, err);
+        if (!cancelled) {
+          setFiles(null);
+          setError(err instanceof Error ? err : new Error(String(err)));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsScanning(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [directory, scanTrigger]);
+
+  const rescan = useCallback(() => setScanTrigger((value) => value + 1), []);
+
+  const report = useMemo(
+    () => (files && !isHistoryLoading ? reconcileIpaLibrary(files, downloadHistory) : null),
+    [files, downloadHistory, isHistoryLoading],
+  );
+
+  const relinkFile = useCallback(
+    (record: DownloadHistoryItem, file: ScannedIpaFile) => relinkHistoryRecord(record, file.filePath),
+    [relinkHistoryRecord],
+  );
+
+  const importFile = useCallback(
+    async (file: ScannedIpaFile) => {
+      try {
+        const app = await resolveImportedApp(file);
+        await importToHistory(app, file.filePath, file.sizeBytes, file.modifiedAt);
+      } catch (err) {
+        console.error("Error importing IPA:", err);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to Import",
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+    [importToHistory],
+  );
+
+  return {
+    report,
+    directory,
+    isLoading: isScanning || isHistoryLoading,
+    error,
+    rescan,
+    relinkFile,
+    importFile,
+    removeVersionFromHistory,
+  };
+}
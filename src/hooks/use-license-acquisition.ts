@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { showToast, Toast } from "@raycast/api";
+import type { AppDetails } from "../types";
+import { ensureAuthenticated, Needs2FAError, NeedsLoginError } from "../utils/auth";
+import { acquireLicenses, describeLicenseResults, type LicenseResult } from "../utils/license-acquisition";
+
+interface UseLicenseAcquisitionResult {
+  results: LicenseResult[];
+  isRunning: boolean;
+  /** Set when the run stopped because signing in needs the user */
+  authRequired: "login" | "2fa" | null;
+  /** Run every app that hasn't got an outcome yet, e.g. after signing in */
+  resume: () => Promise<void>;
+  retryFailed: () => Promise<void>;
+}
+
+/**
+ * Hook that claims licenses for a fixed list of apps, starting as soon as it
+ * mounts. Apps are processed one at a time and their rows update as they go.
+ * @param apps Apps to license
+ */
+export function useLicenseAcquisition(apps: AppDetails[]): UseLicenseAcquisitionResult {
+  const [results, setResults] = useState<LicenseResult[]>(() => apps.map((app) => ({ app, status: "pending" })));
+  const [isRunning, setIsRunning] = useState(false);
+  const [authRequired, setAuthRequired] = useState<"login" | "2fa" | null>(null);
+  const resultsRef = useRef(results);
+  const isRunningRef = useRef(false);
+
+  const updateResult = useCallback((update: LicenseResult) => {
+    setResults((current) => {
+      const next = current.map((result) => (result.app.bundleId === update.app.bundleId ? update : result));
+      resultsRef.current = next;
+      return next;
+    });
+  }, []);
+
+  const run = useCallback(
+    async (targets: AppDetails[]) => {
+      if (isRunningRef.current || targets.length === 0) return;
+      isRunningRef.current = true;
+      setIsRunning(true);
+      setAuthRequired(null);
+
+      const toast = await showToast({
+        style: Toast.Style.Animated,
+        title: "Acquiring Licenses",
+        message: `0 of ${targets.length}`,
+      });
+      let current: AppDetails | undefined;
+      let done = 0;
+
+      try {
+        if (!(await ensureAuthenticated())) {
+          toast.style = Toast.Style.Failure;
+          toast.title = "Could Not Sign In";
+          toast.message = "ipatool is not available";
+          return;
+        }
+
+        await acquireLicenses(targets, (update) => {
+          current = update.status === "running" ? update.app : undefined;
+          if (update.status !== "running") toast.message = `${++done} of ${targets.length}`;
+          updateResult(update);
+        });
+
+        toast.style = Toast.Style.Success;
+        toast.title = "Licenses Acquired";
+        toast.message = describeLicenseResults(resultsRef.current);
+      } catch (error) {
+        // The app being processed goes back to pending so resuming picks it up
+        if (current) updateResult({ app: current, status: "pending" });
+
+        if (error instanceof NeedsLoginError || error instanceof Needs2FAError) {
+          setAuthRequired(error instanceof Needs2FAError ? "2fa" : "login");
+          toast.style = Toast.Style.Failure;
+          toast.title = "Sign-In Required";
+          toast.message = `${done} of ${targets.length} done; sign in to continue`;
+        } else {
+          console.error("Error acquiring licenses:", error);
+          toast.style = Toast.Style.Failure;
+          toast.title = "Failed to Acquire Licenses";
+          toast.message = error instanceof Error ? error.message : String(error);
+        }
+      } finally {
+        isRunningRef.current = false;
+        setIsRunning(false);
+      }
+    },
+    [updateResult],
+  );
+
+  const resume = useCallback(
+    () => run(resultsRef.current.filter((result) => result.status === "pending").map((result) => result.app)),
+    [run],
+  );
+
+  const retryFailed = useCallback(
+    () => run(resultsRef.current.filter((result) => result.status === "failed").map((result) => result.app)),
+    [run],
+  );
+
+  useEffect(() => {
+    resume();
+  }, [resume]);
+
+  return { results, isRunning, authRequired, resume, retryFailed };
+}
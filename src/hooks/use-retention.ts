@@ -0,0 +1,63 @@
+import { logger } from "@chrismessina/raycast-logger";
+import { useCallback, useMemo } from "react";
+import { showToast, Toast, trash } from "@raycast/api";
+import { getConfig, type RetentionPolicy } from "../config";
+import { formatFileSize } from "../utils/formatting";
+import { planRetention, type RetentionCandidate, type RetentionPlan } from "../utils/retention";
+import { useDownloadHistory } from "./use-download-history";
+import { useFavoriteApps } from "./use-favorite-apps";
+
+interface UseRetentionResult {
+  policy: RetentionPolicy;
+  plan: RetentionPlan;
+  isLoading: boolean;
+  moveToTrash: (candidates: RetentionCandidate[]) => Promise<void>;
+}
+
+/**
+ * Hook for previewing and applying the retention policy to archived IPAs
+ * @returns The active policy, what it would remove, and an action to do it
+ */
+export function useRetention(): UseRetentionResult {
+  const policy = useMemo(() => getConfig().retention, []);
+  const { downloadHistory, markFilesTrashed, isLoading: isHistoryLoading } = useDownloadHistory();
+  const { favoriteApps, isLoading: isFavoritesLoading } = useFavoriteApps();
+  const isLoading = isHistoryLoading || isFavoritesLoading;
+
+  const plan = useMemo(() => {
+    // Planning before favorites load would offer their files up for deletion
+    if (isLoading) return { candidates: [], reclaimBytes: 0, keptForFavorites: 0 };
+    return planRetention(downloadHistory, policy, new Set(favoriteApps.map((favorite) => favorite.app.bundleId)));
+  }, [downloadHistory, favoriteApps, policy, isLoading]);
+
+  /**
+   * Move files to the Trash, never unlink them, then keep their history
+   * records without a path
+   */
+  const moveToTrash = useCallback(
+    async (candidates: RetentionCandidate[]) => {
+      if (candidates.length === 0) return;
+      const sizeBytes = candidates.reduce((total, candidate) => total + candidate.sizeBytes, 0);
+      const toast = await showToast({
+        style: Toast.Style.Animated,
+        title: `Moving ${candidates.length} ${candidates.length === 1 ? "file" : "files"} to Trash...`,
+      });
+      try {
+        await trash(candidates.map((candidate) => candidate.filePath));
+        await markFilesTrashed(candidates.map((candidate) => candidate.record));
+        logger.log(`[Retention] Moved ${candidates.length} file(s) to Trash, ${formatFileSize(sizeBytes)} reclaimed`);
+        toast.style = Toast.Style.Success;
+        toast.title = "Moved to Trash";
+        toast.message = `${formatFileSize(sizeBytes)} reclaimed`;
+      } catch (error) {
+        console.error("Error moving files to Trash:", error);
+        toast.style = Toast.Style.Failure;
+        toast.title = "Failed to Move to Trash";
+        toast.message = error instanceof Error ? error.message : String(error);
+      }
+    },
+    [markFilesTrashed],
+  );
+
+  return { policy, plan, isLoading, moveToTrash };
+}
@@ -0,0 +1,217 @@
+import { useMemo, useState } from "react";
+import { Action, ActionPanel, Color, Icon, Keyboard, List } from "@raycast/api";
+import { useIpaLibrary } from "./hooks";
+import { getHistoryRecordKey, type DownloadHistoryItem } from "./hooks/use-download-history";
+import { formatFileSize, formatFriendlyDateTime } from "./utils/formatting";
+import type { LibraryApp, LibraryFile, LibraryFileStatus } from "./utils/ipa-library";
+import { AppDownloadHistoryView } from "./views/app-download-history-view";
+import { IpaInspectorView } from "./views/ipa-inspector-view";
+import { RetentionPreviewView } from "./views/retention-preview-view";
+
+type LibraryFilter = "all" | "issues";
+
+const STATUS_TAGS: Record<Exclude<LibraryFileStatus, "linked">, List.Item.Accessory> = {
+  relinkable: {
+    tag: { value: "Not Linked", color: Color.Orange },
+    tooltip: "History has this version at another path",
+  },
+  untracked: { tag: { value: "Untracked", color: Color.Blue }, tooltip: "Not in download history" },
+  unreadable: { tag: { value: "Unreadable", color: Color.Red }, tooltip: "Not a readable iOS app archive" },
+};
+
+function hasIssues(app: LibraryApp): boolean {
+  return app.missingRecords.length > 0 || app.files.some((file) => file.status !== "linked" || file.isDuplicate);
+}
+
+export default function IpaLibrary() {
+  const [filter, setFilter] = useState<LibraryFilter>("all");
+  const { report, directory, isLoading, error, rescan, relinkFile, importFile, removeVersionFromHistory } =
+    useIpaLibrary();
+
+  const apps = useMemo(
+    () => (report ? (filter === "issues" ? report.apps.filter(hasIssues) : report.apps) : []),
+    [report, filter],
+  );
+
+  const rescanAction = (
+    <>
+      <Action
+        title="Rescan Folder"
+        icon={Icon.ArrowClockwise}
+        onAction={rescan}
+        shortcut={Keyboard.Shortcut.Common.Refresh}
+      />
+      <Action.Push
+        title="Prune Downloads…"
+        target={<RetentionPreviewView />}
+        icon={Icon.Eraser}
+        shortcut={{ modifiers: ["cmd", "opt"], key: "p" }}
+      />
+    </>
+  );
+
+  const renderFile = (app: LibraryApp, file: LibraryFile) => {
+    const accessories: List.Item.Accessory[] = [];
+    if (file.status !== "linked") accessories.push(STATUS_TAGS[file.status]);
+    if (file.isDuplicate) {
+      accessories.push({
+        tag: { value: "Duplicate", color: Color.Yellow },
+        tooltip: "Another file holds the same version",
+      });
+    }
+    accessories.push({ text: formatFileSize(file.sizeBytes), tooltip: "Size on disk" });
+    accessories.push({ text: formatFriendlyDateTime(file.modifiedAt), tooltip: "Modified" });
+
+    const version = file.identity?.version ?? file.record?.app.version;
+    const build = file.identity?.buildNumber;
+
+    return (
+      <List.Item
+        key={file.filePath}
+        title={file.relativePath}
+        subtitle={file.error ?? (version ? `${version}${build ? ` (${build})` : ""}` : undefined)}
+        icon={file.status === "unreadable" ? Icon.ExclamationMark : Icon.Document}
+        keywords={[app.key, file.identity?.bundleId, version].filter((value): value is string => Boolean(value))}
+        accessories={accessories}
+        actions={
+          <ActionPanel>
+            <ActionPanel.Section>
+              {file.status === "relinkable" && file.record && (
+                <Action
+                  title={`Relink ${file.record.app.name} ${file.record.app.version}`}
+                  icon={Icon.Link}
+                  onAction={() => file.record && relinkFile(file.record, file)}
+                />
+              )}
+              {file.status === "untracked" && (
+                <Action title="Import to History" icon={Icon.Plus} onAction={() => importFile(file)} />
+              )}
+              <Action.ShowInFinder path={file.filePath} />
+              {file.identity && (
+                <Action.Push
+                  title="Inspect IPA"
+                  target={<IpaInspectorView filePath={file.filePath} appName={app.name} />}
+                  icon={Icon.MagnifyingGlass}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "i" }}
+                />
+              )}
+              {file.record && (
+                <Action.Push
+                  title="View All Downloaded Versions"
+                  target={<AppDownloadHistoryView bundleId={file.record.app.bundleId} appName={app.name} />}
+                  icon={Icon.List}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "a" }}
+                />
+              )}
+              <Action.CopyToClipboard
+                title="Copy File Path"
+                content={file.filePath}
+                shortcut={Keyboard.Shortcut.Common.CopyPath}
+              />
+            </ActionPanel.Section>
+            <ActionPanel.Section>{rescanAction}</ActionPanel.Section>
+          </ActionPanel>
+        }
+      />
+    );
+  };
+
+  const renderMissingRecord = (app: LibraryApp, record: DownloadHistoryItem) => {
+    // Any file of this app that no record claims could be where it went
+    const candidates = app.files.filter((file) => file.status !== "linked" && file.status !== "unreadable");
+
+    return (
+      <List.Item
+        key={`missing-${getHistoryRecordKey(record)}`}
+        title={`${record.app.name} ${record.app.version}`}
+        subtitle={record.filePath}
+        icon={{ source: Icon.QuestionMarkCircle, tintColor: Color.Red }}
+        keywords={[record.app.bundleId]}
+        accessories={[
+          { tag: { value: "Missing", color: Color.Red }, tooltip: "The recorded file is no longer on disk" },
+          { text: formatFriendlyDateTime(record.downloadDate), tooltip: "Downloaded" },
+        ]}
+        actions={
+          <ActionPanel>
+            <ActionPanel.Section>
+              {candidates.length > 0 && (
+                <ActionPanel.Submenu title="Relink to File" icon={Icon.Link}>
+                  {candidates.map((file) => (
+                    <Action
+                      key={file.filePath}
+                      title={file.relativePath}
+                      icon={file.identity?.version === record.app.version ? Icon.CheckCircle : Icon.Document}
+                      onAction={() => relinkFile(record, file)}
+                    />
+                  ))}
+                </ActionPanel.Submenu>
+              )}
+              <Action.Push
+                title="View All Downloaded Versions"
+                target={<AppDownloadHistoryView bundleId={record.app.bundleId} appName={record.app.name} />}
+                icon={Icon.List}
+                shortcut={{ modifiers: ["cmd", "opt"], key: "a" }}
+              />
+              <Action
+                title="Remove Version from History"
+                onAction={() => removeVersionFromHistory(record)}
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={Keyboard.Shortcut.Common.Remove}
+              />
+            </ActionPanel.Section>
+            <ActionPanel.Section>{rescanAction}</ActionPanel.Section>
+          </ActionPanel>
+        }
+      />
+    );
+  };
+
+  const navigationTitle = report
+    ? `IPA Library — ${formatFileSize(report.totalBytes)}${report.missingCount + report.orphanedCount + report.duplicateCount > 0 ? ` · ${report.missingCount} missing, ${report.orphanedCount} not linked, ${report.duplicateCount} duplicate` : ""}`
+    : "IPA Library";
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={navigationTitle}
+      searchBarPlaceholder="Filter by app, file name, or bundle ID..."
+      searchBarAccessory={
+        <List.Dropdown tooltip="Filter" value={filter} onChange={(value) => setFilter(value as LibraryFilter)}>
+          <List.Dropdown.Item title="All Apps" value="all" />
+          <List.Dropdown.Item title="Needs Attention" value="issues" icon={Icon.Warning} />
+        </List.Dropdown>
+      }
+    >
+      {error ? (
+        <List.EmptyView
+          icon={Icon.Warning}
+          title="Could Not Scan Folder"
+          description={`${error.message}\n${directory}`}
+          actions={<ActionPanel>{rescanAction}</ActionPanel>}
+        />
+      ) : (
+        <List.EmptyView
+          icon={Icon.Folder}
+          title={filter === "issues" ? "Nothing Needs Attention" : "No IPA Files"}
+          description={
+            filter === "issues"
+              ? "Every file is in history and every history entry has its file"
+              : `No .ipa files in ${directory}`
+          }
+          actions={<ActionPanel>{rescanAction}</ActionPanel>}
+        />
+      )}
+      {apps.map((app) => (
+        <List.Section
+          key={app.key}
+          title={app.name}
+          subtitle={`${formatFileSize(app.totalBytes)} · ${app.files.length} ${app.files.length === 1 ? "file" : "files"}`}
+        >
+          {app.missingRecords.map((record) => renderMissingRecord(app, record))}
+          {app.files.map((file) => renderFile(app, file))}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
@@ -5,18 +5,28 @@ import path from "path";
 import { promisify } from "util";
 import { logger } from "@chrismessina/raycast-logger";
 import { Alert, confirmAlert, showHUD, showToast, Toast } from "@raycast/api";
-import { getConfig } from "./config";
+import { getConfig, type IntegrityVerification } from "./config";
 import { IpaToolSearchApp, IpaToolSearchResponse } from "./types";
 import {
   BuiltInAppError,
+  DownloadCancelledError,
   ensureAuthenticated,
   Needs2FAError,
   NeedsLoginError,
   NotYetReleasedError,
 } from "./utils/auth";
 import { extractFilePath, safeJsonParse } from "./utils/common";
+import { createDownloadStatsTracker, describeDownloadSummary, type DownloadProgress } from "./utils/download-stats";
 import { handleAppSearchError, handleAuthError, handleDownloadError, sanitizeQuery } from "./utils/error-handler";
-import { cleanAppNameForFilename } from "./utils/formatting";
+import {
+  findFilesMatchingTemplate,
+  renderFilenameTemplate,
+  type FilenameTemplateContext,
+} from "./utils/filename-template";
+import { IpaArchiveError, readZipEntries, type ZipEntry } from "./utils/ipa-archive";
+import { describeCorruptEntries, verifyIpaChecksums } from "./utils/ipa-checksum";
+import { findAppInfoPlistEntry, readIpaIdentity } from "./utils/ipa-inspector";
+import { getAuthInfo } from "./utils/ipatool-auth";
 import {
   analyzeIpatoolError,
   builtInAppMessage,
@@ -30,12 +40,22 @@ import {
   fetchITunesAppDetails,
 } from "./utils/itunes-api";
 import { getDownloadsDirectory, IPATOOL_PATH } from "./utils/paths";
-import { cleanupTempFilesByPattern, handleProcessErrorCleanup, registerTempFile } from "./utils/temp-file-manager";
+import { resolveStorefront } from "./utils/storefronts";
+import {
+  cleanupPartialDownload,
+  cleanupTempFilesByPattern,
+  findPartialDownload,
+  handleProcessErrorCleanup,
+  registerTempFile,
+  type PartialDownload,
+} from "./utils/temp-file-manager";
 
 // Retry configuration for handling transient network errors
 const MAX_RETRIES = 3; // Maximum number of retry attempts
 const INITIAL_RETRY_DELAY = 2000; // Initial delay between retries (2 seconds)
 const MAX_RETRY_DELAY = 10000; // Maximum delay between retries (10 seconds)
+const VERSION_COMMAND_TIMEOUT = 60000; // list-versions / get-version-metadata (60 seconds)
+const STALL_KILL_GRACE_MS = 5000; // Time a stalled ipatool gets to exit after SIGTERM before SIGKILL (5 seconds)
 
 const execFileAsync = promisify(execFile);
 
@@ -55,6 +75,9 @@ interface ValidationResult {
   cancelled?: boolean;
 }
 
+/** Filename template values the caller knows beyond bundle ID, name and version */
+export type FileNameDetails = Pick<FilenameTemplateContext, "trackId" | "developer" | "storefront">;
+
 /**
  * Result of the existing-download lookup.
  *
@@ -69,32 +92,40 @@ export type ExistingDownloadCheck = { kind: "none" } | { kind: "overwrite" } | {
  * if found, prompt the user to overwrite. Runs before any progress UI so the
  * caller can decide whether to start the download flow at all.
  *
- * Match strategy mirrors the rename logic at the end of a successful download:
- * exact filenames first ({bundleId}.ipa, {AppName} {Version}.ipa, {AppName}.ipa),
+ * Match strategy mirrors the rename at the end of a successful download: ipatool's
+ * own {bundleId}.ipa, then any file the filename template produces for this app
+ * and version (tokens not known yet, like {build} and {date}, match anything),
  * then a fuzzy fallback on bundleId substring only. The match is version-specific:
- * a different version of the same app ({AppName} {OtherVersion}.ipa) is NOT a
- * collision and downloads alongside the existing file without a prompt.
+ * a different version of the same app is NOT a collision and downloads alongside
+ * the existing file without a prompt.
  */
 export async function checkForExistingDownload(
   bundleId: string,
   appName?: string,
   appVersion?: string,
+  fileNameDetails?: FileNameDetails,
 ): Promise<ExistingDownloadCheck> {
   const displayName = appName || bundleId;
   const downloadsDir = getDownloadsDirectory();
-
-  const sanitizedName = appName ? appName.replace(/[/\\?%*:|"<>]/g, "-") : undefined;
-  const possibleFilenames = [
-    `${bundleId}.ipa`,
-    sanitizedName && appVersion ? `${sanitizedName} ${appVersion}.ipa` : undefined,
-    sanitizedName ? `${sanitizedName}.ipa` : undefined,
-  ].filter(Boolean) as string[];
+  const { filenameTemplate } = getConfig();
+
+  const possibleFilePaths = [path.join(downloadsDir, `${bundleId}.ipa`)];
+  // Without a name and version every token would be a wildcard and match other apps' files
+  if (appName && appVersion) {
+    possibleFilePaths.push(
+      ...(await findFilesMatchingTemplate(downloadsDir, filenameTemplate, {
+        ...fileNameDetails,
+        appName,
+        version: appVersion,
+        bundleId,
+      })),
+    );
+  }
 
   let existingFile: string | null = null;
   let existingFileSize = 0;
 
-  for (const filename of possibleFilenames) {
-    const filePath = path.join(downloadsDir, filename);
+  for (const filePath of possibleFilePaths) {
     try {
       const stats = await fs.promises.stat(filePath);
       existingFile = filePath;
@@ -168,6 +199,8 @@ interface IntegrityResult {
   isValid: boolean;
   errorMessage?: string;
   shouldRetry?: boolean;
+  /** SHA-256 of the file, computed in checksum mode */
+  sha256?: string;
 }
 
 /**
@@ -175,19 +208,19 @@ interface IntegrityResult {
  * @param bundleId Bundle identifier of the app
  * @param appName Optional app name for better error messages
  * @param expectedSizeBytes Optional expected app size in bytes
+ * @param downloadsDir Folder the download will be saved to (defaults to the download path preference)
  * @returns Promise<ValidationResult> - validation result
  */
 export async function validateDownloadPrereqs(
   bundleId: string,
   appName?: string,
   expectedSizeBytes?: number,
+  downloadsDir = getDownloadsDirectory(),
 ): Promise<ValidationResult> {
   const displayName = appName || bundleId;
   logger.log(`[validation] Starting prerequisite validation for ${displayName}`);
 
   try {
-    // Get the downloads directory
-    const downloadsDir = getDownloadsDirectory();
     logger.log(`[validation] Downloads directory: ${downloadsDir}`);
 
     // 1. Check write permission to downloads directory
@@ -376,6 +409,8 @@ export function isFreeApp(price?: string): boolean {
  */
 export interface PurchaseResult {
   success: boolean;
+  /** The Apple ID already had a license, so nothing was purchased */
+  alreadyOwned?: boolean;
   errorType?: IpatoolErrorInfo["errorType"];
   userMessage?: string;
 }
@@ -438,6 +473,7 @@ export async function purchaseApp(
 
   let lastError = "";
   let succeeded = false;
+  let alreadyOwned = false;
 
   for (const line of lines) {
     try {
@@ -454,6 +490,7 @@ export async function purchaseApp(
           errStr.includes("license already exists")
         ) {
           succeeded = true;
+          alreadyOwned = true;
           break;
         }
         lastError = String(obj["error"]);
@@ -467,6 +504,7 @@ export async function purchaseApp(
   const outputLower = stdout.toLowerCase();
   if (!succeeded && (outputLower.includes('"success":true') || outputLower.includes("license already exists"))) {
     succeeded = true;
+    alreadyOwned = outputLower.includes("license already exists");
   }
 
   if (succeeded) {
@@ -475,7 +513,7 @@ export async function purchaseApp(
     if (!suppressHUD) {
       await showHUD(`Successfully purchased ${displayName}`);
     }
-    return { success: true };
+    return { success: true, alreadyOwned };
   }
 
   // Purchase failed — analyze the error from stdout JSON
@@ -510,15 +548,17 @@ export async function purchaseApp(
  * @param filePath Path to the downloaded .ipa file
  * @param appName Optional app name for better error messages
  * @param ipatoolJson Optional ipatool JSON response containing metadata
+ * @param mode "checksum" adds a CRC-32 check of every ZIP entry and a SHA-256 of the file
  * @returns Promise<IntegrityResult> - integrity verification result
  */
 export async function verifyFileIntegrity(
   filePath: string,
   appName?: string,
   ipatoolJson?: Record<string, string | number> | null,
+  mode: Exclude<IntegrityVerification, "off"> = "basic",
 ): Promise<IntegrityResult> {
   const displayName = appName || path.basename(filePath);
-  logger.log(`[integrity] Starting file integrity verification for ${displayName}`);
+  logger.log(`[integrity] Starting ${mode} file integrity verification for ${displayName}`);
 
   try {
     // Basic: ensure file exists and size > 1 MB
@@ -540,101 +580,52 @@ export async function verifyFileIntegrity(
     // Structural: verify ZIP magic bytes and scan central directory for Payload/*.app and Info.plist
     // Uses streaming reads instead of adm-zip to avoid loading entire file into memory
     // (large IPAs like 872 MB would crash the Raycast worker with OOM)
-    const fd = fs.openSync(filePath, "r");
+    let entries: ZipEntry[];
+    const handle = await fs.promises.open(filePath, "r");
     try {
-      // Check ZIP magic bytes (PK\x03\x04)
-      const magic = Buffer.alloc(4);
-      fs.readSync(fd, magic, 0, 4, 0);
-      if (magic[0] !== 0x50 || magic[1] !== 0x4b || magic[2] !== 0x03 || magic[3] !== 0x04) {
-        const errorMsg = `Downloaded file is not a valid ZIP/IPA archive (bad magic bytes)`;
-        logger.error(`[integrity] Invalid ZIP magic bytes: ${filePath}`);
-        return { isValid: false, errorMessage: errorMsg, shouldRetry: true };
-      }
-
-      // Read the end of the file to find the End of Central Directory record (EOCD)
-      // EOCD is at most 65557 bytes from the end (22 byte fixed + up to 65535 comment)
-      const tailSize = Math.min(stats.size, 65557);
-      const tail = Buffer.alloc(tailSize);
-      fs.readSync(fd, tail, 0, tailSize, stats.size - tailSize);
-
-      // Search backwards for EOCD signature (PK\x05\x06)
-      let eocdOffset = -1;
-      for (let i = tailSize - 22; i >= 0; i--) {
-        if (tail[i] === 0x50 && tail[i + 1] === 0x4b && tail[i + 2] === 0x05 && tail[i + 3] === 0x06) {
-          eocdOffset = i;
-          break;
-        }
-      }
-
-      if (eocdOffset === -1) {
-        const errorMsg = `Downloaded IPA file is corrupted (no central directory found)`;
-        logger.error(`[integrity] No EOCD record found: ${filePath}`);
-        return { isValid: false, errorMessage: errorMsg, shouldRetry: true };
-      }
-
-      // Parse EOCD to find central directory offset and size
-      const cdSize = tail.readUInt32LE(eocdOffset + 12);
-      const cdOffset = tail.readUInt32LE(eocdOffset + 16);
-
-      if (cdOffset + cdSize > stats.size || cdSize === 0) {
-        const errorMsg = `Downloaded IPA file is empty or corrupted`;
-        logger.error(`[integrity] Invalid central directory: offset=${cdOffset}, size=${cdSize}`);
-        return { isValid: false, errorMessage: errorMsg, shouldRetry: true };
-      }
-
-      // Read central directory entries to check for Payload/*.app and Info.plist
-      // Only read the central directory portion, not the entire file
-      const cd = Buffer.alloc(cdSize);
-      fs.readSync(fd, cd, 0, cdSize, cdOffset);
-
-      let foundPayloadApp = false;
-      let foundInfoPlist = false;
-      let pos = 0;
-
-      while (pos + 46 <= cdSize) {
-        // Check for central directory file header signature (PK\x01\x02)
-        if (cd[pos] !== 0x50 || cd[pos + 1] !== 0x4b || cd[pos + 2] !== 0x01 || cd[pos + 3] !== 0x02) {
-          break;
-        }
-
-        const nameLen = cd.readUInt16LE(pos + 28);
-        const extraLen = cd.readUInt16LE(pos + 30);
-        const commentLen = cd.readUInt16LE(pos + 32);
-
-        if (pos + 46 + nameLen > cdSize) break;
-
-        const entryName = cd.toString("utf8", pos + 46, pos + 46 + nameLen);
-
-        if (!foundPayloadApp && entryName.startsWith("Payload/") && entryName.includes(".app/")) {
-          foundPayloadApp = true;
-          logger.log(`[integrity] ✓ Found Payload app structure: ${entryName}`);
-        }
-
-        if (!foundInfoPlist && entryName.includes("Info.plist")) {
-          foundInfoPlist = true;
-          logger.log(`[integrity] ✓ Found Info.plist: ${entryName}`);
-        }
+      entries = await readZipEntries(handle, stats.size);
+    } catch (error) {
+      if (!(error instanceof IpaArchiveError)) throw error;
+      logger.error(`[integrity] ${error.message}: ${filePath}`);
+      const errorMsg =
+        error.reason === "not_zip"
+          ? `Downloaded file is not a valid ZIP/IPA archive (bad magic bytes)`
+          : error.reason === "no_central_directory"
+            ? `Downloaded IPA file is corrupted (no central directory found)`
+            : `Downloaded IPA file is empty or corrupted`;
+      return { isValid: false, errorMessage: errorMsg, shouldRetry: true };
+    } finally {
+      await handle.close();
+    }
 
-        if (foundPayloadApp && foundInfoPlist) break;
+    const payloadEntry = entries.find((entry) => entry.name.startsWith("Payload/") && entry.name.includes(".app/"));
+    if (!payloadEntry) {
+      const errorMsg = `Downloaded IPA file missing required Payload/*.app structure`;
+      logger.error(`[integrity] Missing Payload/*.app structure in: ${filePath}`);
+      return { isValid: false, errorMessage: errorMsg, shouldRetry: true };
+    }
+    logger.log(`[integrity] ✓ Found Payload app structure: ${payloadEntry.name}`);
 
-        pos += 46 + nameLen + extraLen + commentLen;
-      }
+    const infoPlistEntry = findAppInfoPlistEntry(entries);
+    if (!infoPlistEntry) {
+      const errorMsg = `Downloaded IPA file missing required Info.plist`;
+      logger.error(`[integrity] Missing Info.plist in: ${filePath}`);
+      return { isValid: false, errorMessage: errorMsg, shouldRetry: true };
+    }
+    logger.log(`[integrity] ✓ Found Info.plist: ${infoPlistEntry.name}`);
 
-      if (!foundPayloadApp) {
-        const errorMsg = `Downloaded IPA file missing required Payload/*.app structure`;
-        logger.error(`[integrity] Missing Payload/*.app structure in: ${filePath}`);
-        return { isValid: false, errorMessage: errorMsg, shouldRetry: true };
-      }
+    logger.log(`[integrity] ✓ IPA file has valid structure with Payload/*.app and Info.plist`);
 
-      if (!foundInfoPlist) {
-        const errorMsg = `Downloaded IPA file missing required Info.plist`;
-        logger.error(`[integrity] Missing Info.plist in: ${filePath}`);
+    let sha256: string | undefined;
+    if (mode === "checksum") {
+      const checksums = await verifyIpaChecksums(filePath);
+      if (checksums.corruptEntries.length > 0) {
+        const errorMsg = `Downloaded IPA file is corrupted (${describeCorruptEntries(checksums.corruptEntries)})`;
+        logger.error(`[integrity] CRC-32 mismatch in ${filePath}: ${checksums.corruptEntries.join(", ")}`);
         return { isValid: false, errorMessage: errorMsg, shouldRetry: true };
       }
-
-      logger.log(`[integrity] ✓ IPA file has valid structure with Payload/*.app and Info.plist`);
-    } finally {
-      fs.closeSync(fd);
+      sha256 = checksums.sha256;
+      logger.log(`[integrity] ✓ All ${checksums.entryCount} entries pass CRC-32; SHA-256 ${sha256}`);
     }
 
     // If ipatool JSON contains "fileSize" or "checksum", compare
@@ -655,14 +646,23 @@ export async function verifyFileIntegrity(
       }
 
       if (ipatoolJson.checksum && typeof ipatoolJson.checksum === "string") {
-        // For checksum verification, we would need to implement the appropriate hash algorithm
-        // This is a placeholder for future checksum verification implementation
-        logger.log(`[integrity] Checksum verification available (${ipatoolJson.checksum}) but not implemented yet`);
+        // Only a SHA-256-shaped value is comparable with the digest computed above
+        const expectedSha256 = ipatoolJson.checksum.toLowerCase();
+        if (sha256 && /^[0-9a-f]{64}$/.test(expectedSha256)) {
+          if (expectedSha256 !== sha256) {
+            const errorMsg = `Checksum mismatch: expected ${expectedSha256}, got ${sha256}`;
+            logger.error(`[integrity] ${errorMsg}`);
+            return { isValid: false, errorMessage: errorMsg, shouldRetry: true };
+          }
+          logger.log(`[integrity] ✓ SHA-256 matches ipatool checksum`);
+        } else {
+          logger.log(`[integrity] ipatool reported checksum ${ipatoolJson.checksum}; not comparable in ${mode} mode`);
+        }
       }
     }
 
     logger.log(`[integrity] ✓ File integrity verification completed successfully for ${displayName}`);
-    return { isValid: true };
+    return { isValid: true, sha256 };
   } catch (error) {
     const errorMsg = `File integrity verification failed: ${error instanceof Error ? error.message : String(error)}`;
     logger.error(`[integrity] Verification error for ${filePath}:`, error);
@@ -670,6 +670,70 @@ export async function verifyFileIntegrity(
   }
 }
 
+/**
+ * Run `ipatool search` and parse its JSON output
+ */
+async function runIpatoolSearch(query: string, limit: number): Promise<IpaToolSearchApp[]> {
+  // Execute the search command with proper formatting and non-interactive mode
+  // Using execFile with array arguments to prevent command injection
+  logger.log(`[ipatool] Executing search for query: ${sanitizeQuery(query)} with limit: ${limit}`);
+  const { stdout } = await execFileAsync(IPATOOL_PATH, [
+    "search",
+    query,
+    "-l",
+    limit.toString(),
+    "--format",
+    "json",
+    "--non-interactive",
+  ]);
+
+  // Parse the JSON output with fallback to empty response if parsing fails
+  logger.log(`[ipatool] Received search response, parsing JSON...`);
+  const searchResponse = safeJsonParse<IpaToolSearchResponse>(stdout, { count: 0, apps: [] });
+  logger.log(`[ipatool] Found ${searchResponse.apps?.length || 0} apps in search results`);
+
+  return searchResponse.apps || [];
+}
+
+// Whether ipatool has a session, checked once per command session rather than
+// on every search: `auth info` is a process spawn, and search runs per keystroke.
+// A failed search clears it so the next one checks again.
+let accountSearchSignedIn: Promise<boolean> | undefined;
+
+function isSignedInForAccountSearch(): Promise<boolean> {
+  accountSearchSignedIn ??= getAuthInfo().then(
+    ({ authenticated }) => authenticated,
+    (error) => {
+      logger.warn("[ipatool] Could not check the session for account search:", error);
+      accountSearchSignedIn = undefined;
+      return false;
+    },
+  );
+  return accountSearchSignedIn;
+}
+
+/**
+ * Search with ipatool only if it already has a session. Unlike {@link searchApps}
+ * this never signs in, prompts, or shows a toast, so it can run alongside a
+ * search that doesn't need an Apple ID.
+ * @param query Search query
+ * @param limit Maximum number of results
+ * @returns Array of app results, or null when ipatool is signed out or unavailable
+ */
+export async function searchAppsIfSignedIn(query: string, limit = 20): Promise<IpaToolSearchApp[] | null> {
+  if (!(await isSignedInForAccountSearch())) {
+    logger.log("[ipatool] Skipping account search: not signed in");
+    return null;
+  }
+  try {
+    return await runIpatoolSearch(query, limit);
+  } catch (error) {
+    logger.warn(`[ipatool] Account search for "${sanitizeQuery(query)}" failed:`, error);
+    accountSearchSignedIn = undefined;
+    return null;
+  }
+}
+
 /**
  * Search for iOS apps using ipatool
  * @param query Search query
@@ -687,25 +751,7 @@ export async function searchApps(query: string, limit = 20): Promise<IpaToolSear
       return [];
     }
 
-    // Execute the search command with proper formatting and non-interactive mode
-    // Using execFile with array arguments to prevent command injection
-    logger.log(`[ipatool] Executing search for query: ${sanitizeQuery(query)} with limit: ${limit}`);
-    const { stdout } = await execFileAsync(IPATOOL_PATH, [
-      "search",
-      query,
-      "-l",
-      limit.toString(),
-      "--format",
-      "json",
-      "--non-interactive",
-    ]);
-
-    // Parse the JSON output with fallback to empty response if parsing fails
-    logger.log(`[ipatool] Received search response, parsing JSON...`);
-    const searchResponse = safeJsonParse<IpaToolSearchResponse>(stdout, { count: 0, apps: [] });
-    logger.log(`[ipatool] Found ${searchResponse.apps?.length || 0} apps in search results`);
-
-    return searchResponse.apps || [];
+    return await runIpatoolSearch(query, limit);
   } catch (error) {
     if (error instanceof IpatoolSetupError) {
       logger.error("ipatool setup failed during search:", error);
@@ -718,6 +764,173 @@ export async function searchApps(query: string, limit = 20): Promise<IpaToolSear
   }
 }
 
+/**
+ * One downloadable build of an app, keyed by the App Store's external version ID.
+ * `displayVersion` and `releaseDate` come from `get-version-metadata` and are
+ * absent until that lookup has run.
+ */
+export interface AppVersionInfo {
+  externalVersionId: string;
+  displayVersion?: string;
+  releaseDate?: string;
+}
+
+interface IpatoolJsonResult {
+  code: number | null;
+  lines: Record<string, unknown>[];
+  stderr: string;
+}
+
+/**
+ * Run a short-lived ipatool command in JSON mode and collect every JSON line it prints.
+ * Resolves on any exit code; ipatool reports failures as `{"error": ...}` lines on stdout.
+ * @param args Command and arguments, without the output-format flags
+ * @returns Exit code, parsed JSON lines, and stderr
+ */
+async function runIpatoolJsonCommand(args: string[]): Promise<IpatoolJsonResult> {
+  const child = await createSecureIpatoolProcess([...args, "--format", "json", "--non-interactive"], {
+    timeout: VERSION_COMMAND_TIMEOUT,
+    allowedCommands: [args[0]],
+  });
+
+  return new Promise<IpatoolJsonResult>((resolve, reject) => {
+    let stdout = "";
+    let stderr = "";
+    child.stdout?.on("data", (data: Buffer) => {
+      stdout += data.toString();
+    });
+    child.stderr?.on("data", (data: Buffer) => {
+      stderr += data.toString();
+    });
+    child.on("error", (error) => reject(error));
+    child.on("close", (code) => {
+      const lines = stdout
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.startsWith("{") && line.endsWith("}"))
+        .map((line) => safeJsonParse<Record<string, unknown> | null>(line, null))
+        .filter((line): line is Record<string, unknown> => line !== null);
+      resolve({ code, lines, stderr });
+    });
+  });
+}
+
+/**
+ * Classify a failed version command. Auth failures become NeedsLoginError so the
+ * views can push the sign-in form, same as a failed download.
+ * @param result The failed command result
+ * @returns The analysis and the error to throw
+ */
+function analyzeVersionCommandFailure(result: IpatoolJsonResult): { analysis: IpatoolErrorInfo; error: Error } {
+  const parsedError = result.lines.map((line) => line["error"]).find((value) => typeof value === "string");
+  const message = (parsedError as string | undefined) || result.stderr || `ipatool exited with code ${result.code}`;
+  const analysis = analyzeIpatoolError(message, result.stderr, "download");
+  const error = analysis.isAuthError ? new NeedsLoginError(analysis.userMessage) : new Error(analysis.userMessage);
+  return { analysis, error };
+}
+
+/**
+ * List every external version ID the App Store still serves for an app.
+ *
+ * Apple answers this from the same endpoint as a download, so the account needs
+ * a license. Free apps get one automatically (once); paid apps fail with the
+ * analyzed license message.
+ *
+ * @param bundleId Bundle identifier of the app
+ * @param appName Optional app name for logging
+ * @param price Optional price, used to decide whether a missing license can be acquired
+ * @returns External version IDs, newest first
+ */
+export async function listAppVersions(bundleId: string, appName?: string, price?: string): Promise<string[]> {
+  const displayName = appName || bundleId;
+  logger.log(`[ipatool] Listing available versions for ${displayName} (${bundleId})`);
+
+  const isAuthenticated = await ensureAuthenticated();
+  if (!isAuthenticated) {
+    throw new NeedsLoginError("Sign in to your Apple ID to list app versions");
+  }
+
+  let result = await runIpatoolJsonCommand(["list-versions", "-b", bundleId]);
+
+  if (result.code !== 0) {
+    const { analysis, error } = analyzeVersionCommandFailure(result);
+    if (!analysis.isLicenseRequired || !isFreeApp(price) || isAppleBuiltInApp(bundleId)) {
+      logger.error(`[ipatool] list-versions failed for ${displayName}: ${analysis.userMessage}`);
+      throw error;
+    }
+
+    logger.log(`[ipatool] License required to list versions of free app ${displayName}; acquiring one`);
+    const purchase = await purchaseApp(bundleId, appName, { suppressHUD: true });
+    if (!purchase.success) {
+      throw new Error(purchase.userMessage || `Could not get a license for "${displayName}"`);
+    }
+    result = await runIpatoolJsonCommand(["list-versions", "-b", bundleId]);
+    if (result.code !== 0) {
+      throw analyzeVersionCommandFailure(result).error;
+    }
+  }
+
+  const identifiers = result.lines
+    .map((line) => line["externalVersionIdentifiers"])
+    .find((value): value is unknown[] => Array.isArray(value));
+
+  // ipatool lists oldest first; the views want the most recent builds on top
+  const versionIds = (identifiers ?? []).map((id) => String(id)).reverse();
+  logger.log(`[ipatool] ${displayName} has ${versionIds.length} downloadable version(s)`);
+  return versionIds;
+}
+
+/**
+ * Resolve the version string and release date behind an external version ID
+ * @param bundleId Bundle identifier of the app
+ * @param externalVersionId External version ID from {@link listAppVersions}
+ * @returns The version metadata (fields are omitted when Apple does not report them)
+ */
+export async function getAppVersionMetadata(bundleId: string, externalVersionId: string): Promise<AppVersionInfo> {
+  const result = await runIpatoolJsonCommand([
+    "get-version-metadata",
+    "-b",
+    bundleId,
+    "--external-version-id",
+    externalVersionId,
+  ]);
+
+  if (result.code !== 0) {
+    const { analysis, error } = analyzeVersionCommandFailure(result);
+    logger.error(
+      `[ipatool] get-version-metadata failed for ${bundleId} (${externalVersionId}): ${analysis.userMessage}`,
+    );
+    throw error;
+  }
+
+  const metadata = result.lines.find((line) => "displayVersion" in line || "releaseDate" in line) ?? {};
+  return {
+    externalVersionId,
+    displayVersion: typeof metadata["displayVersion"] === "string" ? metadata["displayVersion"] : undefined,
+    releaseDate: typeof metadata["releaseDate"] === "string" ? metadata["releaseDate"] : undefined,
+  };
+}
+
+/**
+ * Partial file an earlier attempt left for ipatool to continue. A partial
+ * already at or past the expected size can't be resumed and is left out, so
+ * the usual temp file cleanup removes it.
+ */
+function getResumablePartial(
+  downloadsDir: string,
+  bundleId: string,
+  version: string | undefined,
+  expectedSizeBytes: number | undefined,
+): PartialDownload | null {
+  const partial = findPartialDownload(downloadsDir, bundleId, version);
+  if (!partial) return null;
+  if (partial.sizeBytes === 0 || (expectedSizeBytes && partial.sizeBytes >= expectedSizeBytes)) {
+    logger.log(`[ipatool] Discarding partial download ${partial.filePath} (${partial.sizeBytes} bytes)`);
+    return null;
+  }
+  return partial;
+}
+
 /**
  * Download an app from the App Store using ipatool
  * @param bundleId Bundle identifier of the app to download
@@ -726,6 +939,7 @@ export async function searchApps(query: string, limit = 20): Promise<IpaToolSear
  * @param price Optional price for determining if app is paid
  * @param retryCount Current retry attempt (used for exponential backoff)
  * @param retryDelay Current retry delay in milliseconds
+ * @param options.externalVersionId Download a specific (usually older) build instead of the latest
  * @returns Promise<string | null | undefined> - Path on success; null if user cancelled; undefined on failure
  */
 export async function downloadApp(
@@ -735,7 +949,20 @@ export async function downloadApp(
   price = "0",
   retryCount = 0,
   retryDelay = INITIAL_RETRY_DELAY,
-  options?: { suppressHUD?: boolean; onProgress?: (progress: number) => void; expectedSizeBytes?: number },
+  options?: {
+    suppressHUD?: boolean;
+    /** Called with the 0–1 fraction, plus bytes, speed and ETA for richer displays */
+    onProgress?: (progress: number, details: DownloadProgress) => void;
+    expectedSizeBytes?: number;
+    externalVersionId?: string;
+    /** Called with the file's SHA-256 when checksum verification passes */
+    onChecksum?: (sha256: string) => void;
+    fileNameDetails?: FileNameDetails;
+    /** Save into this folder instead of the download path preference */
+    outputDirectory?: string;
+    /** Aborting stops ipatool, deletes the partial file and rejects with DownloadCancelledError */
+    signal?: AbortSignal;
+  },
 ): Promise<string | null | undefined> {
   try {
     logger.log(`[ipatool] Starting download for bundleId: ${bundleId}, app: ${appName}, version: ${appVersion}`);
@@ -763,7 +990,7 @@ export async function downloadApp(
         logger.log(`[validation] Using provided expected app size: ${Math.ceil(expectedSizeBytes / BYTES_PER_MB)} MB`);
       }
 
-      const validation = await validateDownloadPrereqs(bundleId, appName, expectedSizeBytes);
+      const validation = await validateDownloadPrereqs(bundleId, appName, expectedSizeBytes, options?.outputDirectory);
       if (!validation.isValid) {
         const msg = validation.errorMessage || "Prerequisite validation failed";
         if (validation.cancelled) {
@@ -783,8 +1010,8 @@ export async function downloadApp(
       return null;
     }
 
-    // Get the downloads directory from preferences
-    const downloadsDir = getDownloadsDirectory();
+    // Get the downloads directory from preferences, unless the caller picked one
+    const downloadsDir = options?.outputDirectory ?? getDownloadsDirectory();
 
     // Get expected file size for progress tracking
     // Use provided size or fetch from iTunes API as fallback (only on initial attempt to avoid duplicate calls)
@@ -813,7 +1040,7 @@ export async function downloadApp(
     }
 
     if (!expectedSizeBytes) {
-      logger.warn(`[ipatool] No expected size available - progress tracking will be disabled`);
+      logger.warn(`[ipatool] No expected size available - progress percentage and ETA will be unavailable`);
     }
 
     // Show initial HUD with retry information if applicable
@@ -829,7 +1056,23 @@ export async function downloadApp(
       `[ipatool] Downloading app: ${appName || bundleId}, isPaidApp: ${isPaidApp}, price: ${price}${retryInfo}`,
     );
 
+    // A retry continues whatever the last attempt wrote; a new download only
+    // continues a partial of the same version
+    const partial = getResumablePartial(
+      downloadsDir,
+      bundleId,
+      retryCount > 0 ? undefined : appVersion || undefined,
+      expectedSizeBytes,
+    );
+    const resumedFromBytes = partial?.sizeBytes ?? 0;
+    if (partial) {
+      logger.log(
+        `[ipatool] Resuming ${appName || bundleId} from ${Math.ceil(resumedFromBytes / BYTES_PER_MB)} MB already in ${partial.filePath}`,
+      );
+    }
+
     // Use spawn instead of exec to get real-time output
+    const downloadStartedAt = Date.now();
     return new Promise<string | null | undefined>((resolve, reject) => {
       // Prepare the command and arguments
       const args = [
@@ -850,6 +1093,11 @@ export async function downloadApp(
         args.push("--purchase");
       }
 
+      if (options?.externalVersionId) {
+        logger.log(`[ipatool] Pinning download to external version ID ${options.externalVersionId}`);
+        args.push("--external-version-id", options.externalVersionId);
+      }
+
       logger.log(`[ipatool] Executing download command: ${IPATOOL_PATH} ${args.join(" ")}`);
 
       // IPATool downloads to ${bundleId}_${adamId}_${version}.ipa, but we don't know adamId yet
@@ -858,9 +1106,9 @@ export async function downloadApp(
       const downloadFilePattern = `${bundleId}*.ipa`;
       registerTempFile(path.join(downloadsDir, downloadFilePattern));
 
-      // Clean up any leftover temp files from previous failed downloads
+      // Clean up any leftover temp files from previous failed downloads, except the one being resumed
       // This prevents "negative offset" errors when ipatool tries to resume from corrupted .ipa.tmp files
-      cleanupTempFilesByPattern(downloadsDir);
+      cleanupTempFilesByPattern(downloadsDir, partial ? [partial.filePath] : []);
 
       // Create secure spawn process with timeout management
       const { maxDownloadTimeout, maxStallTimeout } = getConfig();
@@ -874,15 +1122,29 @@ export async function downloadApp(
           let stderr = "";
           let lastProgress = 0;
           let stallTimer: NodeJS.Timeout;
+          let killGraceTimer: NodeJS.Timeout | undefined;
           let lastReportedSize = 0;
+          const stats = createDownloadStatsTracker(expectedSizeBytes, downloadStartedAt, resumedFromBytes);
+          // The close handler retries a stalled download, keeping the partial file to resume from
+          let stalled = false;
+          // Set when a stalled child had to be killed outright; its late close is ignored
+          let abandoned = false;
 
           const resetStallTimer = () => {
             if (stallTimer) clearTimeout(stallTimer);
             stallTimer = setTimeout(() => {
               logger.error(`[ipatool] Download stalled after ${maxStallTimeout / 1000} seconds without progress.`);
+              stalled = true;
               child.kill();
-              cleanupTempFilesByPattern(downloadsDir);
-              reject(new Error("Download stalled."));
+              // A child that ignores SIGTERM never emits close; don't let it hold the queue slot
+              killGraceTimer = setTimeout(() => {
+                logger.error(`[ipatool] Stalled download did not exit after SIGTERM; sending SIGKILL`);
+                abandoned = true;
+                clearAllTimers();
+                options?.signal?.removeEventListener("abort", cancelDownload);
+                child.kill("SIGKILL");
+                reject(new Error("Download stalled."));
+              }, STALL_KILL_GRACE_MS);
             }, maxStallTimeout);
           };
 
@@ -892,30 +1154,25 @@ export async function downloadApp(
           );
 
           const progressCheckInterval = setInterval(() => {
-            if (!expectedSizeBytes || expectedSizeBytes === 0) {
-              logger.log(
-                `[ipatool] Progress check skipped - no expected size (expectedSizeBytes: ${expectedSizeBytes})`,
-              );
-              return; // Can't calculate progress without expected size
-            }
-
             try {
-              // IPATool downloads to ${bundleId}_${adamId}_${version}.ipa
-              // Find any .ipa file in downloads dir that starts with bundleId
+              // IPATool downloads to ${bundleId}_${adamId}_${version}.ipa.tmp, then writes the .ipa
+              // Find the file in downloads dir that starts with bundleId, preferring the one still downloading
               let downloadFilePath: string | null = null;
-              const files = fs.readdirSync(downloadsDir);
-              for (const file of files) {
-                if (file.startsWith(bundleId) && file.endsWith(".ipa")) {
-                  downloadFilePath = path.join(downloadsDir, file);
-                  break;
-                }
+              const files = fs.readdirSync(downloadsDir).filter((file) => file.startsWith(bundleId));
+              const downloadFile =
+                files.find((file) => file.endsWith(".ipa.tmp")) ?? files.find((file) => file.endsWith(".ipa"));
+              if (downloadFile) {
+                downloadFilePath = path.join(downloadsDir, downloadFile);
               }
 
               const fileExists = downloadFilePath !== null;
 
               if (fileExists && downloadFilePath) {
-                const stats = fs.statSync(downloadFilePath);
-                const currentSize = stats.size;
+                const currentSize = fs.statSync(downloadFilePath).size;
+                // Sampled on every tick, with or without an expected size, for the speed and summary
+                const details = stats.sample(currentSize);
+                // Can't calculate progress without expected size
+                if (!expectedSizeBytes) return;
 
                 // Only report progress if file size has changed significantly (every 512KB or at completion)
                 // Using 512KB threshold to catch progress on faster downloads
@@ -930,7 +1187,7 @@ export async function downloadApp(
 
                     // Call progress callback if provided (callback will handle logging)
                     if (options?.onProgress) {
-                      options.onProgress(progress);
+                      options.onProgress(progress, details);
                     }
 
                     // Update HUD if not suppressed (when no callback is used)
@@ -967,9 +1224,24 @@ export async function downloadApp(
           // Clear stall timer and progress interval on completion
           const clearAllTimers = () => {
             if (stallTimer) clearTimeout(stallTimer);
+            if (killGraceTimer) clearTimeout(killGraceTimer);
             if (progressCheckInterval) clearInterval(progressCheckInterval);
           };
 
+          // Cancelling only kills ipatool; the close handler cleans up and rejects
+          let cancelled = false;
+          const cancelDownload = () => {
+            cancelled = true;
+            clearAllTimers();
+            logger.log(`[ipatool] Cancelling download of ${appName || bundleId} at the user's request`);
+            child.kill();
+          };
+          if (options?.signal?.aborted) {
+            cancelDownload();
+          } else {
+            options?.signal?.addEventListener("abort", cancelDownload, { once: true });
+          }
+
           // Collect stderr data
           if (child.stderr) {
             child.stderr.on("data", (data) => {
@@ -993,8 +1265,49 @@ export async function downloadApp(
           // `signal` carries the signal name (e.g. "SIGTERM"). We surface that
           // so the user-facing error is actionable instead of "code null".
           child.on("close", async (code, signal) => {
+            if (abandoned) return;
             clearAllTimers();
+            options?.signal?.removeEventListener("abort", cancelDownload);
             logger.log(`[ipatool] Download process exited with code ${code}${signal ? ` (signal: ${signal})` : ""}`);
+            logger.log(
+              `[ipatool] Transfer summary for ${appName || bundleId}: ${describeDownloadSummary(stats.summarize())}`,
+            );
+
+            if (cancelled) {
+              logger.log(`[ipatool] Download of ${appName || bundleId} cancelled; removing the partial file`);
+              cleanupPartialDownload(downloadsDir, bundleId, downloadStartedAt);
+              reject(new DownloadCancelledError(`Download of ${appName || bundleId} was cancelled`));
+              return;
+            }
+
+            if (stalled) {
+              if (retryCount < MAX_RETRIES) {
+                const nextRetryCount = retryCount + 1;
+                const nextRetryDelay = Math.min(retryDelay * 1.5, MAX_RETRY_DELAY);
+                logger.log(
+                  `[ipatool] Retrying stalled download in ${retryDelay}ms, resuming the partial file (attempt ${nextRetryCount}/${MAX_RETRIES})`,
+                );
+                if (!suppressHUD) {
+                  await showHUD(`Download stalled. Resuming in ${Math.round(retryDelay / 1000)}s...`);
+                }
+                await new Promise((resolveTimeout) => setTimeout(resolveTimeout, retryDelay));
+                resolve(
+                  await downloadApp(
+                    bundleId,
+                    appName,
+                    appVersion,
+                    price,
+                    nextRetryCount,
+                    nextRetryDelay,
+                    options ? { ...options, expectedSizeBytes } : { expectedSizeBytes },
+                  ),
+                );
+                return;
+              }
+              // The partial stays on disk, so downloading again later picks up where this left off
+              reject(new Error("Download stalled."));
+              return;
+            }
 
             // Only log full output in development or when there's an error
             if (process.env.NODE_ENV === "development" || code !== 0) {
@@ -1049,7 +1362,14 @@ export async function downloadApp(
                 specificError.includes("connection") ||
                 specificError.includes("bad record MAC");
 
-              if (isNetworkError && retryCount < MAX_RETRIES) {
+              // ipatool couldn't continue the partial file; drop it so the retry starts over
+              const isBadPartial = /negative offset|range not satisfiable/i.test(`${stderr} ${specificError}`);
+              if (isBadPartial) {
+                logger.log(`[ipatool] Partial download of ${appName || bundleId} can't be resumed; starting over`);
+                cleanupTempFilesByPattern(downloadsDir);
+              }
+
+              if ((isNetworkError || isBadPartial) && retryCount < MAX_RETRIES) {
                 const nextRetryCount = retryCount + 1;
                 const nextRetryDelay = Math.min(retryDelay * 1.5, MAX_RETRY_DELAY);
 
@@ -1060,9 +1380,7 @@ export async function downloadApp(
                   await showHUD(`Network error. Retrying in ${Math.round(retryDelay / 1000)}s...`);
                 }
 
-                // Clean up temp files before retrying to prevent "negative offset" errors
-                cleanupTempFilesByPattern(downloadsDir);
-
+                // The partial file is kept; the retry resumes from it
                 await new Promise((resolveTimeout) => setTimeout(resolveTimeout, retryDelay));
                 // Resolve with the retry result to properly propagate the Promise chain
                 resolve(
@@ -1328,7 +1646,10 @@ export async function downloadApp(
             logger.log(`[ipatool] Original downloaded file path: ${filePath}`);
 
             // Verify file integrity before renaming
-            if (filePath && fs.existsSync(filePath)) {
+            const { integrityVerification } = getConfig();
+            if (integrityVerification === "off") {
+              logger.log(`[ipatool] Integrity verification is off; skipping checks for ${appName || bundleId}`);
+            } else if (filePath && fs.existsSync(filePath)) {
               logger.log(`[ipatool] Starting file integrity verification for ${appName || bundleId}`);
 
               // Parse any JSON metadata from stdout for integrity verification
@@ -1349,7 +1670,12 @@ export async function downloadApp(
                 logger.log(`[ipatool] No valid JSON metadata found for integrity verification`);
               }
 
-              const integrityResult = await verifyFileIntegrity(filePath, appName, ipatoolJsonData);
+              const integrityResult = await verifyFileIntegrity(
+                filePath,
+                appName,
+                ipatoolJsonData,
+                integrityVerification,
+              );
 
               if (!integrityResult.isValid) {
                 logger.error(`[ipatool] File integrity verification failed: ${integrityResult.errorMessage}`);
@@ -1370,8 +1696,10 @@ export async function downloadApp(
                   false,
                 );
 
-                // Optional automatic retry (once) for corrupted files
-                if (integrityResult.shouldRetry && retryCount === 0) {
+                // Optional automatic retry (once) for corrupted files. A resumed file may have been
+                // stitched from a bad partial, so it gets one retry too; the partial is gone by now,
+                // so that retry starts over.
+                if (integrityResult.shouldRetry && (retryCount === 0 || resumedFromBytes > 0)) {
                   logger.log(`[ipatool] Attempting automatic retry for corrupted file`);
                   if (!suppressHUD) {
                     await showHUD(`File corrupted. Retrying download...`);
@@ -1400,24 +1728,42 @@ export async function downloadApp(
               }
 
               logger.log(`[ipatool] ✓ File integrity verification passed for ${appName || bundleId}`);
+              if (integrityResult.sha256) {
+                options?.onChecksum?.(integrityResult.sha256);
+              }
             }
 
             // Rename the file if we have app name and version and the file exists
             if (filePath && fs.existsSync(filePath) && appName && appVersion) {
               const directory = path.dirname(filePath);
               const currentFileName = path.basename(filePath);
+              const { filenameTemplate } = getConfig();
 
-              // Clean the app name by removing marketing terms
-              const cleanedAppName = cleanAppNameForFilename(appName);
+              // {build} lives in the archive's Info.plist, so read it only when asked for
+              let build: string | undefined;
+              if (filenameTemplate.includes("{build}")) {
+                try {
+                  build = (await readIpaIdentity(filePath)).buildNumber;
+                } catch (error) {
+                  logger.warn(`[ipatool] Could not read build number for filename:`, error);
+                }
+              }
 
-              // Replace invalid filename characters with a dash
-              const sanitizedAppName = cleanedAppName.replace(/[/\\?%*:|"<>]/g, "-");
-              const newFileName = `${sanitizedAppName} ${appVersion}.ipa`;
+              const newFileName = renderFilenameTemplate(filenameTemplate, {
+                ...options?.fileNameDetails,
+                appName,
+                version: appVersion,
+                bundleId,
+                build,
+              });
               const newFilePath = path.join(directory, newFileName);
 
               logger.log(`[ipatool] Attempting to rename file from: ${currentFileName} to: ${newFileName}`);
 
               try {
+                // Templates may put the file in subfolders of the download folder
+                fs.mkdirSync(path.dirname(newFilePath), { recursive: true });
+
                 // Check if the target file already exists to avoid conflicts
                 if (fs.existsSync(newFilePath)) {
                   logger.warn(`[ipatool] Target file already exists: ${newFilePath}. Removing old file.`);
@@ -1431,7 +1777,7 @@ export async function downloadApp(
 
                 fs.renameSync(filePath, newFilePath);
                 logger.log(`[ipatool] Successfully renamed file to: ${newFilePath}`);
-                logger.log(`[ipatool] Download and rename complete for ${cleanedAppName} v${appVersion}`);
+                logger.log(`[ipatool] Download and rename complete for ${appName} v${appVersion}`);
                 filePath = newFilePath;
               } catch (e) {
                 logger.error(`[ipatool] Error renaming file from ${currentFileName} to ${newFileName}:`, e);
@@ -1446,6 +1792,8 @@ export async function downloadApp(
           // Handle process errors
           child.on("error", async (error) => {
             clearAllTimers();
+            // A cancelled download is settled by the close handler, never retried
+            if (cancelled) return;
             logger.error(`[ipatool] Process error during download: ${error.message}`);
 
             // Check if this is a TLS error or other network error that might be transient
@@ -1524,9 +1872,10 @@ export async function downloadApp(
 /**
  * Get detailed information about an app
  * @param bundleId Bundle ID of the app
+ * @param storefront Storefront to look in (defaults to the storefront preference)
  * @returns App details object
  */
-export async function getAppDetails(bundleId: string) {
+export async function getAppDetails(bundleId: string, storefront?: string) {
   try {
     logger.log(`[ipatool] Getting app details for bundleId: ${bundleId}`);
 
@@ -1542,13 +1891,14 @@ export async function getAppDetails(bundleId: string) {
 
     // Try to get details directly from iTunes API first
     logger.log(`[ipatool] Trying to fetch details directly from iTunes API for ${bundleId}`);
-    const itunesDetails = await fetchITunesAppDetails(bundleId);
+    const country = resolveStorefront(storefront);
+    const itunesDetails = await fetchITunesAppDetails(bundleId, country);
 
     if (itunesDetails) {
       logger.log(`[ipatool] Successfully retrieved details from iTunes API for ${bundleId}`);
 
       // Use the utility function to convert iTunes data to AppDetails
-      const result = convertITunesResultToAppDetails(itunesDetails);
+      const result = convertITunesResultToAppDetails(itunesDetails, { storefront: country });
 
       logger.log(`[ipatool] Successfully parsed app details from iTunes API for ${bundleId}`);
       return result;
@@ -1608,13 +1958,13 @@ export async function getAppDetails(bundleId: string) {
     const appBundleId = app.bundleId || app.bundleID || "";
     if (appBundleId !== bundleId && appBundleId) {
       logger.log(`[ipatool] Trying to fetch iTunes data for found app: ${appBundleId}`);
-      const appItunesDetails = await fetchITunesAppDetails(appBundleId);
+      const appItunesDetails = await fetchITunesAppDetails(appBundleId, country);
 
       if (appItunesDetails) {
         logger.log(`[ipatool] Enriching app details with iTunes data for ${app.bundleId}`);
 
         // Use the utility function to convert iTunes data to AppDetails
-        result = convertITunesResultToAppDetails(appItunesDetails, result);
+        result = convertITunesResultToAppDetails(appItunesDetails, { ...result, storefront: country });
       } else {
         logger.log(`[ipatool] Could not fetch iTunes data for ${app.bundleId}, using basic details only`);
       }
@@ -1,13 +1,43 @@
 import { useEffect, useState } from "react";
-import { Action, ActionPanel, Icon, Keyboard, List, LocalStorage } from "@raycast/api";
+import { Action, ActionPanel, Color, Icon, Keyboard, LaunchProps, List, LocalStorage } from "@raycast/api";
 import { AppListItem } from "./components/app-list-item";
+import { StorefrontDropdown } from "./components/storefront-dropdown";
 import { useAppDownload, useAppSearch, useFavoriteApps } from "./hooks";
 import { useAuthNavigation } from "./hooks/use-auth-navigation";
+import type { AppDetails } from "./types";
+import { ITUNES_SEARCH_PAGE_SIZE } from "./utils/constants";
+import { formatSearchResultsTitle } from "./utils/formatting";
+import { describeSearchFilter } from "./utils/search-filters";
+import { getSearchSourceLabel, type SearchSourceId } from "./utils/search-sources";
+import AppDetailView from "./views/app-detail-view";
 import { GridSearchView } from "./views/grid-search-view";
 
 const VIEW_MODE_STORAGE_KEY = "search-view-mode";
 
-export default function Search() {
+const SOURCE_COLORS: Record<SearchSourceId, Color> = { itunes: Color.Blue, ipatool: Color.Purple };
+
+/** Badges for the sources that found an app; an app iTunes search missed is called out */
+function getSourceBadges(sources: SearchSourceId[] = []): List.Item.Accessory[] {
+  return sources.map((id) => ({
+    tag: { value: getSearchSourceLabel(id), color: SOURCE_COLORS[id] },
+    tooltip:
+      id === "ipatool" && !sources.includes("itunes")
+        ? "Only the signed-in account's storefront found this app; iTunes search missed it"
+        : `Found by ${getSearchSourceLabel(id)} search`,
+  }));
+}
+
+/** Other commands (e.g. the menu bar) open an app's details by launching search with it */
+export interface SearchLaunchContext {
+  app?: AppDetails;
+}
+
+export default function Command(props: LaunchProps<{ launchContext?: SearchLaunchContext }>) {
+  const app = props.launchContext?.app;
+  return app ? <AppDetailView app={app} /> : <Search />;
+}
+
+function Search() {
   // View state management with persistence
   const [viewMode, setViewMode] = useState<"list" | "grid">("list");
   const [isViewModeLoaded, setIsViewModeLoaded] = useState(false);
@@ -36,8 +66,17 @@ export default function Search() {
     isLoading,
     error,
     totalResults,
+    unfilteredResults,
+    hasMore,
+    loadMore,
+    resultSources,
+    filters,
+    removeFilter,
+    clearFilters,
     searchText,
     setSearchText,
+    storefront,
+    setStorefront,
     recentSearches,
     clearRecentSearches,
     removeRecentSearch,
@@ -46,6 +85,10 @@ export default function Search() {
   const { downloadAppDetails } = useAppDownload(authNavigation);
   const { isFavorite, addFavorite, removeFavorite } = useFavoriteApps();
 
+  // Scrolling to the end of the results fetches the next page
+  const pagination = { onLoadMore: loadMore, hasMore, pageSize: ITUNES_SEARCH_PAGE_SIZE };
+  const resultsTitle = formatSearchResultsTitle(totalResults, unfilteredResults, hasMore);
+
   // Show Grid view when in grid mode and has search text
   if (viewMode === "grid" && searchText) {
     return (
@@ -54,13 +97,16 @@ export default function Search() {
         isLoading={isLoading || !isViewModeLoaded}
         error={error}
         searchText={searchText}
-        totalResults={totalResults}
+        resultsTitle={resultsTitle}
+        pagination={pagination}
         isFavorite={isFavorite}
         addFavorite={addFavorite}
         removeFavorite={removeFavorite}
         onDownload={downloadAppDetails}
         onToggleView={() => handleViewModeChange("list")}
         onSearchTextChange={setSearchText}
+        storefront={storefront}
+        onStorefrontChange={setStorefront}
       />
     );
   }
@@ -68,7 +114,11 @@ export default function Search() {
   // Show recent searches when no search text
   if (!searchText) {
     return (
-      <List onSearchTextChange={setSearchText} isLoading={isLoading || !isViewModeLoaded}>
+      <List
+        onSearchTextChange={setSearchText}
+        isLoading={isLoading || !isViewModeLoaded}
+        searchBarAccessory={<StorefrontDropdown value={storefront} onChange={setStorefront} />}
+      >
         {recentSearches.length > 0 && (
           <List.Section title="Recent Searches">
             {recentSearches.map((search, index) => (
@@ -102,21 +152,36 @@ export default function Search() {
         )}
         <List.EmptyView
           title="Type Query to Search"
-          description="Search by name, developer, bundle ID, App Store URL, or app ID."
+          description={
+            "Search by name, developer, bundle ID, App Store URL, or app ID. " +
+            'Narrow results with filters like price:free, rating>=4.5, size<200mb, minos<=16, device:ipad, genre:games or dev:"Google LLC".'
+          }
           icon="no-view@256.png"
         />
       </List>
     );
   }
 
+  const clearFiltersAction = (
+    <Action
+      title="Clear All Filters"
+      icon={Icon.XMarkCircle}
+      onAction={clearFilters}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "backspace" }}
+    />
+  );
+
   // Show search results
   return (
     <List
       isLoading={isLoading || !isViewModeLoaded}
+      searchText={searchText}
       onSearchTextChange={setSearchText}
+      pagination={pagination}
       searchBarPlaceholder="Search by name, App Store URL, or app ID..."
       throttle
       navigationTitle="Search iOS Apps"
+      searchBarAccessory={<StorefrontDropdown value={storefront} onChange={setStorefront} />}
     >
       {/* Handle error state */}
       {error && <List.EmptyView title={error} icon={{ source: Icon.Warning }} />}
@@ -126,14 +191,43 @@ export default function Search() {
         <List.EmptyView title="No results found" icon={{ source: Icon.MagnifyingGlass }} />
       )}
 
+      {/* Filters parsed out of the search text, each removable on its own */}
+      {filters.length > 0 && (
+        // The empty view is hidden while these items show, so the section carries its message instead
+        <List.Section
+          title="Filters"
+          subtitle={error ?? (!isLoading && apps.length === 0 ? "No apps match" : undefined)}
+        >
+          {filters.map((filter) => (
+            <List.Item
+              key={filter.token}
+              title={describeSearchFilter(filter)}
+              icon={{ source: Icon.Filter, tintColor: Color.Blue }}
+              accessories={[{ tag: { value: filter.token, color: Color.Blue } }]}
+              actions={
+                <ActionPanel>
+                  <Action title="Remove Filter" icon={Icon.XMarkCircle} onAction={() => removeFilter(filter)} />
+                  {clearFiltersAction}
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      )}
+
       {/* Show results when available */}
       {!error && apps.length > 0 && (
-        <List.Section key="search-results" title={totalResults > 0 ? `Results (${totalResults})` : ""}>
+        <List.Section
+          key="search-results"
+          title={resultsTitle}
+          subtitle={filters.length > 0 && unfilteredResults > 0 ? `filtered from ${unfilteredResults}` : undefined}
+        >
           {apps.map((app) => (
             <AppListItem
               key={app.bundleId || app.id}
               app={app}
               subtitle={app.sellerName}
+              badges={getSourceBadges(resultSources[app.id])}
               isFavorited={isFavorite(app.bundleId)}
               onDownload={downloadAppDetails}
               onAddFavorite={addFavorite}
@@ -147,6 +241,20 @@ export default function Search() {
                   shortcut={{ modifiers: ["cmd", "shift"], key: "g" }}
                 />
               </ActionPanel.Section>
+              {filters.length > 0 && (
+                <ActionPanel.Section title="Filters">
+                  <ActionPanel.Submenu title="Remove Filter" icon={Icon.Filter}>
+                    {filters.map((filter) => (
+                      <Action
+                        key={filter.token}
+                        title={describeSearchFilter(filter)}
+                        onAction={() => removeFilter(filter)}
+                      />
+                    ))}
+                  </ActionPanel.Submenu>
+                  {clearFiltersAction}
+                </ActionPanel.Section>
+              )}
             </AppListItem>
           ))}
         </List.Section>
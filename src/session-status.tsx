@@ -0,0 +1,5 @@
+import { SessionStatusView } from "./views/session-status-view";
+
+export default function SessionStatus() {
+  return <SessionStatusView />;
+}
@@ -0,0 +1,138 @@
+import { Action, ActionPanel, Alert, Color, confirmAlert, Icon, Keyboard, List } from "@raycast/api";
+import { AccountProfileForm } from "./components/forms";
+import { useAccountProfiles } from "./hooks";
+import { useAuthNavigation } from "./hooks/use-auth-navigation";
+import { restoreAccountAfterSwitch, type AccountProfile } from "./utils/account-profiles";
+import { formatFriendlyDateTime } from "./utils/formatting";
+import { getStorefrontName } from "./utils/storefronts";
+import { SessionStatusView } from "./views/session-status-view";
+
+function isActiveProfile(profile: AccountProfile, activeEmail?: string): boolean {
+  return profile.email.toLowerCase() === activeEmail?.trim().toLowerCase();
+}
+
+export default function SwitchAccount() {
+  const { profiles, activeEmail, isLoading, saveProfile, deleteProfile, switchTo, refresh } = useAccountProfiles();
+  const authNavigation = useAuthNavigation();
+  const hasActiveProfile = profiles.some((profile) => isActiveProfile(profile, activeEmail));
+
+  const handleSwitch = async (profile: AccountProfile) => {
+    const previousEmail = activeEmail;
+    const needs = await switchTo(profile);
+    // A missing or rejected password leaves the previous account signed in; the form signs in as this one
+    if (needs === "login") await authNavigation.pushLoginForm(refresh, undefined, profile.email);
+    // By the code step the previous session is gone, so backing out signs it back in
+    if (needs === "2fa") {
+      authNavigation.push2FAForm(refresh, async () => {
+        if (previousEmail && !isActiveProfile(profile, previousEmail)) {
+          await restoreAccountAfterSwitch(previousEmail);
+          await refresh();
+        }
+      });
+    }
+  };
+
+  const handleDelete = async (profile: AccountProfile) => {
+    const confirmed = await confirmAlert({
+      title: `Delete ${profile.name}?`,
+      message: "The profile and its saved password are removed. The Apple ID itself is not affected.",
+      primaryAction: { title: "Delete Profile", style: Alert.ActionStyle.Destructive },
+    });
+    if (confirmed) await deleteProfile(profile);
+  };
+
+  const addProfileAction = (
+    <Action.Push
+      title="Add Profile"
+      icon={Icon.AddPerson}
+      shortcut={Keyboard.Shortcut.Common.New}
+      target={<AccountProfileForm onSubmit={saveProfile} />}
+    />
+  );
+
+  return (
+    <List isLoading={isLoading} navigationTitle="Switch Account" searchBarPlaceholder="Filter accounts...">
+      {activeEmail && !hasActiveProfile && (
+        <List.Section title="Signed In">
+          <List.Item
+            title={activeEmail}
+            subtitle="No profile"
+            icon={{ source: Icon.CheckCircle, tintColor: Color.Green }}
+            actions={
+              <ActionPanel>
+                <Action.Push
+                  title="Save as Profile"
+                  icon={Icon.AddPerson}
+                  target={<AccountProfileForm initialEmail={activeEmail} onSubmit={saveProfile} />}
+                />
+                {addProfileAction}
+              </ActionPanel>
+            }
+          />
+        </List.Section>
+      )}
+      <List.Section title="Profiles" subtitle={profiles.length.toString()}>
+        {profiles.map((profile) => {
+          const isActive = isActiveProfile(profile, activeEmail);
+          return (
+            <List.Item
+              key={profile.email}
+              title={profile.name}
+              subtitle={profile.email}
+              keywords={[profile.email, ...(profile.notes ? [profile.notes] : [])]}
+              icon={isActive ? { source: Icon.CheckCircle, tintColor: Color.Green } : Icon.Person}
+              accessories={[
+                ...(profile.notes ? [{ icon: Icon.Text, tooltip: profile.notes }] : []),
+                ...(profile.storefront ? [{ tag: getStorefrontName(profile.storefront) }] : []),
+                isActive
+                  ? { tag: { value: "Active", color: Color.Green } }
+                  : {
+                      text: profile.lastUsedAt ? formatFriendlyDateTime(profile.lastUsedAt) : "Never used",
+                      tooltip: "Last switched to",
+                    },
+              ]}
+              actions={
+                <ActionPanel>
+                  <Action
+                    title={isActive ? "Sign in Again" : "Switch to Account"}
+                    icon={Icon.Switch}
+                    onAction={() => handleSwitch(profile)}
+                  />
+                  <Action.Push
+                    title="Edit Profile"
+                    icon={Icon.Pencil}
+                    shortcut={Keyboard.Shortcut.Common.Edit}
+                    target={<AccountProfileForm profile={profile} onSubmit={saveProfile} />}
+                  />
+                  {addProfileAction}
+                  <Action.Push
+                    title="Check Session"
+                    icon={Icon.Heartbeat}
+                    shortcut={{ modifiers: ["cmd", "opt"], key: "s" }}
+                    target={<SessionStatusView />}
+                  />
+                  <Action.CopyToClipboard title="Copy Apple ID" content={profile.email} />
+                  <Action
+                    title="Delete Profile"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={Keyboard.Shortcut.Common.Remove}
+                    onAction={() => handleDelete(profile)}
+                  />
+                </ActionPanel>
+              }
+            />
+          );
+        })}
+      </List.Section>
+      {!isLoading && profiles.length === 0 && !activeEmail && (
+        <List.EmptyView
+          title="No Account Profiles"
+          description="Add a profile for each Apple ID you switch between"
+          icon={Icon.PersonCircle}
+          actions={<ActionPanel>{addProfileAction}</ActionPanel>}
+        />
+      )}
+    </List>
+  );
+}
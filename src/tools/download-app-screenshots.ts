@@ -7,6 +7,7 @@ import { scrapeAppStoreScreenshots } from "../utils/app-store-scraper";
 import { convertITunesResultToAppDetails, searchITunesApps } from "../utils/itunes-api";
 import { getDownloadsDirectory } from "../utils/paths";
 import { downloadAppScreenshots } from "../utils/screenshot-downloader";
+import { resolveStorefront } from "../utils/storefronts";
 
 type Input = {
   /** The name or search term for the iOS app */
@@ -15,10 +16,13 @@ type Input = {
   bundleId?: string;
   /** Optional platform override to download specific platforms regardless of preferences */
   platformOverride?: PlatformType[];
+  /** Optional two-letter App Store country code (e.g. "jp", "de"); defaults to the storefront preference */
+  storefront?: string;
 };
 
 export default async function (input: Input) {
   const { query, bundleId, platformOverride } = input;
+  const storefront = resolveStorefront(input.storefront);
 
   logger.log(`[download-app-screenshots] Starting screenshot download for: "${query}"`);
 
@@ -34,7 +38,7 @@ export default async function (input: Input) {
     // If bundle ID provided, fetch directly; otherwise search first
     if (bundleId) {
       logger.log(`[download-app-screenshots] Bundle ID provided: ${bundleId}`);
-      const searchResults = await searchITunesApps(bundleId, 1);
+      const searchResults = await searchITunesApps(bundleId, 1, storefront);
 
       if (searchResults.length === 0) {
         toast.style = Toast.Style.Failure;
@@ -46,7 +50,7 @@ export default async function (input: Input) {
       appData = searchResults[0];
     } else {
       logger.log(`[download-app-screenshots] Searching for app: "${query}"`);
-      const searchResults = await searchITunesApps(query, 10);
+      const searchResults = await searchITunesApps(query, 10, storefront);
 
       if (searchResults.length === 0) {
         toast.style = Toast.Style.Failure;
@@ -73,7 +77,7 @@ export default async function (input: Input) {
     }
 
     // Convert iTunes result to AppDetails format
-    const appDetails = convertITunesResultToAppDetails(appData);
+    const appDetails = convertITunesResultToAppDetails(appData, { storefront });
 
     toast.message = `Found ${appDetails.name} by ${appDetails.artistName}`;
 
@@ -89,7 +93,7 @@ export default async function (input: Input) {
     toast.title = "Fetching Screenshots";
     toast.message = "Analyzing App Store page...";
 
-    const screenshots = await scrapeAppStoreScreenshots(appDetails, platformOverride);
+    const screenshots = await scrapeAppStoreScreenshots(appDetails, platformOverride, storefront);
     if (screenshots.length === 0) {
       toast.style = Toast.Style.Failure;
       toast.title = "No Screenshots Found";
@@ -142,7 +146,7 @@ export const confirmation: Tool.Confirmation<Input> = async (input) => {
 
   try {
     // Search iTunes API directly
-    const searchResults = await searchITunesApps(input.query, 10);
+    const searchResults = await searchITunesApps(input.query, 10, input.storefront);
 
     if (searchResults.length === 0) {
       return undefined; // No results, let the main function handle the error
@@ -2,12 +2,15 @@ import path from "path";
 import { logger } from "@chrismessina/raycast-logger";
 import { Clipboard, showInFinder, showToast, Toast, Tool } from "@raycast/api";
 import { downloadApp, searchApps } from "../ipatool";
+import { getBestIpaToolMatch, isExactMatch } from "../utils/app-search";
 import { BuiltInAppError, NotYetReleasedError } from "../utils/auth";
 import { handleAppSearchError, handleDownloadError, handleIpatoolError, sanitizeQuery } from "../utils/error-handler";
 import { analyzeIpatoolError } from "../utils/ipatool-error-patterns";
 
 // Constants
-const SEARCH_RESULT_LIMIT = 1;
+// The confirmation and the download search the same number of results, so
+// both pick the same best match
+const SEARCH_RESULT_LIMIT = 3;
 
 // No initial confirmation - we'll confirm only during the actual download process
 
@@ -29,6 +32,8 @@ export default async function downloadIosApp(input: Input) {
     let appName = "";
     let appVersion = "";
     let price = "0";
+    let trackId = "";
+    let developer = "";
 
     // Search for the app by name
     logger.log(`[download-app tool] Searching for app: "${sanitizeQuery(input.query)}"`);
@@ -47,18 +52,19 @@ export default async function downloadIosApp(input: Input) {
       return { success: false, message: "No apps found" };
     }
 
-    // Use the first result as the best match
+    // Use the most relevant result as the best match
     // The confirmation will show the user what will be downloaded
-    const app = searchResults[0];
+    const app = getBestIpaToolMatch(searchResults, input.query) ?? searchResults[0];
     bundleId = app.bundleId || app.bundleID || "";
     appName = app.name || "";
     appVersion = app.version || "";
     price = app.price ? app.price.toString() : "0";
+    trackId = app.id ? app.id.toString() : "";
+    developer = app.developer || "";
     logger.log(`[download-app tool] Found app: ${appName} (${bundleId}) version ${appVersion}`);
 
     // Log if we're using a different app than what was searched for
-    const queryLower = input.query.toLowerCase();
-    if (appName.toLowerCase() !== queryLower) {
+    if (!isExactMatch(appName, input.query)) {
       logger.log(
         `[download-app tool] Note: Using closest match "${appName}" for search "${sanitizeQuery(input.query)}"`,
       );
@@ -77,7 +83,9 @@ export default async function downloadIosApp(input: Input) {
     logger.log(`[download-app tool] Starting download for ${appName} (${bundleId})`);
 
     try {
-      const filePath = await downloadApp(bundleId, appName, appVersion, price);
+      const filePath = await downloadApp(bundleId, appName, appVersion, price, 0, undefined, {
+        fileNameDetails: { trackId: trackId || undefined, developer: developer || undefined },
+      });
 
       if (filePath === null) {
         // Existing file found; skipped re-download. Validation flow already showed an informational toast.
@@ -189,26 +197,22 @@ export default async function downloadIosApp(input: Input) {
 export const confirmation: Tool.Confirmation<Input> = async (input) => {
   try {
     // Search for the app to show what will be downloaded
-    const searchResults = await searchApps(input.query, 3);
+    const searchResults = await searchApps(input.query, SEARCH_RESULT_LIMIT);
 
     if (searchResults.length === 0) {
       // No confirmation needed if no apps found - the tool will handle the error
       return undefined;
     }
 
-    const app = searchResults[0];
+    const app = getBestIpaToolMatch(searchResults, input.query) ?? searchResults[0];
     const appName = app.name || "Unknown App";
     const developer = app.developer || "Unknown Developer";
     const version = app.version || "Unknown Version";
     const price = app.price ? `$${app.price}` : "Free";
 
     // Check if the match might not be exact
-    const queryLower = input.query.toLowerCase();
-    const appNameLower = appName.toLowerCase();
-    const isExactMatch = appNameLower === queryLower; // Only consider exact matches
-
     let message = `Download "${appName}"?`;
-    if (!isExactMatch) {
+    if (!isExactMatch(appName, input.query)) {
       message = `You searched for "${input.query}" but the closest match is "${appName}". Download this app?`;
     }
 
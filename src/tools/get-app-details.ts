@@ -1,5 +1,6 @@
 import { logger } from "@chrismessina/raycast-logger";
 import { getAppDetails, searchApps } from "../ipatool";
+import { scoreAndSortIpaToolApps } from "../utils/app-search";
 import { getAppStoreUrl } from "../utils/constants";
 import { handleAppSearchError, sanitizeQuery } from "../utils/error-handler";
 import { formatDate, formatPrice } from "../utils/formatting";
@@ -17,6 +18,11 @@ type Input = {
    * Optional bundle ID if known (will skip search step)
    */
   bundleId?: string;
+
+  /**
+   * Optional two-letter App Store country code (e.g. "jp", "de"); defaults to the storefront preference
+   */
+  storefront?: string;
 };
 
 /**
@@ -51,41 +57,8 @@ export default async function getIosAppDetails(input: Input) {
         );
       });
 
-      // Calculate relevance scores for each result to find the best match
-      const query = input.query.toLowerCase();
-      const scoredResults = searchResults.map((app) => {
-        const name = (app.name || "").toLowerCase();
-        const developer = (app.developer || "").toLowerCase();
-        let score = 0;
-
-        // Exact name match gets highest score
-        if (name === query) {
-          score += 100;
-        }
-        // Name starts with query
-        else if (name.startsWith(query)) {
-          score += 75;
-        }
-        // Query is contained in name
-        else if (name.includes(query)) {
-          score += 50;
-        }
-
-        // Developer name matches or contains query
-        if (developer === query) {
-          score += 30;
-        } else if (developer.includes(query)) {
-          score += 20;
-        }
-
-        // Prefer shorter names when scores are similar (likely more precise matches)
-        score -= name.length * 0.1;
-
-        return { app, score };
-      });
-
-      // Sort by score (highest first)
-      scoredResults.sort((a, b) => b.score - a.score);
+      // Rank the results by relevance, allowing for typos in the query
+      const scoredResults = scoreAndSortIpaToolApps(searchResults, input.query);
 
       // Log the scoring results for transparency
       logger.log(`[get-app-details tool] Relevance scoring results:`);
@@ -108,7 +81,7 @@ export default async function getIosAppDetails(input: Input) {
       );
       return { app: null };
     }
-    const appDetails = await getAppDetails(bundleId);
+    const appDetails = await getAppDetails(bundleId, input.storefront);
 
     if (!appDetails) {
       await handleAppSearchError(
@@ -138,9 +111,10 @@ export default async function getIosAppDetails(input: Input) {
       releaseDate: appDetails.releaseDate ? formatDate(appDetails.releaseDate) : undefined,
       lastUpdated: appDetails.currentVersionReleaseDate ? formatDate(appDetails.currentVersionReleaseDate) : undefined,
       genres: appDetails.genres,
-      appStoreUrl: appDetails.trackViewUrl || getAppStoreUrl(appDetails.id),
+      appStoreUrl: appDetails.trackViewUrl || getAppStoreUrl(appDetails.id, appDetails.storefront),
       developerUrl: appDetails.artistViewUrl,
       screenshots: appDetails.screenshotUrls,
+      storefront: appDetails.storefront,
     };
 
     return { app: formattedDetails };
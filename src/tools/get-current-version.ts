@@ -4,6 +4,7 @@ import type { ITunesResult } from "../types";
 import { filterAndSortApps, isExactMatch, isSignificantlyMorePopular } from "../utils/app-search";
 import { handleAppSearchError, handleToolError, sanitizeQuery } from "../utils/error-handler";
 import { searchITunesApps } from "../utils/itunes-api";
+import { resolveStorefront } from "../utils/storefronts";
 
 // Constants
 const SEARCH_RESULT_LIMIT = 10;
@@ -18,6 +19,11 @@ type Input = {
    * Optional bundle ID if known (will skip search step)
    */
   bundleId?: string;
+
+  /**
+   * Optional two-letter App Store country code (e.g. "jp", "de"); defaults to the storefront preference
+   */
+  storefront?: string;
 };
 
 /**
@@ -35,7 +41,7 @@ export const confirmation: Tool.Confirmation<Input> = async (input) => {
 
   try {
     // Search iTunes API directly - this gives us all the data we need in one call
-    const searchResults = await searchITunesApps(input.query, SEARCH_RESULT_LIMIT);
+    const searchResults = await searchITunesApps(input.query, SEARCH_RESULT_LIMIT, input.storefront);
 
     if (searchResults.length === 0) {
       return undefined; // No results, let the main function handle the error
@@ -113,7 +119,7 @@ export default async function getCurrentVersion(input: Input) {
       logger.log(`[get-current-version tool] Bundle ID provided: ${input.bundleId}`);
 
       // Search by bundle ID to get the specific app
-      const searchResults = await searchITunesApps(input.bundleId, 1);
+      const searchResults = await searchITunesApps(input.bundleId, 1, input.storefront);
 
       if (searchResults.length === 0) {
         logger.log(`[get-current-version tool] No app found for bundle ID: ${input.bundleId}`);
@@ -132,7 +138,7 @@ export default async function getCurrentVersion(input: Input) {
       );
 
       // Search iTunes API directly
-      const searchResults = await searchITunesApps(input.query, SEARCH_RESULT_LIMIT);
+      const searchResults = await searchITunesApps(input.query, SEARCH_RESULT_LIMIT, input.storefront);
 
       if (searchResults.length === 0) {
         logger.log(`[get-current-version tool] No apps found for query: "${sanitizeQuery(input.query)}"`);
@@ -170,6 +176,7 @@ export default async function getCurrentVersion(input: Input) {
       version: appData.version,
       appName: appData.trackName,
       bundleId: appData.bundleId,
+      storefront: resolveStorefront(input.storefront),
     };
   } catch (error) {
     await handleToolError(
@@ -1,10 +1,9 @@
 import { logger } from "@chrismessina/raycast-logger";
-import { showToast, Toast } from "@raycast/api";
-import { searchApps } from "../ipatool";
-import { AppDetails } from "../types";
 import { truncateAtWordBoundary } from "../utils/common";
 import { handleAppSearchError, sanitizeQuery } from "../utils/error-handler";
-import { enrichAppDetails } from "../utils/itunes-api";
+import { convertIpaToolSearchAppToAppDetails, convertITunesResultToAppDetails } from "../utils/itunes-api";
+import { searchAppSources } from "../utils/search-sources";
+import { resolveStorefront } from "../utils/storefronts";
 
 // No initial confirmation - search will execute immediately
 
@@ -17,6 +16,10 @@ type Input = {
    * Maximum number of results to return (default: 10, max: 20)
    */
   limit?: number;
+  /**
+   * Optional two-letter App Store country code (e.g. "jp", "de"); defaults to the storefront preference
+   */
+  storefront?: string;
 };
 
 /**
@@ -29,110 +32,32 @@ export default async function searchIosApps(input: Input) {
 
   // Ensure limit is within bounds
   const validLimit = Math.min(Math.max(1, Number(input.limit) || 10), 20);
+  const storefront = resolveStorefront(input.storefront);
 
   try {
-    // Search for apps using ipatool
-    const apps = await searchApps(input.query, validLimit);
-    logger.log(`[search-apps tool] Found ${apps.length} apps`);
-
-    // Show progress toast for enrichment
-    const enrichmentToast = await showToast({
-      style: Toast.Style.Animated,
-      title: "Enriching app details",
-      message: `Processing ${apps.length} apps from iTunes API...`,
-    });
-
-    let completedApps = 0;
-    let failedEnrichments = 0;
-
-    // Map the results to a more user-friendly format with progress tracking
-    const appPromises = apps.map(async (app) => {
-      // Convert from ipatool format to AppDetails format
-      const appDetails: AppDetails = {
-        id: String(app.id),
-        bundleId: app.bundleId || app.bundleID || "",
+    // iTunes search, plus the signed-in account's search when ipatool has a session
+    const { results } = await searchAppSources(input.query, { limit: validLimit, storefront });
+    logger.log(`[search-apps tool] Found ${results.length} apps`);
+
+    const formattedApps = results.slice(0, validLimit).map((result) => {
+      const app = result.itunes
+        ? convertITunesResultToAppDetails(result.itunes, { storefront })
+        : convertIpaToolSearchAppToAppDetails(result.ipatool!);
+      return {
+        id: app.id,
+        bundleId: app.bundleId,
         name: app.name,
         version: app.version,
-        price: app.price.toString(),
-        currency: "USD", // Default currency for ipatool results
-        // Default values for required fields from AppDetails interface
-        artistName: "",
-        artworkUrl60: "",
-        description: "",
-        iconUrl: "",
-        sellerName: "",
-        genres: [],
-        size: "0",
-        fileSizeBytes: 0,
-        contentRating: "",
-        // Additional required fields from AppDetails
-        artworkUrl512: "",
-        averageUserRating: 0,
-        averageUserRatingForCurrentVersion: 0,
-        userRatingCount: 0,
-        userRatingCountForCurrentVersion: 0,
-        releaseDate: "",
+        price: app.price,
+        developer: app.sellerName,
+        icon: app.artworkUrl512 || app.artworkUrl60 || app.iconUrl,
+        rating: app.averageUserRating,
+        description: app.description ? truncateAtWordBoundary(app.description, 200) : "",
+        storefront,
+        sources: result.sources,
       };
-
-      try {
-        // Try to enrich with additional details from iTunes API
-        const enriched = await enrichAppDetails(appDetails);
-
-        completedApps++;
-        const progressPercent = Math.round((completedApps / apps.length) * 100);
-        enrichmentToast.message = `${completedApps}/${apps.length} (${progressPercent}%) - Latest: ${app.name}`;
-
-        return {
-          id: enriched.id,
-          bundleId: enriched.bundleId,
-          name: enriched.name,
-          version: enriched.version,
-          price: enriched.price,
-          developer: enriched.sellerName,
-          icon: enriched.artworkUrl512 || enriched.artworkUrl60 || enriched.iconUrl,
-          rating: enriched.averageUserRating,
-          description: enriched.description ? truncateAtWordBoundary(enriched.description, 200) : "",
-        };
-      } catch (error) {
-        completedApps++;
-        failedEnrichments++;
-
-        const progressPercent = Math.round((completedApps / apps.length) * 100);
-        enrichmentToast.message = `${completedApps}/${apps.length} (${progressPercent}%) - ${failedEnrichments} failed`;
-
-        logger.error(`[search-apps tool] Error enriching app details for ${app.name || "unknown app"}:`, error);
-        // Return basic info if enrichment fails
-        return {
-          id: appDetails.id,
-          bundleId: appDetails.bundleId,
-          name: appDetails.name,
-          version: appDetails.version,
-          price: appDetails.price,
-        };
-      }
     });
 
-    // Wait for all promises to settle, even if some fail
-    const results = await Promise.allSettled(appPromises);
-    const formattedApps = results
-      .map((result) => (result.status === "fulfilled" ? result.value : null))
-      .filter((app): app is NonNullable<typeof app> => app !== null);
-
-    // Update final enrichment status
-    if (failedEnrichments === 0) {
-      enrichmentToast.style = Toast.Style.Success;
-      enrichmentToast.title = "Apps enriched";
-      enrichmentToast.message = `Successfully enriched all ${apps.length} apps`;
-    } else if (failedEnrichments < apps.length) {
-      enrichmentToast.style = Toast.Style.Success;
-      enrichmentToast.title = "Apps partially enriched";
-      enrichmentToast.message = `Enriched ${apps.length - failedEnrichments}/${apps.length} apps`;
-    } else {
-      enrichmentToast.style = Toast.Style.Failure;
-      enrichmentToast.title = "Enrichment failed";
-      enrichmentToast.message = "Could not enrich any app details";
-    }
-
     return { apps: formattedApps };
   } catch (error) {
     await handleAppSearchError(
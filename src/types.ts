@@ -39,6 +39,8 @@ export interface AppDetails {
   screenshotUrls?: string[];
   ipadScreenshotUrls?: string[];
   appletvScreenshotUrls?: string[];
+  // Storefront (lowercase ISO country code) the record was fetched from
+  storefront?: string;
 }
 
 /**
@@ -113,6 +115,24 @@ export interface ITunesResult {
   [key: string]: unknown;
 }
 
+/**
+ * The parts of Apple's legacy RSS top-chart feed the extension reads. A chart
+ * with a single app returns `entry` as an object instead of an array.
+ */
+export interface TopChartFeed {
+  feed?: {
+    entry?: TopChartEntry | TopChartEntry[];
+  };
+}
+
+export interface TopChartEntry {
+  id?: {
+    attributes?: {
+      "im:id"?: string;
+    };
+  };
+}
+
 // =============================================================================
 // IPATOOL TYPES
 // =============================================================================
@@ -0,0 +1,185 @@
+// Named Apple ID profiles for switching between accounts
+//
+// ipatool keeps a single session in its keychain, so a profile is a saved
+// account to switch to rather than a second session. The signed-in account is
+// still the Apple ID stored by auth.ts, and the active profile is whichever
+// profile has that email. Each profile's password is a Keychain entry under
+// its email, the same place the signed-in password lives.
+import { logger } from "@chrismessina/raycast-logger";
+import { LocalStorage } from "@raycast/api";
+import {
+  deletePasswordForAppleId,
+  getAppleIdFromStorage,
+  getPasswordForAppleId,
+  loginToAppleId,
+  Needs2FAError,
+  NeedsLoginError,
+  storeAppleId,
+  storePasswordForAppleId,
+} from "./auth";
+import { safeJsonParse } from "./common";
+import { revoke } from "./ipatool-auth";
+import { STORAGE_KEYS } from "./storage";
+import { normalizeStorefront } from "./storefronts";
+
+export interface AccountProfile {
+  /** Display name, e.g. "Personal" or "Test (JP)" */
+  name: string;
+  /** Apple ID email; one profile per Apple ID */
+  email: string;
+  /** Storefront the account belongs to; seeds the search storefront while active */
+  storefront?: string;
+  notes?: string;
+  createdAt: string;
+  /** When this profile was last switched to */
+  lastUsedAt?: string;
+}
+
+export type AccountProfileInput = Pick<AccountProfile, "name" | "email" | "storefront" | "notes">;
+
+function isSameAppleId(a?: string, b?: string): boolean {
+  return Boolean(a && b && a.trim().toLowerCase() === b.trim().toLowerCase());
+}
+
+async function writeAccountProfiles(profiles: AccountProfile[]): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEYS.ACCOUNT_PROFILES, JSON.stringify(profiles));
+}
+
+/**
+ * Read saved profiles, in the order they were added
+ */
+export async function getAccountProfiles(): Promise<AccountProfile[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEYS.ACCOUNT_PROFILES);
+  return stored ? safeJsonParse<AccountProfile[]>(stored, []) : [];
+}
+
+/**
+ * Add a profile, or update the one for the same Apple ID
+ * @param input Fields from the profile form
+ * @param options.previousEmail Email of the profile being edited, when the email changed
+ * @param options.password Saved to the Keychain for this Apple ID when given
+ * @returns The saved profile
+ */
+export async function saveAccountProfile(
+  input: AccountProfileInput,
+  options: { previousEmail?: string; password?: string } = {},
+): Promise<AccountProfile> {
+  const profiles = await getAccountProfiles();
+  const email = input.email.trim();
+  const existing = profiles.find((profile) => isSameAppleId(profile.email, options.previousEmail ?? email));
+  const profile: AccountProfile = {
+    ...existing,
+    name: input.name.trim(),
+    email,
+    storefront: normalizeStorefront(input.storefront),
+    notes: input.notes?.trim() || undefined,
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+  };
+
+  const next = existing
+    ? profiles.map((item) => (item === existing ? profile : item))
+    : [...profiles.filter((item) => !isSameAppleId(item.email, email)), profile];
+  await writeAccountProfiles(next);
+
+  if (options.password) {
+    await storePasswordForAppleId(email, options.password);
+  }
+  logger.log(`[Accounts] Saved profile "${profile.name}" (${email})`);
+  return profile;
+}
+
+/**
+ * Remove a profile and its saved password. The signed-in account's password is
+ * kept, since ipatool may need it to sign in again; Logout removes that one.
+ * @param email Apple ID of the profile
+ */
+export async function deleteAccountProfile(email: string): Promise<void> {
+  const profiles = await getAccountProfiles();
+  await writeAccountProfiles(profiles.filter((profile) => !isSameAppleId(profile.email, email)));
+
+  if (!isSameAppleId(email, await getAppleIdFromStorage())) {
+    await deletePasswordForAppleId(email);
+  }
+  logger.log(`[Accounts] Deleted profile for ${email}`);
+}
+
+/**
+ * The profile for the signed-in Apple ID, if one was saved
+ */
+export async function getActiveAccountProfile(): Promise<AccountProfile | undefined> {
+  const [appleId, profiles] = await Promise.all([getAppleIdFromStorage(), getAccountProfiles()]);
+  return profiles.find((profile) => isSameAppleId(profile.email, appleId));
+}
+
+/**
+ * Name to show for the signed-in account: its profile's name, else the Apple ID
+ */
+export async function getActiveAccountLabel(): Promise<string | undefined> {
+  const [appleId, profiles] = await Promise.all([getAppleIdFromStorage(), getAccountProfiles()]);
+  return profiles.find((profile) => isSameAppleId(profile.email, appleId))?.name ?? appleId;
+}
+
+/**
+ * Sign back in to the account a failed switch left. Best effort: the Apple ID
+ * is stored again either way, so a later sign-in offers it, and its saved
+ * password is tried if there is one.
+ * @param email Apple ID that was signed in before the switch
+ */
+export async function restoreAccountAfterSwitch(email: string): Promise<void> {
+  await storeAppleId(email);
+  const password = await getPasswordForAppleId(email);
+  if (!password) {
+    logger.warn(`[Accounts] No saved password for ${email}; sign in again to restore it`);
+    return;
+  }
+  try {
+    await loginToAppleId(email, password);
+    logger.info(`[Accounts] Restored the session for ${email}`);
+  } catch (error) {
+    logger.warn(`[Accounts] Could not restore the session for ${email}`, error);
+  }
+}
+
+/**
+ * Sign ipatool out of the current account and into the profile's. Nothing is
+ * changed until the profile's saved password is found; if Apple then rejects
+ * it, the previous account is signed back in.
+ * @param profile Profile to switch to
+ * @throws NeedsLoginError when no password is saved for the profile, or Apple rejects it
+ * @throws Needs2FAError when Apple asks for a code; the profile's Apple ID is stored
+ *   by then, so the 2FA form signs in to it
+ */
+export async function switchToAccountProfile(profile: AccountProfile): Promise<void> {
+  logger.log(`[Accounts] Switching to "${profile.name}" (${profile.email})`);
+  const [previousEmail, password] = await Promise.all([getAppleIdFromStorage(), getPasswordForAppleId(profile.email)]);
+  if (!password) {
+    throw new NeedsLoginError(`Enter the password for ${profile.email}`);
+  }
+
+  // A failed revoke leaves the old session, which the login below replaces anyway
+  try {
+    await revoke();
+  } catch (error) {
+    logger.warn("[Accounts] Could not revoke the current session; signing in over it", error);
+  }
+
+  await storeAppleId(profile.email);
+  try {
+    await loginToAppleId(profile.email, password);
+  } catch (error) {
+    // A code request is the next step of signing in, not a failure
+    if (!(error instanceof Needs2FAError) && previousEmail && !isSameAppleId(previousEmail, profile.email)) {
+      logger.warn(`[Accounts] Sign-in as "${profile.name}" failed; restoring ${previousEmail}`);
+      await restoreAccountAfterSwitch(previousEmail);
+    }
+    throw error;
+  }
+
+  const profiles = await getAccountProfiles();
+  await writeAccountProfiles(
+    profiles.map((item) =>
+      isSameAppleId(item.email, profile.email) ? { ...item, lastUsedAt: new Date().toISOString() } : item,
+    ),
+  );
+  logger.info(`[Accounts] Signed in as "${profile.name}"`);
+}
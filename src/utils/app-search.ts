@@ -2,6 +2,11 @@
 import { logger } from "@chrismessina/raycast-logger";
 import type { IpaToolSearchApp, ITunesResult } from "../types";
 import { searchITunesApps } from "./itunes-api";
+import { normalizeSearchText, rankByRelevance, scoreRelevance, type RelevanceCandidate } from "./relevance";
+
+function toCandidate(app: ITunesResult): RelevanceCandidate {
+  return { name: app.trackName, developer: app.artistName, userRatingCount: app.userRatingCount };
+}
 
 /**
  * Filter iTunes apps based on relevance to the query
@@ -10,26 +15,14 @@ import { searchITunesApps } from "./itunes-api";
  * @returns Filtered list of relevant apps
  */
 export function filterRelevantApps(apps: ITunesResult[], query: string): ITunesResult[] {
-  const normalizedQuery = query.toLowerCase();
-
-  return apps.filter((app: ITunesResult) => {
-    const name = (app.trackName || "").toLowerCase();
-    const developer = (app.artistName || "").toLowerCase();
-
-    // Include apps that match the query in name or developer
-    return (
-      name.includes(normalizedQuery) ||
-      developer.includes(normalizedQuery) ||
-      name.startsWith(normalizedQuery) ||
-      normalizedQuery.includes(name)
-    );
-  });
+  // Include apps that match the query in name or developer, allowing for typos
+  return apps.filter((app: ITunesResult) => scoreRelevance(toCandidate(app), query).isMatch);
 }
 
 /**
  * Confirm app selection by disambiguating between multiple results
  */
-export async function confirmAppSelection(query: string, bundleId?: string) {
+export async function confirmAppSelection(query: string, bundleId?: string, storefront?: string) {
   logger.log(`[confirmation utility] Checking for disambiguation for: "${query}"`);
 
   if (bundleId) {
@@ -37,7 +30,7 @@ export async function confirmAppSelection(query: string, bundleId?: string) {
   }
 
   try {
-    const searchResults = await searchITunesApps(query, 10);
+    const searchResults = await searchITunesApps(query, 10, storefront);
 
     if (searchResults.length === 0) {
       return undefined;
@@ -93,8 +86,9 @@ export function compareApps(a: ITunesResult, b: ITunesResult): number {
  * @returns Filtered and sorted list of relevant apps
  */
 export function filterAndSortApps(apps: ITunesResult[], query: string): ITunesResult[] {
-  const relevantApps = filterRelevantApps(apps, query);
-  return relevantApps.sort(compareApps);
+  // Relevance already blends in rating count; sorting by popularity first
+  // settles apps that score the same
+  return rankByRelevance([...apps].sort(compareApps), query, toCandidate);
 }
 
 /**
@@ -108,40 +102,11 @@ export function scoreAndSortIpaToolApps(
   apps: IpaToolSearchApp[],
   query: string,
 ): Array<{ app: IpaToolSearchApp; score: number }> {
-  const normalizedQuery = query.toLowerCase();
-
-  const scoredResults = apps.map((app) => {
-    const name = (app.name || "").toLowerCase();
-    const developer = (app.developer || "").toLowerCase();
-    let score = 0;
-
-    // Exact name match gets highest score
-    if (name === normalizedQuery) {
-      score += 100;
-    }
-    // Name starts with query
-    else if (name.startsWith(normalizedQuery)) {
-      score += 75;
-    }
-    // Query is contained in name
-    else if (name.includes(normalizedQuery)) {
-      score += 50;
-    }
-
-    // Developer name matches or contains query
-    if (developer === normalizedQuery) {
-      score += 30;
-    } else if (developer.includes(normalizedQuery)) {
-      score += 20;
-    }
-
-    // Prefer shorter names when scores are similar (likely more precise matches)
-    // Use normalized penalty with max cap to prevent negative scores
-    const lengthPenalty = Math.min(name.length * 0.1, 10); // Cap penalty at 10 points
-    score -= lengthPenalty;
-
-    return { app, score };
-  });
+  // ipatool has no rating counts, so this is the name and developer match alone
+  const scoredResults = apps.map((app) => ({
+    app,
+    score: scoreRelevance({ name: app.name, developer: app.developer }, query).score,
+  }));
 
   // Sort by score (highest first)
   return scoredResults.sort((a, b) => b.score - a.score);
@@ -169,7 +134,7 @@ export function getBestIpaToolMatch(apps: IpaToolSearchApp[], query: string): Ip
  * @returns True if exact match
  */
 export function isExactMatch(appName: string, query: string): boolean {
-  return appName.toLowerCase() === query.toLowerCase();
+  return normalizeSearchText(appName) === normalizeSearchText(query);
 }
 
 /**
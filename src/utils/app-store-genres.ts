@@ -0,0 +1,130 @@
+// App Store genre taxonomy, and the apps listed under each genre
+//
+// iTunes search has no way to list a genre, but Apple's top-chart feeds take a
+// genre ID. A genre's apps are its free and paid charts merged, then looked up
+// for full metadata.
+import { logger } from "@chrismessina/raycast-logger";
+import type { AppDetails, ITunesResult } from "../types";
+import { fetchTopChartAppIds, lookupITunesAppsByIds } from "./itunes-api";
+
+export interface AppStoreGenre {
+  /** App Store genre ID, as in ITunesResult.genreIds */
+  id: number;
+  name: string;
+}
+
+export const GAMES_GENRE_ID = 6014;
+
+/** Top-level App Store categories, alphabetical */
+export const APP_STORE_GENRES: AppStoreGenre[] = [
+  { id: 6018, name: "Books" },
+  { id: 6000, name: "Business" },
+  { id: 6026, name: "Developer Tools" },
+  { id: 6017, name: "Education" },
+  { id: 6016, name: "Entertainment" },
+  { id: 6015, name: "Finance" },
+  { id: 6023, name: "Food & Drink" },
+  { id: GAMES_GENRE_ID, name: "Games" },
+  { id: 6027, name: "Graphics & Design" },
+  { id: 6013, name: "Health & Fitness" },
+  { id: 6012, name: "Lifestyle" },
+  { id: 6021, name: "Magazines & Newspapers" },
+  { id: 6020, name: "Medical" },
+  { id: 6011, name: "Music" },
+  { id: 6010, name: "Navigation" },
+  { id: 6009, name: "News" },
+  { id: 6008, name: "Photo & Video" },
+  { id: 6007, name: "Productivity" },
+  { id: 6006, name: "Reference" },
+  { id: 6024, name: "Shopping" },
+  { id: 6005, name: "Social Networking" },
+  { id: 6004, name: "Sports" },
+  { id: 6003, name: "Travel" },
+  { id: 6002, name: "Utilities" },
+  { id: 6001, name: "Weather" },
+];
+
+/** Subgenres of Games, alphabetical */
+export const GAME_SUBGENRES: AppStoreGenre[] = [
+  { id: 7001, name: "Action" },
+  { id: 7002, name: "Adventure" },
+  { id: 7004, name: "Board" },
+  { id: 7005, name: "Card" },
+  { id: 7006, name: "Casino" },
+  { id: 7003, name: "Casual" },
+  { id: 7008, name: "Educational" },
+  { id: 7009, name: "Family" },
+  { id: 7011, name: "Music" },
+  { id: 7012, name: "Puzzle" },
+  { id: 7013, name: "Racing" },
+  { id: 7014, name: "Role Playing" },
+  { id: 7015, name: "Simulation" },
+  { id: 7016, name: "Sports" },
+  { id: 7017, name: "Strategy" },
+  { id: 7018, name: "Trivia" },
+  { id: 7019, name: "Word" },
+];
+
+export type GenreSort = "ratings" | "newest" | "price-low" | "price-high";
+
+export const GENRE_SORT_OPTIONS: Array<{ value: GenreSort; title: string }> = [
+  { value: "ratings", title: "Most Ratings" },
+  { value: "newest", title: "Newest Release" },
+  { value: "price-low", title: "Price: Low to High" },
+  { value: "price-high", title: "Price: High to Low" },
+];
+
+/**
+ * Full name of a genre, e.g. "Games: Puzzle" for a Games subgenre
+ */
+export function getGenreTitle(genre: AppStoreGenre): string {
+  return GAME_SUBGENRES.some((subgenre) => subgenre.id === genre.id) ? `Games: ${genre.name}` : genre.name;
+}
+
+/**
+ * Fetch the apps listed under a genre: its free and paid top charts, merged
+ * @param genreId App Store genre ID
+ * @param storefront Storefront to look in (defaults to the storefront preference)
+ * @returns Apps with full iTunes metadata, free chart first
+ * @throws When the chart feeds or the lookup fail after retries
+ */
+export async function fetchGenreApps(genreId: number, storefront?: string): Promise<ITunesResult[]> {
+  const [freeIds, paidIds] = await Promise.all([
+    fetchTopChartAppIds("topfreeapplications", genreId, storefront),
+    fetchTopChartAppIds("toppaidapplications", genreId, storefront),
+  ]);
+  const trackIds = [...new Set([...freeIds, ...paidIds])];
+  logger.log(
+    `[Genres] Genre ${genreId} charts list ${trackIds.length} app(s) (${freeIds.length} free, ${paidIds.length} paid)`,
+  );
+  return trackIds.length > 0 ? lookupITunesAppsByIds(trackIds, storefront) : [];
+}
+
+// When the latest version came out; releaseDate is the app's first release
+function getReleaseTime(app: AppDetails): number {
+  const date = app.currentVersionReleaseDate || app.releaseDate;
+  return date ? new Date(date).getTime() || 0 : 0;
+}
+
+/**
+ * Sort a genre's apps. Apps that compare equal keep their chart order.
+ * @returns A new, sorted array
+ */
+export function sortGenreApps(apps: AppDetails[], sort: GenreSort): AppDetails[] {
+  const byRatings = (a: AppDetails, b: AppDetails) => (b.userRatingCount ?? 0) - (a.userRatingCount ?? 0);
+  const price = (app: AppDetails) => parseFloat(app.price) || 0;
+
+  return [...apps].sort((a, b) => {
+    switch (sort) {
+      case "ratings":
+        return byRatings(a, b);
+      case "newest":
+        return getReleaseTime(b) - getReleaseTime(a);
+      // Within a price, the most-rated app comes first
+      case "price-low":
+        return price(a) - price(b) || byRatings(a, b);
+      case "price-high":
+        return price(b) - price(a) || byRatings(a, b);
+    }
+  });
+}
@@ -4,6 +4,7 @@ import { getPreferenceValues, showToast, Toast } from "@raycast/api";
 import { AppDetails, PlatformPreferences, PlatformType, ScreenshotInfo } from "../types";
 import { APP_STORE_BASE_URL } from "./constants";
 import { handleToolError } from "./error-handler";
+import { resolveStorefront } from "./storefronts";
 
 // App Store constants (imported from centralized constants)
 
@@ -132,34 +133,39 @@ async function validateEnabledPlatforms(platforms: PlatformType[]): Promise<bool
 /**
  * Get the App Store URL for an app
  * @param app App details
+ * @param storefront Storefront override (falls back to the app's storefront, then the preference)
  * @returns App Store URL
  */
-export function getAppStoreUrl(app: AppDetails): string {
-  // Use the trackViewUrl if available
-  if (app.trackViewUrl) {
+export function getAppStoreUrl(app: AppDetails, storefront?: string): string {
+  // Use the trackViewUrl if available — iTunes already built it for the storefront it was fetched from
+  if (app.trackViewUrl && !storefront) {
     return app.trackViewUrl;
   }
 
+  const country = resolveStorefront(storefront ?? app.storefront);
+
   // If we have an app ID, construct the URL with it
   if (app.id) {
-    return `${APP_STORE_BASE_URL}/us/app/id${app.id}`;
+    return `${APP_STORE_BASE_URL}/${country}/app/id${app.id}`;
   }
 
   // If we don't have an ID or trackViewUrl, use the bundleId to search
   // This creates a search URL that will redirect to the app if found
   const sanitizedName = app.name.replace(/[^a-zA-Z0-9]/g, "-").toLowerCase();
-  return `${APP_STORE_BASE_URL}/us/app/${sanitizedName}/id${app.bundleId}`;
+  return `${APP_STORE_BASE_URL}/${country}/app/${sanitizedName}/id${app.bundleId}`;
 }
 
 /**
  * Scrape screenshots from the App Store using shoebox JSON extraction
  * @param app App details
  * @param platforms Optional platform override (falls back to preferences)
+ * @param storefront Optional storefront whose App Store page is scraped
  * @returns Array of screenshot information objects
  */
 export async function scrapeAppStoreScreenshots(
   app: AppDetails,
   platforms?: PlatformType[],
+  storefront?: string,
 ): Promise<ScreenshotInfo[]> {
   logger.log(`[Scraper] Scraping screenshots for ${app.name} (${app.bundleId})`);
 
@@ -175,7 +181,7 @@ export async function scrapeAppStoreScreenshots(
 
   try {
     // Fetch the App Store page (base URL without platform-specific parameters)
-    const baseUrl = getAppStoreUrl(app);
+    const baseUrl = getAppStoreUrl(app, storefront);
     logger.log(`[Scraper] Fetching App Store page: ${baseUrl}`);
 
     const response = await fetch(baseUrl);
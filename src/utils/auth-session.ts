@@ -0,0 +1,105 @@
+// Apple ID session health
+//
+// ipatool's session can expire long before a download notices, and a batch of
+// queued downloads would then each find out on their own and each ask for the
+// login form. The status here is read from `ipatool auth info` on demand, and
+// checkSessionBeforeBatch signs in once for a whole batch.
+import { logger } from "@chrismessina/raycast-logger";
+import { getActiveAccountProfile } from "./account-profiles";
+import {
+  ensureAuthenticated,
+  getAppleIdFromStorage,
+  getLastSignIn,
+  Needs2FAError,
+  NeedsLoginError,
+  type LastSignIn,
+} from "./auth";
+import { getAuthInfo } from "./ipatool-auth";
+import { validateIpatoolInstallation } from "./ipatool-validator";
+
+/**
+ * signed-in: ipatool has a session
+ * signed-out: no session, or it expired
+ * unavailable: ipatool is missing or could not be asked
+ */
+export type AuthSessionState = "signed-in" | "signed-out" | "unavailable";
+
+export interface AuthSessionStatus {
+  state: AuthSessionState;
+  /** Apple ID ipatool reports its session belongs to */
+  sessionAppleId?: string;
+  /** Apple ID the extension signs in with */
+  storedAppleId?: string;
+  /** Name of the stored Apple ID's account profile, if it has one */
+  profileName?: string;
+  lastSignIn?: LastSignIn;
+  checkedAt: string;
+  error?: string;
+}
+
+/**
+ * What a batch of downloads needs before it can start: nothing (null), the
+ * login form, or the 2FA form
+ */
+export type BatchSignInNeed = "login" | "2fa" | null;
+
+let batchCheck: Promise<BatchSignInNeed> | null = null;
+
+/**
+ * Ask ipatool whether it has a session, alongside what the extension last recorded
+ * @returns The session status; never throws
+ */
+export async function getAuthSessionStatus(): Promise<AuthSessionStatus> {
+  const [storedAppleId, profile, lastSignIn] = await Promise.all([
+    getAppleIdFromStorage(),
+    getActiveAccountProfile(),
+    getLastSignIn(),
+  ]);
+  const status: AuthSessionStatus = {
+    state: "unavailable",
+    storedAppleId,
+    profileName: profile?.name,
+    lastSignIn,
+    checkedAt: new Date().toISOString(),
+  };
+
+  if (!(await validateIpatoolInstallation())) {
+    status.error = "ipatool is not installed or not at the configured path";
+    return status;
+  }
+
+  try {
+    const info = await getAuthInfo();
+    status.state = info.authenticated ? "signed-in" : "signed-out";
+    status.sessionAppleId = info.email;
+    if (!info.authenticated) status.error = info.error;
+  } catch (error) {
+    status.error = error instanceof Error ? error.message : String(error);
+    logger.warn("[Auth] Could not read ipatool session status:", status.error);
+  }
+  return status;
+}
+
+/**
+ * Make sure ipatool is signed in before starting several downloads. A stored
+ * password signs in again quietly; otherwise the caller shows one form for the
+ * whole batch. Concurrent callers share one check.
+ * @returns The form the batch is waiting on, or null to go ahead
+ */
+export function checkSessionBeforeBatch(): Promise<BatchSignInNeed> {
+  batchCheck ??= (async (): Promise<BatchSignInNeed> => {
+    try {
+      await ensureAuthenticated();
+      return null;
+    } catch (error) {
+      if (error instanceof Needs2FAError) return "2fa";
+      if (error instanceof NeedsLoginError) return "login";
+      // Anything else (ipatool missing, network) is reported by each download as usual
+      logger.warn("[Auth] Pre-flight session check failed; starting downloads anyway:", error);
+      return null;
+    }
+  })().finally(() => {
+    batchCheck = null;
+  });
+  return batchCheck;
+}
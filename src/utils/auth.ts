@@ -1,8 +1,10 @@
 import { logger } from "@chrismessina/raycast-logger";
 import * as Raycast from "@raycast/api";
+import { safeJsonParse } from "./common";
 import { login as ipatoolLogin } from "./ipatool-auth";
 import { analyzeIpatoolError } from "./ipatool-error-patterns";
 import { executeIpatoolCommand, IpatoolSetupError, validateIpatoolInstallation } from "./ipatool-validator";
+import { STORAGE_KEYS } from "./storage";
 import { handleProcessErrorCleanup } from "./temp-file-manager";
 
 const { LocalStorage } = Raycast;
@@ -63,6 +65,17 @@ export class BuiltInAppError extends Error {
   }
 }
 
+/**
+ * Thrown when the user cancels a download while ipatool is running. Not a
+ * failure: the hook records it as a cancellation and shows no error.
+ */
+export class DownloadCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DownloadCancelledError";
+  }
+}
+
 // Service name for secure keychain storage
 const PASSWORD_SERVICE = "ios-apps-apple-password";
 
@@ -77,11 +90,17 @@ export async function getAppleIdFromStorage(): Promise<string | undefined> {
  * Securely retrieve password from storage
  */
 export async function getPasswordFromStorage(): Promise<string | undefined> {
+  const appleId = await LocalStorage.getItem<string>("appleId");
+  return appleId ? await getPasswordForAppleId(appleId) : undefined;
+}
+
+/**
+ * Securely retrieve the saved password for any Apple ID, not just the signed-in one.
+ * Account profiles keep one Keychain entry per Apple ID.
+ * @param appleId Apple ID email
+ */
+export async function getPasswordForAppleId(appleId: string): Promise<string | undefined> {
   try {
-    const appleId = await LocalStorage.getItem<string>("appleId");
-    if (!appleId) {
-      return undefined;
-    }
     const pwd =
       typeof Keychain.getPassword === "function"
         ? await Keychain.getPassword({ service: PASSWORD_SERVICE, account: appleId })
@@ -93,6 +112,20 @@ export async function getPasswordFromStorage(): Promise<string | undefined> {
   }
 }
 
+/** The last time ipatool accepted a sign-in */
+export interface LastSignIn {
+  appleId: string;
+  signedInAt: string;
+}
+
+/**
+ * Read when ipatool last accepted a sign-in, and for which Apple ID
+ */
+export async function getLastSignIn(): Promise<LastSignIn | undefined> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEYS.LAST_SIGN_IN);
+  return stored ? safeJsonParse<LastSignIn | undefined>(stored, undefined) : undefined;
+}
+
 /**
  * Store Apple ID in local storage
  */
@@ -108,6 +141,15 @@ export async function storePassword(password: string): Promise<void> {
   if (!appleId) {
     throw new Error("Apple ID must be stored before saving password");
   }
+  await storePasswordForAppleId(appleId, password);
+}
+
+/**
+ * Store the password for a given Apple ID without making it the signed-in one
+ * @param appleId Apple ID email
+ * @param password Apple ID password
+ */
+export async function storePasswordForAppleId(appleId: string, password: string): Promise<void> {
   if (typeof Keychain.setPassword !== "function") {
     logger.warn("Keychain.setPassword is not available; skipping password storage");
     return;
@@ -115,6 +157,22 @@ export async function storePassword(password: string): Promise<void> {
   await Keychain.setPassword({ service: PASSWORD_SERVICE, account: appleId, password });
 }
 
+/**
+ * Best-effort removal of the saved password for a given Apple ID
+ * @param appleId Apple ID email
+ */
+export async function deletePasswordForAppleId(appleId: string): Promise<void> {
+  try {
+    if (typeof Keychain.deletePassword === "function") {
+      await Keychain.deletePassword({ service: PASSWORD_SERVICE, account: appleId });
+    }
+  } catch (e) {
+    logger.error("Failed to delete password from secure storage", {
+      error: e instanceof Error ? e.message : String(e),
+    });
+  }
+}
+
 /**
  * Convenience: return stored credentials if present
  */
@@ -131,14 +189,8 @@ export async function clearStoredCredentials(): Promise<void> {
   // Capture appleId first for keychain deletion
   const appleId = await LocalStorage.getItem<string>("appleId");
   // Best-effort cleanup of secure storage for current account
-  try {
-    if (appleId && typeof Keychain.deletePassword === "function") {
-      await Keychain.deletePassword({ service: PASSWORD_SERVICE, account: appleId });
-    }
-  } catch (e) {
-    logger.error("Failed to delete password from secure storage", {
-      error: e instanceof Error ? e.message : String(e),
-    });
+  if (appleId) {
+    await deletePasswordForAppleId(appleId);
   }
   // Remove identifiers
   await LocalStorage.removeItem("appleId");
@@ -218,6 +270,8 @@ export async function loginToAppleId(appleId?: string, password?: string, twoFac
 
     done({ result: "success" });
     logger.info("[Auth] Successfully authenticated with Apple ID");
+    const lastSignIn: LastSignIn = { appleId: email, signedInAt: new Date().toISOString() };
+    await LocalStorage.setItem(STORAGE_KEYS.LAST_SIGN_IN, JSON.stringify(lastSignIn));
   } catch (error) {
     // Re-throw our own typed errors as-is
     if (error instanceof NeedsLoginError || error instanceof Needs2FAError) {
@@ -0,0 +1,299 @@
+// Auto-archive: download every new version of chosen favorites
+//
+// Runs after each background update check. An app is due when the App Store
+// serves a version that download history has no record of; anything skipped
+// (sign-in, disk space, the daily limit) stays due and is retried next run.
+// Files go to a per-app folder so archives don't mix with everyday downloads.
+import fs from "fs";
+import path from "path";
+import { logger } from "@chrismessina/raycast-logger";
+import { LocalStorage } from "@raycast/api";
+import { getConfig } from "../config";
+import { downloadApp, validateDownloadPrereqs } from "../ipatool";
+import type { AppDetails } from "../types";
+import { getActiveAccountProfile } from "./account-profiles";
+import { ensureAuthenticated, getAppleIdFromStorage, Needs2FAError, NeedsLoginError } from "./auth";
+import { safeJsonParse } from "./common";
+import { getIpatoolVersion } from "./ipatool-validator";
+import { convertITunesResultToAppDetails, lookupITunesAppByBundleId } from "./itunes-api";
+import { getDownloadsDirectory, sanitizeFilename } from "./paths";
+import {
+  DOWNLOAD_HISTORY_LIMIT,
+  isCancelledOnlyRecord,
+  STORAGE_KEYS,
+  withoutCachedITunesData,
+  type DownloadCount,
+  type DownloadHistoryItem,
+} from "./storage";
+import { resolveStorefront } from "./storefronts";
+
+/**
+ * archived: downloaded and recorded in history
+ * needs-2fa / needs-login: skipped because signing in needs the user
+ * daily-limit: skipped because today's downloads are used up
+ * prereqs: skipped by validateDownloadPrereqs (disk space, permissions, network)
+ * failed: the download itself failed
+ */
+export type AutoArchiveOutcome = "archived" | "needs-2fa" | "needs-login" | "daily-limit" | "prereqs" | "failed";
+
+export interface AutoArchiveResult {
+  bundleId: string;
+  name: string;
+  version: string;
+  outcome: AutoArchiveOutcome;
+  message?: string;
+  filePath?: string;
+}
+
+export interface AutoArchiveReport {
+  ranAt: string;
+  results: AutoArchiveResult[];
+}
+
+interface AutoArchiveState {
+  /** Local date the count below belongs to, as YYYY-MM-DD */
+  day: string;
+  downloadsToday: number;
+  lastReport?: AutoArchiveReport;
+}
+
+// Only the shape needed here; the full type lives with useFavoriteApps
+interface StoredFavorite {
+  app: AppDetails;
+  storefront?: string;
+  autoArchive?: boolean;
+}
+
+function getDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+async function readStoredList<T>(key: string): Promise<T[]> {
+  const stored = await LocalStorage.getItem<string>(key);
+  return stored ? safeJsonParse<T[]>(stored, []) : [];
+}
+
+async function readState(today: string): Promise<AutoArchiveState> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEYS.AUTO_ARCHIVE);
+  const state = stored ? safeJsonParse<AutoArchiveState | null>(stored, null) : null;
+  // A new day starts a new count
+  return state && state.day === today ? state : { day: today, downloadsToday: 0, lastReport: state?.lastReport };
+}
+
+/**
+ * Folder an app's archived versions are saved to
+ * @param bundleId App bundle ID
+ * @returns Absolute path inside the download folder
+ */
+export function getAutoArchiveDirectory(bundleId: string): string {
+  return path.join(getDownloadsDirectory(), "Archive", sanitizeFilename(bundleId));
+}
+
+/**
+ * Result of the last auto-archive run, for summaries outside the command
+ */
+export async function getLastAutoArchiveReport(): Promise<AutoArchiveReport | undefined> {
+  return (await readState(getDayKey(new Date()))).lastReport;
+}
+
+/**
+ * Add an archived download to history the way a manual download would be
+ * recorded, straight in storage since no view is open
+ */
+async function recordArchivedDownload(app: AppDetails, filePath: string, startedAt: number, sha256?: string) {
+  const [history, counts, appleId, accountProfile, ipatoolVersion] = await Promise.all([
+    readStoredList<DownloadHistoryItem>(STORAGE_KEYS.DOWNLOAD_HISTORY),
+    readStoredList<DownloadCount>(STORAGE_KEYS.DOWNLOAD_COUNTS),
+    getAppleIdFromStorage(),
+    getActiveAccountProfile(),
+    getIpatoolVersion(),
+  ]);
+  const now = new Date().toISOString();
+
+  const isSameVersion = (item: DownloadHistoryItem) =>
+    item.app.bundleId === app.bundleId && item.app.version === app.version;
+  const previous = history.find(isSameVersion);
+  const record: DownloadHistoryItem = {
+    app: withoutCachedITunesData(app),
+    downloadDate: now,
+    downloadCount: (previous?.downloadCount ?? 0) + 1,
+    filePath,
+    storefront: resolveStorefront(app.storefront),
+    sha256,
+    fileSizeBytes: fs.statSync(filePath).size,
+    durationMs: Date.now() - startedAt,
+    appleId,
+    accountProfile: accountProfile?.name,
+    ipatoolVersion,
+    autoArchived: true,
+  };
+  const nextHistory = [record, ...history.filter((item) => !isSameVersion(item))].slice(0, DOWNLOAD_HISTORY_LIMIT);
+
+  const count = counts.find((item) => item.bundleId === app.bundleId);
+  const nextCounts = count
+    ? counts.map((item) => (item === count ? { ...item, count: item.count + 1, lastDownloaded: now } : item))
+    : [...counts, { bundleId: app.bundleId, count: 1, lastDownloaded: now }];
+
+  await LocalStorage.setItem(STORAGE_KEYS.DOWNLOAD_HISTORY, JSON.stringify(nextHistory));
+  await LocalStorage.setItem(STORAGE_KEYS.DOWNLOAD_COUNTS, JSON.stringify(nextCounts));
+}
+
+/**
+ * Favorites set to auto-archive whose current App Store version has no
+ * history record yet
+ */
+async function findDueApps(): Promise<AppDetails[]> {
+  const [favorites, history] = await Promise.all([
+    readStoredList<StoredFavorite>(STORAGE_KEYS.FAVORITE_APPS),
+    readStoredList<DownloadHistoryItem>(STORAGE_KEYS.DOWNLOAD_HISTORY),
+  ]);
+  const archived = new Set(
+    history.filter((item) => !isCancelledOnlyRecord(item)).map((item) => `${item.app.bundleId}@${item.app.version}`),
+  );
+
+  const due: AppDetails[] = [];
+  for (const favorite of favorites.filter((item) => item.autoArchive)) {
+    const { bundleId } = favorite.app;
+    const storefront = favorite.storefront ?? favorite.app.storefront;
+    try {
+      const latest = await lookupITunesAppByBundleId(bundleId, storefront);
+      if (!latest?.version || archived.has(`${bundleId}@${latest.version}`)) continue;
+      due.push(convertITunesResultToAppDetails(latest, { storefront }));
+    } catch (error) {
+      logger.warn(`[AutoArchive] Lookup failed for ${bundleId}; trying again next run:`, error);
+    }
+  }
+  return due;
+}
+
+/**
+ * Download new versions of every auto-archive favorite, up to the daily limit.
+ * Sign-in is checked once up front: when it would need a 2FA code or a
+ * password, nothing is downloaded and every due app is reported as skipped.
+ * @returns What happened to each due app; empty when nothing was due
+ */
+export async function runAutoArchive(): Promise<AutoArchiveReport> {
+  const now = new Date();
+  const state = await readState(getDayKey(now));
+  const report: AutoArchiveReport = { ranAt: now.toISOString(), results: [] };
+  const due = await findDueApps();
+  if (due.length === 0) return report;
+
+  const { autoArchiveDailyLimit } = getConfig();
+  logger.log(
+    `[AutoArchive] ${due.length} new version(s) due; ${state.downloadsToday}/${autoArchiveDailyLimit} downloads used today`,
+  );
+
+  const skipAll = (outcome: AutoArchiveOutcome, message: string) => {
+    for (const app of due.slice(report.results.length)) {
+      report.results.push({ bundleId: app.bundleId, name: app.name, version: app.version, outcome, message });
+    }
+  };
+
+  if (state.downloadsToday >= autoArchiveDailyLimit) {
+    skipAll("daily-limit", `Daily limit of ${autoArchiveDailyLimit} reached`);
+  } else {
+    try {
+      // Sign in once for the whole run; a background command can't ask for a code
+      if (!(await ensureAuthenticated())) {
+        skipAll("failed", "ipatool is not available");
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`[AutoArchive] Skipping run, sign-in did not succeed: ${message}`);
+      if (error instanceof Needs2FAError) {
+        skipAll("needs-2fa", message);
+      } else if (error instanceof NeedsLoginError) {
+        skipAll("needs-login", message);
+      } else {
+        skipAll("failed", message);
+      }
+    }
+  }
+
+  for (const app of due.slice(report.results.length)) {
+    const result: AutoArchiveResult = {
+      bundleId: app.bundleId,
+      name: app.name,
+      version: app.version,
+      outcome: "failed",
+    };
+    report.results.push(result);
+
+    if (state.downloadsToday >= autoArchiveDailyLimit) {
+      result.outcome = "daily-limit";
+      result.message = `Daily limit of ${autoArchiveDailyLimit} reached`;
+      continue;
+    }
+
+    const outputDirectory = getAutoArchiveDirectory(app.bundleId);
+    try {
+      await fs.promises.mkdir(outputDirectory, { recursive: true });
+      const validation = await validateDownloadPrereqs(app.bundleId, app.name, app.fileSizeBytes, outputDirectory);
+      if (!validation.isValid) {
+        result.outcome = "prereqs";
+        result.message = validation.errorMessage;
+        continue;
+      }
+
+      const startedAt = Date.now();
+      let sha256: string | undefined;
+      const filePath = await downloadApp(app.bundleId, app.name, app.version, app.price, 0, undefined, {
+        suppressHUD: true,
+        expectedSizeBytes: app.fileSizeBytes,
+        outputDirectory,
+        onChecksum: (digest) => {
+          sha256 = digest;
+        },
+        fileNameDetails: { trackId: app.id || undefined, developer: app.sellerName || undefined },
+      });
+
+      if (!filePath || !fs.existsSync(filePath)) {
+        result.message = "Download did not produce a file";
+        continue;
+      }
+
+      state.downloadsToday++;
+      await recordArchivedDownload(app, filePath, startedAt, sha256);
+      result.outcome = "archived";
+      result.filePath = filePath;
+      logger.log(`[AutoArchive] Archived ${app.name} ${app.version} to ${filePath}`);
+    } catch (error) {
+      result.message = error instanceof Error ? error.message : String(error);
+      logger.error(`[AutoArchive] Failed to archive ${app.name} ${app.version}:`, error);
+      // The session expired mid-run; the rest would fail the same way
+      if (error instanceof NeedsLoginError) {
+        result.outcome = "needs-login";
+        skipAll("needs-login", result.message);
+        break;
+      }
+    }
+  }
+
+  await LocalStorage.setItem(STORAGE_KEYS.AUTO_ARCHIVE, JSON.stringify({ ...state, lastReport: report }));
+  return report;
+}
+
+/**
+ * Short summary for a HUD, e.g. "Archived 2 new versions · 1 skipped (2FA code needed)"
+ */
+export function describeAutoArchiveReport(report: AutoArchiveReport): string {
+  const count = (outcome: AutoArchiveOutcome) => report.results.filter((result) => result.outcome === outcome).length;
+  const archived = count("archived");
+  const parts: string[] = [];
+  if (archived > 0) parts.push(`Archived ${archived} new ${archived === 1 ? "version" : "versions"}`);
+
+  const skipped: [AutoArchiveOutcome, string][] = [
+    ["needs-2fa", "2FA code needed"],
+    ["needs-login", "sign-in needed"],
+    ["daily-limit", "daily limit reached"],
+    ["prereqs", "disk space, permission or network check failed"],
+  ];
+  for (const [outcome, reason] of skipped) {
+    if (count(outcome) > 0) parts.push(`${count(outcome)} skipped (${reason})`);
+  }
+  if (count("failed") > 0) parts.push(`${count("failed")} failed`);
+  return parts.join(" · ");
+}
@@ -11,12 +11,21 @@ export const ITUNES_API_BASE_URL = "https://itunes.apple.com";
 export const ITUNES_SEARCH_ENDPOINT = "/search";
 export const ITUNES_LOOKUP_ENDPOINT = "/lookup";
 
+// The search endpoint has no offset parameter, so paging asks for a larger
+// limit each time and keeps the results it hasn't shown yet. Apple caps the
+// limit at 200.
+export const ITUNES_SEARCH_PAGE_SIZE = 20;
+export const ITUNES_SEARCH_MAX_LIMIT = 200;
+
 /**
  * Generate App Store URL for an app by ID
  * @param appId - The app ID
+ * @param storefront - Optional storefront (country code); without it Apple redirects to the visitor's region
  * @returns Complete App Store URL
  */
-export function getAppStoreUrl(appId: string | number): string {
-  const url = new URL(`${APP_STORE_APP_URL_TEMPLATE}${appId}`);
+export function getAppStoreUrl(appId: string | number, storefront?: string): string {
+  const url = storefront
+    ? new URL(`${APP_STORE_BASE_URL}/${storefront}/app/id${appId}`)
+    : new URL(`${APP_STORE_APP_URL_TEMPLATE}${appId}`);
   return url.toString();
 }
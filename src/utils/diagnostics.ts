@@ -0,0 +1,429 @@
+// Setup diagnostics for Diagnose Setup
+//
+// Most setup problems only show up as an error partway through a download.
+// These checks look at each piece up front (ipatool, the Apple ID session, the
+// download folder, preferences, and Apple's endpoints) and say how to fix what
+// is wrong. They never show toasts of their own, unlike the validators they
+// share code with, so the report is the only output.
+import { accessSync, constants, existsSync, promises as fsPromises } from "fs";
+import os from "os";
+import { logger } from "@chrismessina/raycast-logger";
+import { environment } from "@raycast/api";
+import { getConfig, getPreferenceIssues } from "../config";
+import { extractScreenshotsFromShoeboxJson, getAppStoreUrl } from "./app-store-scraper";
+import { getAuthSessionStatus } from "./auth-session";
+import { formatFileSize, formatFriendlyDateTime } from "./formatting";
+import {
+  executeIpatoolCommand,
+  findIpatoolPath,
+  isSupportedIpatoolVersion,
+  MINIMUM_IPATOOL_VERSION,
+  parseIpatoolVersion,
+} from "./ipatool-validator";
+import { convertITunesResultToAppDetails, lookupITunesAppByBundleId } from "./itunes-api";
+import { getDownloadsDirectory, IPATOOL_PATH, validateExecutablePath } from "./paths";
+
+// An app every storefront carries, for the iTunes API and App Store page checks
+const REFERENCE_BUNDLE_ID = "com.apple.Pages";
+// Below this a typical download fails the disk space check; below the warning it soon will
+const FREE_SPACE_FAIL_BYTES = 300 * 1024 * 1024;
+const FREE_SPACE_WARN_BYTES = 5 * 1024 * 1024 * 1024;
+const PAGE_FETCH_TIMEOUT_MS = 15 * 1000;
+const APPLE_SYSTEM_STATUS_URL = "https://www.apple.com/support/systemstatus/";
+
+export type DiagnosticStatus = "pass" | "warn" | "fail";
+
+/** What the view offers to fix a warning or failure */
+export type DiagnosticFix =
+  | { kind: "preferences"; title: string }
+  | { kind: "sign-in"; title: string }
+  | { kind: "copy-command"; title: string; command: string }
+  | { kind: "open-url"; title: string; url: string };
+
+export interface DiagnosticCheck {
+  id: string;
+  title: string;
+  status: DiagnosticStatus;
+  /** One line, shown next to the title */
+  summary: string;
+  /** More context for the detail pane and the report */
+  details?: string[];
+  fix?: DiagnosticFix;
+}
+
+const openPreferencesFix = (title = "Open Extension Preferences"): DiagnosticFix => ({ kind: "preferences", title });
+
+/**
+ * Show enough of an Apple ID to recognise it without putting it in a bug report,
+ * e.g. "j•••@example.com"
+ */
+function maskAppleId(appleId: string): string {
+  const [name, domain] = appleId.split("@");
+  return domain ? `${name.slice(0, 1)}•••@${domain}` : "•••";
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function checkIpatoolPath(): DiagnosticCheck {
+  const check: DiagnosticCheck = { id: "ipatool-path", title: "ipatool Path", status: "pass", summary: IPATOOL_PATH };
+  if (existsSync(IPATOOL_PATH)) return check;
+
+  const found = findIpatoolPath();
+  check.status = "fail";
+  check.summary = `Nothing at ${IPATOOL_PATH}`;
+  if (found) {
+    check.details = [`ipatool was found at ${found}. Set the ipatool Path preference to it.`];
+    check.fix = openPreferencesFix("Set ipatool Path");
+  } else {
+    check.details = ["ipatool is not installed in any of the usual places."];
+    check.fix = { kind: "copy-command", title: "Copy Install Command", command: "brew install ipatool" };
+  }
+  return check;
+}
+
+function checkIpatoolExecutable(): DiagnosticCheck {
+  const check: DiagnosticCheck = {
+    id: "ipatool-executable",
+    title: "Executable Validation",
+    status: "pass",
+    summary: "Allowed location and executable",
+  };
+  if (!existsSync(IPATOOL_PATH)) {
+    return { ...check, status: "fail", summary: "Skipped: ipatool not found" };
+  }
+
+  try {
+    validateExecutablePath(IPATOOL_PATH);
+  } catch (error) {
+    return {
+      ...check,
+      status: "fail",
+      summary: "Path not allowed",
+      details: [describeError(error)],
+      fix: openPreferencesFix("Change ipatool Path"),
+    };
+  }
+
+  try {
+    accessSync(IPATOOL_PATH, constants.F_OK | constants.X_OK);
+  } catch {
+    return {
+      ...check,
+      status: "fail",
+      summary: "Not executable",
+      fix: { kind: "copy-command", title: "Copy Permission Fix", command: `chmod +x "${IPATOOL_PATH}"` },
+    };
+  }
+  return check;
+}
+
+async function checkIpatoolVersion(): Promise<DiagnosticCheck> {
+  const check: DiagnosticCheck = { id: "ipatool-version", title: "ipatool Version", status: "pass", summary: "" };
+  if (!existsSync(IPATOOL_PATH)) {
+    return { ...check, status: "fail", summary: "Skipped: ipatool not found" };
+  }
+
+  const result = await executeIpatoolCommand(["--version"], { timeout: 5000, skipOutputValidation: true });
+  if (!result.success) {
+    return {
+      ...check,
+      status: "fail",
+      summary: "ipatool did not run",
+      details: [result.error?.message ?? result.stderr ?? "Unknown error"],
+      fix: { kind: "copy-command", title: "Copy Reinstall Command", command: "brew reinstall ipatool" },
+    };
+  }
+
+  const version = parseIpatoolVersion(result.stdout || result.stderr || "");
+  if (!version) {
+    return {
+      ...check,
+      status: "warn",
+      summary: "Runs, but reports no version",
+      details: [`Development builds work, but ${MINIMUM_IPATOOL_VERSION} or later is needed to sign in.`],
+    };
+  }
+  if (!isSupportedIpatoolVersion(version)) {
+    return {
+      ...check,
+      status: "fail",
+      summary: `${version}, older than ${MINIMUM_IPATOOL_VERSION}`,
+      details: [`ipatool before ${MINIMUM_IPATOOL_VERSION} can no longer sign in to the App Store.`],
+      fix: { kind: "copy-command", title: "Copy Upgrade Command", command: "brew upgrade ipatool" },
+    };
+  }
+  return { ...check, summary: version };
+}
+
+async function checkAuthSession(previous: DiagnosticCheck[]): Promise<DiagnosticCheck> {
+  const check: DiagnosticCheck = { id: "auth", title: "Apple ID Session", status: "pass", summary: "" };
+  // Asking a broken ipatool would only repeat the failure above, with a toast
+  if (previous.some((item) => item.id.startsWith("ipatool-") && item.status === "fail")) {
+    return { ...check, status: "fail", summary: "Skipped: ipatool unavailable" };
+  }
+
+  const status = await getAuthSessionStatus();
+  const details = [
+    status.lastSignIn
+      ? `Last sign-in: ${formatFriendlyDateTime(status.lastSignIn.signedInAt)}`
+      : "Last sign-in: not recorded",
+  ];
+  if (status.profileName) details.push(`Account profile: ${status.profileName}`);
+
+  switch (status.state) {
+    case "unavailable":
+      return { ...check, status: "fail", summary: "Skipped: ipatool unavailable", details };
+    case "signed-out":
+      return {
+        ...check,
+        status: "warn",
+        summary: "Not signed in",
+        details: [...details, "Searching works; downloads ask you to sign in."],
+        fix: { kind: "sign-in", title: "Sign in" },
+      };
+    case "signed-in": {
+      const account = status.sessionAppleId ?? status.storedAppleId;
+      const sessionId = status.sessionAppleId?.toLowerCase();
+      const storedId = status.storedAppleId?.toLowerCase();
+      if (sessionId && storedId && sessionId !== storedId) {
+        return {
+          ...check,
+          status: "warn",
+          summary: `Signed in as a different Apple ID (${maskAppleId(status.sessionAppleId ?? "")})`,
+          details: [...details, `The extension signs in as ${maskAppleId(status.storedAppleId ?? "")}.`],
+          fix: { kind: "sign-in", title: "Sign in Again" },
+        };
+      }
+      return { ...check, summary: account ? `Signed in as ${maskAppleId(account)}` : "Signed in", details };
+    }
+  }
+}
+
+async function checkDownloadDirectory(): Promise<DiagnosticCheck[]> {
+  const writable: DiagnosticCheck = { id: "download-path", title: "Download Folder", status: "pass", summary: "" };
+  const space: DiagnosticCheck = { id: "free-space", title: "Free Space", status: "pass", summary: "" };
+
+  let directory: string;
+  try {
+    directory = getDownloadsDirectory();
+  } catch (error) {
+    return [
+      {
+        ...writable,
+        status: "fail",
+        summary: "Download Path is not allowed",
+        details: [describeError(error)],
+        fix: openPreferencesFix("Change Download Path"),
+      },
+      { ...space, status: "fail", summary: "Skipped: no usable download folder" },
+    ];
+  }
+
+  writable.summary = directory;
+  try {
+    await fsPromises.access(directory, constants.W_OK);
+  } catch {
+    writable.status = "fail";
+    writable.details = ["The folder exists but cannot be written to."];
+    writable.fix = openPreferencesFix("Change Download Path");
+  }
+
+  try {
+    const stats = await fsPromises.statfs(directory);
+    const freeBytes = stats.bavail * stats.bsize;
+    space.summary = `${formatFileSize(freeBytes)} free`;
+    if (freeBytes < FREE_SPACE_FAIL_BYTES) {
+      space.status = "fail";
+      space.details = ["Downloads are refused until more space is free."];
+    } else if (freeBytes < FREE_SPACE_WARN_BYTES) {
+      space.status = "warn";
+      space.details = ["Large games and updates may not fit."];
+    }
+  } catch (error) {
+    space.status = "warn";
+    space.summary = "Could not be read";
+    space.details = [describeError(error)];
+  }
+
+  return [writable, space];
+}
+
+function checkPreferences(): DiagnosticCheck {
+  const config = getConfig();
+  const issues = getPreferenceIssues();
+  const settings = [
+    `Download timeout: ${config.maxDownloadTimeout / 1000}s`,
+    `Stall timeout: ${config.maxStallTimeout / 1000}s`,
+    `Simultaneous app downloads: ${config.queueConcurrency}`,
+    `Integrity verification: ${config.integrityVerification}`,
+    `Storefront: ${config.storefront.toUpperCase()}`,
+  ];
+  if (issues.length === 0) {
+    return {
+      id: "preferences",
+      title: "Preferences",
+      status: "pass",
+      summary: "All values in range",
+      details: settings,
+    };
+  }
+  return {
+    id: "preferences",
+    title: "Preferences",
+    status: "warn",
+    summary: `${issues.length} ${issues.length === 1 ? "value was" : "values were"} corrected or ignored`,
+    details: [...issues, ...settings],
+    fix: openPreferencesFix(),
+  };
+}
+
+async function checkAppleServices(): Promise<DiagnosticCheck[]> {
+  const itunes: DiagnosticCheck = { id: "itunes-api", title: "iTunes API", status: "pass", summary: "" };
+  const scraper: DiagnosticCheck = { id: "scraper", title: "App Store Pages", status: "pass", summary: "" };
+  const statusFix: DiagnosticFix = {
+    kind: "open-url",
+    title: "Open Apple System Status",
+    url: APPLE_SYSTEM_STATUS_URL,
+  };
+
+  const startedAt = Date.now();
+  let result: Awaited<ReturnType<typeof lookupITunesAppByBundleId>>;
+  try {
+    result = await lookupITunesAppByBundleId(REFERENCE_BUNDLE_ID);
+  } catch (error) {
+    return [
+      {
+        ...itunes,
+        status: "fail",
+        summary: "Not reachable",
+        details: [describeError(error), "Search, app details and update checks need the iTunes API."],
+        fix: statusFix,
+      },
+      { ...scraper, status: "fail", summary: "Skipped: iTunes API not reachable" },
+    ];
+  }
+  if (!result) {
+    return [
+      { ...itunes, status: "warn", summary: `Reachable, but it returned nothing for ${REFERENCE_BUNDLE_ID}` },
+      { ...scraper, status: "warn", summary: "Skipped: no reference app" },
+    ];
+  }
+  itunes.summary = `Responded in ${Date.now() - startedAt} ms`;
+
+  const url = getAppStoreUrl(convertITunesResultToAppDetails(result));
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(PAGE_FETCH_TIMEOUT_MS) });
+    if (!response.ok) {
+      return [
+        itunes,
+        {
+          ...scraper,
+          status: "fail",
+          summary: `App Store page returned ${response.status}`,
+          details: [url],
+          fix: statusFix,
+        },
+      ];
+    }
+    const screenshots = extractScreenshotsFromShoeboxJson(await response.text());
+    if (screenshots.length === 0) {
+      return [
+        itunes,
+        {
+          ...scraper,
+          status: "warn",
+          summary: "Page loads, but no screenshots were found in it",
+          details: [url, "The App Store page layout may have changed; screenshot downloads will come back empty."],
+        },
+      ];
+    }
+    return [itunes, { ...scraper, summary: `${screenshots.length} screenshots found on the reference page` }];
+  } catch (error) {
+    return [
+      itunes,
+      { ...scraper, status: "fail", summary: "Not reachable", details: [url, describeError(error)], fix: statusFix },
+    ];
+  }
+}
+
+/**
+ * Run every check in order. A check that throws is reported as failed rather
+ * than stopping the rest.
+ * @param onCheck Called as each check finishes
+ * @returns All checks, in display order
+ */
+export async function runDiagnostics(onCheck?: (check: DiagnosticCheck) => void): Promise<DiagnosticCheck[]> {
+  type Step = (
+    previous: DiagnosticCheck[],
+  ) => DiagnosticCheck | DiagnosticCheck[] | Promise<DiagnosticCheck | DiagnosticCheck[]>;
+  const steps: [string, Step][] = [
+    ["ipatool Path", checkIpatoolPath],
+    ["Executable Validation", checkIpatoolExecutable],
+    ["ipatool Version", checkIpatoolVersion],
+    ["Apple ID Session", checkAuthSession],
+    ["Download Folder", checkDownloadDirectory],
+    ["Preferences", checkPreferences],
+    ["Apple Services", checkAppleServices],
+  ];
+
+  const checks: DiagnosticCheck[] = [];
+  for (const [title, run] of steps) {
+    let results: DiagnosticCheck[];
+    try {
+      results = [await run(checks)].flat();
+    } catch (error) {
+      logger.error(`[Diagnostics] ${title} check threw:`, error);
+      results = [
+        { id: title, title, status: "fail", summary: "The check itself failed", details: [describeError(error)] },
+      ];
+    }
+    for (const check of results) {
+      logger.log(`[Diagnostics] ${check.title}: ${check.status} – ${check.summary}`);
+      checks.push(check);
+      onCheck?.(check);
+    }
+  }
+  return checks;
+}
+
+/**
+ * Short summary, e.g. "7 passed · 2 warnings · 1 failed"
+ */
+export function describeDiagnostics(checks: DiagnosticCheck[]): string {
+  const count = (status: DiagnosticStatus) => checks.filter((check) => check.status === status).length;
+  const parts = [`${count("pass")} passed`];
+  if (count("warn") > 0) parts.push(`${count("warn")} ${count("warn") === 1 ? "warning" : "warnings"}`);
+  if (count("fail") > 0) parts.push(`${count("fail")} failed`);
+  return parts.join(" · ");
+}
+
+/**
+ * The whole report as Markdown for a bug report. Apple IDs are masked.
+ */
+export function formatDiagnosticsReport(checks: DiagnosticCheck[]): string {
+  const marks: Record<DiagnosticStatus, string> = { pass: "✅", warn: "⚠️", fail: "❌" };
+  const escape = (text: string) => text.replace(/\|/g, "\\|");
+  const lines = [
+    "# iOS Apps Diagnostics",
+    "",
+    `- Generated: ${new Date().toISOString()}`,
+    `- Raycast: ${environment.raycastVersion}`,
+    `- macOS: Darwin ${os.release()} (${process.arch})`,
+    `- Result: ${describeDiagnostics(checks)}`,
+    "",
+    "| Check | Status | Result |",
+    "| --- | --- | --- |",
+    ...checks.map((check) => `| ${check.title} | ${marks[check.status]} ${check.status} | ${escape(check.summary)} |`),
+  ];
+
+  const withDetails = checks.filter((check) => check.details?.length);
+  if (withDetails.length > 0) {
+    lines.push("", "## Details");
+    for (const check of withDetails) {
+      lines.push("", `### ${check.title}`, "", ...(check.details ?? []).map((detail) => `- ${detail}`));
+    }
+  }
+  return lines.join("\n");
+}
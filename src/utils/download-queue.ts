@@ -0,0 +1,472 @@
+// Persistent app download queue
+//
+// The queue lives in LocalStorage so it outlives the command that filled it:
+// Raycast unloads a view command as soon as it is closed, and whatever was
+// still pending is picked up again the next time a command processes the
+// queue (the Download Queue command does so on open).
+//
+// Each command process runs its own scheduler against the shared list. Items
+// record the session running them and a heartbeat, so an item left "active"
+// by a process that has since been unloaded goes back to pending instead of
+// blocking its slot forever.
+import { logger } from "@chrismessina/raycast-logger";
+import { LocalStorage } from "@raycast/api";
+import { getConfigValue } from "../config";
+import type { AppDetails } from "../types";
+import { safeJsonParse } from "./common";
+import type { DownloadProgress } from "./download-stats";
+import { STORAGE_KEYS, withoutCachedITunesData } from "./storage";
+
+export type DownloadQueueStatus = "pending" | "active" | "failed";
+
+export interface DownloadQueueItem {
+  id: string;
+  app: AppDetails;
+  /** Pinned older build, from "Download Older Version…" */
+  externalVersionId?: string;
+  status: DownloadQueueStatus;
+  addedAt: string;
+  startedAt?: string;
+  /** Last write by the session running the item; stale active items are reclaimed */
+  updatedAt: string;
+  /** 0–1 while active, when the expected size is known */
+  progress?: number;
+  /** Bytes, speed and ETA at the last persisted step */
+  transfer?: DownloadProgress;
+  /** User-facing reason of the last failure */
+  error?: string;
+  attempts: number;
+  /** Command process currently running the item */
+  sessionId?: string;
+}
+
+export interface DownloadQueueEntry {
+  app: AppDetails;
+  externalVersionId?: string;
+}
+
+/** Result a queued download settles with, same contract as downloadApp(): path, null (stopped), undefined (failed) */
+export type QueuedDownloadResult = string | null | undefined;
+
+type QueueListener = (items: DownloadQueueItem[]) => void;
+
+const SESSION_ID = `${process.pid}-${Date.now().toString(36)}`;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// Several missed heartbeats before another session may take over an active item
+const ORPHANED_AFTER_MS = 2 * 60 * 1000;
+// Persist progress in coarse steps; every ipatool tick would rewrite the whole queue
+const PROGRESS_PERSIST_STEP = 0.05;
+// ...but often enough that speed and ETA stay current on a slow download
+const PROGRESS_PERSIST_INTERVAL_MS = 5 * 1000;
+
+const listeners = new Set<QueueListener>();
+const waiters = new Map<string, Array<(result: QueuedDownloadResult) => void>>();
+const runningItemIds = new Set<string>();
+const awaitingAuthItemIds = new Set<string>();
+const persistedProgress = new Map<string, { progress: number; at: number }>();
+
+let writeChain: Promise<unknown> = Promise.resolve();
+// Set while a batch waits on the sign-in form before any of it has started
+let isHeldForSignIn = false;
+let heartbeatTimer: NodeJS.Timeout | undefined;
+
+function createQueueItemId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function isSameEntry(item: DownloadQueueItem, entry: DownloadQueueEntry): boolean {
+  return item.app.bundleId === entry.app.bundleId && item.externalVersionId === entry.externalVersionId;
+}
+
+function isOrphaned(item: DownloadQueueItem, now: number): boolean {
+  if (item.status !== "active" || runningItemIds.has(item.id)) {
+    return false;
+  }
+  // Our own session knows what it is running; anything else of ours marked active was lost
+  if (item.sessionId === SESSION_ID) {
+    return true;
+  }
+  return now - new Date(item.updatedAt).getTime() > ORPHANED_AFTER_MS;
+}
+
+async function readQueue(): Promise<DownloadQueueItem[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEYS.DOWNLOAD_QUEUE);
+  return stored ? safeJsonParse<DownloadQueueItem[]>(stored, []) : [];
+}
+
+/**
+ * Read the persisted queue
+ * @returns Queue items in processing order
+ */
+export async function getDownloadQueue(): Promise<DownloadQueueItem[]> {
+  try {
+    return await readQueue();
+  } catch (error) {
+    logger.error("[Queue] Error loading download queue:", error);
+    return [];
+  }
+}
+
+/**
+ * Apply a change to the persisted queue. Writes are chained so concurrent
+ * updates within one process never overwrite each other's read.
+ * @param mutate Receives the current items and returns the new list
+ * @returns The list as persisted
+ */
+async function updateDownloadQueue(
+  mutate: (items: DownloadQueueItem[]) => DownloadQueueItem[],
+): Promise<DownloadQueueItem[]> {
+  const run = writeChain.then(async () => {
+    const next = mutate(await readQueue()).map((item) => ({ ...item, app: withoutCachedITunesData(item.app) }));
+    await LocalStorage.setItem(STORAGE_KEYS.DOWNLOAD_QUEUE, JSON.stringify(next));
+    return next;
+  });
+  writeChain = run.catch(() => undefined);
+
+  const items = await run;
+  notifyListeners(items);
+  return items;
+}
+
+function notifyListeners(items: DownloadQueueItem[]): void {
+  // A waiter whose item disappeared (removed from the queue view, possibly in
+  // another command) will never be settled by its runner; release it here.
+  for (const id of waiters.keys()) {
+    if (!items.some((item) => item.id === id)) {
+      awaitingAuthItemIds.delete(id);
+      resolveWaiters(id, null);
+    }
+  }
+  listeners.forEach((listener) => listener(items));
+}
+
+function resolveWaiters(id: string, result: QueuedDownloadResult): void {
+  const pending = waiters.get(id);
+  waiters.delete(id);
+  pending?.forEach((resolve) => resolve(result));
+}
+
+/**
+ * Subscribe to queue changes made by this command process
+ * @param listener Called with the full list after every write
+ * @returns Unsubscribe function
+ */
+export function subscribeToDownloadQueue(listener: QueueListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Add downloads to the end of the queue. An app (and pinned version) that is
+ * already pending or active is not queued twice; a failed one is reset to pending.
+ * @param entries Apps to download
+ * @returns The queued items (new or reset) and the number of entries already queued
+ */
+export async function enqueueDownloads(
+  entries: DownloadQueueEntry[],
+): Promise<{ queued: DownloadQueueItem[]; alreadyQueued: number }> {
+  const queued: DownloadQueueItem[] = [];
+  let alreadyQueued = 0;
+
+  await updateDownloadQueue((items) => {
+    const next = [...items];
+    const now = new Date().toISOString();
+    for (const entry of entries) {
+      const existingIndex = next.findIndex((item) => isSameEntry(item, entry));
+      const existing = existingIndex >= 0 ? next[existingIndex] : undefined;
+      if (existing && existing.status !== "failed") {
+        alreadyQueued++;
+        continue;
+      }
+      if (existing) {
+        next[existingIndex] = { ...existing, app: entry.app, status: "pending", error: undefined, updatedAt: now };
+        queued.push(next[existingIndex]);
+        continue;
+      }
+      const item: DownloadQueueItem = {
+        id: createQueueItemId(),
+        app: entry.app,
+        externalVersionId: entry.externalVersionId,
+        status: "pending",
+        addedAt: now,
+        updatedAt: now,
+        attempts: 0,
+      };
+      next.push(item);
+      queued.push(item);
+    }
+    return next;
+  });
+
+  logger.log(`[Queue] Queued ${queued.length} download(s); ${alreadyQueued} already in the queue`);
+  return { queued, alreadyQueued };
+}
+
+/**
+ * Wait for a queued item to finish
+ * @param id Queue item ID
+ * @returns The download result; null when the item was removed before it finished
+ */
+export function waitForQueuedDownload(id: string): Promise<QueuedDownloadResult> {
+  return new Promise((resolve) => {
+    waiters.set(id, [...(waiters.get(id) ?? []), resolve]);
+  });
+}
+
+/**
+ * Record the outcome of a queue item. Finished downloads (and deliberate stops
+ * such as keeping an existing file) leave the queue — download history is the
+ * record of those. Failures stay so they can be retried.
+ * @param id Queue item ID
+ * @param result The download result
+ * @param failureMessage User-facing reason, when the download failed
+ */
+export async function settleQueuedDownload(
+  id: string,
+  result: QueuedDownloadResult,
+  failureMessage?: string,
+): Promise<void> {
+  awaitingAuthItemIds.delete(id);
+  persistedProgress.delete(id);
+  try {
+    await updateDownloadQueue((items) =>
+      result === undefined
+        ? items.map((item) =>
+            item.id === id
+              ? {
+                  ...item,
+                  status: "failed",
+                  error: failureMessage || "Download failed",
+                  progress: undefined,
+                  transfer: undefined,
+                  sessionId: undefined,
+                  updatedAt: new Date().toISOString(),
+                }
+              : item,
+          )
+        : items.filter((item) => item.id !== id),
+    );
+  } catch (error) {
+    logger.error(`[Queue] Error recording the outcome of ${id}:`, error);
+  } finally {
+    resolveWaiters(id, result);
+  }
+}
+
+/**
+ * Mark an active item as waiting on the sign-in form. The scheduler starts
+ * nothing new meanwhile, so one expired session doesn't stack up login forms.
+ * @param id Queue item ID
+ */
+export function markQueuedDownloadAwaitingAuth(id: string): void {
+  awaitingAuthItemIds.add(id);
+}
+
+/**
+ * Give up on the items waiting on the sign-in form, e.g. when it is closed
+ * without signing in. They are marked failed so they can be retried, and
+ * settling them lets the scheduler start the rest of the queue.
+ * @param failureMessage User-facing reason recorded on each item
+ * @returns IDs of the items released
+ */
+export async function failDownloadsAwaitingAuth(failureMessage: string): Promise<string[]> {
+  const ids = [...awaitingAuthItemIds];
+  for (const id of ids) {
+    logger.log(`[Queue] Sign-in abandoned; failing ${id}`);
+    await settleQueuedDownload(id, undefined, failureMessage);
+  }
+  return ids;
+}
+
+/**
+ * Hold pending items while the sign-in form is open for a whole batch, or
+ * release them. Releasing does not start anything; pump the queue after.
+ * @param hold True to hold, false to release
+ */
+export function holdDownloadQueueForSignIn(hold: boolean): void {
+  isHeldForSignIn = hold;
+}
+
+/**
+ * Persist download progress for the queue view and menu bar, in coarse steps
+ * @param id Queue item ID
+ * @param progress Progress between 0 and 1
+ * @param transfer Bytes, speed and ETA from downloadApp
+ */
+export function reportQueuedDownloadProgress(id: string, progress: number, transfer?: DownloadProgress): void {
+  const now = Date.now();
+  const last = persistedProgress.get(id);
+  if (
+    progress < 1 &&
+    last &&
+    progress - last.progress < PROGRESS_PERSIST_STEP &&
+    now - last.at < PROGRESS_PERSIST_INTERVAL_MS
+  ) {
+    return;
+  }
+  persistedProgress.set(id, { progress, at: now });
+  updateDownloadQueue((items) =>
+    items.map((item) =>
+      item.id === id ? { ...item, progress, transfer, updatedAt: new Date(now).toISOString() } : item,
+    ),
+  ).catch((error) => logger.warn(`[Queue] Could not persist progress for ${id}:`, error));
+}
+
+/**
+ * Check whether an item is still queued, e.g. before resuming it after sign-in
+ * @param id Queue item ID
+ * @returns True when the item has not been removed or failed, e.g. by abandoning sign-in
+ */
+export async function isDownloadQueued(id: string): Promise<boolean> {
+  return (await getDownloadQueue()).some((item) => item.id === id && item.status !== "failed");
+}
+
+/**
+ * Remove a pending or failed item, or an active one that is still waiting for
+ * sign-in. Downloads already transferring keep running until they finish.
+ * @param id Queue item ID
+ * @returns True when the item was removed
+ */
+export async function removeQueuedDownload(id: string): Promise<boolean> {
+  let removed = false;
+  await updateDownloadQueue((items) =>
+    items.filter((item) => {
+      if (item.id !== id || (item.status === "active" && !awaitingAuthItemIds.has(id))) return true;
+      removed = true;
+      return false;
+    }),
+  );
+  return removed;
+}
+
+/**
+ * Put failed items back in line
+ * @param ids Items to retry; all failed items when omitted
+ */
+export async function retryQueuedDownloads(ids?: string[]): Promise<void> {
+  await updateDownloadQueue((items) =>
+    items.map((item) =>
+      item.status === "failed" && (!ids || ids.includes(item.id))
+        ? { ...item, status: "pending", error: undefined, updatedAt: new Date().toISOString() }
+        : item,
+    ),
+  );
+}
+
+/**
+ * Remove every failed item
+ */
+export async function clearFailedDownloads(): Promise<void> {
+  await updateDownloadQueue((items) => items.filter((item) => item.status !== "failed"));
+}
+
+/**
+ * Move an item within the queue. Only the relative order of pending items
+ * matters to the scheduler, so moves step over neighbouring pending items.
+ * @param id Queue item ID
+ * @param direction Step up or down one place, or jump to the front
+ */
+export async function moveQueuedDownload(id: string, direction: "up" | "down" | "top"): Promise<void> {
+  await updateDownloadQueue((items) => {
+    const pending = items.filter((item) => item.status === "pending");
+    const index = pending.findIndex((item) => item.id === id);
+    if (index < 0) return items;
+
+    const [moved] = pending.splice(index, 1);
+    const target = direction === "top" ? 0 : direction === "up" ? Math.max(index - 1, 0) : index + 1;
+    pending.splice(Math.min(target, pending.length), 0, moved);
+
+    // Keep active and failed items where they were, refill pending slots in the new order
+    let next = 0;
+    return items.map((item) => (item.status === "pending" ? pending[next++] : item));
+  });
+}
+
+function startHeartbeat(): void {
+  if (heartbeatTimer) return;
+  heartbeatTimer = setInterval(() => {
+    if (runningItemIds.size === 0) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = undefined;
+      return;
+    }
+    updateDownloadQueue((items) =>
+      items.map((item) =>
+        runningItemIds.has(item.id) ? { ...item, sessionId: SESSION_ID, updatedAt: new Date().toISOString() } : item,
+      ),
+    ).catch((error) => logger.warn("[Queue] Heartbeat failed:", error));
+  }, HEARTBEAT_INTERVAL_MS);
+}
+
+/**
+ * Start as many pending items as the concurrency preference allows, counting
+ * items other command processes are running. Each started item is handed to
+ * `execute`, which must settle it via {@link settleQueuedDownload}; the queue
+ * is pumped again whenever one finishes.
+ * @param execute Runs one item to completion
+ */
+export async function processDownloadQueue(execute: (item: DownloadQueueItem) => Promise<void>): Promise<void> {
+  if (awaitingAuthItemIds.size > 0 || isHeldForSignIn) {
+    logger.log("[Queue] Waiting for sign-in before starting more downloads");
+    return;
+  }
+
+  const concurrency = getConfigValue("queueConcurrency");
+  const started: DownloadQueueItem[] = [];
+
+  try {
+    await updateDownloadQueue((items) => {
+      const now = Date.now();
+      const reclaimed = items.map((item) => {
+        if (!isOrphaned(item, now)) return item;
+        logger.warn(`[Queue] Reclaiming interrupted download of ${item.app.name} (${item.app.bundleId})`);
+        return {
+          ...item,
+          status: "pending" as const,
+          progress: undefined,
+          transfer: undefined,
+          sessionId: undefined,
+        };
+      });
+
+      let slots = concurrency - reclaimed.filter((item) => item.status === "active").length;
+      return reclaimed.map((item) => {
+        if (slots <= 0 || item.status !== "pending") return item;
+        slots--;
+        const activeItem: DownloadQueueItem = {
+          ...item,
+          status: "active",
+          startedAt: new Date(now).toISOString(),
+          updatedAt: new Date(now).toISOString(),
+          progress: undefined,
+          transfer: undefined,
+          error: undefined,
+          attempts: item.attempts + 1,
+          sessionId: SESSION_ID,
+        };
+        started.push(activeItem);
+        return activeItem;
+      });
+    });
+  } catch (error) {
+    logger.error("[Queue] Could not start queued downloads:", error);
+    return;
+  }
+
+  for (const item of started) {
+    logger.log(`[Queue] Starting ${item.app.name} (${item.app.bundleId}), attempt ${item.attempts}`);
+    runningItemIds.add(item.id);
+    startHeartbeat();
+    execute(item)
+      .catch(async (error) => {
+        logger.error(`[Queue] Unhandled error downloading ${item.app.bundleId}:`, error);
+        await settleQueuedDownload(item.id, undefined, error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => {
+        runningItemIds.delete(item.id);
+        processDownloadQueue(execute);
+      });
+  }
+}
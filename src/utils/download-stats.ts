@@ -0,0 +1,158 @@
+// Throughput, ETA and stall tracking for a running download
+//
+// ipatool doesn't report progress itself, so downloadApp polls the size of the
+// file it is writing. Each poll is fed to a tracker here, which turns the
+// samples into a speed over the last few seconds, an ETA when the expected
+// size is known, and a summary logged when the download ends.
+import { formatFileSize } from "./formatting";
+
+// Long enough to smooth out bursty writes, short enough to follow a slowdown
+const SPEED_WINDOW_MS = 5000;
+// No speed until the window spans at least this much
+const MIN_SPEED_SPAN_MS = 1000;
+
+export interface DownloadProgress {
+  /** 0–1, when the expected size is known */
+  fraction?: number;
+  bytesDownloaded: number;
+  totalBytes?: number;
+  /** Speed over the last few seconds */
+  bytesPerSecond?: number;
+  /** Seconds left at the current speed, when the expected size is known */
+  etaSeconds?: number;
+}
+
+export interface DownloadSummary {
+  /** Transferred by this attempt, not counting a resumed partial */
+  bytesDownloaded: number;
+  /** Size of the partial file this attempt continued from */
+  resumedFromBytes: number;
+  durationMs: number;
+  /** Time until the file first grew, which includes ipatool's sign-in and license checks */
+  firstByteMs?: number;
+  averageBytesPerSecond?: number;
+  /** Longest time the file did not grow once data was flowing */
+  peakStallMs: number;
+}
+
+export interface DownloadStatsTracker {
+  /** Record the file's current size and get the progress it works out to */
+  sample: (bytesDownloaded: number, now?: number) => DownloadProgress;
+  summarize: (now?: number) => DownloadSummary;
+}
+
+interface Sample {
+  at: number;
+  bytes: number;
+}
+
+/**
+ * Start tracking one download attempt
+ * @param totalBytes Expected size, if known
+ * @param startedAt When ipatool was started (ms since epoch)
+ * @param resumedFromBytes Size of the partial file ipatool continues from
+ */
+export function createDownloadStatsTracker(
+  totalBytes?: number,
+  startedAt = Date.now(),
+  resumedFromBytes = 0,
+): DownloadStatsTracker {
+  let window: Sample[] = [];
+  let bytesDownloaded = resumedFromBytes;
+  let firstByteAt: number | undefined;
+  let lastGrowthAt: number | undefined;
+  let peakStallMs = 0;
+
+  const sample = (bytes: number, now = Date.now()): DownloadProgress => {
+    if (bytes > bytesDownloaded) {
+      if (lastGrowthAt !== undefined) peakStallMs = Math.max(peakStallMs, now - lastGrowthAt);
+      firstByteAt ??= now;
+      lastGrowthAt = now;
+      bytesDownloaded = bytes;
+    }
+
+    window.push({ at: now, bytes: bytesDownloaded });
+    // Keep one sample older than the window so the span always covers it
+    while (window.length > 2 && now - window[1].at >= SPEED_WINDOW_MS) window = window.slice(1);
+
+    const oldest = window[0];
+    const spanMs = now - oldest.at;
+    const bytesPerSecond =
+      firstByteAt !== undefined && spanMs >= MIN_SPEED_SPAN_MS
+        ? ((bytesDownloaded - oldest.bytes) / spanMs) * 1000
+        : undefined;
+
+    const remaining = totalBytes ? Math.max(totalBytes - bytesDownloaded, 0) : undefined;
+    return {
+      fraction: totalBytes ? Math.min(bytesDownloaded / totalBytes, 1) : undefined,
+      bytesDownloaded,
+      totalBytes,
+      bytesPerSecond,
+      etaSeconds: remaining !== undefined && bytesPerSecond ? Math.ceil(remaining / bytesPerSecond) : undefined,
+    };
+  };
+
+  const summarize = (now = Date.now()): DownloadSummary => {
+    const transferMs = firstByteAt !== undefined ? now - firstByteAt : 0;
+    const transferred = bytesDownloaded - resumedFromBytes;
+    // A download that stopped growing before it ended stalled until the end
+    const tailStallMs = lastGrowthAt !== undefined ? now - lastGrowthAt : 0;
+    return {
+      bytesDownloaded: transferred,
+      resumedFromBytes,
+      durationMs: now - startedAt,
+      firstByteMs: firstByteAt !== undefined ? firstByteAt - startedAt : undefined,
+      averageBytesPerSecond: transferMs > 0 ? (transferred / transferMs) * 1000 : undefined,
+      peakStallMs: Math.max(peakStallMs, tailStallMs),
+    };
+  };
+
+  return { sample, summarize };
+}
+
+/**
+ * Format a speed, e.g. "8.1 MB/s"
+ */
+export function formatTransferRate(bytesPerSecond: number): string {
+  return `${formatFileSize(Math.round(bytesPerSecond))}/s`;
+}
+
+/**
+ * Format a time span in seconds, e.g. "45s", "3m 20s" or "1h 5m"
+ */
+export function formatSeconds(totalSeconds: number): string {
+  const seconds = Math.max(Math.round(totalSeconds), 0);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+/**
+ * One-line progress for a toast or menu, e.g.
+ * "42% · 120 MB of 300 MB · 8.1 MB/s · 22s left"
+ */
+export function formatDownloadProgress(progress: DownloadProgress): string {
+  const parts: string[] = [];
+  if (progress.fraction !== undefined) parts.push(`${Math.floor(progress.fraction * 100)}%`);
+  parts.push(
+    progress.totalBytes
+      ? `${formatFileSize(progress.bytesDownloaded)} of ${formatFileSize(progress.totalBytes)}`
+      : formatFileSize(progress.bytesDownloaded),
+  );
+  if (progress.bytesPerSecond !== undefined) parts.push(formatTransferRate(progress.bytesPerSecond));
+  if (progress.etaSeconds !== undefined) parts.push(`${formatSeconds(progress.etaSeconds)} left`);
+  return parts.join(" · ");
+}
+
+/**
+ * Summary for the log, e.g.
+ * "300 MB in 45s (first byte after 4s), average 7.1 MB/s, longest stall 3s"
+ */
+export function describeDownloadSummary(summary: DownloadSummary): string {
+  const resumed = summary.resumedFromBytes > 0 ? `, resumed at ${formatFileSize(summary.resumedFromBytes)}` : "";
+  const firstByte =
+    summary.firstByteMs !== undefined ? ` (first byte after ${formatSeconds(summary.firstByteMs / 1000)})` : "";
+  const average =
+    summary.averageBytesPerSecond !== undefined ? formatTransferRate(summary.averageBytesPerSecond) : "unknown";
+  return `${formatFileSize(summary.bytesDownloaded)} in ${formatSeconds(summary.durationMs / 1000)}${firstByte}, average ${average}, longest stall ${formatSeconds(summary.peakStallMs / 1000)}${resumed}`;
+}
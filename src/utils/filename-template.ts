@@ -0,0 +1,238 @@
+// Filename templates for downloaded IPAs
+//
+// A template is a relative path inside the download folder, e.g.
+// "{developer}/{cleanName} {version}". Each "/"-separated part becomes one
+// folder or file name and goes through sanitizeFilename; ".ipa" is appended.
+import fs from "fs";
+import path from "path";
+import { logger } from "@chrismessina/raycast-logger";
+import { cleanAppNameForFilename } from "./formatting";
+import { sanitizeFilename } from "./paths";
+
+export const FILENAME_TEMPLATE_TOKENS = [
+  "name",
+  "cleanName",
+  "version",
+  "build",
+  "bundleId",
+  "trackId",
+  "developer",
+  "date",
+  "storefront",
+] as const;
+
+export type FilenameTemplateToken = (typeof FILENAME_TEMPLATE_TOKENS)[number];
+
+// The name downloads were always given before templates existed
+export const DEFAULT_FILENAME_TEMPLATE = "{cleanName} {version}";
+
+const TOKEN_PATTERN = /\{(\w+)\}/g;
+// Same replacement the original rename used, so default-template names are unchanged
+const UNSAFE_CHARACTERS = /[/\\?%*:|"<>]/g;
+// Characters sanitizeFilename would drop from literal template text
+const DISALLOWED_LITERALS = /[<>:"\\|?*]/;
+// Stands in for an unknown token while a matcher is built; survives sanitizeFilename
+const WILDCARD = "\u0001";
+
+export interface FilenameTemplateContext {
+  appName: string;
+  version: string;
+  bundleId: string;
+  /** CFBundleVersion; only known once the archive is on disk */
+  build?: string;
+  trackId?: string;
+  developer?: string;
+  storefront?: string;
+  /** Defaults to now when rendering */
+  date?: Date;
+}
+
+function isTemplateToken(token: string): token is FilenameTemplateToken {
+  return (FILENAME_TEMPLATE_TOKENS as readonly string[]).includes(token);
+}
+
+function formatDateToken(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function getTokenValues(context: FilenameTemplateContext): Record<FilenameTemplateToken, string | undefined> {
+  return {
+    name: context.appName || undefined,
+    cleanName: context.appName ? cleanAppNameForFilename(context.appName) : undefined,
+    version: context.version || undefined,
+    build: context.build,
+    bundleId: context.bundleId,
+    trackId: context.trackId,
+    developer: context.developer,
+    date: context.date ? formatDateToken(context.date) : undefined,
+    storefront: context.storefront?.toUpperCase(),
+  };
+}
+
+/**
+ * Fill one path component and tidy what empty tokens leave behind, e.g. a
+ * dangling " - " when {build} is unknown
+ */
+function renderComponent(component: string, values: Record<FilenameTemplateToken, string | undefined>): string {
+  const filled = component.replace(TOKEN_PATTERN, (_, token: FilenameTemplateToken) =>
+    (values[token] ?? "").replace(UNSAFE_CHARACTERS, "-"),
+  );
+  const tidied = filled
+    .replace(/\(\s*\)|\[\s*\]/g, "")
+    .replace(/^[\s\-_.]+/, "")
+    .replace(/[\s\-_]+$/, "");
+  return tidied ? sanitizeFilename(tidied) : "";
+}
+
+/**
+ * Check a template before it is used
+ * @param template Template from preferences
+ * @returns A message describing the problem, or null when the template is usable
+ */
+export function validateFilenameTemplate(template: string): string | null {
+  const trimmed = template.trim();
+  if (!trimmed) return "Template is empty";
+  if (trimmed.startsWith("/") || trimmed.startsWith("~")) {
+    return "Template must be a path inside the download folder, not an absolute path";
+  }
+
+  if (/[{}]/.test(trimmed.replace(TOKEN_PATTERN, ""))) return "Template has an unmatched { or }";
+
+  const tokens = [...trimmed.matchAll(TOKEN_PATTERN)].map((match) => match[1]);
+  const unknown = tokens.find((token) => !isTemplateToken(token));
+  if (unknown) {
+    return `Unknown token {${unknown}}. Available tokens: ${FILENAME_TEMPLATE_TOKENS.map((token) => `{${token}}`).join(", ")}`;
+  }
+  if (!tokens.includes("version") && !tokens.includes("build")) {
+    return "Template must include {version} or {build} so different versions don't overwrite each other";
+  }
+
+  for (const component of trimmed.split("/")) {
+    const literal = component.replace(TOKEN_PATTERN, "");
+    if (!component.trim()) return "Template has an empty folder name (check for doubled or trailing slashes)";
+    if (component.trim() === "." || component.trim() === "..") return "Template cannot contain . or .. folders";
+    if (DISALLOWED_LITERALS.test(literal)) return `"${component}" contains characters not allowed in file names`;
+  }
+
+  return null;
+}
+
+/**
+ * Work out where a download should be saved
+ * @param template A template that passed {@link validateFilenameTemplate}
+ * @param context What is known about the download
+ * @returns Path relative to the download folder, ending in .ipa
+ */
+export function renderFilenameTemplate(template: string, context: FilenameTemplateContext): string {
+  const values = getTokenValues({ ...context, date: context.date ?? new Date() });
+  const components = template
+    .trim()
+    .split("/")
+    .map((component) => renderComponent(component, values));
+
+  // A folder whose tokens were all empty is dropped rather than left blank
+  const folders = components.slice(0, -1).filter(Boolean);
+  const fileName = components[components.length - 1] || sanitizeFilename(context.bundleId);
+  return path.join(...folders, `${fileName}.ipa`);
+}
+
+/**
+ * One pattern per path component. Tokens the context doesn't know match
+ * anything, so an earlier download is found even when its {date} or {build}
+ * differs from what this one would get.
+ */
+function getComponentPatterns(template: string, context: FilenameTemplateContext): RegExp[] {
+  const known = getTokenValues(context);
+  const values = Object.fromEntries(
+    FILENAME_TEMPLATE_TOKENS.map((token) => [token, known[token] ?? WILDCARD]),
+  ) as Record<FilenameTemplateToken, string>;
+
+  const components = template.trim().split("/");
+  return components.map((component, index) => {
+    const rendered = renderComponent(component, values);
+    const suffix = index === components.length - 1 ? ".ipa" : "";
+    const escaped = `${rendered}${suffix}`
+      .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      .split(WILDCARD)
+      .join("[^/]*");
+    // Matched case-insensitively, like the default macOS file system
+    return new RegExp(`^${escaped}$`, "i");
+  });
+}
+
+/**
+ * Whether a path relative to the download folder is one this template
+ * produces for the given app. Tokens absent from the context are wildcards.
+ */
+export function matchesFilenameTemplate(
+  template: string,
+  context: FilenameTemplateContext,
+  relativePath: string,
+): boolean {
+  const patterns = getComponentPatterns(template, context);
+  const folderPatterns = patterns.slice(0, -1);
+  const parts = relativePath.split(path.sep);
+
+  // Folders whose tokens were empty are dropped when rendering, so each folder
+  // only has to match a later folder pattern than the one before it
+  let patternIndex = 0;
+  for (const folder of parts.slice(0, -1)) {
+    while (patternIndex < folderPatterns.length && !folderPatterns[patternIndex].test(folder)) patternIndex++;
+    if (patternIndex >= folderPatterns.length) return false;
+    patternIndex++;
+  }
+  return patterns[patterns.length - 1].test(parts[parts.length - 1]);
+}
+
+/**
+ * Find files in the download folder that the template would have produced
+ * for this app, at any date or build
+ * @param directory The download folder
+ * @param template A validated template
+ * @param context What is known about the download; leave out date and build
+ * @returns Absolute paths of matching files
+ */
+export async function findFilesMatchingTemplate(
+  directory: string,
+  template: string,
+  context: FilenameTemplateContext,
+): Promise<string[]> {
+  const patterns = getComponentPatterns(template, context);
+  let candidates = [directory];
+
+  for (const [index, pattern] of patterns.entries()) {
+    const isLast = index === patterns.length - 1;
+    const next: string[] = [];
+    for (const folder of candidates) {
+      let dirents: fs.Dirent[];
+      try {
+        dirents = await fs.promises.readdir(folder, { withFileTypes: true });
+      } catch (error) {
+        // Folder levels that don't exist yet simply have no matches
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          logger.warn(`[validation] Could not read ${folder}:`, error);
+        }
+        continue;
+      }
+      for (const dirent of dirents) {
+        if ((isLast ? dirent.isFile() : dirent.isDirectory()) && pattern.test(dirent.name)) {
+          next.push(path.join(folder, dirent.name));
+        }
+      }
+      // A folder whose tokens rendered empty was skipped, so its children sit one level up
+      if (!isLast) next.push(folder);
+    }
+    candidates = next;
+  }
+
+  return [...new Set(candidates)];
+}
+
+/**
+ * How many folder levels the template creates below the download folder
+ */
+export function getFilenameTemplateDepth(template: string): number {
+  return template.trim().split("/").length - 1;
+}
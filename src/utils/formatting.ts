@@ -39,6 +39,20 @@ export function formatFileSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
 }
 
+/**
+ * Section title for search results, e.g. "Results (12 of 200)" when filters
+ * narrowed what was fetched, or "Results (20, more available)" while paging.
+ * Apple never reports a total, so a paged search counts only what is loaded.
+ * @param shown Apps in the list
+ * @param fetched Results a filtered search fetched before filtering, or 0
+ * @param hasMore Whether more can be fetched by scrolling
+ */
+export function formatSearchResultsTitle(shown: number, fetched: number, hasMore: boolean): string {
+  if (shown === 0) return "";
+  if (fetched > shown) return `Results (${shown} of ${fetched})`;
+  return hasMore ? `Results (${shown}, more available)` : `Results (${shown})`;
+}
+
 /**
  * Format date to friendly relative time with time of day
  * Examples: "Just now", "Today at 2:30 PM", "Yesterday at 11:45 AM", "Last week", "Last month"
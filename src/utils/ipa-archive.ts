@@ -0,0 +1,384 @@
+// Minimal ZIP reader for IPA files
+//
+// IPAs are plain ZIP archives, often several hundred MB. Everything here reads
+// only the parts it needs through a file handle: the End of Central Directory
+// record, the central directory itself, and individual entries on request.
+// Loading the whole archive (adm-zip style) would exceed the 100 MB heap a
+// Raycast command gets.
+import fs from "fs";
+import { Readable } from "stream";
+import { crc32, createInflateRaw, inflateRawSync } from "zlib";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+// 22 byte fixed record + up to 65535 bytes of archive comment
+const EOCD_SEARCH_SIZE = EOCD_MIN_SIZE + 0xffff;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+const UINT32_MAX = 0xffffffff;
+const UINT16_MAX = 0xffff;
+const STREAM_CHUNK_SIZE = 1024 * 1024;
+
+export const COMPRESSION_STORED = 0;
+export const COMPRESSION_DEFLATED = 8;
+
+/**
+ * Why an archive could not be read. Callers map these to their own messages,
+ * e.g. integrity verification reports each as a distinct corruption.
+ */
+export type IpaArchiveErrorReason =
+  "not_zip" | "no_central_directory" | "invalid_central_directory" | "unsupported_entry" | "entry_too_large";
+
+export class IpaArchiveError extends Error {
+  constructor(
+    message: string,
+    readonly reason: IpaArchiveErrorReason,
+  ) {
+    super(message);
+    this.name = "IpaArchiveError";
+  }
+}
+
+export interface ZipEntry {
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  crc32: number;
+  localHeaderOffset: number;
+}
+
+async function readAt(handle: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return bytesRead === length ? buffer : buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Locate the central directory, following the ZIP64 records when the classic
+ * EOCD fields are saturated (archives over 4 GB or with 65535+ entries)
+ */
+async function findCentralDirectory(
+  handle: fs.promises.FileHandle,
+  fileSize: number,
+): Promise<{ offset: number; size: number; entryCount: number }> {
+  const tailSize = Math.min(fileSize, EOCD_SEARCH_SIZE);
+  const tailStart = fileSize - tailSize;
+  const tail = await readAt(handle, tailStart, tailSize);
+
+  let eocdOffset = -1;
+  for (let i = tailSize - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocdOffset = i;
+      break;
+    }
+  }
+  if (eocdOffset === -1) {
+    throw new IpaArchiveError("No End of Central Directory record found", "no_central_directory");
+  }
+
+  let entryCount = tail.readUInt16LE(eocdOffset + 10);
+  let size = tail.readUInt32LE(eocdOffset + 12);
+  let offset = tail.readUInt32LE(eocdOffset + 16);
+
+  const locatorOffset = eocdOffset - 20;
+  const needsZip64 = entryCount === UINT16_MAX || size === UINT32_MAX || offset === UINT32_MAX;
+  if (needsZip64 && locatorOffset >= 0 && tail.readUInt32LE(locatorOffset) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    const zip64EocdOffset = Number(tail.readBigUInt64LE(locatorOffset + 8));
+    const zip64Eocd = await readAt(handle, zip64EocdOffset, 56);
+    if (zip64Eocd.length === 56 && zip64Eocd.readUInt32LE(0) === ZIP64_EOCD_SIGNATURE) {
+      entryCount = Number(zip64Eocd.readBigUInt64LE(32));
+      size = Number(zip64Eocd.readBigUInt64LE(40));
+      offset = Number(zip64Eocd.readBigUInt64LE(48));
+    }
+  }
+
+  if (size === 0 || offset + size > fileSize) {
+    throw new IpaArchiveError(`Invalid central directory: offset=${offset}, size=${size}`, "invalid_central_directory");
+  }
+
+  return { offset, size, entryCount };
+}
+
+/**
+ * Apply a ZIP64 extended information extra field to the saturated values of a
+ * central directory header. Fields appear in a fixed order, only when saturated.
+ */
+function applyZip64Extra(entry: ZipEntry, extra: Buffer): void {
+  let pos = 0;
+  while (pos + 4 <= extra.length) {
+    const id = extra.readUInt16LE(pos);
+    const length = extra.readUInt16LE(pos + 2);
+    if (id === ZIP64_EXTRA_FIELD_ID) {
+      let field = pos + 4;
+      const end = field + length;
+      if (entry.uncompressedSize === UINT32_MAX && field + 8 <= end) {
+        entry.uncompressedSize = Number(extra.readBigUInt64LE(field));
+        field += 8;
+      }
+      if (entry.compressedSize === UINT32_MAX && field + 8 <= end) {
+        entry.compressedSize = Number(extra.readBigUInt64LE(field));
+        field += 8;
+      }
+      if (entry.localHeaderOffset === UINT32_MAX && field + 8 <= end) {
+        entry.localHeaderOffset = Number(extra.readBigUInt64LE(field));
+      }
+      return;
+    }
+    pos += 4 + length;
+  }
+}
+
+/**
+ * Check the local file header signature at the start of the archive
+ * @param handle Open file handle
+ * @returns True when the file starts like a ZIP archive
+ */
+export async function hasZipSignature(handle: fs.promises.FileHandle): Promise<boolean> {
+  const magic = await readAt(handle, 0, 4);
+  return magic.length === 4 && magic.readUInt32LE(0) === LOCAL_HEADER_SIGNATURE;
+}
+
+/**
+ * Read every entry of the archive's central directory
+ * @param handle Open file handle
+ * @param fileSize Size of the file in bytes
+ * @returns Entries in central directory order
+ */
+export async function readZipEntries(handle: fs.promises.FileHandle, fileSize: number): Promise<ZipEntry[]> {
+  if (!(await hasZipSignature(handle))) {
+    throw new IpaArchiveError("Not a ZIP archive (bad magic bytes)", "not_zip");
+  }
+
+  const { offset, size, entryCount } = await findCentralDirectory(handle, fileSize);
+  const cd = await readAt(handle, offset, size);
+  const entries: ZipEntry[] = [];
+
+  let pos = 0;
+  while (pos + 46 <= cd.length && entries.length < entryCount) {
+    if (cd.readUInt32LE(pos) !== CENTRAL_HEADER_SIGNATURE) {
+      break;
+    }
+
+    const nameLen = cd.readUInt16LE(pos + 28);
+    const extraLen = cd.readUInt16LE(pos + 30);
+    const commentLen = cd.readUInt16LE(pos + 32);
+    if (pos + 46 + nameLen + extraLen > cd.length) break;
+
+    const entry: ZipEntry = {
+      name: cd.toString("utf8", pos + 46, pos + 46 + nameLen),
+      compressionMethod: cd.readUInt16LE(pos + 10),
+      crc32: cd.readUInt32LE(pos + 16),
+      compressedSize: cd.readUInt32LE(pos + 20),
+      uncompressedSize: cd.readUInt32LE(pos + 24),
+      localHeaderOffset: cd.readUInt32LE(pos + 42),
+    };
+    applyZip64Extra(entry, cd.subarray(pos + 46 + nameLen, pos + 46 + nameLen + extraLen));
+    entries.push(entry);
+
+    pos += 46 + nameLen + extraLen + commentLen;
+  }
+
+  return entries;
+}
+
+/**
+ * Offset of an entry's data, past its local header. The local header's name and
+ * extra lengths can differ from the central directory's, so it is read each time.
+ * @param handle Open file handle
+ * @param entry Entry from {@link readZipEntries}
+ * @returns Absolute offset of the first data byte
+ */
+export async function getZipEntryDataOffset(handle: fs.promises.FileHandle, entry: ZipEntry): Promise<number> {
+  const header = await readAt(handle, entry.localHeaderOffset, 30);
+  if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+    throw new IpaArchiveError(`Bad local header for ${entry.name}`, "invalid_central_directory");
+  }
+  return entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+}
+
+/**
+ * Read and decompress one entry into memory. Meant for small files such as
+ * Info.plist; `maxBytes` guards against pulling a large binary into the heap.
+ * @param handle Open file handle
+ * @param entry Entry from {@link readZipEntries}
+ * @param maxBytes Largest uncompressed size to accept
+ * @returns The entry's contents
+ */
+export async function readZipEntry(
+  handle: fs.promises.FileHandle,
+  entry: ZipEntry,
+  maxBytes = 16 * 1024 * 1024,
+): Promise<Buffer> {
+  if (entry.uncompressedSize > maxBytes) {
+    throw new IpaArchiveError(
+      `${entry.name} is too large to read (${entry.uncompressedSize} bytes)`,
+      "entry_too_large",
+    );
+  }
+
+  const dataOffset = await getZipEntryDataOffset(handle, entry);
+  const data = await readAt(handle, dataOffset, entry.compressedSize);
+
+  switch (entry.compressionMethod) {
+    case COMPRESSION_STORED:
+      return data;
+    case COMPRESSION_DEFLATED:
+      return inflateRawSync(data);
+    default:
+      throw new IpaArchiveError(
+        `${entry.name} uses unsupported compression method ${entry.compressionMethod}`,
+        "unsupported_entry",
+      );
+  }
+}
+
+/**
+ * Forward-only reader over one entry's decompressed contents. Positions are
+ * offsets within the entry, not the archive.
+ */
+export interface ZipEntryReader {
+  /**
+   * Read bytes at a position at or after the start of the previous read.
+   * Skipped bytes are decompressed and discarded, never buffered.
+   * @returns The bytes, shorter than `length` only at the end of the entry
+   */
+  read(position: number, length: number): Promise<Buffer>;
+  /** Stop decompressing; safe to call more than once */
+  close(): void;
+}
+
+function assertSupportedCompression(entry: ZipEntry): void {
+  if (entry.compressionMethod !== COMPRESSION_STORED && entry.compressionMethod !== COMPRESSION_DEFLATED) {
+    throw new IpaArchiveError(
+      `${entry.name} uses unsupported compression method ${entry.compressionMethod}`,
+      "unsupported_entry",
+    );
+  }
+}
+
+// FileHandle.createReadStream() closes the handle when destroyed, even with
+// autoClose: false, which would break every later read of the same archive
+async function* readRange(handle: fs.promises.FileHandle, start: number, length: number): AsyncGenerator<Buffer> {
+  const end = start + length;
+  for (let position = start; position < end;) {
+    const chunk = await readAt(handle, position, Math.min(STREAM_CHUNK_SIZE, end - position));
+    if (chunk.length === 0) return;
+    position += chunk.length;
+    yield chunk;
+  }
+}
+
+/**
+ * Decompressed stream of a non-empty entry. `destroy` tears down both the file
+ * read and the inflater; the handle stays open.
+ */
+async function createZipEntryStream(
+  handle: fs.promises.FileHandle,
+  entry: ZipEntry,
+): Promise<{ stream: Readable; destroy: () => void }> {
+  const dataOffset = await getZipEntryDataOffset(handle, entry);
+  const source = Readable.from(readRange(handle, dataOffset, entry.compressedSize), { objectMode: false });
+  const stream: Readable = entry.compressionMethod === COMPRESSION_DEFLATED ? source.pipe(createInflateRaw()) : source;
+  if (stream !== source) {
+    // pipe() doesn't forward source errors; surface them through the stream we iterate
+    source.on("error", (error) => stream.destroy(error));
+  }
+  return {
+    stream,
+    destroy: () => {
+      stream.destroy();
+      source.destroy();
+    },
+  };
+}
+
+/**
+ * Stream an entry that is too large for {@link readZipEntry}, such as an app's
+ * main executable. Callers that only need a few headers can close the reader
+ * early instead of inflating the rest of the entry.
+ * @param handle Open file handle; must stay open until the reader is closed
+ * @param entry Entry from {@link readZipEntries}
+ * @returns A forward-only reader
+ */
+export async function openZipEntryReader(handle: fs.promises.FileHandle, entry: ZipEntry): Promise<ZipEntryReader> {
+  assertSupportedCompression(entry);
+
+  if (entry.compressedSize === 0) {
+    return { read: async () => Buffer.alloc(0), close: () => undefined };
+  }
+
+  const { stream, destroy } = await createZipEntryStream(handle, entry);
+  const chunks = stream[Symbol.asyncIterator]() as AsyncIterator<Buffer>;
+
+  let pending: Buffer = Buffer.alloc(0);
+  // Entry offset of pending[0]
+  let pendingStart = 0;
+  let ended = false;
+  let lastStart = 0;
+
+  const pull = async (): Promise<boolean> => {
+    if (ended) return false;
+    const { value, done } = await chunks.next();
+    if (done) {
+      ended = true;
+      return false;
+    }
+    pending = pending.length > 0 ? Buffer.concat([pending, value]) : value;
+    return true;
+  };
+
+  return {
+    async read(position, length) {
+      if (position < lastStart) {
+        throw new Error(`Cannot read ${entry.name} backwards (at ${position}, already past ${lastStart})`);
+      }
+      lastStart = position;
+
+      // Discard whole chunks before the requested range without concatenating
+      while (pendingStart + pending.length <= position) {
+        pendingStart += pending.length;
+        pending = Buffer.alloc(0);
+        if (!(await pull())) return Buffer.alloc(0);
+      }
+      pending = pending.subarray(position - pendingStart);
+      pendingStart = position;
+
+      while (pending.length < length && (await pull())) {
+        // keep pulling until the range is covered or the entry ends
+      }
+      return Buffer.from(pending.subarray(0, length));
+    },
+    close: destroy,
+  };
+}
+
+/**
+ * Decompress an entry and check it against the CRC-32 and size recorded in the
+ * central directory. A truncated or corrupt deflate stream rejects instead.
+ * @param handle Open file handle
+ * @param entry Entry from {@link readZipEntries}
+ * @returns True when both the checksum and the uncompressed size match
+ */
+export async function verifyZipEntryCrc(handle: fs.promises.FileHandle, entry: ZipEntry): Promise<boolean> {
+  assertSupportedCompression(entry);
+  if (entry.compressedSize === 0) {
+    return entry.uncompressedSize === 0 && entry.crc32 === 0;
+  }
+
+  const { stream, destroy } = await createZipEntryStream(handle, entry);
+  let crc = 0;
+  let size = 0;
+  try {
+    for await (const chunk of stream as AsyncIterable<Buffer>) {
+      crc = crc32(chunk, crc);
+      size += chunk.length;
+    }
+  } finally {
+    destroy();
+  }
+  return crc === entry.crc32 && size === entry.uncompressedSize;
+}
@@ -0,0 +1,125 @@
+// Checksum verification for downloaded IPAs
+//
+// Two independent checks: each ZIP entry's CRC-32 proves the archive decompresses
+// to what was written, and the SHA-256 of the whole file is the fingerprint kept
+// in download history so a later re-check can tell if the file changed at all.
+import { createHash } from "crypto";
+import fs from "fs";
+import { pipeline } from "stream/promises";
+import { logger } from "@chrismessina/raycast-logger";
+import { readZipEntries, verifyZipEntryCrc } from "./ipa-archive";
+
+// Corrupt entries beyond this are counted but not named in messages
+const MAX_REPORTED_ENTRIES = 5;
+
+export interface IpaChecksumResult {
+  /** Lowercase hex SHA-256 of the whole file */
+  sha256: string;
+  entryCount: number;
+  /** Entries whose CRC-32 or size didn't match, or that failed to decompress */
+  corruptEntries: string[];
+}
+
+export type IpaReverifyStatus = "verified" | "recorded" | "modified" | "corrupt" | "missing";
+
+export interface IpaReverifyResult {
+  /**
+   * verified: digest matches history; recorded: no digest on record, archive is
+   * sound and its digest is now the baseline; modified: archive is sound but the
+   * digest differs; corrupt: entries fail their CRC; missing: the file is gone
+   */
+  status: IpaReverifyStatus;
+  sha256?: string;
+  message: string;
+}
+
+/**
+ * Stream a file through SHA-256
+ * @param filePath File to hash
+ * @returns Lowercase hex digest
+ */
+export async function computeFileSha256(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest("hex");
+}
+
+/**
+ * Check every entry's CRC-32, then hash the file. Entries are decompressed one
+ * at a time, so memory stays flat regardless of archive size.
+ * @param filePath Path to the .ipa file
+ * @returns The digest and any entries that failed
+ */
+export async function verifyIpaChecksums(filePath: string): Promise<IpaChecksumResult> {
+  const startTime = Date.now();
+  const stats = await fs.promises.stat(filePath);
+  const handle = await fs.promises.open(filePath, "r");
+  const corruptEntries: string[] = [];
+  let entryCount = 0;
+
+  try {
+    const entries = await readZipEntries(handle, stats.size);
+    entryCount = entries.length;
+    for (const entry of entries) {
+      if (entry.name.endsWith("/")) continue;
+      try {
+        if (!(await verifyZipEntryCrc(handle, entry))) {
+          corruptEntries.push(entry.name);
+        }
+      } catch (error) {
+        // zlib rejects truncated or garbled deflate data outright
+        logger.warn(`[integrity] Could not decompress ${entry.name}:`, error);
+        corruptEntries.push(entry.name);
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+
+  const sha256 = await computeFileSha256(filePath);
+  logger.log(
+    `[integrity] Checksums for ${filePath}: ${entryCount} entries, ${corruptEntries.length} corrupt, sha256=${sha256} (${Date.now() - startTime} ms)`,
+  );
+  return { sha256, entryCount, corruptEntries };
+}
+
+/**
+ * Describe corrupt entries for an error message
+ * @param corruptEntries Entry names from {@link verifyIpaChecksums}
+ * @returns e.g. "2 entries failed CRC-32 check: Payload/A.app/A, Payload/A.app/B"
+ */
+export function describeCorruptEntries(corruptEntries: string[]): string {
+  const named = corruptEntries.slice(0, MAX_REPORTED_ENTRIES).join(", ");
+  const more =
+    corruptEntries.length > MAX_REPORTED_ENTRIES ? ` and ${corruptEntries.length - MAX_REPORTED_ENTRIES} more` : "";
+  const noun = corruptEntries.length === 1 ? "entry" : "entries";
+  return `${corruptEntries.length} ${noun} failed CRC-32 check: ${named}${more}`;
+}
+
+/**
+ * Re-check an archived IPA against the digest stored when it was downloaded
+ * @param filePath Path to the .ipa file
+ * @param expectedSha256 Digest from download history, if one was recorded
+ * @returns What changed, if anything
+ */
+export async function reverifyIpa(filePath: string, expectedSha256?: string): Promise<IpaReverifyResult> {
+  if (!fs.existsSync(filePath)) {
+    return { status: "missing", message: "The file is no longer at its saved location" };
+  }
+
+  const { sha256, corruptEntries } = await verifyIpaChecksums(filePath);
+  if (corruptEntries.length > 0) {
+    return { status: "corrupt", sha256, message: describeCorruptEntries(corruptEntries) };
+  }
+  if (!expectedSha256) {
+    return { status: "recorded", sha256, message: "Archive is intact; its SHA-256 is now on record" };
+  }
+  if (sha256 !== expectedSha256.toLowerCase()) {
+    return {
+      status: "modified",
+      sha256,
+      message: "Archive is intact but differs from the downloaded file (SHA-256 mismatch)",
+    };
+  }
+  return { status: "verified", sha256, message: "SHA-256 matches the downloaded file" };
+}
@@ -0,0 +1,324 @@
+// Read an IPA's Info.plist and bundle layout without extracting it
+import fs from "fs";
+import path from "path";
+import { logger } from "@chrismessina/raycast-logger";
+import { openZipEntryReader, readZipEntries, readZipEntry, type ZipEntry } from "./ipa-archive";
+import { isMachOEncrypted, parseMachO, type MachOReport } from "./macho";
+import { isPlistDictionary, parsePlist, type PlistDictionary, type PlistValue } from "./plist";
+
+// Payload/<Name>.app/Info.plist — the main bundle, not a nested one
+const APP_INFO_PLIST_PATTERN = /^Payload\/([^/]+\.app)\/Info\.plist$/;
+const EXTENSION_INFO_PLIST_PATTERN = /^Payload\/[^/]+\.app\/PlugIns\/([^/]+\.appex)\/Info\.plist$/;
+const WATCH_APP_INFO_PLIST_PATTERN = /^Payload\/[^/]+\.app\/Watch\/([^/]+\.app)\/Info\.plist$/;
+const FRAMEWORK_PATTERN = /^Payload\/[^/]+\.app\/Frameworks\/([^/]+\.(?:framework|dylib))(?:\/|$)/;
+
+// UIDeviceFamily values as documented by Apple
+const DEVICE_FAMILIES: Record<number, string> = {
+  1: "iPhone",
+  2: "iPad",
+  3: "Apple TV",
+  4: "Apple Watch",
+  6: "Mac",
+  7: "Apple Vision",
+};
+
+const ORIENTATION_NAMES: Record<string, string> = {
+  UIInterfaceOrientationPortrait: "Portrait",
+  UIInterfaceOrientationPortraitUpsideDown: "Portrait Upside Down",
+  UIInterfaceOrientationLandscapeLeft: "Landscape Left",
+  UIInterfaceOrientationLandscapeRight: "Landscape Right",
+};
+
+export interface IpaExtensionInfo {
+  /** Bundle directory name, e.g. "Widgets.appex" */
+  bundleName: string;
+  bundleId?: string;
+  displayName?: string;
+  /** NSExtensionPointIdentifier, e.g. "com.apple.widgetkit-extension" */
+  extensionPoint?: string;
+}
+
+export interface IpaFrameworkInfo {
+  name: string;
+  sizeBytes: number;
+}
+
+export interface IpaInspection {
+  filePath: string;
+  fileSizeBytes: number;
+  /** Bundle directory name inside Payload/, e.g. "Example.app" */
+  appBundleName: string;
+  bundleId?: string;
+  displayName?: string;
+  executableName?: string;
+  /** CFBundleShortVersionString */
+  version?: string;
+  /** CFBundleVersion */
+  buildNumber?: string;
+  minimumOSVersion?: string;
+  deviceFamilies: string[];
+  urlSchemes: string[];
+  orientations: string[];
+  iPadOrientations: string[];
+  backgroundModes: string[];
+  extensions: IpaExtensionInfo[];
+  watchApps: IpaExtensionInfo[];
+  frameworks: IpaFrameworkInfo[];
+  entryCount: number;
+  uncompressedSizeBytes: number;
+  /** The decoded main Info.plist, for export */
+  infoPlist: PlistDictionary;
+}
+
+/** Just enough of the main Info.plist to tell which app and version a file holds */
+export interface IpaIdentity {
+  appBundleName: string;
+  bundleId?: string;
+  displayName?: string;
+  version?: string;
+  buildNumber?: string;
+}
+
+export interface ExecutableAnalysis {
+  filePath: string;
+  appBundleName: string;
+  bundleId?: string;
+  displayName?: string;
+  version?: string;
+  buildNumber?: string;
+  /** Archive path of the executable, e.g. "Payload/Example.app/Example" */
+  executablePath: string;
+  executableSizeBytes: number;
+  isEncrypted: boolean;
+  macho: MachOReport;
+}
+
+/**
+ * Find the main app bundle's Info.plist entry
+ * @param entries Central directory entries
+ * @returns The entry, or undefined when the archive has no Payload/*.app bundle
+ */
+export function findAppInfoPlistEntry(entries: ZipEntry[]): ZipEntry | undefined {
+  return entries.find((entry) => APP_INFO_PLIST_PATTERN.test(entry.name));
+}
+
+function asString(value: PlistValue | undefined): string | undefined {
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  return undefined;
+}
+
+function asStringArray(value: PlistValue | undefined): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+function describeOrientations(value: PlistValue | undefined): string[] {
+  return asStringArray(value).map((orientation) => ORIENTATION_NAMES[orientation] ?? orientation);
+}
+
+function collectUrlSchemes(value: PlistValue | undefined): string[] {
+  if (!Array.isArray(value)) return [];
+  const schemes = value.flatMap((urlType) =>
+    isPlistDictionary(urlType) ? asStringArray(urlType.CFBundleURLSchemes) : [],
+  );
+  return [...new Set(schemes)];
+}
+
+async function readPlistEntry(handle: fs.promises.FileHandle, entry: ZipEntry): Promise<PlistDictionary> {
+  const plist = parsePlist(await readZipEntry(handle, entry));
+  if (!isPlistDictionary(plist)) {
+    throw new Error(`${entry.name} is not a dictionary`);
+  }
+  return plist;
+}
+
+async function readNestedBundle(
+  handle: fs.promises.FileHandle,
+  entry: ZipEntry,
+  bundleName: string,
+): Promise<IpaExtensionInfo> {
+  try {
+    const plist = await readPlistEntry(handle, entry);
+    const extension = isPlistDictionary(plist.NSExtension) ? plist.NSExtension : undefined;
+    return {
+      bundleName,
+      bundleId: asString(plist.CFBundleIdentifier),
+      displayName: asString(plist.CFBundleDisplayName) ?? asString(plist.CFBundleName),
+      extensionPoint: asString(extension?.NSExtensionPointIdentifier),
+    };
+  } catch (error) {
+    // One unreadable extension shouldn't hide the rest of the report
+    logger.warn(`[Inspector] Could not read ${entry.name}:`, error);
+    return { bundleName };
+  }
+}
+
+/**
+ * Inspect a downloaded IPA: decode the main Info.plist and list the nested
+ * extensions, watch apps and frameworks. Reads only the central directory and
+ * the plist entries, so it is cheap even for multi-GB archives.
+ * @param filePath Path to the .ipa file
+ * @returns What the app declares about itself
+ */
+export async function inspectIpa(filePath: string): Promise<IpaInspection> {
+  logger.log(`[Inspector] Inspecting ${filePath}`);
+  const stats = await fs.promises.stat(filePath);
+  const handle = await fs.promises.open(filePath, "r");
+
+  try {
+    const entries = await readZipEntries(handle, stats.size);
+    const infoPlistEntry = findAppInfoPlistEntry(entries);
+    if (!infoPlistEntry) {
+      throw new Error("No Payload/*.app/Info.plist found — this does not look like an iOS app archive");
+    }
+
+    const appBundleName = infoPlistEntry.name.match(APP_INFO_PLIST_PATTERN)?.[1] ?? "";
+    const infoPlist = await readPlistEntry(handle, infoPlistEntry);
+
+    const extensions: IpaExtensionInfo[] = [];
+    const watchApps: IpaExtensionInfo[] = [];
+    const frameworkSizes = new Map<string, number>();
+
+    for (const entry of entries) {
+      const extensionMatch = entry.name.match(EXTENSION_INFO_PLIST_PATTERN);
+      if (extensionMatch) {
+        extensions.push(await readNestedBundle(handle, entry, extensionMatch[1]));
+        continue;
+      }
+      const watchMatch = entry.name.match(WATCH_APP_INFO_PLIST_PATTERN);
+      if (watchMatch) {
+        watchApps.push(await readNestedBundle(handle, entry, watchMatch[1]));
+        continue;
+      }
+      const frameworkMatch = entry.name.match(FRAMEWORK_PATTERN);
+      if (frameworkMatch) {
+        frameworkSizes.set(frameworkMatch[1], (frameworkSizes.get(frameworkMatch[1]) ?? 0) + entry.uncompressedSize);
+      }
+    }
+
+    const deviceFamilies = (Array.isArray(infoPlist.UIDeviceFamily) ? infoPlist.UIDeviceFamily : [])
+      .filter((family): family is number => typeof family === "number")
+      .map((family) => DEVICE_FAMILIES[family] ?? `Family ${family}`);
+
+    const inspection: IpaInspection = {
+      filePath,
+      fileSizeBytes: stats.size,
+      appBundleName,
+      bundleId: asString(infoPlist.CFBundleIdentifier),
+      displayName: asString(infoPlist.CFBundleDisplayName) ?? asString(infoPlist.CFBundleName),
+      executableName: asString(infoPlist.CFBundleExecutable),
+      version: asString(infoPlist.CFBundleShortVersionString),
+      buildNumber: asString(infoPlist.CFBundleVersion),
+      minimumOSVersion: asString(infoPlist.MinimumOSVersion),
+      deviceFamilies,
+      urlSchemes: collectUrlSchemes(infoPlist.CFBundleURLTypes),
+      orientations: describeOrientations(infoPlist.UISupportedInterfaceOrientations),
+      iPadOrientations: describeOrientations(infoPlist["UISupportedInterfaceOrientations~ipad"]),
+      backgroundModes: asStringArray(infoPlist.UIBackgroundModes),
+      extensions: extensions.sort((a, b) => a.bundleName.localeCompare(b.bundleName)),
+      watchApps,
+      frameworks: [...frameworkSizes.entries()]
+        .map(([name, sizeBytes]) => ({ name, sizeBytes }))
+        .sort((a, b) => b.sizeBytes - a.sizeBytes),
+      entryCount: entries.length,
+      uncompressedSizeBytes: entries.reduce((total, entry) => total + entry.uncompressedSize, 0),
+      infoPlist,
+    };
+
+    logger.log(
+      `[Inspector] ${inspection.bundleId ?? path.basename(filePath)} ${inspection.version ?? "?"} (${inspection.buildNumber ?? "?"}): ${extensions.length} extension(s), ${frameworkSizes.size} framework(s)`,
+    );
+    return inspection;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Identify the app in an IPA from its main Info.plist alone, skipping the
+ * nested bundles {@link inspectIpa} walks. Cheap enough to run over a folder.
+ * @param filePath Path to the .ipa file
+ * @returns Bundle ID, name and version as the archive declares them
+ */
+export async function readIpaIdentity(filePath: string): Promise<IpaIdentity> {
+  const stats = await fs.promises.stat(filePath);
+  const handle = await fs.promises.open(filePath, "r");
+
+  try {
+    const entries = await readZipEntries(handle, stats.size);
+    const infoPlistEntry = findAppInfoPlistEntry(entries);
+    if (!infoPlistEntry) {
+      throw new Error("No Payload/*.app/Info.plist found — this does not look like an iOS app archive");
+    }
+
+    const infoPlist = await readPlistEntry(handle, infoPlistEntry);
+    return {
+      appBundleName: infoPlistEntry.name.match(APP_INFO_PLIST_PATTERN)?.[1] ?? "",
+      bundleId: asString(infoPlist.CFBundleIdentifier),
+      displayName: asString(infoPlist.CFBundleDisplayName) ?? asString(infoPlist.CFBundleName),
+      version: asString(infoPlist.CFBundleShortVersionString),
+      buildNumber: asString(infoPlist.CFBundleVersion),
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Parse the main executable's Mach-O headers. The executable is streamed out of
+ * the archive and the stream is dropped once the last slice's load commands are
+ * read, so only the front of each slice is ever decompressed.
+ * @param filePath Path to the .ipa file
+ * @returns Architectures, minimum OS, encryption and linked libraries
+ */
+export async function analyzeIpaExecutable(filePath: string): Promise<ExecutableAnalysis> {
+  logger.log(`[Inspector] Analyzing executable in ${filePath}`);
+  const stats = await fs.promises.stat(filePath);
+  const handle = await fs.promises.open(filePath, "r");
+
+  try {
+    const entries = await readZipEntries(handle, stats.size);
+    const infoPlistEntry = findAppInfoPlistEntry(entries);
+    if (!infoPlistEntry) {
+      throw new Error("No Payload/*.app/Info.plist found — this does not look like an iOS app archive");
+    }
+
+    const appBundleName = infoPlistEntry.name.match(APP_INFO_PLIST_PATTERN)?.[1] ?? "";
+    const infoPlist = await readPlistEntry(handle, infoPlistEntry);
+    // CFBundleExecutable is required, but fall back to Xcode's default of the bundle name
+    const executableName = asString(infoPlist.CFBundleExecutable) ?? appBundleName.replace(/\.app$/, "");
+    const executablePath = `Payload/${appBundleName}/${executableName}`;
+    const executableEntry = entries.find((entry) => entry.name === executablePath);
+    if (!executableEntry) {
+      throw new Error(`Executable ${executablePath} is missing from the archive`);
+    }
+
+    const reader = await openZipEntryReader(handle, executableEntry);
+    let macho: MachOReport;
+    try {
+      macho = await parseMachO(reader);
+    } finally {
+      reader.close();
+    }
+
+    const analysis: ExecutableAnalysis = {
+      filePath,
+      appBundleName,
+      bundleId: asString(infoPlist.CFBundleIdentifier),
+      displayName: asString(infoPlist.CFBundleDisplayName) ?? asString(infoPlist.CFBundleName),
+      version: asString(infoPlist.CFBundleShortVersionString),
+      buildNumber: asString(infoPlist.CFBundleVersion),
+      executablePath,
+      executableSizeBytes: executableEntry.uncompressedSize,
+      isEncrypted: isMachOEncrypted(macho),
+      macho,
+    };
+
+    logger.log(
+      `[Inspector] ${executablePath}: ${macho.slices.map((slice) => slice.architecture).join(", ")}, ${analysis.isEncrypted ? "encrypted" : "not encrypted"}, ${macho.slices[0]?.dylibs.length ?? 0} dylib(s)`,
+    );
+    return analysis;
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,226 @@
+// Reconcile the IPAs in the download folder with download history
+//
+// Scanning (disk + Info.plist) is kept apart from reconciling (pure, against a
+// history snapshot) so editing history doesn't mean re-reading every archive.
+import fs from "fs";
+import path from "path";
+import { logger } from "@chrismessina/raycast-logger";
+import { getConfig } from "../config";
+import { matchesFilenameTemplate } from "./filename-template";
+import { readIpaIdentity, type IpaIdentity } from "./ipa-inspector";
+import type { DownloadHistoryItem } from "./storage";
+
+export interface ScannedIpaFile {
+  filePath: string;
+  fileName: string;
+  /** Path below the scanned folder; differs from fileName when templates use subfolders */
+  relativePath: string;
+  sizeBytes: number;
+  modifiedAt: string;
+  /** Absent when the archive could not be read */
+  identity?: IpaIdentity;
+  /** Why the archive could not be read */
+  error?: string;
+}
+
+/**
+ * How a file relates to history. linked: a record points at it; relinkable:
+ * no record points at it, but one for the same app version exists; untracked:
+ * no record for its app version at all; unreadable: not a readable IPA
+ */
+export type LibraryFileStatus = "linked" | "relinkable" | "untracked" | "unreadable";
+
+export interface LibraryFile extends ScannedIpaFile {
+  status: LibraryFileStatus;
+  /** The record pointing at this file, or the one it could be relinked to */
+  record?: DownloadHistoryItem;
+  /** How `record` was found for a file no record points at */
+  matchedBy?: "bundleId" | "filename";
+  /** Another file in the folder holds the same app version */
+  isDuplicate: boolean;
+}
+
+export interface LibraryApp {
+  /** Bundle ID, or the file name for archives that couldn't be read */
+  key: string;
+  name: string;
+  files: LibraryFile[];
+  /** History records for this app whose file is gone */
+  missingRecords: DownloadHistoryItem[];
+  totalBytes: number;
+}
+
+export interface IpaLibraryReport {
+  /** Apps by disk usage, largest first */
+  apps: LibraryApp[];
+  totalBytes: number;
+  missingCount: number;
+  orphanedCount: number;
+  duplicateCount: number;
+}
+
+async function listIpaFiles(directory: string, maxDepth: number): Promise<string[]> {
+  const dirents = await fs.promises.readdir(directory, { withFileTypes: true });
+  const found: string[] = [];
+  for (const dirent of dirents) {
+    if (dirent.name.startsWith(".")) continue;
+    const entryPath = path.join(directory, dirent.name);
+    if (dirent.isFile() && dirent.name.toLowerCase().endsWith(".ipa")) {
+      found.push(entryPath);
+    } else if (dirent.isDirectory() && maxDepth > 0) {
+      try {
+        found.push(...(await listIpaFiles(entryPath, maxDepth - 1)));
+      } catch (error) {
+        logger.warn(`[Library] Could not read ${entryPath}:`, error);
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Find every .ipa in a folder and read its Info.plist. Archives are opened one
+ * at a time; unreadable files are reported, not skipped.
+ * @param directory Folder to scan
+ * @param maxDepth Subfolder levels to descend, to reach files a filename template put there
+ * @returns One entry per .ipa file, newest first
+ */
+export async function scanIpaDirectory(directory: string, maxDepth = 0): Promise<ScannedIpaFile[]> {
+  const startTime = Date.now();
+  const ipaPaths = await listIpaFiles(directory, maxDepth);
+
+  const files: ScannedIpaFile[] = [];
+  for (const filePath of ipaPaths) {
+    const fileName = path.basename(filePath);
+    try {
+      const stats = await fs.promises.stat(filePath);
+      const file: ScannedIpaFile = {
+        filePath,
+        fileName,
+        relativePath: path.relative(directory, filePath),
+        sizeBytes: stats.size,
+        modifiedAt: stats.mtime.toISOString(),
+      };
+      try {
+        file.identity = await readIpaIdentity(filePath);
+      } catch (error) {
+        logger.warn(`[Library] Could not read ${fileName}:`, error);
+        file.error = error instanceof Error ? error.message : String(error);
+      }
+      files.push(file);
+    } catch (error) {
+      // Removed between readdir and stat
+      logger.warn(`[Library] Skipping ${fileName}:`, error);
+    }
+  }
+
+  logger.log(`[Library] Scanned ${files.length} IPA(s) in ${directory} (${Date.now() - startTime} ms)`);
+  return files.sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt));
+}
+
+/**
+ * Whether a download of this record could have been saved at this path: where
+ * the filename template would put it, or ipatool's own "{bundleId}.ipa"
+ */
+function isExpectedPath(record: DownloadHistoryItem, relativePath: string, filenameTemplate: string): boolean {
+  if (relativePath.toLowerCase() === `${record.app.bundleId}.ipa`.toLowerCase()) return true;
+  return matchesFilenameTemplate(
+    filenameTemplate,
+    {
+      appName: record.app.name,
+      version: record.app.version,
+      bundleId: record.app.bundleId,
+      trackId: record.app.id || undefined,
+      developer: record.app.sellerName || record.app.artistName || undefined,
+      storefront: record.storefront,
+    },
+    relativePath,
+  );
+}
+
+function getVersionKey(bundleId: string, version: string | undefined): string {
+  return `${bundleId}@${version ?? ""}`;
+}
+
+/**
+ * Match scanned files against history: by path first, then by the bundle ID
+ * and version inside the archive, then, for unreadable archives, by the path
+ * the filename template would have given a download
+ * @param files Result of {@link scanIpaDirectory}
+ * @param history Every history record
+ * @returns Files and missing records grouped per app
+ */
+export function reconcileIpaLibrary(files: ScannedIpaFile[], history: DownloadHistoryItem[]): IpaLibraryReport {
+  const { filenameTemplate } = getConfig();
+  const recordsByPath = new Map<string, DownloadHistoryItem>();
+  const recordsByVersion = new Map<string, DownloadHistoryItem>();
+  for (const record of history) {
+    if (record.filePath) recordsByPath.set(path.resolve(record.filePath), record);
+    recordsByVersion.set(getVersionKey(record.app.bundleId, record.app.version), record);
+  }
+
+  // Same app version more than once in the folder
+  const filesPerVersion = new Map<string, number>();
+  for (const file of files) {
+    if (!file.identity?.bundleId) continue;
+    const key = getVersionKey(file.identity.bundleId, file.identity.version);
+    filesPerVersion.set(key, (filesPerVersion.get(key) ?? 0) + 1);
+  }
+
+  const libraryFiles = files.map((file): LibraryFile => {
+    const bundleId = file.identity?.bundleId;
+    const versionKey = bundleId ? getVersionKey(bundleId, file.identity?.version) : undefined;
+    const isDuplicate = versionKey !== undefined && (filesPerVersion.get(versionKey) ?? 0) > 1;
+
+    const linkedRecord = recordsByPath.get(path.resolve(file.filePath));
+    if (linkedRecord) {
+      return { ...file, status: "linked", record: linkedRecord, isDuplicate };
+    }
+
+    if (versionKey) {
+      const record = recordsByVersion.get(versionKey);
+      return record
+        ? { ...file, status: "relinkable", record, matchedBy: "bundleId", isDuplicate }
+        : { ...file, status: "untracked", isDuplicate };
+    }
+
+    const record = history.find((item) => isExpectedPath(item, file.relativePath, filenameTemplate));
+    return record
+      ? { ...file, status: "relinkable", record, matchedBy: "filename", isDuplicate }
+      : { ...file, status: "unreadable", isDuplicate };
+  });
+
+  const apps = new Map<string, LibraryApp>();
+  const getApp = (key: string, name: string) => {
+    let app = apps.get(key);
+    if (!app) {
+      app = { key, name, files: [], missingRecords: [], totalBytes: 0 };
+      apps.set(key, app);
+    }
+    return app;
+  };
+
+  for (const file of libraryFiles) {
+    const key = file.record?.app.bundleId ?? file.identity?.bundleId ?? file.fileName;
+    const name = file.record?.app.name ?? file.identity?.displayName ?? file.identity?.bundleId ?? file.fileName;
+    const app = getApp(key, name);
+    app.files.push(file);
+    app.totalBytes += file.sizeBytes;
+  }
+
+  let missingCount = 0;
+  for (const record of history) {
+    if (!record.filePath || fs.existsSync(record.filePath)) continue;
+    getApp(record.app.bundleId, record.app.name).missingRecords.push(record);
+    missingCount++;
+  }
+
+  const sortedApps = [...apps.values()].sort((a, b) => b.totalBytes - a.totalBytes || a.name.localeCompare(b.name));
+  return {
+    apps: sortedApps,
+    totalBytes: libraryFiles.reduce((total, file) => total + file.sizeBytes, 0),
+    missingCount,
+    orphanedCount: libraryFiles.filter((file) => file.status !== "linked").length,
+    duplicateCount: libraryFiles.filter((file) => file.isDuplicate).length,
+  };
+}
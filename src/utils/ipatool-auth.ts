@@ -7,6 +7,8 @@ export interface AuthInfo {
   authenticated: boolean;
   success?: boolean;
   account?: Record<string, unknown> | null;
+  /** Apple ID ipatool's session belongs to, when it reports one */
+  email?: string;
   error?: string;
   raw?: string;
 }
@@ -54,7 +56,16 @@ export async function getAuthInfo(): Promise<AuthInfo> {
       const parsed = JSON.parse(stdout);
       // Support both shapes: { authenticated: true } or { success: true }
       const authenticated = Boolean(parsed.authenticated || parsed.success);
-      return { authenticated, success: parsed.success, account: parsed.account ?? null, raw: stdout };
+      const account = parsed.account ?? null;
+      // ipatool 2.x prints the email at the top level; older shapes nest it under account
+      const email = typeof parsed.email === "string" ? parsed.email : account?.email;
+      return {
+        authenticated,
+        success: parsed.success,
+        account,
+        email: typeof email === "string" ? email : undefined,
+        raw: stdout,
+      };
     }
   } catch {
     // Fall through to textual checks below
@@ -11,11 +11,19 @@ const IPATOOL_GITHUB_URL = "https://github.com/majd/ipatool";
 // Minimum supported ipatool version. 2.3.1 is the release that fixed App Store
 // login after Apple moved the authenticate endpoint (majd/ipatool#507); older
 // builds can no longer authenticate. Newer builds are accepted as-is.
-const MINIMUM_IPATOOL_VERSION = "2.3.1";
+export const MINIMUM_IPATOOL_VERSION = "2.3.1";
 const DEFAULT_COMMAND_TIMEOUT = 30000; // 30 seconds
 const DEFAULT_VALIDATION_TIMEOUT = 5000; // 5 seconds
 const MAX_OUTPUT_SIZE = 10 * 1024 * 1024; // 10MB max output size
-const ALLOWED_IPATOOL_COMMANDS = ["--version", "download", "search", "auth", "purchase"] as const;
+const ALLOWED_IPATOOL_COMMANDS = [
+  "--version",
+  "download",
+  "search",
+  "auth",
+  "purchase",
+  "list-versions",
+  "get-version-metadata",
+] as const;
 
 export class IpatoolSetupError extends Error {
   constructor(
@@ -27,6 +35,9 @@ export class IpatoolSetupError extends Error {
   }
 }
 
+// Version parsed from the last successful `--version` run in this process
+let detectedIpatoolVersion: string | null = null;
+
 interface IpatoolValidationOptions {
   throwOnFailure?: boolean;
 }
@@ -81,6 +92,7 @@ export async function validateIpatoolInstallation(options: IpatoolValidationOpti
     if (validation.success) {
       // Check version
       const installedVersion = parseIpatoolVersion(validation.stdout || validation.stderr || "");
+      detectedIpatoolVersion = installedVersion;
       if (!installedVersion) {
         logger.warn(`[ipatool] Could not parse version from output: ${validation.stdout}`);
         // Continue anyway - version parsing might fail but tool works (e.g. "dev" builds)
@@ -108,17 +120,46 @@ export async function validateIpatoolInstallation(options: IpatoolValidationOpti
   }
 }
 
+/**
+ * Installed ipatool version, recorded with each download. Reuses the version
+ * found by validation when it already ran in this process.
+ * @returns e.g. "2.3.1", or undefined for builds that don't report one
+ */
+export async function getIpatoolVersion(): Promise<string | undefined> {
+  if (detectedIpatoolVersion) {
+    return detectedIpatoolVersion;
+  }
+
+  const result = await executeIpatoolCommand(["--version"], {
+    timeout: DEFAULT_VALIDATION_TIMEOUT,
+    skipOutputValidation: true,
+  });
+  if (!result.success) {
+    return undefined;
+  }
+  detectedIpatoolVersion = parseIpatoolVersion(result.stdout || result.stderr || "");
+  return detectedIpatoolVersion ?? undefined;
+}
+
 /**
  * Parse version from ipatool --version output
  * @param output The stdout/stderr from ipatool --version
  * @returns The version string or null if not found
  */
-function parseIpatoolVersion(output: string): string | null {
+export function parseIpatoolVersion(output: string): string | null {
   // ipatool outputs: "ipatool version 2.3.1"
   const match = output.match(/ipatool version\s+(\d+\.\d+\.\d+)/i);
   return match ? match[1] : null;
 }
 
+/**
+ * Whether a parsed ipatool version is at least {@link MINIMUM_IPATOOL_VERSION}
+ * @param version e.g. "2.3.1"
+ */
+export function isSupportedIpatoolVersion(version: string): boolean {
+  return compareVersions(version, MINIMUM_IPATOOL_VERSION) >= 0;
+}
+
 /**
  * Compares two dotted numeric version strings (e.g. "2.3.1").
  * @returns negative if a < b, 0 if equal, positive if a > b
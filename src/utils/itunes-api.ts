@@ -1,11 +1,11 @@
 // iTunes API utility functions
 import { logger } from "@chrismessina/raycast-logger";
 import { showFailureToast } from "@raycast/utils";
-import { AppDetails, IpaToolSearchApp, ITunesResponse, ITunesResult } from "../types";
+import { AppDetails, IpaToolSearchApp, ITunesResponse, ITunesResult, TopChartFeed } from "../types";
 import { ITUNES_API_BASE_URL, ITUNES_LOOKUP_ENDPOINT, ITUNES_SEARCH_ENDPOINT } from "./constants";
+import { resolveStorefront } from "./storefronts";
 
 // iTunes API Constants (imported from centralized constants)
-const ITUNES_DEFAULT_COUNTRY = "us";
 const ITUNES_SOFTWARE_ENTITY = "software";
 
 // Rate limiting utilities
@@ -149,6 +149,7 @@ export function convertITunesResultToAppDetails(
     screenshotUrls: itunesData.screenshotUrls || base.screenshotUrls || [],
     ipadScreenshotUrls: itunesData.ipadScreenshotUrls || base.ipadScreenshotUrls || [],
     appletvScreenshotUrls: itunesData.appletvScreenshotUrls || base.appletvScreenshotUrls || [],
+    storefront: base.storefront,
   };
 }
 
@@ -187,9 +188,10 @@ export function convertIpaToolSearchAppToAppDetails(app: IpaToolSearchApp): AppD
 /**
  * Fetch app details from iTunes Search API
  * @param bundleId Bundle ID of the app
+ * @param storefront Storefront to look in (defaults to the storefront preference)
  * @returns iTunes app details or null if not found
  */
-export async function fetchITunesAppDetails(bundleId: string): Promise<ITunesResult | null> {
+export async function fetchITunesAppDetails(bundleId: string, storefront?: string): Promise<ITunesResult | null> {
   try {
     // Apply rate limiting
     await rateLimit(apiRateLimiter);
@@ -197,7 +199,7 @@ export async function fetchITunesAppDetails(bundleId: string): Promise<ITunesRes
     // Construct the iTunes API URL
     const url = new URL(ITUNES_API_BASE_URL + ITUNES_LOOKUP_ENDPOINT);
     url.searchParams.append("bundleId", bundleId);
-    url.searchParams.append("country", ITUNES_DEFAULT_COUNTRY);
+    url.searchParams.append("country", resolveStorefront(storefront));
     url.searchParams.append("entity", ITUNES_SOFTWARE_ENTITY);
 
     logger.log(`[iTunes API] Fetching app details for ${bundleId} from ${url.toString()}`);
@@ -227,9 +229,10 @@ export async function fetchITunesAppDetails(bundleId: string): Promise<ITunesRes
  * Search for apps using iTunes Search API
  * @param term Search term
  * @param limit Maximum number of results to return
+ * @param storefront Storefront to search (defaults to the storefront preference)
  * @returns Array of iTunes search results
  */
-export async function searchITunesApps(term: string, limit = 20): Promise<ITunesResult[]> {
+export async function searchITunesApps(term: string, limit = 20, storefront?: string): Promise<ITunesResult[]> {
   try {
     // Apply rate limiting
     await rateLimit(apiRateLimiter);
@@ -237,7 +240,7 @@ export async function searchITunesApps(term: string, limit = 20): Promise<ITunes
     // Construct the iTunes API URL
     const url = new URL(ITUNES_API_BASE_URL + ITUNES_SEARCH_ENDPOINT);
     url.searchParams.append("term", term);
-    url.searchParams.append("country", ITUNES_DEFAULT_COUNTRY);
+    url.searchParams.append("country", resolveStorefront(storefront));
     url.searchParams.append("entity", ITUNES_SOFTWARE_ENTITY);
     url.searchParams.append("limit", limit.toString());
 
@@ -267,17 +270,19 @@ export async function searchITunesApps(term: string, limit = 20): Promise<ITunes
 /**
  * Enriches app details with data from iTunes API
  * @param app The app details to enrich
+ * @param storefront Storefront to look in (defaults to the app's own storefront, then the preference)
  * @returns Enriched app details
  */
-export async function enrichAppDetails(app: AppDetails): Promise<AppDetails> {
+export async function enrichAppDetails(app: AppDetails, storefront?: string): Promise<AppDetails> {
   try {
-    logger.log(`[iTunes API] Enriching app details for bundleId: ${app.bundleId}`);
-    const itunesData = await fetchITunesAppDetails(app.bundleId);
+    const country = resolveStorefront(storefront ?? app.storefront);
+    logger.log(`[iTunes API] Enriching app details for bundleId: ${app.bundleId} (${country})`);
+    const itunesData = await fetchITunesAppDetails(app.bundleId, country);
 
     if (itunesData) {
       logger.log(`[iTunes API] Successfully retrieved iTunes data for ${app.bundleId}`);
       // Use the utility function to convert iTunes data to AppDetails
-      return convertITunesResultToAppDetails(itunesData, app);
+      return convertITunesResultToAppDetails(itunesData, { ...app, storefront: country });
     }
 
     logger.log(`[iTunes API] No iTunes data found for ${app.bundleId}, using basic details only`);
@@ -309,14 +314,19 @@ export async function enrichAppDetails(app: AppDetails): Promise<AppDetails> {
  *
  * @param params Lookup query params (e.g. `{ id: "6761221765" }`)
  * @param context Short label for logging
+ * @param storefront Storefront to look in (defaults to the storefront preference)
  * @returns Matching iTunes results (software entries only)
  * @throws When the lookup request fails after retries
  */
-async function lookupITunes(params: Record<string, string>, context: string): Promise<ITunesResult[]> {
+async function lookupITunes(
+  params: Record<string, string>,
+  context: string,
+  storefront?: string,
+): Promise<ITunesResult[]> {
   await rateLimit(apiRateLimiter);
 
   const url = new URL(ITUNES_API_BASE_URL + ITUNES_LOOKUP_ENDPOINT);
-  url.searchParams.append("country", ITUNES_DEFAULT_COUNTRY);
+  url.searchParams.append("country", resolveStorefront(storefront));
   url.searchParams.append("entity", ITUNES_SOFTWARE_ENTITY);
   for (const [key, value] of Object.entries(params)) {
     url.searchParams.append(key, value);
@@ -344,10 +354,24 @@ async function lookupITunes(params: Record<string, string>, context: string): Pr
 /**
  * Look up a single app by its numeric App Store track ID.
  * @param trackId App Store track ID (digits only)
+ * @param storefront Storefront to look in (defaults to the storefront preference)
  * @returns The app, or null when no app carries that ID
  */
-export async function lookupITunesAppById(trackId: string): Promise<ITunesResult | null> {
-  const results = await lookupITunes({ id: trackId }, `app id ${trackId}`);
+export async function lookupITunesAppById(trackId: string, storefront?: string): Promise<ITunesResult | null> {
+  const results = await lookupITunes({ id: trackId }, `app id ${trackId}`, storefront);
+  return results[0] ?? null;
+}
+
+/**
+ * Look up a single app by bundle ID. Unlike {@link fetchITunesAppDetails} this
+ * shows no toast, so it suits commands that run in the background.
+ * @param bundleId App bundle ID
+ * @param storefront Storefront to look in (defaults to the storefront preference)
+ * @returns The app, or null when the storefront doesn't carry it
+ * @throws When the lookup request fails after retries
+ */
+export async function lookupITunesAppByBundleId(bundleId: string, storefront?: string): Promise<ITunesResult | null> {
+  const results = await lookupITunes({ bundleId }, bundleId, storefront);
   return results[0] ?? null;
 }
 
@@ -362,15 +386,67 @@ export const ARTIST_LOOKUP_LIMIT = 200;
  * Look up every app published by a developer.
  * @param artistId iTunes artist (developer) ID
  * @param limit Maximum number of apps to return
+ * @param storefront Storefront to look in (defaults to the storefront preference)
  * @returns The developer's apps, most-rated first
  */
 export async function lookupITunesAppsByArtist(
   artistId: number | string,
   artistLimit = ARTIST_LOOKUP_LIMIT,
+  storefront?: string,
 ): Promise<ITunesResult[]> {
   const results = await lookupITunes(
     { id: artistId.toString(), limit: artistLimit.toString() },
     `developer ${artistId}`,
+    storefront,
   );
   return results.sort((a, b) => (b.userRatingCount ?? 0) - (a.userRatingCount ?? 0));
 }
+
+/**
+ * Apple's legacy RSS top charts, the only public listing of apps by genre
+ */
+export type TopChart = "topfreeapplications" | "toppaidapplications";
+
+/** Apps per top chart; Apple's feed stops at 200 and most genres have fewer */
+export const TOP_CHART_LIMIT = 100;
+
+// Track IDs per lookup request, to keep the URL a sensible length
+const LOOKUP_BATCH_SIZE = 100;
+
+/**
+ * Fetch the track IDs on one of the App Store's top charts for a genre
+ * @param chart Free or paid chart
+ * @param genreId App Store genre ID, e.g. 6014 for Games
+ * @param storefront Storefront to look in (defaults to the storefront preference)
+ * @returns Track IDs in chart order
+ * @throws When the feed request fails after retries
+ */
+export async function fetchTopChartAppIds(chart: TopChart, genreId: number, storefront?: string): Promise<string[]> {
+  await rateLimit(apiRateLimiter);
+
+  const country = resolveStorefront(storefront);
+  const url = `${ITUNES_API_BASE_URL}/${country}/rss/${chart}/limit=${TOP_CHART_LIMIT}/genre=${genreId}/json`;
+  logger.log(`[iTunes API] Fetching ${chart} for genre ${genreId} from ${url}`);
+
+  const response = await fetchITunesWithRetry(url, `${chart} genre ${genreId}`);
+  const data = (await response.json()) as TopChartFeed;
+  const entry = data.feed?.entry;
+  const entries = Array.isArray(entry) ? entry : entry ? [entry] : [];
+  return entries.map((item) => item.id?.attributes?.["im:id"]).filter((id): id is string => Boolean(id));
+}
+
+/**
+ * Look up many apps by track ID, batching the requests
+ * @param trackIds App Store track IDs
+ * @param storefront Storefront to look in (defaults to the storefront preference)
+ * @returns The apps the storefront carries, in lookup order
+ * @throws When a lookup request fails after retries
+ */
+export async function lookupITunesAppsByIds(trackIds: string[], storefront?: string): Promise<ITunesResult[]> {
+  const results: ITunesResult[] = [];
+  for (let start = 0; start < trackIds.length; start += LOOKUP_BATCH_SIZE) {
+    const batch = trackIds.slice(start, start + LOOKUP_BATCH_SIZE);
+    results.push(...(await lookupITunes({ id: batch.join(",") }, `${batch.length} app ID(s)`, storefront)));
+  }
+  return results;
+}
@@ -0,0 +1,196 @@
+// Claim App Store licenses for many free apps at once
+//
+// ipatool's `purchase` adds a free app to the signed-in Apple ID without
+// downloading it, which is how a new test account gets its apps up front.
+// Paid apps are never sent to `purchase`: the price is re-checked against the
+// App Store right before each request, and anything not free is skipped.
+import { logger } from "@chrismessina/raycast-logger";
+import { isFreeApp, purchaseApp } from "../ipatool";
+import type { AppDetails } from "../types";
+import { Needs2FAError, NeedsLoginError, NotYetReleasedError } from "./auth";
+import { analyzeIpatoolError, isAppleBuiltInApp, type IpatoolErrorInfo } from "./ipatool-error-patterns";
+import { convertITunesResultToAppDetails, lookupITunesAppByBundleId, lookupITunesAppById } from "./itunes-api";
+import { parseAppQuery } from "./parse-app-query";
+
+// Space requests out; a burst of purchases is what gets an account rate-limited
+const LICENSE_REQUEST_GAP_MS = 1500;
+// One more try after a rate limit, once Apple has had time to cool off
+const RATE_LIMIT_BACKOFF_MS = 15 * 1000;
+
+/**
+ * pending / running: not done yet
+ * licensed: a license was added to the Apple ID
+ * already-owned: the Apple ID already had one
+ * skipped: paid or built-in, so `purchase` was never run
+ * failed: `purchase` ran and failed; `errorType` says why
+ */
+export type LicenseStatus = "pending" | "running" | "licensed" | "already-owned" | "skipped" | "failed";
+
+export interface LicenseResult {
+  app: AppDetails;
+  status: LicenseStatus;
+  /** analyzeIpatoolError category for failed and skipped apps */
+  errorType?: IpatoolErrorInfo["errorType"];
+  message?: string;
+}
+
+export interface LicenseTargets {
+  apps: AppDetails[];
+  /** Entries that are not an app, or that no storefront lookup found */
+  unresolved: string[];
+}
+
+/** Short labels for each analyzeIpatoolError category, for tags and summaries */
+export const LICENSE_ERROR_LABELS: Record<IpatoolErrorInfo["errorType"], string> = {
+  "2fa": "2FA Required",
+  credentials: "Sign-In Failed",
+  network: "Network Error",
+  permission: "Not Permitted",
+  app_not_found: "Not Found",
+  license_required: "License Required",
+  timeout: "Timed Out",
+  stalled: "Stalled",
+  disk_space: "Disk Full",
+  permission_denied: "Permission Denied",
+  corruption: "Corrupted",
+  rate_limited: "Rate Limited",
+  session_expired: "Session Expired",
+  maintenance: "App Store Maintenance",
+  not_yet_released: "Not Released Yet",
+  built_in_app: "Built-In App",
+  regional_restriction: "Not in This Region",
+  account_restriction: "Account Restricted",
+  generic: "Failed",
+};
+
+/**
+ * Turn a pasted list into apps. Entries may be bundle IDs, App Store links or
+ * track IDs, separated by new lines, commas or spaces.
+ * @param input The pasted text
+ * @returns Apps found, in input order without duplicates, and entries that weren't
+ */
+export async function resolveLicenseTargets(input: string): Promise<LicenseTargets> {
+  const entries = [...new Set(input.split(/[\s,]+/).filter(Boolean))];
+  const apps: AppDetails[] = [];
+  const unresolved: string[] = [];
+
+  for (const entry of entries) {
+    const query = parseAppQuery(entry);
+    try {
+      const result =
+        query.kind === "bundleId"
+          ? await lookupITunesAppByBundleId(query.value)
+          : query.kind === "trackId"
+            ? await lookupITunesAppById(query.value)
+            : null;
+      if (!result) {
+        unresolved.push(entry);
+      } else if (!apps.some((app) => app.bundleId === result.bundleId)) {
+        apps.push(convertITunesResultToAppDetails(result));
+      }
+    } catch (error) {
+      logger.warn(`[Licenses] Lookup failed for "${entry}":`, error);
+      unresolved.push(entry);
+    }
+  }
+
+  return { apps, unresolved };
+}
+
+/**
+ * Current price from the App Store, falling back to the stored one when the
+ * lookup fails. Favorites can be months old, and apps do go paid.
+ */
+async function getCurrentPrice(app: AppDetails): Promise<string> {
+  try {
+    const latest = await lookupITunesAppByBundleId(app.bundleId, app.storefront);
+    return latest ? String(latest.price ?? app.price) : app.price;
+  } catch (error) {
+    logger.warn(`[Licenses] Price check failed for ${app.bundleId}; using the stored price:`, error);
+    return app.price;
+  }
+}
+
+/**
+ * Claim the license for one app
+ * @throws NeedsLoginError when the session has expired; the remaining apps would fail the same way
+ */
+async function acquireLicense(app: AppDetails): Promise<LicenseResult> {
+  if (isAppleBuiltInApp(app.bundleId)) {
+    return { app, status: "skipped", errorType: "built_in_app", message: "Apple's own apps can't be licensed" };
+  }
+
+  const price = await getCurrentPrice(app);
+  if (!isFreeApp(price)) {
+    logger.log(`[Licenses] Skipping paid app ${app.name} (${app.bundleId}), price ${price}`);
+    return { app, status: "skipped", message: "Paid app; nothing was purchased" };
+  }
+
+  try {
+    let result = await purchaseApp(app.bundleId, app.name, { suppressHUD: true });
+    if (!result.success && result.errorType === "rate_limited") {
+      logger.log(`[Licenses] Rate limited on ${app.bundleId}; trying again in ${RATE_LIMIT_BACKOFF_MS / 1000}s`);
+      await new Promise((resolve) => setTimeout(resolve, RATE_LIMIT_BACKOFF_MS));
+      result = await purchaseApp(app.bundleId, app.name, { suppressHUD: true });
+    }
+
+    if (result.success) {
+      return { app, status: result.alreadyOwned ? "already-owned" : "licensed" };
+    }
+    return { app, status: "failed", errorType: result.errorType ?? "generic", message: result.userMessage };
+  } catch (error) {
+    if (error instanceof NeedsLoginError || error instanceof Needs2FAError) throw error;
+    if (error instanceof NotYetReleasedError) {
+      return { app, status: "failed", errorType: "not_yet_released", message: error.message };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    const analysis = analyzeIpatoolError(message);
+    return { app, status: "failed", errorType: analysis.errorType, message: analysis.userMessage };
+  }
+}
+
+/**
+ * Claim licenses one app at a time. The caller signs in first; a session that
+ * expires partway through throws, leaving the rest for after sign-in.
+ * @param apps Apps to license
+ * @param onUpdate Called when an app starts and when it has its outcome
+ * @returns The outcome for every app
+ * @throws NeedsLoginError or Needs2FAError when signing in is needed
+ */
+export async function acquireLicenses(
+  apps: AppDetails[],
+  onUpdate: (result: LicenseResult) => void,
+): Promise<LicenseResult[]> {
+  const results: LicenseResult[] = [];
+  logger.log(`[Licenses] Acquiring licenses for ${apps.length} app(s)`);
+
+  for (const [index, app] of apps.entries()) {
+    onUpdate({ app, status: "running" });
+    const result = await acquireLicense(app);
+    logger.log(
+      `[Licenses] ${app.bundleId}: ${result.status}${result.errorType ? ` (${result.errorType})` : ""}${result.message ? ` – ${result.message}` : ""}`,
+    );
+    results.push(result);
+    onUpdate(result);
+
+    const requested = result.status !== "skipped";
+    if (requested && index < apps.length - 1) {
+      await new Promise((resolve) => setTimeout(resolve, LICENSE_REQUEST_GAP_MS));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Short summary, e.g. "12 licensed · 3 already owned · 2 skipped · 1 failed"
+ */
+export function describeLicenseResults(results: LicenseResult[]): string {
+  const count = (status: LicenseStatus) => results.filter((result) => result.status === status).length;
+  const parts: string[] = [];
+  if (count("licensed") > 0) parts.push(`${count("licensed")} licensed`);
+  if (count("already-owned") > 0) parts.push(`${count("already-owned")} already owned`);
+  if (count("skipped") > 0) parts.push(`${count("skipped")} skipped`);
+  if (count("failed") > 0) parts.push(`${count("failed")} failed`);
+  return parts.join(" · ") || "Nothing to do";
+}
@@ -0,0 +1,336 @@
+// Mach-O header and load command parsing
+//
+// Only the headers are read: the fat arch table and, per slice, the mach
+// header plus its load commands (usually well under 100 KB). Segment contents
+// are never touched, so a multi-hundred-MB executable can be analyzed while it
+// streams out of the IPA.
+import type { ZipEntryReader } from "./ipa-archive";
+
+const FAT_MAGIC = 0xcafebabe;
+const FAT_MAGIC_64 = 0xcafebabf;
+const MH_MAGIC = 0xfeedface;
+const MH_MAGIC_64 = 0xfeedfacf;
+const MH_CIGAM = 0xcefaedfe;
+const MH_CIGAM_64 = 0xcffaedfe;
+
+const MACH_HEADER_SIZE = 28;
+const MACH_HEADER_64_SIZE = 32;
+const FAT_ARCH_SIZE = 20;
+const FAT_ARCH_64_SIZE = 32;
+// Real binaries carry a handful of slices and well under 1 MB of load commands;
+// anything larger is a corrupt header, not something worth buffering
+const MAX_FAT_ARCHS = 32;
+const MAX_LOAD_COMMANDS_SIZE = 16 * 1024 * 1024;
+
+const CPU_ARCH_ABI64 = 0x01000000;
+const CPU_ARCH_ABI64_32 = 0x02000000;
+const CPU_TYPE_X86 = 7;
+const CPU_TYPE_ARM = 12;
+const CPU_SUBTYPE_MASK = 0x00ffffff;
+
+// Commands with LC_REQ_DYLD (0x80000000) set are written out in full: OR-ing in
+// JavaScript yields a negative int32 that never equals the unsigned values read
+const LC_LOAD_DYLIB = 0xc;
+const LC_UUID = 0x1b;
+const LC_LOAD_WEAK_DYLIB = 0x80000018;
+const LC_REEXPORT_DYLIB = 0x8000001f;
+const LC_LAZY_LOAD_DYLIB = 0x20;
+const LC_ENCRYPTION_INFO = 0x21;
+const LC_LOAD_UPWARD_DYLIB = 0x80000023;
+const LC_VERSION_MIN_MACOSX = 0x24;
+const LC_VERSION_MIN_IPHONEOS = 0x25;
+const LC_ENCRYPTION_INFO_64 = 0x2c;
+const LC_VERSION_MIN_TVOS = 0x2f;
+const LC_VERSION_MIN_WATCHOS = 0x30;
+const LC_BUILD_VERSION = 0x32;
+
+const MH_PIE = 0x200000;
+
+const FILE_TYPES: Record<number, string> = {
+  1: "Object",
+  2: "Executable",
+  6: "Dynamic Library",
+  8: "Bundle",
+};
+
+// LC_BUILD_VERSION platform values from <mach-o/loader.h>
+const PLATFORMS: Record<number, string> = {
+  1: "macOS",
+  2: "iOS",
+  3: "tvOS",
+  4: "watchOS",
+  6: "Mac Catalyst",
+  7: "iOS Simulator",
+  8: "tvOS Simulator",
+  9: "watchOS Simulator",
+  11: "visionOS",
+  12: "visionOS Simulator",
+};
+
+const VERSION_MIN_PLATFORMS: Record<number, string> = {
+  [LC_VERSION_MIN_MACOSX]: "macOS",
+  [LC_VERSION_MIN_IPHONEOS]: "iOS",
+  [LC_VERSION_MIN_TVOS]: "tvOS",
+  [LC_VERSION_MIN_WATCHOS]: "watchOS",
+};
+
+const DYLIB_COMMANDS: Record<number, MachODylibKind> = {
+  [LC_LOAD_DYLIB]: "load",
+  [LC_LOAD_WEAK_DYLIB]: "weak",
+  [LC_REEXPORT_DYLIB]: "reexport",
+  [LC_LAZY_LOAD_DYLIB]: "lazy",
+  [LC_LOAD_UPWARD_DYLIB]: "upward",
+};
+
+export class MachOParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MachOParseError";
+  }
+}
+
+export type MachODylibKind = "load" | "weak" | "reexport" | "lazy" | "upward";
+
+export interface MachODylib {
+  /** Install name, e.g. "@rpath/Alamofire.framework/Alamofire" */
+  path: string;
+  /** Last path component, e.g. "Alamofire" */
+  name: string;
+  kind: MachODylibKind;
+  currentVersion: string;
+  compatibilityVersion: string;
+}
+
+export interface MachOEncryptionInfo {
+  /** Non-zero when the segment is FairPlay-encrypted, as App Store downloads are */
+  cryptId: number;
+  cryptOffset: number;
+  cryptSize: number;
+}
+
+export interface MachOSlice {
+  /** e.g. "arm64", "arm64e", "armv7" */
+  architecture: string;
+  cpuType: number;
+  cpuSubtype: number;
+  /** Offset of the slice within the executable (0 for thin binaries) */
+  offset: number;
+  /** Slice size in bytes, from the fat header; undefined for thin binaries */
+  size?: number;
+  is64Bit: boolean;
+  fileType: string;
+  isPIE: boolean;
+  uuid?: string;
+  platform?: string;
+  minimumOSVersion?: string;
+  sdkVersion?: string;
+  /** From LC_ENCRYPTION_INFO(_64); undefined when the slice has no such command */
+  encryption?: MachOEncryptionInfo;
+  dylibs: MachODylib[];
+}
+
+export interface MachOReport {
+  isFat: boolean;
+  slices: MachOSlice[];
+}
+
+/** Anything that can serve forward reads of the executable, e.g. a ZIP entry reader */
+export type MachOSource = Pick<ZipEntryReader, "read">;
+
+/**
+ * Decode a packed xxxx.yy.zz version as used by version_min, build_version and dylib commands
+ * @param value Packed version
+ * @returns e.g. "15.0" or "16.4.1"
+ */
+export function formatMachOVersion(value: number): string {
+  const major = value >>> 16;
+  const minor = (value >>> 8) & 0xff;
+  const patch = value & 0xff;
+  return patch > 0 ? `${major}.${minor}.${patch}` : `${major}.${minor}`;
+}
+
+/**
+ * Name of a CPU type/subtype pair as lipo would print it
+ * @param cpuType Mach-O cputype
+ * @param cpuSubtype Mach-O cpusubtype (capability bits are ignored)
+ * @returns Architecture name, or a hex description for unknown types
+ */
+export function getArchitectureName(cpuType: number, cpuSubtype: number): string {
+  const subtype = cpuSubtype & CPU_SUBTYPE_MASK;
+  switch (cpuType) {
+    case CPU_TYPE_ARM | CPU_ARCH_ABI64:
+      return subtype === 2 ? "arm64e" : "arm64";
+    case CPU_TYPE_ARM | CPU_ARCH_ABI64_32:
+      return "arm64_32";
+    case CPU_TYPE_ARM:
+      if (subtype === 9) return "armv7";
+      if (subtype === 11) return "armv7s";
+      if (subtype === 12) return "armv7k";
+      if (subtype === 6) return "armv6";
+      return "arm";
+    case CPU_TYPE_X86 | CPU_ARCH_ABI64:
+      return "x86_64";
+    case CPU_TYPE_X86:
+      return "i386";
+    default:
+      return `cpu 0x${cpuType.toString(16)}`;
+  }
+}
+
+function readCString(data: Buffer, start: number, end: number): string {
+  const terminator = data.indexOf(0, start);
+  return data.toString("utf8", start, terminator === -1 || terminator > end ? end : terminator);
+}
+
+function formatUuid(bytes: Buffer): string {
+  const hex = bytes.toString("hex").toUpperCase();
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+async function parseSlice(source: MachOSource, offset: number, size?: number): Promise<MachOSlice> {
+  const header = await source.read(offset, MACH_HEADER_SIZE);
+  if (header.length < MACH_HEADER_SIZE) {
+    throw new MachOParseError(`Mach-O header at offset ${offset} is truncated`);
+  }
+
+  const magicLE = header.readUInt32LE(0);
+  let littleEndian: boolean;
+  let is64Bit: boolean;
+  if (magicLE === MH_MAGIC || magicLE === MH_MAGIC_64) {
+    littleEndian = true;
+    is64Bit = magicLE === MH_MAGIC_64;
+  } else if (magicLE === MH_CIGAM || magicLE === MH_CIGAM_64) {
+    littleEndian = false;
+    is64Bit = magicLE === MH_CIGAM_64;
+  } else {
+    throw new MachOParseError(`No Mach-O header at offset ${offset} (magic 0x${magicLE.toString(16)})`);
+  }
+
+  const u32 = (data: Buffer, at: number) => (littleEndian ? data.readUInt32LE(at) : data.readUInt32BE(at));
+  const cpuType = u32(header, 4);
+  const cpuSubtype = u32(header, 8);
+  const fileType = u32(header, 12);
+  const commandCount = u32(header, 16);
+  const commandsSize = u32(header, 20);
+  const flags = u32(header, 24);
+
+  if (commandsSize > MAX_LOAD_COMMANDS_SIZE) {
+    throw new MachOParseError(`Load commands claim ${commandsSize} bytes; the header is likely corrupt`);
+  }
+
+  const commands = await source.read(offset + (is64Bit ? MACH_HEADER_64_SIZE : MACH_HEADER_SIZE), commandsSize);
+  if (commands.length < commandsSize) {
+    throw new MachOParseError("Load commands are truncated");
+  }
+
+  const slice: MachOSlice = {
+    architecture: getArchitectureName(cpuType, cpuSubtype),
+    cpuType,
+    cpuSubtype,
+    offset,
+    size,
+    is64Bit,
+    fileType: FILE_TYPES[fileType] ?? `Type ${fileType}`,
+    isPIE: (flags & MH_PIE) !== 0,
+    dylibs: [],
+  };
+
+  let pos = 0;
+  for (let i = 0; i < commandCount && pos + 8 <= commands.length; i++) {
+    const cmd = u32(commands, pos);
+    const cmdSize = u32(commands, pos + 4);
+    if (cmdSize < 8 || pos + cmdSize > commands.length) {
+      throw new MachOParseError(`Load command ${i} has an invalid size (${cmdSize})`);
+    }
+    const end = pos + cmdSize;
+
+    const dylibKind = DYLIB_COMMANDS[cmd];
+    if (dylibKind && cmdSize >= 24) {
+      const dylibPath = readCString(commands, pos + u32(commands, pos + 8), end);
+      slice.dylibs.push({
+        path: dylibPath,
+        name: dylibPath.split("/").pop() ?? dylibPath,
+        kind: dylibKind,
+        currentVersion: formatMachOVersion(u32(commands, pos + 16)),
+        compatibilityVersion: formatMachOVersion(u32(commands, pos + 20)),
+      });
+    } else if ((cmd === LC_ENCRYPTION_INFO || cmd === LC_ENCRYPTION_INFO_64) && cmdSize >= 20) {
+      slice.encryption = {
+        cryptOffset: u32(commands, pos + 8),
+        cryptSize: u32(commands, pos + 12),
+        cryptId: u32(commands, pos + 16),
+      };
+    } else if (cmd === LC_BUILD_VERSION && cmdSize >= 24) {
+      const platform = u32(commands, pos + 8);
+      slice.platform = PLATFORMS[platform] ?? `Platform ${platform}`;
+      slice.minimumOSVersion = formatMachOVersion(u32(commands, pos + 12));
+      slice.sdkVersion = formatMachOVersion(u32(commands, pos + 16));
+    } else if (VERSION_MIN_PLATFORMS[cmd] && cmdSize >= 16 && !slice.minimumOSVersion) {
+      // Pre-Xcode 10 binaries; LC_BUILD_VERSION wins when both are present
+      slice.platform = VERSION_MIN_PLATFORMS[cmd];
+      slice.minimumOSVersion = formatMachOVersion(u32(commands, pos + 8));
+      slice.sdkVersion = formatMachOVersion(u32(commands, pos + 12));
+    } else if (cmd === LC_UUID && cmdSize >= 24) {
+      slice.uuid = formatUuid(commands.subarray(pos + 8, pos + 24));
+    }
+
+    pos = end;
+  }
+
+  return slice;
+}
+
+/**
+ * Parse a thin or fat (universal) Mach-O from its headers
+ * @param source Forward reader over the executable's bytes
+ * @returns One entry per architecture slice, in file order
+ */
+export async function parseMachO(source: MachOSource): Promise<MachOReport> {
+  const head = await source.read(0, 8);
+  if (head.length < 8) {
+    throw new MachOParseError("File is too small to be a Mach-O binary");
+  }
+
+  // Fat headers are always big-endian
+  const fatMagic = head.readUInt32BE(0);
+  if (fatMagic !== FAT_MAGIC && fatMagic !== FAT_MAGIC_64) {
+    return { isFat: false, slices: [await parseSlice(source, 0)] };
+  }
+
+  const archCount = head.readUInt32BE(4);
+  if (archCount === 0 || archCount > MAX_FAT_ARCHS) {
+    throw new MachOParseError(`Fat header lists ${archCount} architectures`);
+  }
+
+  const is64 = fatMagic === FAT_MAGIC_64;
+  const entrySize = is64 ? FAT_ARCH_64_SIZE : FAT_ARCH_SIZE;
+  const table = await source.read(8, archCount * entrySize);
+  if (table.length < archCount * entrySize) {
+    throw new MachOParseError("Fat architecture table is truncated");
+  }
+
+  const archs = Array.from({ length: archCount }, (_, i) => {
+    const at = i * entrySize;
+    return {
+      offset: is64 ? Number(table.readBigUInt64BE(at + 8)) : table.readUInt32BE(at + 8),
+      size: is64 ? Number(table.readBigUInt64BE(at + 16)) : table.readUInt32BE(at + 12),
+    };
+  });
+
+  // The source only reads forward, so visit slices in file order
+  const slices: MachOSlice[] = [];
+  for (const arch of archs.sort((a, b) => a.offset - b.offset)) {
+    slices.push(await parseSlice(source, arch.offset, arch.size));
+  }
+  return { isFat: true, slices };
+}
+
+/**
+ * Whether any slice is still FairPlay-encrypted. Binaries from ipatool always
+ * are; a zero cryptid means the slice was decrypted after download.
+ * @param report Parsed executable
+ * @returns True when at least one slice reports a non-zero cryptid
+ */
+export function isMachOEncrypted(report: MachOReport): boolean {
+  return report.slices.some((slice) => (slice.encryption?.cryptId ?? 0) !== 0);
+}
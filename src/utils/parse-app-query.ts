@@ -4,6 +4,7 @@
 // just-released app is findable by its exact ID long before its name returns
 // anything. Recognising an App Store URL, a bare track ID, or a bundle ID lets
 // the search fall through to the exact `lookup` endpoint instead.
+import { parseSearchFilters, type SearchFilter } from "./search-filters";
 
 export type AppQuery =
   // `fromUrl` marks a track ID the user pasted as a URL. A bare number the user
@@ -12,7 +13,10 @@ export type AppQuery =
   // URL-derived ID must not.
   | { kind: "trackId"; value: string; fromUrl: boolean }
   | { kind: "bundleId"; value: string }
-  | { kind: "term"; value: string };
+  | { kind: "term"; value: string }
+  // Inline filters (`price:free`, `rating>=4.5`) narrow a term search; `value`
+  // is what is left of the text once they are taken out, and may be empty.
+  | { kind: "filtered"; value: string; filters: SearchFilter[] };
 
 // Only Apple's own hosts can carry an App Store ID. Without this check
 // `https://example.invalid/id6761221765` would resolve a real app.
@@ -82,5 +86,10 @@ export function parseAppQuery(raw: string): AppQuery {
     return { kind: "bundleId", value: query };
   }
 
+  const { term, filters } = parseSearchFilters(query);
+  if (filters.length > 0) {
+    return { kind: "filtered", value: term, filters };
+  }
+
   return { kind: "term", value: query };
 }
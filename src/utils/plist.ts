@@ -0,0 +1,339 @@
+// Property list decoding (XML and binary "bplist00")
+//
+// Info.plist files inside IPAs are usually binary plists; Xcode converts them
+// at build time. Some older or hand-built apps ship XML. Both decode to the
+// same PlistValue tree.
+
+export type PlistValue = string | number | boolean | Date | Buffer | null | PlistValue[] | PlistDictionary;
+
+export interface PlistDictionary {
+  [key: string]: PlistValue;
+}
+
+const BINARY_PLIST_MAGIC = "bplist00";
+// Seconds between the Unix epoch and Apple's reference date (2001-01-01T00:00:00Z)
+const APPLE_EPOCH_OFFSET_SECONDS = 978307200;
+// Caps nesting so a malformed or hostile file can't recurse us off the stack
+const MAX_DEPTH = 64;
+
+export class PlistParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PlistParseError";
+  }
+}
+
+/**
+ * Decode a property list, detecting XML vs. binary from its header
+ * @param data Raw file contents
+ * @returns The root value
+ */
+export function parsePlist(data: Buffer): PlistValue {
+  if (data.length >= 8 && data.toString("ascii", 0, 8) === BINARY_PLIST_MAGIC) {
+    return parseBinaryPlist(data);
+  }
+  return parseXmlPlist(data.toString("utf8"));
+}
+
+/**
+ * Narrow a plist value to a dictionary
+ * @param value Any plist value
+ * @returns True for dictionaries (not arrays, dates or data)
+ */
+export function isPlistDictionary(value: PlistValue | undefined): value is PlistDictionary {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !Buffer.isBuffer(value)
+  );
+}
+
+/**
+ * Convert a plist value to JSON-friendly data (dates as ISO strings, data as base64)
+ * @param value Any plist value
+ * @returns A value JSON.stringify can serialize faithfully
+ */
+export function plistToJson(value: PlistValue): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return value.toString("base64");
+  if (Array.isArray(value)) return value.map(plistToJson);
+  if (isPlistDictionary(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, plistToJson(item)]));
+  }
+  return value;
+}
+
+// -----------------------------------------------------------------------------
+// Binary
+// -----------------------------------------------------------------------------
+
+function readSizedUInt(data: Buffer, offset: number, size: number): number {
+  switch (size) {
+    case 1:
+      return data.readUInt8(offset);
+    case 2:
+      return data.readUInt16BE(offset);
+    case 4:
+      return data.readUInt32BE(offset);
+    case 8:
+      return Number(data.readBigUInt64BE(offset));
+    default:
+      throw new PlistParseError(`Unsupported integer size ${size}`);
+  }
+}
+
+function parseBinaryPlist(data: Buffer): PlistValue {
+  if (data.length < 8 + 32) {
+    throw new PlistParseError("Binary plist is truncated");
+  }
+
+  const trailer = data.length - 32;
+  const offsetSize = data.readUInt8(trailer + 6);
+  const refSize = data.readUInt8(trailer + 7);
+  const objectCount = Number(data.readBigUInt64BE(trailer + 8));
+  const topObject = Number(data.readBigUInt64BE(trailer + 16));
+  const offsetTableOffset = Number(data.readBigUInt64BE(trailer + 24));
+
+  if (offsetTableOffset + objectCount * offsetSize > trailer) {
+    throw new PlistParseError("Binary plist offset table is out of bounds");
+  }
+
+  const objectOffset = (index: number): number => {
+    if (index >= objectCount) {
+      throw new PlistParseError(`Object reference ${index} out of range`);
+    }
+    return readSizedUInt(data, offsetTableOffset + index * offsetSize, offsetSize);
+  };
+
+  // Count for strings/arrays/dicts/data: low nibble, or a following int object when it is 0xF
+  const readLength = (marker: number, offset: number): { length: number; start: number } => {
+    const nibble = marker & 0x0f;
+    if (nibble !== 0x0f) {
+      return { length: nibble, start: offset + 1 };
+    }
+    const intMarker = data.readUInt8(offset + 1);
+    const intSize = 1 << (intMarker & 0x0f);
+    return { length: readSizedUInt(data, offset + 2, intSize), start: offset + 2 + intSize };
+  };
+
+  const parseObject = (index: number, depth: number): PlistValue => {
+    if (depth > MAX_DEPTH) {
+      throw new PlistParseError("Binary plist is nested too deeply");
+    }
+
+    const offset = objectOffset(index);
+    const marker = data.readUInt8(offset);
+    const type = marker >> 4;
+
+    switch (type) {
+      case 0x0:
+        if (marker === 0x08) return false;
+        if (marker === 0x09) return true;
+        return null;
+      case 0x1: {
+        const size = 1 << (marker & 0x0f);
+        if (size === 8) {
+          // 8-byte ints are signed; 16-byte ints only hold unsigned 64-bit values in the low half
+          return Number(data.readBigInt64BE(offset + 1));
+        }
+        if (size === 16) {
+          return Number(data.readBigUInt64BE(offset + 9));
+        }
+        return readSizedUInt(data, offset + 1, size);
+      }
+      case 0x2: {
+        const size = 1 << (marker & 0x0f);
+        return size === 4 ? data.readFloatBE(offset + 1) : data.readDoubleBE(offset + 1);
+      }
+      case 0x3:
+        return new Date((APPLE_EPOCH_OFFSET_SECONDS + data.readDoubleBE(offset + 1)) * 1000);
+      case 0x4: {
+        const { length, start } = readLength(marker, offset);
+        return Buffer.from(data.subarray(start, start + length));
+      }
+      case 0x5: {
+        const { length, start } = readLength(marker, offset);
+        return data.toString("latin1", start, start + length);
+      }
+      case 0x6: {
+        const { length, start } = readLength(marker, offset);
+        // UTF-16BE; swap to the little-endian order Node decodes
+        const utf16 = Buffer.from(data.subarray(start, start + length * 2));
+        utf16.swap16();
+        return utf16.toString("utf16le");
+      }
+      case 0x8:
+        // UID (keyed archiver references); surface the number
+        return readSizedUInt(data, offset + 1, (marker & 0x0f) + 1);
+      case 0xa:
+      case 0xc: {
+        const { length, start } = readLength(marker, offset);
+        const items: PlistValue[] = [];
+        for (let i = 0; i < length; i++) {
+          items.push(parseObject(readSizedUInt(data, start + i * refSize, refSize), depth + 1));
+        }
+        return items;
+      }
+      case 0xd: {
+        const { length, start } = readLength(marker, offset);
+        const dict: PlistDictionary = {};
+        for (let i = 0; i < length; i++) {
+          const key = parseObject(readSizedUInt(data, start + i * refSize, refSize), depth + 1);
+          const value = parseObject(readSizedUInt(data, start + (length + i) * refSize, refSize), depth + 1);
+          dict[String(key)] = value;
+        }
+        return dict;
+      }
+      default:
+        throw new PlistParseError(`Unknown object type 0x${marker.toString(16)}`);
+    }
+  };
+
+  return parseObject(topObject, 0);
+}
+
+// -----------------------------------------------------------------------------
+// XML
+// -----------------------------------------------------------------------------
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case "amp":
+        return "&";
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      default:
+        return String.fromCodePoint(
+          entity.startsWith("#x") ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10),
+        );
+    }
+  });
+}
+
+interface XmlToken {
+  name: string;
+  kind: "open" | "close" | "empty";
+  /** Text between this open tag and the next tag */
+  text: string;
+}
+
+function tokenizeXml(xml: string): XmlToken[] {
+  // Drop the prolog, doctype and comments; plist XML has no attributes we need
+  const body = xml
+    .replace(/<\?[\s\S]*?\?>/g, "")
+    .replace(/<!DOCTYPE[\s\S]*?>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "");
+  const tokens: XmlToken[] = [];
+  const tagPattern = /<(\/?)([A-Za-z]+)[^>]*?(\/?)>([^<]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(body)) !== null) {
+    const [, closing, name, selfClosing, text] = match;
+    tokens.push({ name, kind: closing ? "close" : selfClosing ? "empty" : "open", text });
+  }
+  return tokens;
+}
+
+function parseXmlPlist(xml: string): PlistValue {
+  const tokens = tokenizeXml(xml);
+  let index = 0;
+
+  const expectClose = (name: string) => {
+    const token = tokens[index++];
+    if (!token || token.kind !== "close" || token.name !== name) {
+      throw new PlistParseError(`Expected </${name}>`);
+    }
+  };
+
+  const parseValue = (depth: number): PlistValue => {
+    if (depth > MAX_DEPTH) {
+      throw new PlistParseError("XML plist is nested too deeply");
+    }
+    const token = tokens[index++];
+    if (!token || token.kind === "close") {
+      throw new PlistParseError("Unexpected end of plist");
+    }
+
+    if (token.kind === "empty") {
+      switch (token.name) {
+        case "true":
+          return true;
+        case "false":
+          return false;
+        case "string":
+          return "";
+        case "array":
+          return [];
+        case "dict":
+          return {};
+        case "data":
+          return Buffer.alloc(0);
+        default:
+          throw new PlistParseError(`Unexpected <${token.name}/>`);
+      }
+    }
+
+    switch (token.name) {
+      case "string":
+      case "integer":
+      case "real":
+      case "date":
+      case "data": {
+        const text = decodeXmlEntities(token.text);
+        expectClose(token.name);
+        if (token.name === "string") return text;
+        if (token.name === "integer" || token.name === "real") return Number(text.trim());
+        if (token.name === "date") return new Date(text.trim());
+        return Buffer.from(text.replace(/\s+/g, ""), "base64");
+      }
+      case "true":
+      case "false":
+        expectClose(token.name);
+        return token.name === "true";
+      case "array": {
+        const items: PlistValue[] = [];
+        while (tokens[index] && !(tokens[index].kind === "close" && tokens[index].name === "array")) {
+          items.push(parseValue(depth + 1));
+        }
+        expectClose("array");
+        return items;
+      }
+      case "dict": {
+        const dict: PlistDictionary = {};
+        while (tokens[index] && !(tokens[index].kind === "close" && tokens[index].name === "dict")) {
+          const keyToken = tokens[index++];
+          if (keyToken.name !== "key" || keyToken.kind !== "open") {
+            throw new PlistParseError(`Expected <key>, found <${keyToken.name}>`);
+          }
+          const key = decodeXmlEntities(keyToken.text);
+          expectClose("key");
+          dict[key] = parseValue(depth + 1);
+        }
+        expectClose("dict");
+        return dict;
+      }
+      default:
+        throw new PlistParseError(`Unexpected <${token.name}>`);
+    }
+  };
+
+  const root = tokens[index];
+  if (!root || root.name !== "plist") {
+    throw new PlistParseError("Not a property list");
+  }
+  index++;
+  if (root.kind === "empty") {
+    return null;
+  }
+  const value = parseValue(0);
+  expectClose("plist");
+  return value;
+}
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { editDistance, normalizeSearchText, rankByRelevance, RELEVANCE_SCORES, scoreRelevance } from "./relevance";
+
+describe("normalizeSearchText", () => {
+  it("strips diacritics", () => {
+    assert.equal(normalizeSearchText("Pokémon Café"), "pokemon cafe");
+    assert.equal(normalizeSearchText("Ångström Über Niño"), "angstrom uber nino");
+  });
+
+  it("reads & as and, drops apostrophes, and turns punctuation into spaces", () => {
+    assert.equal(normalizeSearchText("Café & Bar: Menü!"), "cafe and bar menu");
+    assert.equal(normalizeSearchText("Let’s Go—Now"), "lets go now");
+  });
+
+  it("treats a precomposed and a decomposed accent the same", () => {
+    assert.equal(normalizeSearchText("Cafe\u0301"), normalizeSearchText("Caf\u00e9"));
+  });
+});
+
+describe("editDistance", () => {
+  it("counts insertions, deletions and substitutions", () => {
+    assert.equal(editDistance("kitten", "sitting"), 3);
+    assert.equal(editDistance("whatsap", "whatsapp"), 1);
+    assert.equal(editDistance("", "abc"), 3);
+    assert.equal(editDistance("same", "same"), 0);
+  });
+
+  it("counts a swap of adjacent characters as one edit", () => {
+    assert.equal(editDistance("calednar", "calendar"), 1);
+    assert.equal(editDistance("ab", "ba"), 1);
+  });
+
+  it("edits no substring twice, as optimal string alignment does", () => {
+    // Unrestricted Damerau-Levenshtein would make this 2 (swap, then insert between)
+    assert.equal(editDistance("ca", "abc"), 3);
+  });
+
+  it("stops at max + 1 once the distance is known to exceed max", () => {
+    assert.equal(editDistance("kitten", "sitting", 1), 2);
+    assert.equal(editDistance("a", "abcdef", 2), 3);
+  });
+});
+
+describe("scoreRelevance", () => {
+  const score = (name: string, query: string) => scoreRelevance({ name }, query).score;
+
+  it("ranks exact, then prefix, then substring, then typo matches", () => {
+    const exact = score("Notes", "notes");
+    const prefix = score("Notes Pro", "notes");
+    const contains = score("Simple Notes", "notes");
+    const typo = score("Nites", "notes");
+    assert.ok(exact > prefix, `exact ${exact} > prefix ${prefix}`);
+    assert.ok(prefix > contains, `prefix ${prefix} > contains ${contains}`);
+    assert.ok(contains > typo, `contains ${contains} > typo ${typo}`);
+  });
+
+  it("ranks token matches exact, then prefix, then fuzzy", () => {
+    assert.ok(RELEVANCE_SCORES.tokenExact > RELEVANCE_SCORES.tokenPrefix);
+    assert.ok(RELEVANCE_SCORES.tokenPrefix > RELEVANCE_SCORES.tokenFuzzy);
+    const exact = score("Fitness Tracker", "tracker fitness");
+    const prefix = score("Fitness Tracker", "track fitness");
+    const fuzzy = score("Fitness Tracker", "trackr fitness");
+    assert.ok(exact > prefix, `exact ${exact} > prefix ${prefix}`);
+    assert.ok(prefix > fuzzy, `prefix ${prefix} > fuzzy ${fuzzy}`);
+  });
+
+  it("gives the same score for the same input", () => {
+    const candidate = { name: "Notion Calendar", developer: "Notion Labs, Inc", userRatingCount: 12_345 };
+    assert.deepEqual(scoreRelevance(candidate, "notion calender"), scoreRelevance(candidate, "notion calender"));
+  });
+
+  it("matches typos and partial words, but not unrelated names", () => {
+    assert.equal(scoreRelevance({ name: "WhatsApp Messenger" }, "whatsap").isMatch, true);
+    assert.equal(scoreRelevance({ name: "Notion Calendar" }, "notion calender").isMatch, true);
+    assert.equal(scoreRelevance({ name: "Pages & Numbers" }, "pages and numbers").isMatch, true);
+    assert.equal(scoreRelevance({ name: "Weather Live" }, "calendar").isMatch, false);
+  });
+
+  it("allows no typos in short tokens", () => {
+    assert.equal(scoreRelevance({ name: "Cat" }, "car").isMatch, false);
+  });
+
+  it("blends in popularity with a cap", () => {
+    const quiet = scoreRelevance({ name: "Notes", userRatingCount: 10 }, "notes").score;
+    const popular = scoreRelevance({ name: "Notes", userRatingCount: 1_000_000 }, "notes").score;
+    const huge = scoreRelevance({ name: "Notes", userRatingCount: 10 ** 12 }, "notes").score;
+    assert.ok(popular > quiet);
+    assert.equal(huge - scoreRelevance({ name: "Notes" }, "notes").score, RELEVANCE_SCORES.maxPopularity);
+  });
+});
+
+describe("rankByRelevance", () => {
+  it("puts the closest name first and drops non-matches", () => {
+    const names = ["Notion", "Weather Live", "Notion Calendar", "Calendars 5"];
+    const ranked = rankByRelevance(names, "notion calender", (name) => ({ name }));
+    assert.equal(ranked[0], "Notion Calendar");
+    assert.ok(!ranked.includes("Weather Live"));
+  });
+
+  it("keeps the original order of items that score the same", () => {
+    const items = [
+      { id: 1, name: "Notes" },
+      { id: 2, name: "Notes" },
+    ];
+    assert.deepEqual(
+      rankByRelevance(items, "notes", (item) => item).map((item) => item.id),
+      [1, 2],
+    );
+  });
+});
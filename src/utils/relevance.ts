@@ -0,0 +1,206 @@
+// Relevance ranking for app search results
+//
+// Substring matching alone misses what people actually type: "whatsap" while
+// still typing, "notion calender" with a typo, "Pages & Numbers" against
+// "pages and numbers". Names and queries are normalized and split into tokens,
+// each query token is matched exactly, as a prefix, or within a small edit
+// distance, and the points come from RELEVANCE_SCORES so a given name and query
+// always score the same.
+
+/** Points for each kind of match. Scores are sums of these, so they are deterministic. */
+export const RELEVANCE_SCORES = {
+  /** The whole name equals the query */
+  exactName: 100,
+  /** The name starts with the query */
+  namePrefix: 75,
+  /** The query appears inside the name */
+  nameContains: 50,
+  /** Per query token equal to a name token */
+  tokenExact: 15,
+  /** Per query token that starts a name token, as when still typing */
+  tokenPrefix: 10,
+  /** Per query token within the typo allowance of a name token */
+  tokenFuzzy: 8,
+  /** Every query token matched the name one way or another */
+  allTokens: 20,
+  /** The developer name equals the query */
+  exactDeveloper: 30,
+  /** The query appears in the developer name, or all its tokens match the developer's */
+  developerContains: 20,
+  /** Taken off per name character, so the shorter of two close names wins */
+  lengthPenaltyPerChar: 0.1,
+  maxLengthPenalty: 10,
+  /** Per tenfold increase in rating count, capped where the biggest apps sit (around 100 million ratings) */
+  popularityPerDecade: 5,
+  maxPopularity: 40,
+} as const;
+
+// Typos allowed per token, by token length. Short tokens must match exactly or
+// as a prefix; one typo in a three-letter word is a different word.
+const TYPO_ALLOWANCE: Array<{ minLength: number; typos: number }> = [
+  { minLength: 8, typos: 2 },
+  { minLength: 4, typos: 1 },
+];
+
+export interface RelevanceCandidate {
+  name: string;
+  developer?: string;
+  /** iTunes rating count; blended in as popularity when present */
+  userRatingCount?: number;
+}
+
+export interface RelevanceScore {
+  score: number;
+  /** Whether the candidate matches the query closely enough to show at all */
+  isMatch: boolean;
+}
+
+type TokenMatch = "exact" | "prefix" | "fuzzy";
+
+/**
+ * Lowercase, strip diacritics, read "&" as "and", and turn punctuation into spaces
+ * @example normalizeSearchText("Café & Bar: Menü!") // "cafe and bar menu"
+ */
+export function normalizeSearchText(text: string): string {
+  return (text || "")
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Split text into normalized tokens
+ */
+export function tokenizeSearchText(text: string): string[] {
+  const normalized = normalizeSearchText(text);
+  return normalized ? normalized.split(" ") : [];
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions, and swaps of
+ * adjacent characters (optimal string alignment)
+ * @param max Stop early once the distance is known to exceed this
+ * @returns The distance, or `max + 1` when it is larger than `max`
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const twoRowsBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoRowsBack[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return Math.min(row[b.length], max + 1);
+}
+
+function allowedTypos(token: string): number {
+  return TYPO_ALLOWANCE.find(({ minLength }) => token.length >= minLength)?.typos ?? 0;
+}
+
+/**
+ * The best way one query token matches any of the candidate's tokens
+ */
+function matchToken(queryToken: string, candidateTokens: string[]): TokenMatch | undefined {
+  if (candidateTokens.includes(queryToken)) return "exact";
+  if (queryToken.length >= 2 && candidateTokens.some((token) => token.startsWith(queryToken))) return "prefix";
+
+  const typos = allowedTypos(queryToken);
+  if (typos === 0) return undefined;
+  return candidateTokens.some((token) => editDistance(queryToken, token, typos) <= typos) ? "fuzzy" : undefined;
+}
+
+const TOKEN_POINTS: Record<TokenMatch, number> = {
+  exact: RELEVANCE_SCORES.tokenExact,
+  prefix: RELEVANCE_SCORES.tokenPrefix,
+  fuzzy: RELEVANCE_SCORES.tokenFuzzy,
+};
+
+/**
+ * Points for how popular an app is, rising with each tenfold increase in ratings
+ */
+export function scorePopularity(userRatingCount = 0): number {
+  return Math.min(
+    Math.log10(Math.max(userRatingCount, 0) + 1) * RELEVANCE_SCORES.popularityPerDecade,
+    RELEVANCE_SCORES.maxPopularity,
+  );
+}
+
+/**
+ * Score how well an app matches a search query
+ * @param candidate The app's name, developer, and rating count
+ * @param query What the user searched for
+ * @returns The score, and whether it is a match at all
+ */
+export function scoreRelevance(candidate: RelevanceCandidate, query: string): RelevanceScore {
+  const normalizedQuery = normalizeSearchText(query);
+  const name = normalizeSearchText(candidate.name);
+  const developer = normalizeSearchText(candidate.developer ?? "");
+  const popularity = scorePopularity(candidate.userRatingCount);
+  if (!normalizedQuery) return { score: popularity, isMatch: true };
+
+  let score = 0;
+  if (name === normalizedQuery) score += RELEVANCE_SCORES.exactName;
+  else if (name.startsWith(normalizedQuery)) score += RELEVANCE_SCORES.namePrefix;
+  else if (name.includes(normalizedQuery)) score += RELEVANCE_SCORES.nameContains;
+
+  const queryTokens = tokenizeSearchText(query);
+  const nameTokens = tokenizeSearchText(candidate.name);
+  const developerTokens = tokenizeSearchText(candidate.developer ?? "");
+  const nameMatches = queryTokens.map((token) => matchToken(token, nameTokens));
+  const developerMatches = queryTokens.map((token) => matchToken(token, developerTokens));
+
+  for (const match of nameMatches) {
+    if (match) score += TOKEN_POINTS[match];
+  }
+  if (nameMatches.every(Boolean)) score += RELEVANCE_SCORES.allTokens;
+
+  if (developer && developer === normalizedQuery) score += RELEVANCE_SCORES.exactDeveloper;
+  else if ((developer && developer.includes(normalizedQuery)) || developerMatches.every(Boolean)) {
+    score += RELEVANCE_SCORES.developerContains;
+  }
+
+  score -= Math.min(name.length * RELEVANCE_SCORES.lengthPenaltyPerChar, RELEVANCE_SCORES.maxLengthPenalty);
+
+  // A match is a substring either way round, or at least half the query's
+  // tokens matching the name or developer
+  const matchedTokens = queryTokens.filter((_, index) => nameMatches[index] || developerMatches[index]).length;
+  const isMatch =
+    name.includes(normalizedQuery) ||
+    developer.includes(normalizedQuery) ||
+    (name.length > 0 && normalizedQuery.includes(name)) ||
+    matchedTokens >= Math.ceil(queryTokens.length / 2);
+
+  return { score: score + popularity, isMatch };
+}
+
+/**
+ * Keep the items that match the query, best first. Items that score the same
+ * keep their original order.
+ * @param items Anything that can describe itself as a candidate
+ * @param query What the user searched for
+ * @param toCandidate Name, developer, and rating count for an item
+ */
+export function rankByRelevance<T>(items: T[], query: string, toCandidate: (item: T) => RelevanceCandidate): T[] {
+  return items
+    .map((item) => ({ item, ...scoreRelevance(toCandidate(item), query) }))
+    .filter((scored) => scored.isMatch)
+    .sort((a, b) => b.score - a.score)
+    .map((scored) => scored.item);
+}
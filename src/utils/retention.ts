@@ -0,0 +1,102 @@
+// Decide which archived IPAs a retention policy lets go
+import fs from "fs";
+import type { RetentionPolicy } from "../config";
+import type { DownloadHistoryItem } from "./storage";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** versions: beyond the newest N for its app; age: downloaded longer ago than the limit */
+export type RetentionReason = "versions" | "age";
+
+export interface RetentionCandidate {
+  record: DownloadHistoryItem;
+  filePath: string;
+  sizeBytes: number;
+  reason: RetentionReason;
+}
+
+export interface RetentionPlan {
+  candidates: RetentionCandidate[];
+  reclaimBytes: number;
+  /** Files that would have gone but belong to a favorite */
+  keptForFavorites: number;
+}
+
+/**
+ * Whether any rule is switched on
+ */
+export function isRetentionEnabled(policy: RetentionPolicy): boolean {
+  return policy.keepVersionsPerApp !== null || policy.maxAgeDays !== null;
+}
+
+/**
+ * Work out which files the policy would move to the Trash. Only records whose
+ * file is still on disk count towards "keep last N", so versions already gone
+ * don't use up an app's quota.
+ * @param history Every history record
+ * @param policy Retention rules from config
+ * @param favoriteBundleIds Apps exempt when the policy keeps favorites
+ * @param now Reference time for the age rule
+ * @returns Candidates, newest app version first within each app
+ */
+export function planRetention(
+  history: DownloadHistoryItem[],
+  policy: RetentionPolicy,
+  favoriteBundleIds: Set<string>,
+  now = Date.now(),
+): RetentionPlan {
+  const plan: RetentionPlan = { candidates: [], reclaimBytes: 0, keptForFavorites: 0 };
+  if (!isRetentionEnabled(policy)) return plan;
+
+  const onDisk = new Map<string, { record: DownloadHistoryItem; filePath: string; sizeBytes: number }[]>();
+  for (const record of history) {
+    if (!record.filePath) continue;
+    let sizeBytes: number;
+    try {
+      sizeBytes = fs.statSync(record.filePath).size;
+    } catch {
+      continue;
+    }
+    const records = onDisk.get(record.app.bundleId) ?? [];
+    records.push({ record, filePath: record.filePath, sizeBytes });
+    onDisk.set(record.app.bundleId, records);
+  }
+
+  for (const [bundleId, records] of onDisk) {
+    records.sort((a, b) => new Date(b.record.downloadDate).getTime() - new Date(a.record.downloadDate).getTime());
+
+    records.forEach((entry, index) => {
+      let reason: RetentionReason | undefined;
+      if (policy.keepVersionsPerApp !== null && index >= policy.keepVersionsPerApp) {
+        reason = "versions";
+      } else if (
+        policy.maxAgeDays !== null &&
+        now - new Date(entry.record.downloadDate).getTime() > policy.maxAgeDays * MS_PER_DAY
+      ) {
+        reason = "age";
+      }
+      if (!reason) return;
+
+      if (policy.keepFavorites && favoriteBundleIds.has(bundleId)) {
+        plan.keptForFavorites++;
+        return;
+      }
+      plan.candidates.push({ ...entry, reason });
+      plan.reclaimBytes += entry.sizeBytes;
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * One-line summary of the active rules, e.g. "Keep 3 per app · Older than 30 days · Favorites kept"
+ */
+export function describeRetentionPolicy(policy: RetentionPolicy): string {
+  const rules: string[] = [];
+  if (policy.keepVersionsPerApp !== null) rules.push(`Keep ${policy.keepVersionsPerApp} per app`);
+  if (policy.maxAgeDays !== null) rules.push(`Older than ${policy.maxAgeDays} days`);
+  if (rules.length === 0) return "No retention rules set";
+  if (policy.keepFavorites) rules.push("Favorites kept");
+  return rules.join(" · ");
+}
@@ -0,0 +1,226 @@
+// Inline search filters such as `price:free` or `rating>=4.5`
+//
+// The iTunes search endpoint only takes a term, so filters are pulled out of
+// the search text, the term is searched with the largest page Apple allows,
+// and the results are narrowed here using fields every ITunesResult carries.
+// A token that isn't a valid filter (`price:cheap`) stays in the term, so it is
+// searched as text rather than silently dropped.
+import type { ITunesResult } from "../types";
+import { formatFileSize } from "./formatting";
+
+export type FilterComparison = ">=" | "<=" | ">" | "<" | "=";
+
+export type SearchDevice = "iphone" | "ipad" | "watch" | "tv";
+
+/** One filter from the search text. `token` is the text it was parsed from, for removing it again. */
+export type SearchFilter =
+  | { field: "developer"; value: string; token: string }
+  | { field: "price"; value: "free" | "paid"; token: string }
+  | { field: "genre"; value: string; token: string }
+  | { field: "rating"; comparison: FilterComparison; value: number; token: string }
+  | { field: "size"; comparison: FilterComparison; value: number; token: string }
+  | { field: "minos"; comparison: FilterComparison; value: string; token: string }
+  | { field: "device"; value: SearchDevice; token: string };
+
+export interface ParsedSearchFilters {
+  /** The search text with filter tokens taken out */
+  term: string;
+  filters: SearchFilter[];
+}
+
+// `key:value`, `key:"quoted value"` or `key>=value`, at the start or after a space
+const FILTER_TOKEN_PATTERN = /(^|\s)(dev|developer|price|genre|rating|size|minos|device)(>=|<=|:|>|<|=)("[^"]*"|\S+)/gi;
+
+const SIZE_UNITS: Record<string, number> = { kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+const DEVICE_ALIASES: Record<string, SearchDevice> = {
+  iphone: "iphone",
+  ipad: "ipad",
+  watch: "watch",
+  applewatch: "watch",
+  tv: "tv",
+  appletv: "tv",
+};
+
+const DEVICE_NAMES: Record<SearchDevice, string> = {
+  iphone: "iPhone",
+  ipad: "iPad",
+  watch: "Apple Watch",
+  tv: "Apple TV",
+};
+
+/**
+ * Turn one `key`/`operator`/`value` triple into a filter
+ * @returns The filter, or undefined when the value doesn't fit the key
+ */
+function toSearchFilter(key: string, operator: string, rawValue: string, token: string): SearchFilter | undefined {
+  const value = rawValue.replace(/^"|"$/g, "").trim();
+  if (!value) return undefined;
+  const isMatch = operator === ":";
+  // `:` on a comparable field reads as the useful direction: at least this rating, at most this size or OS
+  const comparison = (fallback: FilterComparison): FilterComparison =>
+    isMatch ? fallback : (operator as FilterComparison);
+
+  switch (key.toLowerCase()) {
+    case "dev":
+    case "developer":
+      return isMatch ? { field: "developer", value, token } : undefined;
+    case "genre":
+      return isMatch ? { field: "genre", value, token } : undefined;
+    case "price": {
+      const price = value.toLowerCase();
+      return isMatch && (price === "free" || price === "paid") ? { field: "price", value: price, token } : undefined;
+    }
+    case "device": {
+      const device = DEVICE_ALIASES[value.toLowerCase().replace(/\s+/g, "")];
+      return isMatch && device ? { field: "device", value: device, token } : undefined;
+    }
+    case "rating": {
+      const rating = Number(value);
+      return Number.isFinite(rating) && rating >= 0 && rating <= 5
+        ? { field: "rating", comparison: comparison(">="), value: rating, token }
+        : undefined;
+    }
+    case "size": {
+      const match = value.toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(kb|mb|gb)?$/);
+      if (!match) return undefined;
+      // A bare number is megabytes, the unit App Store sizes are usually quoted in
+      const bytes = Math.round(Number(match[1]) * SIZE_UNITS[match[2] ?? "mb"]);
+      return { field: "size", comparison: comparison("<="), value: bytes, token };
+    }
+    case "minos":
+      return /^\d+(?:\.\d+)*$/.test(value) ? { field: "minos", comparison: comparison("<="), value, token } : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Pull filter tokens out of the search text
+ * @param text What the user typed
+ * @returns The remaining term and the filters, in the order they were typed
+ */
+export function parseSearchFilters(text: string): ParsedSearchFilters {
+  const filters: SearchFilter[] = [];
+  const term = text.replace(FILTER_TOKEN_PATTERN, (match, leading: string, key: string, operator: string, value) => {
+    const filter = toSearchFilter(key, operator, value, match.trim());
+    if (!filter) return match;
+    filters.push(filter);
+    return leading;
+  });
+  return { term: term.replace(/\s+/g, " ").trim(), filters };
+}
+
+/**
+ * Take one filter back out of the search text
+ * @param text The current search text
+ * @param filter A filter parsed from it
+ * @returns The text without that filter's token
+ */
+export function removeSearchFilter(text: string, filter: SearchFilter): string {
+  const index = text.indexOf(filter.token);
+  if (index === -1) return text;
+  return `${text.slice(0, index)} ${text.slice(index + filter.token.length)}`.replace(/\s+/g, " ").trim();
+}
+
+function compare(actual: number, comparison: FilterComparison, expected: number): boolean {
+  switch (comparison) {
+    case ">=":
+      return actual >= expected;
+    case "<=":
+      return actual <= expected;
+    case ">":
+      return actual > expected;
+    case "<":
+      return actual < expected;
+    case "=":
+      return actual === expected;
+  }
+}
+
+/**
+ * Order two dotted version strings, e.g. "16.4" and "17"
+ * @returns negative, zero or positive like a sort comparator
+ */
+function compareVersions(a: string, b: string): number {
+  const partsA = a.split(".").map(Number);
+  const partsB = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] || 0) - (partsB[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+function supportsDevice(result: ITunesResult, device: SearchDevice): boolean {
+  const supported = Array.isArray(result.supportedDevices) ? (result.supportedDevices as string[]) : [];
+  const listsDevice = (prefix: string) => supported.some((name) => name.toLowerCase().startsWith(prefix));
+  switch (device) {
+    case "iphone":
+      return listsDevice("iphone") || result.screenshotUrls?.length > 0;
+    case "ipad":
+      return listsDevice("ipad") || result.ipadScreenshotUrls?.length > 0;
+    case "watch":
+      return listsDevice("watch") || (result.watchScreenshotUrls?.length ?? 0) > 0;
+    case "tv":
+      return listsDevice("appletv") || (result.appletvScreenshotUrls?.length ?? 0) > 0;
+  }
+}
+
+function matchesFilter(result: ITunesResult, filter: SearchFilter): boolean {
+  switch (filter.field) {
+    case "developer": {
+      const value = filter.value.toLowerCase();
+      return [result.artistName, result.sellerName].some((name) => name?.toLowerCase().includes(value));
+    }
+    case "price":
+      return filter.value === "free" ? !result.price : result.price > 0;
+    case "genre": {
+      const value = filter.value.toLowerCase();
+      return [result.primaryGenreName, ...(result.genres ?? [])].some((genre) => genre?.toLowerCase().includes(value));
+    }
+    case "rating":
+      return compare(result.averageUserRating ?? 0, filter.comparison, filter.value);
+    case "size": {
+      // iTunes sends the size as a string despite the type
+      const size = Number(result.fileSizeBytes);
+      return size > 0 && compare(size, filter.comparison, filter.value);
+    }
+    case "minos":
+      return (
+        Boolean(result.minimumOsVersion) &&
+        compare(compareVersions(result.minimumOsVersion, filter.value), filter.comparison, 0)
+      );
+    case "device":
+      return supportsDevice(result, filter.value);
+  }
+}
+
+/**
+ * Whether a search result passes every filter
+ */
+export function matchesSearchFilters(result: ITunesResult, filters: SearchFilter[]): boolean {
+  return filters.every((filter) => matchesFilter(result, filter));
+}
+
+/**
+ * Readable label for a filter, e.g. "Rating ≥ 4.5" or "Developer: Google LLC"
+ */
+export function describeSearchFilter(filter: SearchFilter): string {
+  const symbols: Record<FilterComparison, string> = { ">=": "≥", "<=": "≤", ">": ">", "<": "<", "=": "=" };
+  switch (filter.field) {
+    case "developer":
+      return `Developer: ${filter.value}`;
+    case "price":
+      return filter.value === "free" ? "Free" : "Paid";
+    case "genre":
+      return `Genre: ${filter.value}`;
+    case "rating":
+      return `Rating ${symbols[filter.comparison]} ${filter.value}`;
+    case "size":
+      return `Size ${symbols[filter.comparison]} ${formatFileSize(filter.value)}`;
+    case "minos":
+      return `Minimum iOS ${symbols[filter.comparison]} ${filter.value}`;
+    case "device":
+      return `Runs on ${DEVICE_NAMES[filter.value]}`;
+  }
+}
@@ -0,0 +1,239 @@
+// One search across every place that can find an app
+//
+// iTunes search needs no Apple ID but only sees the chosen storefront, and its
+// index lags the App Store. ipatool searches as the signed-in account, in that
+// account's storefront, so it can turn up apps iTunes search misses. Each is a
+// SearchSource; searchAppSources runs them side by side, merges hits for the
+// same app, and ranks the merged list with one score.
+import { logger } from "@chrismessina/raycast-logger";
+import { searchAppsIfSignedIn } from "../ipatool";
+import type { IpaToolSearchApp, ITunesResult } from "../types";
+import { lookupITunesAppsByIds, searchITunesApps } from "./itunes-api";
+import { scoreRelevance } from "./relevance";
+
+export type SearchSourceId = "itunes" | "ipatool";
+
+export interface SearchSourceOptions {
+  limit: number;
+  /** Storefront for sources that can choose one */
+  storefront: string;
+}
+
+/** One app as a single source found it */
+export interface SearchSourceHit {
+  trackId: number;
+  bundleId: string;
+  name: string;
+  developer: string;
+  itunes?: ITunesResult;
+  ipatool?: IpaToolSearchApp;
+}
+
+export interface SearchSource {
+  id: SearchSourceId;
+  /** Short name for result badges */
+  label: string;
+  /**
+   * @returns Hits in the source's own relevance order, or null when the source
+   * can't search right now (e.g. ipatool is signed out)
+   */
+  search: (term: string, options: SearchSourceOptions) => Promise<SearchSourceHit[] | null>;
+}
+
+/** One app, merged across every source that found it */
+export interface UnifiedSearchResult {
+  trackId: number;
+  bundleId: string;
+  name: string;
+  developer: string;
+  /** Sources that found the app, in the order the sources were searched */
+  sources: SearchSourceId[];
+  score: number;
+  /** iTunes metadata, from iTunes search or looked up for an app only another source found */
+  itunes?: ITunesResult;
+  ipatool?: IpaToolSearchApp;
+}
+
+export interface UnifiedSearchResponse {
+  results: UnifiedSearchResult[];
+  /** How many hits each source returned; a source that couldn't search is left out */
+  hitCounts: Partial<Record<SearchSourceId, number>>;
+}
+
+// ipatool runs a process per search and the hits iTunes didn't return need a
+// lookup, so it contributes a short list however far the iTunes results page
+const IPATOOL_SEARCH_LIMIT = 20;
+
+function toITunesHit(result: ITunesResult): SearchSourceHit {
+  return {
+    trackId: result.trackId,
+    bundleId: result.bundleId,
+    name: result.trackName,
+    developer: result.artistName || result.sellerName,
+    itunes: result,
+  };
+}
+
+/**
+ * Wrap an app found outside a search, e.g. by an exact lookup, as an iTunes result
+ */
+export function toUnifiedSearchResult(result: ITunesResult): UnifiedSearchResult {
+  return { ...toITunesHit(result), sources: ["itunes"], score: 0 };
+}
+
+export const itunesSearchSource: SearchSource = {
+  id: "itunes",
+  label: "iTunes",
+  search: async (term, { limit, storefront }) => {
+    const results = await searchITunesApps(term, limit, storefront);
+    return results.map(toITunesHit);
+  },
+};
+
+export const ipatoolSearchSource: SearchSource = {
+  id: "ipatool",
+  label: "Account",
+  search: async (term, { limit }) => {
+    const apps = await searchAppsIfSignedIn(term, Math.min(limit, IPATOOL_SEARCH_LIMIT));
+    return (
+      apps?.map((app) => ({
+        trackId: app.id,
+        bundleId: app.bundleId || app.bundleID || "",
+        name: app.name,
+        developer: app.developer,
+        ipatool: app,
+      })) ?? null
+    );
+  },
+};
+
+export const DEFAULT_SEARCH_SOURCES: SearchSource[] = [itunesSearchSource, ipatoolSearchSource];
+
+/**
+ * Badge text for a source
+ */
+export function getSearchSourceLabel(id: SearchSourceId): string {
+  return DEFAULT_SEARCH_SOURCES.find((source) => source.id === id)?.label ?? id;
+}
+
+function isSameApp(result: UnifiedSearchResult, hit: SearchSourceHit): boolean {
+  return result.trackId === hit.trackId || (Boolean(hit.bundleId) && result.bundleId === hit.bundleId);
+}
+
+/**
+ * Merge one source's hits into the results, adding the source to apps already
+ * there and appending the rest
+ * @returns The apps that were new
+ */
+function mergeHits(
+  results: UnifiedSearchResult[],
+  source: SearchSource,
+  hits: SearchSourceHit[],
+): UnifiedSearchResult[] {
+  const added: UnifiedSearchResult[] = [];
+  for (const hit of hits) {
+    const existing = results.find((result) => isSameApp(result, hit));
+    if (existing) {
+      if (!existing.sources.includes(source.id)) existing.sources.push(source.id);
+      existing.itunes ??= hit.itunes;
+      existing.ipatool ??= hit.ipatool;
+      existing.bundleId ||= hit.bundleId;
+    } else {
+      const result = { ...hit, sources: [source.id], score: 0 };
+      results.push(result);
+      added.push(result);
+    }
+  }
+  return added;
+}
+
+/**
+ * Combined relevance: how well the name matches and how popular the app is,
+ * plus how high each source ranked it. An app every source ranks near the top
+ * comes first.
+ */
+function scoreResult(result: UnifiedSearchResult, term: string, ranks: Map<SearchSourceId, SearchSourceHit[]>): number {
+  let { score } = scoreRelevance(
+    { name: result.name, developer: result.developer, userRatingCount: result.itunes?.userRatingCount },
+    term,
+  );
+  for (const [, hits] of ranks) {
+    const index = hits.findIndex((hit) => isSameApp(result, hit));
+    if (index !== -1) score += 20 * (1 - index / hits.length);
+  }
+  return score;
+}
+
+/**
+ * Fill in iTunes metadata for apps only another source found, from the chosen
+ * storefront, in one batched lookup. An app that storefront doesn't carry
+ * keeps just what its source had.
+ */
+async function lookUpMissingDetails(results: UnifiedSearchResult[], storefront: string): Promise<void> {
+  try {
+    const found = await lookupITunesAppsByIds(
+      results.map((result) => String(result.trackId)),
+      storefront,
+    );
+    for (const result of results) {
+      result.itunes = found.find((app) => app.trackId === result.trackId);
+    }
+  } catch (error) {
+    logger.warn(`[Search] iTunes lookup for ${results.length} app(s) found outside iTunes search failed:`, error);
+  }
+}
+
+/**
+ * Search every source at once and merge what they find
+ * @param term Search term
+ * @param options Limit and storefront, plus the sources to search (defaults to all)
+ * @param previous Results already shown for this term. Apps the sources find
+ *   again are updated in place and keep their position; new apps are ranked
+ *   among themselves and appended.
+ * @returns Merged results ranked by combined score, and how many hits each source returned
+ */
+export async function searchAppSources(
+  term: string,
+  options: SearchSourceOptions & { sources?: SearchSource[] },
+  previous: UnifiedSearchResult[] = [],
+): Promise<UnifiedSearchResponse> {
+  const sources = options.sources ?? DEFAULT_SEARCH_SOURCES;
+  const responses = await Promise.all(
+    sources.map(async (source) => {
+      try {
+        return { source, hits: await source.search(term, options) };
+      } catch (error) {
+        logger.warn(`[Search] ${source.label} search for "${term}" failed:`, error);
+        return { source, hits: null };
+      }
+    }),
+  );
+
+  const results = previous.map((result) => ({ ...result, sources: [...result.sources] }));
+  const ranks = new Map<SearchSourceId, SearchSourceHit[]>();
+  const hitCounts: Partial<Record<SearchSourceId, number>> = {};
+  const added: UnifiedSearchResult[] = [];
+  for (const { source, hits } of responses) {
+    if (!hits) continue;
+    ranks.set(source.id, hits);
+    hitCounts[source.id] = hits.length;
+    added.push(...mergeHits(results, source, hits));
+  }
+
+  // Only apps another source found lack iTunes metadata; an iTunes-only page looks nothing up
+  const missingDetails = added.filter((result) => !result.itunes);
+  if (missingDetails.length > 0) await lookUpMissingDetails(missingDetails, options.storefront);
+  for (const result of added) {
+    result.score = scoreResult(result, term, ranks);
+  }
+  const ranked = [...added].sort((a, b) => b.score - a.score);
+
+  logger.log(
+    `[Search] "${term}": ${added.length} new app(s) from ${[...ranks.keys()].join(", ") || "no sources"}, ` +
+      `${added.filter((result) => !result.sources.includes("itunes")).length} missed by iTunes search`,
+  );
+  return {
+    results: [...results.filter((result) => !added.includes(result)), ...ranked],
+    hitCounts,
+  };
+}
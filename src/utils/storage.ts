@@ -5,6 +5,11 @@
 // - useRecentSearches() - Recent searches management
 // - useDownloadHistory() - Download history and counts management
 //
+// The download queue is the exception: it is processed outside any one view,
+// so its storage lives with the scheduler in download-queue.ts. The background
+// update checker and auto-archive keep their state in update-checker.ts and
+// auto-archive.ts for the same reason.
+//
 // This file only contains shared types and storage keys.
 //
 import type { AppDetails } from "../types";
@@ -18,8 +23,16 @@ export const STORAGE_KEYS = {
   DOWNLOAD_HISTORY: "download_history",
   FAVORITE_APPS: "favorite_apps",
   DOWNLOAD_COUNTS: "download_counts",
+  DOWNLOAD_QUEUE: "download_queue",
+  UPDATE_CHECK: "update_check",
+  AUTO_ARCHIVE: "auto_archive",
+  ACCOUNT_PROFILES: "account_profiles",
+  LAST_SIGN_IN: "last_sign_in",
 } as const;
 
+// One record per downloaded version, so the limit counts versions, not apps
+export const DOWNLOAD_HISTORY_LIMIT = 250;
+
 // =============================================================================
 // TYPES
 // =============================================================================
@@ -34,6 +47,27 @@ export interface DownloadHistoryItem {
   downloadDate: string;
   downloadCount: number;
   filePath?: string;
+  storefront?: string;
+  externalVersionId?: string;
+  sha256?: string;
+  lastVerifiedAt?: string;
+  fileSizeBytes?: number;
+  durationMs?: number;
+  appleId?: string;
+  accountProfile?: string;
+  ipatoolVersion?: string;
+  importedAt?: string;
+  trashedAt?: string;
+  autoArchived?: boolean;
+  cancelledAt?: string;
+}
+
+/**
+ * Whether a record only marks a cancelled download, i.e. that version was
+ * never actually downloaded
+ */
+export function isCancelledOnlyRecord(item: Pick<DownloadHistoryItem, "downloadCount" | "cancelledAt">): boolean {
+  return item.downloadCount === 0 && Boolean(item.cancelledAt);
 }
 
 /**
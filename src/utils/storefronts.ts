@@ -0,0 +1,81 @@
+// App Store storefront (country) helpers
+import { getConfigValue } from "../config";
+
+export interface Storefront {
+  /** ISO 3166-1 alpha-2 country code, lowercase (the iTunes `country` param) */
+  code: string;
+  name: string;
+}
+
+/**
+ * Storefronts offered in the search bar override. Keep in sync with the
+ * `storefront` preference dropdown in package.json — Raycast reads that list
+ * statically, so it cannot be generated from this one.
+ */
+export const STOREFRONTS: Storefront[] = [
+  { code: "us", name: "United States" },
+  { code: "gb", name: "United Kingdom" },
+  { code: "ca", name: "Canada" },
+  { code: "au", name: "Australia" },
+  { code: "nz", name: "New Zealand" },
+  { code: "ie", name: "Ireland" },
+  { code: "de", name: "Germany" },
+  { code: "at", name: "Austria" },
+  { code: "ch", name: "Switzerland" },
+  { code: "fr", name: "France" },
+  { code: "be", name: "Belgium" },
+  { code: "nl", name: "Netherlands" },
+  { code: "it", name: "Italy" },
+  { code: "es", name: "Spain" },
+  { code: "pt", name: "Portugal" },
+  { code: "se", name: "Sweden" },
+  { code: "no", name: "Norway" },
+  { code: "dk", name: "Denmark" },
+  { code: "fi", name: "Finland" },
+  { code: "pl", name: "Poland" },
+  { code: "tr", name: "Türkiye" },
+  { code: "jp", name: "Japan" },
+  { code: "kr", name: "South Korea" },
+  { code: "cn", name: "China" },
+  { code: "hk", name: "Hong Kong" },
+  { code: "tw", name: "Taiwan" },
+  { code: "sg", name: "Singapore" },
+  { code: "in", name: "India" },
+  { code: "ae", name: "United Arab Emirates" },
+  { code: "sa", name: "Saudi Arabia" },
+  { code: "br", name: "Brazil" },
+  { code: "mx", name: "Mexico" },
+];
+
+/**
+ * Normalize a storefront code to the lowercase two-letter form iTunes expects
+ * @param code Storefront code from a preference, a tool input, or a stored record
+ * @returns The normalized code, or undefined when it is not a two-letter code
+ */
+export function normalizeStorefront(code?: string | null): string | undefined {
+  const normalized = code?.trim().toLowerCase();
+  return normalized && /^[a-z]{2}$/.test(normalized) ? normalized : undefined;
+}
+
+/**
+ * Resolve the storefront for a request. An explicit override (the search bar
+ * dropdown, an AI tool input, a stored favorite) wins over the preference.
+ * @param override Optional storefront code
+ * @returns A normalized storefront code
+ */
+export function resolveStorefront(override?: string | null): string {
+  return normalizeStorefront(override) ?? getConfigValue("storefront");
+}
+
+/**
+ * Human-readable name for a storefront code
+ * @param code Storefront code
+ * @returns The country name, or the uppercased code for storefronts not in {@link STOREFRONTS}
+ */
+export function getStorefrontName(code?: string | null): string {
+  const normalized = normalizeStorefront(code);
+  if (!normalized) {
+    return "Unknown";
+  }
+  return STOREFRONTS.find((storefront) => storefront.code === normalized)?.name ?? normalized.toUpperCase();
+}
@@ -3,6 +3,19 @@ import path from "path";
 import { logger } from "@chrismessina/raycast-logger";
 import { getConfig } from "../config";
 
+/**
+ * A partial ipatool download that can be resumed
+ */
+export interface PartialDownload {
+  filePath: string;
+  sizeBytes: number;
+  /** Last write (ms since epoch) */
+  modifiedAt: number;
+}
+
+// Older partials are from abandoned downloads; the App Store may have moved on
+const PARTIAL_DOWNLOAD_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Global array to track all temporary files created during the application lifecycle
  */
@@ -68,8 +81,9 @@ export function cleanupTempFiles(): void {
 /**
  * Cleans up specific temporary files matching patterns (.partial, .ipa, *.tmp)
  * @param directory - Directory to search for temp files (optional, uses tempFiles if not provided)
+ * @param keep - Paths to leave in place, e.g. a partial download about to be resumed
  */
-export function cleanupTempFilesByPattern(directory?: string): void {
+export function cleanupTempFilesByPattern(directory?: string, keep: string[] = []): void {
   if (directory) {
     logger.log(`[TempFileManager] Cleaning up temp files by pattern in directory: ${directory}`);
 
@@ -85,7 +99,7 @@ export function cleanupTempFilesByPattern(directory?: string): void {
           ipaPartialPattern.test(file) ||
           file.endsWith(".tmp");
 
-        if (shouldDelete) {
+        if (shouldDelete && !keep.includes(filePath)) {
           try {
             fs.unlinkSync(filePath);
             logger.log(`[TempFileManager] Deleted pattern-matched temp file: ${filePath}`);
@@ -103,6 +117,73 @@ export function cleanupTempFilesByPattern(directory?: string): void {
   }
 }
 
+/**
+ * Finds the partial file an interrupted ipatool download left behind
+ * (`{bundleId}_{adamId}_{version}.ipa.tmp`). ipatool continues such a file with
+ * a ranged request instead of starting over, so it is worth keeping for a while.
+ * @param directory - Directory ipatool was downloading into
+ * @param bundleId - Bundle ID the partial file name starts with
+ * @param version - Only match a partial of this version, when given
+ * @returns The most recently written match, or null if there is none or it is too old
+ */
+export function findPartialDownload(directory: string, bundleId: string, version?: string): PartialDownload | null {
+  let newest: PartialDownload | null = null;
+
+  try {
+    for (const file of fs.readdirSync(directory)) {
+      if (!file.startsWith(`${bundleId}_`) || !file.endsWith(".ipa.tmp")) continue;
+      if (version && !file.endsWith(`_${version}.ipa.tmp`)) continue;
+
+      const filePath = path.join(directory, file);
+      const stats = fs.statSync(filePath);
+      if (!newest || stats.mtimeMs > newest.modifiedAt) {
+        newest = { filePath, sizeBytes: stats.size, modifiedAt: stats.mtimeMs };
+      }
+    }
+  } catch (error) {
+    logger.error(`[TempFileManager] Error looking for a partial download of ${bundleId} in ${directory}:`, error);
+    return null;
+  }
+
+  if (newest && Date.now() - newest.modifiedAt > PARTIAL_DOWNLOAD_MAX_AGE_MS) {
+    logger.log(`[TempFileManager] Partial download ${newest.filePath} is too old to resume`);
+    return null;
+  }
+  return newest;
+}
+
+/**
+ * Deletes what a stopped ipatool download left behind: the partial
+ * `{bundleId}_….ipa` and its temp files. Only files written since the
+ * download started are touched, so earlier downloads are never removed.
+ * @param directory - Directory ipatool was downloading into
+ * @param bundleId - Bundle ID the partial file name starts with
+ * @param startedAt - When the download started (ms since epoch)
+ */
+export function cleanupPartialDownload(directory: string, bundleId: string, startedAt: number): void {
+  logger.log(`[TempFileManager] Cleaning up partial download of ${bundleId} in ${directory}`);
+
+  try {
+    for (const file of fs.readdirSync(directory)) {
+      if (!file.startsWith(bundleId) || !/\.ipa(\.tmp|\.partial)?$/.test(file)) continue;
+
+      const filePath = path.join(directory, file);
+      try {
+        if (fs.statSync(filePath).mtimeMs < startedAt) continue;
+        fs.unlinkSync(filePath);
+        logger.log(`[TempFileManager] Deleted partial download: ${filePath}`);
+      } catch (error) {
+        logger.error(`[TempFileManager] Error deleting partial download ${filePath}:`, error);
+      }
+    }
+  } catch (error) {
+    logger.error(`[TempFileManager] Error reading directory ${directory} for partial download cleanup:`, error);
+  }
+
+  unregisterTempFile(path.join(directory, `${bundleId}*.ipa`));
+  cleanupTempFilesByPattern(directory);
+}
+
 /**
  * Handles cleanup on process rejection, timeout, or error
  * @param error - The error that triggered the cleanup
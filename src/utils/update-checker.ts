@@ -0,0 +1,207 @@
+// Background update checks for favorites and downloaded apps
+//
+// Like the download queue, this runs outside any view (from the Check for
+// Updates interval command), so it reads favorites and history straight from
+// LocalStorage and keeps its own state next to them. The state remembers the
+// last version seen for every watched app, so each release is reported once.
+import { logger } from "@chrismessina/raycast-logger";
+import { LocalStorage } from "@raycast/api";
+import type { AppDetails } from "../types";
+import { safeJsonParse } from "./common";
+import { lookupITunesAppByBundleId } from "./itunes-api";
+import { isCancelledOnlyRecord, STORAGE_KEYS, type DownloadHistoryItem } from "./storage";
+
+export interface WatchedAppState {
+  name: string;
+  lastSeenVersion: string;
+  lastCheckedAt: string;
+}
+
+export interface AppUpdate {
+  bundleId: string;
+  name: string;
+  iconUrl?: string;
+  /** Version last seen before this release */
+  fromVersion: string;
+  toVersion: string;
+  detectedAt: string;
+  isFavorite: boolean;
+  isDownloaded: boolean;
+}
+
+export interface UpdateCheckState {
+  lastCheckedAt?: string;
+  apps: Record<string, WatchedAppState>;
+  /** Newest first; one entry per app */
+  updates: AppUpdate[];
+}
+
+export interface UpdateCheckResult {
+  newUpdates: AppUpdate[];
+  checkedCount: number;
+  failedCount: number;
+}
+
+interface WatchedApp {
+  app: AppDetails;
+  storefront?: string;
+  isFavorite: boolean;
+  isDownloaded: boolean;
+}
+
+// Only the shape needed here; the full type lives with useFavoriteApps
+interface StoredFavorite {
+  app: AppDetails;
+  storefront?: string;
+}
+
+const MAX_STORED_UPDATES = 50;
+
+async function readStoredList<T>(key: string): Promise<T[]> {
+  const stored = await LocalStorage.getItem<string>(key);
+  return stored ? safeJsonParse<T[]>(stored, []) : [];
+}
+
+/**
+ * Read what the last check recorded
+ */
+export async function getUpdateCheckState(): Promise<UpdateCheckState> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEYS.UPDATE_CHECK);
+  return stored ? safeJsonParse<UpdateCheckState>(stored, { apps: {}, updates: [] }) : { apps: {}, updates: [] };
+}
+
+/**
+ * Every favorite plus every app in download history. The version we already
+ * know about is the newest download, or the version an app was favorited at.
+ */
+async function getWatchedApps(): Promise<WatchedApp[]> {
+  const [favorites, history] = await Promise.all([
+    readStoredList<StoredFavorite>(STORAGE_KEYS.FAVORITE_APPS),
+    readStoredList<DownloadHistoryItem>(STORAGE_KEYS.DOWNLOAD_HISTORY),
+  ]);
+
+  const watched = new Map<string, WatchedApp & { downloadDate?: string }>();
+  for (const favorite of favorites) {
+    watched.set(favorite.app.bundleId, {
+      app: favorite.app,
+      storefront: favorite.storefront,
+      isFavorite: true,
+      isDownloaded: false,
+    });
+  }
+  for (const record of history) {
+    // A download cancelled before it ever finished doesn't make the app downloaded
+    if (isCancelledOnlyRecord(record)) continue;
+    const current = watched.get(record.app.bundleId);
+    if (current?.downloadDate && new Date(current.downloadDate) >= new Date(record.downloadDate)) continue;
+    watched.set(record.app.bundleId, {
+      app: record.app,
+      storefront: record.storefront ?? current?.storefront,
+      isFavorite: current?.isFavorite ?? false,
+      isDownloaded: true,
+      downloadDate: record.downloadDate,
+    });
+  }
+  return [...watched.values()];
+}
+
+/**
+ * Look up every watched app and record releases not reported before. Lookups
+ * run one at a time through the iTunes rate limiter; a failed lookup leaves
+ * that app's last-seen version alone so the next run tries again.
+ * @returns Releases found by this run, plus how many apps were checked
+ */
+export async function checkForUpdates(): Promise<UpdateCheckResult> {
+  const [watchedApps, state] = await Promise.all([getWatchedApps(), getUpdateCheckState()]);
+  const now = new Date().toISOString();
+  const apps: Record<string, WatchedAppState> = {};
+  const newUpdates: AppUpdate[] = [];
+  let failedCount = 0;
+
+  logger.log(`[Updates] Checking ${watchedApps.length} app(s) for new versions`);
+
+  for (const watched of watchedApps) {
+    const { bundleId } = watched.app;
+    const previous = state.apps[bundleId];
+    const lastSeenVersion = previous?.lastSeenVersion ?? watched.app.version;
+
+    try {
+      const latest = await lookupITunesAppByBundleId(bundleId, watched.storefront);
+      if (!latest?.version) {
+        // Delisted or not sold in this storefront: nothing to compare against
+        if (previous) apps[bundleId] = previous;
+        continue;
+      }
+
+      if (lastSeenVersion && latest.version !== lastSeenVersion) {
+        logger.log(`[Updates] ${bundleId}: ${lastSeenVersion} → ${latest.version}`);
+        newUpdates.push({
+          bundleId,
+          name: latest.trackName || watched.app.name,
+          iconUrl: latest.artworkUrl512 || latest.artworkUrl100 || watched.app.iconUrl,
+          fromVersion: lastSeenVersion,
+          toVersion: latest.version,
+          detectedAt: now,
+          isFavorite: watched.isFavorite,
+          isDownloaded: watched.isDownloaded,
+        });
+      }
+      apps[bundleId] = {
+        name: latest.trackName || watched.app.name,
+        lastSeenVersion: latest.version,
+        lastCheckedAt: now,
+      };
+    } catch (error) {
+      failedCount++;
+      logger.warn(`[Updates] Lookup failed for ${bundleId}:`, error);
+      if (previous) apps[bundleId] = previous;
+    }
+  }
+
+  // An unseen earlier release of the same app is folded into the new entry
+  const newBundleIds = new Set(newUpdates.map((update) => update.bundleId));
+  const carried = state.updates.filter((update) => !newBundleIds.has(update.bundleId));
+  const merged = newUpdates.map((update) => {
+    const earlier = state.updates.find((existing) => existing.bundleId === update.bundleId);
+    return earlier ? { ...update, fromVersion: earlier.fromVersion } : update;
+  });
+
+  const nextState: UpdateCheckState = {
+    lastCheckedAt: now,
+    apps,
+    updates: [...merged, ...carried].slice(0, MAX_STORED_UPDATES),
+  };
+  await LocalStorage.setItem(STORAGE_KEYS.UPDATE_CHECK, JSON.stringify(nextState));
+
+  logger.log(
+    `[Updates] Checked ${watchedApps.length - failedCount}/${watchedApps.length} app(s), ${newUpdates.length} new version(s)`,
+  );
+  return { newUpdates, checkedCount: watchedApps.length, failedCount };
+}
+
+/**
+ * Short summary for a HUD or menu, e.g. "3 favorites updated" or
+ * "Instagram updated to 312.0"
+ */
+export function describeUpdates(updates: AppUpdate[]): string {
+  if (updates.length === 0) return "No updates";
+  if (updates.length === 1) return `${updates[0].name} updated to ${updates[0].toVersion}`;
+
+  const favorites = updates.filter((update) => update.isFavorite).length;
+  const downloaded = updates.length - favorites;
+  const parts: string[] = [];
+  if (favorites > 0) parts.push(`${favorites} ${favorites === 1 ? "favorite" : "favorites"}`);
+  if (downloaded > 0) parts.push(`${downloaded} downloaded ${downloaded === 1 ? "app" : "apps"}`);
+  return `${parts.join(" and ")} updated`;
+}
+
+/**
+ * Forget reported updates, e.g. once they've been seen in the menu bar. The
+ * last-seen versions stay, so the same releases are not reported again.
+ * @param bundleIds Apps to dismiss; every update when omitted
+ */
+export async function dismissAppUpdates(bundleIds?: string[]): Promise<void> {
+  const state = await getUpdateCheckState();
+  const updates = bundleIds ? state.updates.filter((update) => !bundleIds.includes(update.bundleId)) : [];
+  await LocalStorage.setItem(STORAGE_KEYS.UPDATE_CHECK, JSON.stringify({ ...state, updates }));
+}
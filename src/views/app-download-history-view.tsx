@@ -0,0 +1,188 @@
+import fs from "fs";
+import path from "path";
+import { useMemo } from "react";
+import { Action, ActionPanel, Color, Icon, Keyboard, List } from "@raycast/api";
+import { useAppDownload, useDownloadHistory } from "../hooks";
+import { useAuthNavigation } from "../hooks/use-auth-navigation";
+import { getHistoryRecordKey, type DownloadHistoryItem } from "../hooks/use-download-history";
+import { formatFileSize, formatFriendlyDateTime } from "../utils/formatting";
+import { getStorefrontName } from "../utils/storefronts";
+import { AppVersionsView } from "./app-versions-view";
+import { ExecutableAnalysisView } from "./executable-analysis-view";
+import { IpaInspectorView } from "./ipa-inspector-view";
+
+interface AppDownloadHistoryViewProps {
+  bundleId: string;
+  appName: string;
+}
+
+function formatDuration(durationMs: number): string {
+  const seconds = Math.round(durationMs / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function RecordDetail({ record }: { record: DownloadHistoryItem }) {
+  const fileExists = record.filePath ? fs.existsSync(record.filePath) : false;
+  return (
+    <List.Item.Detail
+      metadata={
+        <List.Item.Detail.Metadata>
+          <List.Item.Detail.Metadata.Label title="Version" text={record.app.version} />
+          {record.externalVersionId && (
+            <List.Item.Detail.Metadata.Label title="External Version ID" text={record.externalVersionId} />
+          )}
+          <List.Item.Detail.Metadata.Label title="Downloaded" text={new Date(record.downloadDate).toLocaleString()} />
+          <List.Item.Detail.Metadata.Label title="Times Downloaded" text={record.downloadCount.toString()} />
+          {record.cancelledAt && (
+            <List.Item.Detail.Metadata.Label
+              title="Last Attempt"
+              text={`Cancelled ${formatFriendlyDateTime(record.cancelledAt)}`}
+              icon={Icon.XMarkCircle}
+            />
+          )}
+          {record.autoArchived && (
+            <List.Item.Detail.Metadata.Label title="Source" text="Auto-archive" icon={Icon.Box} />
+          )}
+          <List.Item.Detail.Metadata.Separator />
+          <List.Item.Detail.Metadata.Label
+            title="File"
+            text={record.filePath ? path.basename(record.filePath) : "Unknown"}
+            icon={record.filePath && !fileExists ? Icon.ExclamationMark : undefined}
+          />
+          {record.filePath && !fileExists && <List.Item.Detail.Metadata.Label title="" text="No longer on disk" />}
+          {record.trashedAt && (
+            <List.Item.Detail.Metadata.Label title="Moved to Trash" text={formatFriendlyDateTime(record.trashedAt)} />
+          )}
+          <List.Item.Detail.Metadata.Label
+            title="Size"
+            text={record.fileSizeBytes ? formatFileSize(record.fileSizeBytes) : "Unknown"}
+          />
+          <List.Item.Detail.Metadata.Label title="SHA-256" text={record.sha256 ?? "Not recorded"} />
+          {record.lastVerifiedAt && (
+            <List.Item.Detail.Metadata.Label
+              title="Last Verified"
+              text={formatFriendlyDateTime(record.lastVerifiedAt)}
+            />
+          )}
+          <List.Item.Detail.Metadata.Separator />
+          <List.Item.Detail.Metadata.Label
+            title="Duration"
+            text={record.durationMs !== undefined ? formatDuration(record.durationMs) : "Unknown"}
+          />
+          <List.Item.Detail.Metadata.Label title="Apple ID" text={record.appleId ?? "Unknown"} />
+          {record.accountProfile && (
+            <List.Item.Detail.Metadata.Label title="Account Profile" text={record.accountProfile} />
+          )}
+          <List.Item.Detail.Metadata.Label
+            title="Storefront"
+            text={record.storefront ? getStorefrontName(record.storefront) : "Unknown"}
+          />
+          <List.Item.Detail.Metadata.Label title="ipatool" text={record.ipatoolVersion ?? "Unknown"} />
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+}
+
+/**
+ * Every version of one app in download history, newest first, with where each
+ * file came from: size, checksum, duration, Apple ID, storefront and ipatool
+ */
+export function AppDownloadHistoryView({ bundleId, appName }: AppDownloadHistoryViewProps) {
+  const authNavigation = useAuthNavigation();
+  const { downloadAppDetails } = useAppDownload(authNavigation);
+  const { downloadHistory, reverifyFile, removeVersionFromHistory, refresh, isLoading } = useDownloadHistory();
+
+  const records = useMemo(
+    () => downloadHistory.filter((item) => item.app.bundleId === bundleId),
+    [downloadHistory, bundleId],
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      isShowingDetail={records.length > 0}
+      navigationTitle={`${appName} Downloads`}
+      searchBarPlaceholder="Filter versions..."
+    >
+      {records.length === 0 && !isLoading && (
+        <List.EmptyView title="No Versions in History" description={`${appName} has no recorded downloads.`} />
+      )}
+      <List.Section title="Downloaded Versions" subtitle={records.length.toString()}>
+        {records.map((record) => (
+          <List.Item
+            key={getHistoryRecordKey(record)}
+            title={record.app.version}
+            keywords={[record.externalVersionId, record.sha256].filter((value): value is string => Boolean(value))}
+            accessories={[
+              ...(record.cancelledAt ? [{ tag: { value: "Cancelled", color: Color.SecondaryText } }] : []),
+              ...(record.externalVersionId ? [{ tag: "Pinned" }] : []),
+              { text: formatFriendlyDateTime(record.downloadDate), tooltip: "Downloaded" },
+            ]}
+            detail={<RecordDetail record={record} />}
+            actions={
+              <ActionPanel>
+                {record.filePath && <Action.ShowInFinder path={record.filePath} />}
+                {record.externalVersionId && (
+                  <Action
+                    title={`Download Version ${record.app.version} Again`}
+                    onAction={async () => {
+                      await downloadAppDetails(record.app, { externalVersionId: record.externalVersionId });
+                      await refresh();
+                    }}
+                    icon={Icon.Download}
+                    shortcut={Keyboard.Shortcut.Common.Save}
+                  />
+                )}
+                <Action.Push
+                  title="Download Older Version…"
+                  target={<AppVersionsView app={record.app} />}
+                  icon={Icon.Clock}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "v" }}
+                />
+                {record.filePath && (
+                  <Action.Push
+                    title="Inspect IPA"
+                    target={<IpaInspectorView filePath={record.filePath} appName={appName} />}
+                    icon={Icon.MagnifyingGlass}
+                    shortcut={{ modifiers: ["cmd", "opt"], key: "i" }}
+                  />
+                )}
+                {record.filePath && (
+                  <Action
+                    title="Re-Verify File"
+                    onAction={() => reverifyFile(record)}
+                    icon={Icon.CheckCircle}
+                    shortcut={{ modifiers: ["cmd", "opt"], key: "k" }}
+                  />
+                )}
+                {record.sha256 && (
+                  <Action.CopyToClipboard
+                    title="Copy Checksum"
+                    content={record.sha256}
+                    shortcut={{ modifiers: ["cmd", "opt"], key: "h" }}
+                  />
+                )}
+                {record.filePath && (
+                  <Action.Push
+                    title="Analyze Executable"
+                    target={<ExecutableAnalysisView filePath={record.filePath} appName={appName} />}
+                    icon={Icon.Cog}
+                    shortcut={{ modifiers: ["cmd", "opt"], key: "x" }}
+                  />
+                )}
+                <Action
+                  title="Remove Version from History"
+                  onAction={() => removeVersionFromHistory(record)}
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={Keyboard.Shortcut.Common.Remove}
+                />
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,102 @@
+import { Action, ActionPanel, Icon, Keyboard, List } from "@raycast/api";
+import { useAppDownload, useAppVersions, VERSIONS_PAGE_SIZE } from "../hooks";
+import { useAuthNavigation } from "../hooks/use-auth-navigation";
+import type { AppVersionInfo } from "../ipatool";
+import { AppDetails } from "../types";
+import { NeedsLoginError } from "../utils/auth";
+import { formatDate } from "../utils/formatting";
+
+interface AppVersionsViewProps {
+  app: AppDetails;
+}
+
+/**
+ * Builds of one app that the App Store still serves, newest first. Downloading
+ * a row pins ipatool to that build's external version ID; the file is named
+ * after the build's own version string so it sits next to the latest one.
+ */
+export function AppVersionsView({ app }: AppVersionsViewProps) {
+  const authNavigation = useAuthNavigation();
+  const { downloadAppDetails } = useAppDownload(authNavigation);
+  const { versions, totalCount, isLoading, error, hasMore, loadMore, reload } = useAppVersions(
+    app.bundleId,
+    app.name,
+    app.price,
+  );
+
+  const downloadVersion = (version: AppVersionInfo) =>
+    downloadAppDetails(
+      // The latest build's fileSizeBytes stays: it only feeds the disk-space
+      // check and progress estimate, and older builds are rarely larger.
+      { ...app, version: version.displayVersion ?? version.externalVersionId },
+      { externalVersionId: version.externalVersionId },
+    );
+
+  const needsLogin = error instanceof NeedsLoginError;
+  const sectionTitle = totalCount > 0 ? `${versions.length} of ${totalCount} Versions` : "";
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={`${app.name} Versions`}
+      searchBarPlaceholder="Filter by version or ID..."
+      pagination={{ onLoadMore: loadMore, hasMore, pageSize: VERSIONS_PAGE_SIZE }}
+    >
+      <List.EmptyView
+        title={error ? "Could Not Load Versions" : isLoading ? "Loading Versions…" : "No Older Versions Available"}
+        description={error?.message}
+        icon={error ? Icon.Warning : Icon.Clock}
+        actions={
+          error ? (
+            <ActionPanel>
+              {needsLogin ? (
+                <Action
+                  title="Sign in to Apple ID"
+                  icon={Icon.Person}
+                  onAction={() => authNavigation.pushLoginForm(reload)}
+                />
+              ) : (
+                <Action title="Try Again" icon={Icon.ArrowClockwise} onAction={reload} />
+              )}
+            </ActionPanel>
+          ) : undefined
+        }
+      />
+      <List.Section title={sectionTitle}>
+        {versions.map((version) => (
+          <List.Item
+            key={version.externalVersionId}
+            icon={Icon.Clock}
+            title={version.displayVersion ?? "Unknown Version"}
+            subtitle={version.releaseDate ? formatDate(version.releaseDate) : undefined}
+            keywords={[version.externalVersionId]}
+            accessories={[
+              ...(version.displayVersion === app.version ? [{ tag: "Latest" }] : []),
+              { text: version.externalVersionId, tooltip: "External Version ID" },
+            ]}
+            actions={
+              <ActionPanel>
+                <Action
+                  title="Download This Version"
+                  icon={Icon.Download}
+                  onAction={() => downloadVersion(version)}
+                  shortcut={Keyboard.Shortcut.Common.Save}
+                />
+                <Action.CopyToClipboard
+                  title="Copy External Version ID"
+                  content={version.externalVersionId}
+                  shortcut={Keyboard.Shortcut.Common.Copy}
+                />
+                {version.displayVersion && (
+                  <Action.CopyToClipboard title="Copy Version" content={version.displayVersion} />
+                )}
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
+
+export default AppVersionsView;
@@ -7,10 +7,13 @@ import { useAppDownload, useFavoriteApps } from "../hooks";
 import { useAuthNavigation } from "../hooks/use-auth-navigation";
 import { AppDetails } from "../types";
 import { ARTIST_LOOKUP_LIMIT, convertITunesResultToAppDetails, lookupITunesAppsByArtist } from "../utils/itunes-api";
+import { getStorefrontName, resolveStorefront } from "../utils/storefronts";
 
 interface DeveloperAppsViewProps {
   artistId: number;
   developerName: string;
+  /** Storefront of the app the view was opened from; defaults to the preference. */
+  storefront?: string;
 }
 
 /**
@@ -18,7 +21,8 @@ interface DeveloperAppsViewProps {
  * Pushed from an app's action panel so the developer's catalog stays inside
  * Raycast instead of handing off to the browser.
  */
-export function DeveloperAppsView({ artistId, developerName }: DeveloperAppsViewProps) {
+export function DeveloperAppsView({ artistId, developerName, storefront }: DeveloperAppsViewProps) {
+  const country = resolveStorefront(storefront);
   const [apps, setApps] = useState<AppDetails[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -32,11 +36,11 @@ export function DeveloperAppsView({ artistId, developerName }: DeveloperAppsView
 
     async function loadDeveloperApps() {
       try {
-        logger.log(`[Developer] Looking up apps by "${developerName}" (artistId ${artistId})`);
-        const results = await lookupITunesAppsByArtist(artistId);
+        logger.log(`[Developer] Looking up apps by "${developerName}" (artistId ${artistId}) in ${country}`);
+        const results = await lookupITunesAppsByArtist(artistId, ARTIST_LOOKUP_LIMIT, country);
         logger.log(`[Developer] "${developerName}" (artistId ${artistId}) has ${results.length} app(s)`);
         if (!cancelled) {
-          setApps(results.map((result) => convertITunesResultToAppDetails(result)));
+          setApps(results.map((result) => convertITunesResultToAppDetails(result, { storefront: country })));
         }
       } catch (err) {
         // The lookup throws on a real API/network failure. Without this branch
@@ -58,7 +62,7 @@ export function DeveloperAppsView({ artistId, developerName }: DeveloperAppsView
     return () => {
       cancelled = true;
     };
-  }, [artistId, developerName]);
+  }, [artistId, developerName, country]);
 
   // Apple's lookup endpoint caps out; say so rather than presenting a truncated
   // catalog as the developer's complete one.
@@ -75,7 +79,9 @@ export function DeveloperAppsView({ artistId, developerName }: DeveloperAppsView
         title={error ? "Could Not Load Apps" : isLoading ? "Loading Apps…" : `No Apps Found for ${developerName}`}
         description={
           error ??
-          (isLoading ? undefined : "Apple's developer lookup returned no apps for this developer in the US store.")
+          (isLoading
+            ? undefined
+            : `Apple's developer lookup returned no apps for this developer in the ${getStorefrontName(country)} store.`)
         }
         icon={error ? Icon.Warning : Icon.Person}
       />
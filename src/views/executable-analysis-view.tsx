@@ -0,0 +1,92 @@
+import path from "path";
+import { Action, ActionPanel, Color, Detail, Icon } from "@raycast/api";
+import { useExecutableAnalysis } from "../hooks";
+import { formatFileSize } from "../utils/formatting";
+
+interface ExecutableAnalysisViewProps {
+  filePath: string;
+  /** Name from download history, shown while the executable is being read */
+  appName?: string;
+}
+
+/**
+ * Mach-O report for a downloaded IPA's main executable: slices, minimum OS,
+ * FairPlay encryption state and linked libraries
+ */
+export function ExecutableAnalysisView({ filePath, appName }: ExecutableAnalysisViewProps) {
+  const { analysis, markdown, isLoading, error, reload, exportToMarkdown } = useExecutableAnalysis(filePath);
+  const navigationTitle = analysis?.displayName ?? appName ?? path.basename(filePath);
+
+  if (error) {
+    return (
+      <Detail
+        navigationTitle={navigationTitle}
+        markdown={`## Could Not Analyze Executable\n\n${error.message}\n\n\`${filePath}\``}
+        actions={
+          <ActionPanel>
+            <Action title="Try Again" icon={Icon.ArrowClockwise} onAction={reload} />
+            <Action.ShowInFinder path={filePath} />
+          </ActionPanel>
+        }
+      />
+    );
+  }
+
+  const slices = analysis?.macho.slices ?? [];
+  // Slices normally agree on the minimum OS; show the lowest if they don't
+  const minimumOSVersion = slices
+    .map((slice) => slice.minimumOSVersion)
+    .filter((version): version is string => Boolean(version))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))[0];
+  const dylibCount = Math.max(0, ...slices.map((slice) => slice.dylibs.length));
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle={navigationTitle}
+      markdown={markdown}
+      metadata={
+        analysis && (
+          <Detail.Metadata>
+            <Detail.Metadata.TagList title="Architectures">
+              {slices.map((slice) => (
+                <Detail.Metadata.TagList.Item key={`${slice.architecture}-${slice.offset}`} text={slice.architecture} />
+              ))}
+            </Detail.Metadata.TagList>
+            <Detail.Metadata.TagList title="FairPlay">
+              <Detail.Metadata.TagList.Item
+                text={analysis.isEncrypted ? "Encrypted" : "Not Encrypted"}
+                color={analysis.isEncrypted ? Color.Orange : Color.Green}
+              />
+            </Detail.Metadata.TagList>
+            <Detail.Metadata.Label title="Minimum OS" text={minimumOSVersion ?? "Not declared"} />
+            <Detail.Metadata.Label title="Linked Libraries" text={dylibCount.toString()} />
+            <Detail.Metadata.Separator />
+            <Detail.Metadata.Label title="Executable" text={analysis.executablePath} />
+            <Detail.Metadata.Label title="Executable Size" text={formatFileSize(analysis.executableSizeBytes)} />
+            {analysis.version && (
+              <Detail.Metadata.Label
+                title="Version"
+                text={analysis.buildNumber ? `${analysis.version} (${analysis.buildNumber})` : analysis.version}
+              />
+            )}
+          </Detail.Metadata>
+        )
+      }
+      actions={
+        <ActionPanel>
+          {analysis && (
+            <Action
+              title="Export Report to Markdown"
+              icon={Icon.Document}
+              onAction={exportToMarkdown}
+              shortcut={{ modifiers: ["cmd", "opt"], key: "m" }}
+            />
+          )}
+          {analysis && <Action.CopyToClipboard title="Copy Report as Markdown" content={markdown} />}
+          <Action.ShowInFinder path={filePath} />
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { Icon, List } from "@raycast/api";
+import { AppListItem } from "../components/app-list-item";
+import { useAppDownload, useFavoriteApps, useGenreApps } from "../hooks";
+import { useAuthNavigation } from "../hooks/use-auth-navigation";
+import { GENRE_SORT_OPTIONS, getGenreTitle, type AppStoreGenre, type GenreSort } from "../utils/app-store-genres";
+import { formatDate } from "../utils/formatting";
+import { getStorefrontName } from "../utils/storefronts";
+
+interface GenreAppsViewProps {
+  genre: AppStoreGenre;
+  storefront: string;
+}
+
+/**
+ * The apps on an App Store genre's free and paid top charts, in a chosen order
+ */
+export function GenreAppsView({ genre, storefront }: GenreAppsViewProps) {
+  const [sort, setSort] = useState<GenreSort>("ratings");
+  const { apps, isLoading, error } = useGenreApps(genre.id, storefront, sort);
+  const title = getGenreTitle(genre);
+
+  const authNavigation = useAuthNavigation();
+  const { downloadAppDetails } = useAppDownload(authNavigation);
+  const { isFavorite, addFavorite, removeFavorite } = useFavoriteApps();
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={title}
+      searchBarPlaceholder={`Filter ${title} apps...`}
+      searchBarAccessory={
+        <List.Dropdown tooltip="Sort Apps" storeValue onChange={(value) => setSort(value as GenreSort)}>
+          {GENRE_SORT_OPTIONS.map((option) => (
+            <List.Dropdown.Item key={option.value} title={option.title} value={option.value} />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      <List.EmptyView
+        title={error ? "Could Not Load Category" : isLoading ? "Loading Apps…" : `No ${title} Apps`}
+        description={
+          error ??
+          (isLoading ? undefined : `Apple lists no ${title} apps in the ${getStorefrontName(storefront)} store.`)
+        }
+        icon={error ? Icon.Warning : Icon.AppWindowGrid3x3}
+      />
+      <List.Section title={apps.length > 0 ? `Apps (${apps.length})` : ""} subtitle={getStorefrontName(storefront)}>
+        {apps.map((app) => (
+          <AppListItem
+            key={app.bundleId || app.id}
+            app={app}
+            subtitle={
+              sort === "newest"
+                ? `${app.sellerName} · Updated ${formatDate(app.currentVersionReleaseDate || app.releaseDate)}`
+                : app.sellerName
+            }
+            isFavorited={isFavorite(app.bundleId)}
+            onDownload={downloadAppDetails}
+            onAddFavorite={addFavorite}
+            onRemoveFavorite={removeFavorite}
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
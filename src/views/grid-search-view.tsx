@@ -1,5 +1,6 @@
 import { Action, ActionPanel, Color, Grid, Icon, Image } from "@raycast/api";
 import { AppActionPanelContent } from "../components/app-action-panel";
+import { StorefrontGridDropdown } from "../components/storefront-dropdown";
 import { AppDetails } from "../types";
 
 interface GridSearchViewProps {
@@ -7,13 +8,17 @@ interface GridSearchViewProps {
   isLoading: boolean;
   error: string | null;
   searchText: string;
-  totalResults: number;
+  /** Section title, e.g. "Results (12 of 200)" or "Results (20, more available)" */
+  resultsTitle: string;
+  pagination: Grid.Props["pagination"];
   isFavorite: (bundleId: string) => boolean;
   addFavorite: (app: AppDetails) => Promise<void>;
   removeFavorite: (bundleId: string) => Promise<void>;
   onDownload: (app: AppDetails) => Promise<string | null | undefined>;
   onToggleView: () => void;
   onSearchTextChange: (text: string) => void;
+  storefront: string;
+  onStorefrontChange: (storefront: string) => void;
 }
 
 export function GridSearchView({
@@ -21,13 +26,16 @@ export function GridSearchView({
   isLoading,
   error,
   searchText,
-  totalResults,
+  resultsTitle,
+  pagination,
   isFavorite,
   addFavorite,
   removeFavorite,
   onDownload,
   onToggleView,
   onSearchTextChange,
+  storefront,
+  onStorefrontChange,
 }: GridSearchViewProps) {
   return (
     <Grid
@@ -38,6 +46,8 @@ export function GridSearchView({
       fit={Grid.Fit.Fill}
       aspectRatio="1"
       onSearchTextChange={onSearchTextChange}
+      pagination={pagination}
+      searchBarAccessory={<StorefrontGridDropdown value={storefront} onChange={onStorefrontChange} />}
     >
       {/* Handle error state */}
       {error && <Grid.EmptyView title={error} icon={{ source: Icon.Warning }} />}
@@ -49,7 +59,7 @@ export function GridSearchView({
 
       {/* Show results when available */}
       {!error && apps.length > 0 && (
-        <Grid.Section title={totalResults > 0 ? `Results (${totalResults})` : ""}>
+        <Grid.Section title={resultsTitle}>
           {apps.map((app) => {
             // Standardized iconUrl already provides the best resolution
             const iconUrl = app.iconUrl;
@@ -0,0 +1,139 @@
+import path from "path";
+import { Action, ActionPanel, Detail, Icon, Keyboard } from "@raycast/api";
+import { useIpaInspection } from "../hooks";
+import { formatFileSize } from "../utils/formatting";
+import type { IpaInspection } from "../utils/ipa-inspector";
+import { plistToJson } from "../utils/plist";
+import { ExecutableAnalysisView } from "./executable-analysis-view";
+
+// Frameworks beyond this are summarized; some apps embed dozens
+const MAX_FRAMEWORKS_LISTED = 10;
+
+interface IpaInspectorViewProps {
+  filePath: string;
+  /** Name from download history, shown while the archive is being read */
+  appName?: string;
+}
+
+function bulletList(items: string[], empty = "None"): string {
+  return items.length > 0 ? items.map((item) => `- ${item}`).join("\n") : `_${empty}_`;
+}
+
+function getInspectionMarkdown(inspection: IpaInspection): string {
+  const extensionLines = inspection.extensions.map((extension) => {
+    const name = extension.displayName ?? extension.bundleName;
+    const point = extension.extensionPoint ? ` — \`${extension.extensionPoint}\`` : "";
+    return `**${name}**${point}`;
+  });
+  const watchLines = inspection.watchApps.map((watchApp) => watchApp.displayName ?? watchApp.bundleName);
+  const frameworkLines = inspection.frameworks
+    .slice(0, MAX_FRAMEWORKS_LISTED)
+    .map((framework) => `${framework.name} (${formatFileSize(framework.sizeBytes)})`);
+  const hiddenFrameworks = inspection.frameworks.length - frameworkLines.length;
+
+  return `
+## ${inspection.displayName ?? inspection.appBundleName}
+
+\`${path.basename(inspection.filePath)}\`
+
+### URL Schemes
+
+${bulletList(inspection.urlSchemes.map((scheme) => `\`${scheme}://\``))}
+
+### Supported Orientations
+
+${bulletList(inspection.orientations, "Not declared")}
+${inspection.iPadOrientations.length > 0 ? `\n**iPad:** ${inspection.iPadOrientations.join(", ")}\n` : ""}
+### Background Modes
+
+${bulletList(inspection.backgroundModes)}
+
+### App Extensions (${inspection.extensions.length})
+
+${bulletList(extensionLines)}
+${watchLines.length > 0 ? `\n### Watch Apps\n\n${bulletList(watchLines)}\n` : ""}
+### Largest Frameworks (${inspection.frameworks.length})
+
+${bulletList(frameworkLines)}${hiddenFrameworks > 0 ? `\n\n_…and ${hiddenFrameworks} more_` : ""}
+`;
+}
+
+/**
+ * What a downloaded IPA declares about itself, read straight from the archive's
+ * Info.plist files. Useful for checking which build a file actually contains.
+ */
+export function IpaInspectorView({ filePath, appName }: IpaInspectorViewProps) {
+  const { inspection, isLoading, error, reload } = useIpaInspection(filePath);
+  const navigationTitle = inspection?.displayName ?? appName ?? path.basename(filePath);
+
+  if (error) {
+    return (
+      <Detail
+        navigationTitle={navigationTitle}
+        markdown={`## Could Not Inspect IPA\n\n${error.message}\n\n\`${filePath}\``}
+        actions={
+          <ActionPanel>
+            <Action title="Try Again" icon={Icon.ArrowClockwise} onAction={reload} />
+            <Action.ShowInFinder path={filePath} />
+          </ActionPanel>
+        }
+      />
+    );
+  }
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle={navigationTitle}
+      markdown={inspection ? getInspectionMarkdown(inspection) : ""}
+      metadata={
+        inspection && (
+          <Detail.Metadata>
+            <Detail.Metadata.Label title="Bundle ID" text={inspection.bundleId ?? "Unknown"} />
+            <Detail.Metadata.Label title="Version" text={inspection.version ?? "Unknown"} />
+            <Detail.Metadata.Label title="Build Number" text={inspection.buildNumber ?? "Unknown"} />
+            <Detail.Metadata.Label title="Minimum iOS" text={inspection.minimumOSVersion ?? "Not declared"} />
+            <Detail.Metadata.TagList title="Devices">
+              {inspection.deviceFamilies.length > 0 ? (
+                inspection.deviceFamilies.map((family) => <Detail.Metadata.TagList.Item key={family} text={family} />)
+              ) : (
+                <Detail.Metadata.TagList.Item text="Not declared" />
+              )}
+            </Detail.Metadata.TagList>
+            <Detail.Metadata.Separator />
+            <Detail.Metadata.Label title="Executable" text={inspection.executableName ?? "Unknown"} />
+            <Detail.Metadata.Label title="Bundle" text={inspection.appBundleName} />
+            <Detail.Metadata.Label title="File Size" text={formatFileSize(inspection.fileSizeBytes)} />
+            <Detail.Metadata.Label title="Installed Size" text={formatFileSize(inspection.uncompressedSizeBytes)} />
+            <Detail.Metadata.Label title="Files" text={inspection.entryCount.toLocaleString()} />
+          </Detail.Metadata>
+        )
+      }
+      actions={
+        <ActionPanel>
+          <Action.ShowInFinder path={filePath} />
+          <Action.Push
+            title="Analyze Executable"
+            target={<ExecutableAnalysisView filePath={filePath} appName={navigationTitle} />}
+            icon={Icon.Cog}
+            shortcut={{ modifiers: ["cmd", "opt"], key: "x" }}
+          />
+          {inspection && (
+            <Action.CopyToClipboard
+              title="Copy Info.plist as JSON"
+              content={JSON.stringify(plistToJson(inspection.infoPlist), null, 2)}
+              shortcut={Keyboard.Shortcut.Common.Copy}
+            />
+          )}
+          {inspection?.bundleId && (
+            <Action.CopyToClipboard
+              title="Copy Bundle ID"
+              content={inspection.bundleId}
+              shortcut={{ modifiers: ["cmd", "opt"], key: "b" }}
+            />
+          )}
+        </ActionPanel>
+      }
+    />
+  );
+}
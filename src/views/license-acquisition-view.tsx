@@ -0,0 +1,135 @@
+import { Action, ActionPanel, Color, Icon, Image, List } from "@raycast/api";
+import { useLicenseAcquisition } from "../hooks";
+import { useAuthNavigation } from "../hooks/use-auth-navigation";
+import type { AppDetails } from "../types";
+import { formatPrice } from "../utils/formatting";
+import {
+  describeLicenseResults,
+  LICENSE_ERROR_LABELS,
+  type LicenseResult,
+  type LicenseStatus,
+} from "../utils/license-acquisition";
+import AppDetailView from "./app-detail-view";
+
+interface LicenseAcquisitionViewProps {
+  apps: AppDetails[];
+  /** Pasted entries that didn't resolve to an app */
+  unresolved?: string[];
+}
+
+const STATUS_ICONS: Record<LicenseStatus, Image.ImageLike> = {
+  pending: Icon.Circle,
+  running: Icon.CircleProgress,
+  licensed: { source: Icon.CheckCircle, tintColor: Color.Green },
+  "already-owned": { source: Icon.CheckCircle, tintColor: Color.SecondaryText },
+  skipped: { source: Icon.MinusCircle, tintColor: Color.SecondaryText },
+  failed: { source: Icon.XMarkCircle, tintColor: Color.Red },
+};
+
+function getStatusTag(result: LicenseResult): List.Item.Accessory {
+  switch (result.status) {
+    case "pending":
+      return { tag: "Waiting" };
+    case "running":
+      return { tag: { value: "Requesting…", color: Color.Blue } };
+    case "licensed":
+      return { tag: { value: "Licensed", color: Color.Green } };
+    case "already-owned":
+      return { tag: "Already Owned" };
+    case "skipped":
+      return {
+        tag: result.errorType ? LICENSE_ERROR_LABELS[result.errorType] : "Paid",
+        tooltip: result.message,
+      };
+    case "failed":
+      return {
+        tag: { value: LICENSE_ERROR_LABELS[result.errorType ?? "generic"], color: Color.Red },
+        tooltip: result.message,
+      };
+  }
+}
+
+function formatResultsAsMarkdown(results: LicenseResult[]): string {
+  const rows = results.map((result) => {
+    const outcome =
+      result.status === "failed" || result.status === "skipped"
+        ? `${result.status}${result.errorType ? ` (${result.errorType})` : ""}`
+        : result.status;
+    return `| ${result.app.name} | \`${result.app.bundleId}\` | ${outcome} | ${result.message ?? ""} |`;
+  });
+  return [
+    `# License Acquisition`,
+    "",
+    describeLicenseResults(results),
+    "",
+    "| App | Bundle ID | Outcome | Details |",
+    "| --- | --- | --- | --- |",
+    ...rows,
+  ].join("\n");
+}
+
+/**
+ * Claims licenses for the given apps as soon as it opens, one row per app with
+ * its outcome. Paid apps are skipped rather than purchased.
+ */
+export function LicenseAcquisitionView({ apps, unresolved = [] }: LicenseAcquisitionViewProps) {
+  const authNavigation = useAuthNavigation();
+  const { results, isRunning, authRequired, resume, retryFailed } = useLicenseAcquisition(apps);
+  const hasFailures = results.some((result) => result.status === "failed");
+  const finished = results.filter((result) => result.status !== "pending" && result.status !== "running").length;
+
+  const signInAction = authRequired && (
+    <Action
+      title="Sign in to Continue"
+      icon={Icon.Person}
+      onAction={() =>
+        authRequired === "2fa" ? authNavigation.push2FAForm(resume) : authNavigation.pushLoginForm(resume)
+      }
+    />
+  );
+
+  return (
+    <List isLoading={isRunning} navigationTitle="Acquire Licenses" searchBarPlaceholder="Filter apps...">
+      <List.Section title="Apps" subtitle={`${finished} of ${results.length}`}>
+        {results.map((result) => (
+          <List.Item
+            key={result.app.bundleId}
+            title={result.app.name}
+            subtitle={result.app.bundleId}
+            icon={STATUS_ICONS[result.status]}
+            accessories={[{ text: formatPrice(result.app.price, result.app.currency) }, getStatusTag(result)]}
+            actions={
+              <ActionPanel>
+                {signInAction}
+                {hasFailures && !isRunning && (
+                  <Action title="Retry Failed Apps" icon={Icon.ArrowClockwise} onAction={retryFailed} />
+                )}
+                <Action.Push title="View App Details" icon={Icon.Info} target={<AppDetailView app={result.app} />} />
+                <Action.CopyToClipboard title="Copy Results as Markdown" content={formatResultsAsMarkdown(results)} />
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+      {unresolved.length > 0 && (
+        <List.Section title="Not Found" subtitle={unresolved.length.toString()}>
+          {unresolved.map((entry) => (
+            <List.Item
+              key={entry}
+              title={entry}
+              icon={{ source: Icon.QuestionMarkCircle, tintColor: Color.SecondaryText }}
+              accessories={[
+                { tag: "Not an App", tooltip: "Not a bundle ID or App Store link, or not in this storefront" },
+              ]}
+              actions={
+                <ActionPanel>
+                  <Action.CopyToClipboard title="Copy Entry" content={entry} />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      )}
+    </List>
+  );
+}
@@ -0,0 +1,150 @@
+import path from "path";
+import { useMemo, useState } from "react";
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  confirmAlert,
+  Icon,
+  Image,
+  Keyboard,
+  List,
+  openExtensionPreferences,
+} from "@raycast/api";
+import { useRetention } from "../hooks";
+import { getHistoryRecordKey } from "../hooks/use-download-history";
+import { formatFileSize, formatFriendlyDateTime } from "../utils/formatting";
+import { describeRetentionPolicy, isRetentionEnabled, type RetentionCandidate } from "../utils/retention";
+
+/**
+ * What the retention policy would move to the Trash, grouped by the rule that
+ * caught each file. Nothing is touched until a Trash action is chosen, and
+ * files can be held back for this run.
+ */
+export function RetentionPreviewView() {
+  const { policy, plan, isLoading, moveToTrash } = useRetention();
+  const [keptKeys, setKeptKeys] = useState<Set<string>>(new Set());
+
+  const selected = useMemo(
+    () => plan.candidates.filter((candidate) => !keptKeys.has(getHistoryRecordKey(candidate.record))),
+    [plan, keptKeys],
+  );
+  const selectedBytes = selected.reduce((total, candidate) => total + candidate.sizeBytes, 0);
+  const byVersions = plan.candidates.filter((candidate) => candidate.reason === "versions");
+  const byAge = plan.candidates.filter((candidate) => candidate.reason === "age");
+
+  const toggleKept = (candidate: RetentionCandidate) => {
+    const key = getHistoryRecordKey(candidate.record);
+    setKeptKeys((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const moveAllToTrash = async () => {
+    const confirmed = await confirmAlert({
+      title: "Move Files to Trash?",
+      message: `${selected.length} ${selected.length === 1 ? "file" : "files"} (${formatFileSize(selectedBytes)}) will be moved to the Trash. Their versions stay in download history.`,
+      primaryAction: { title: "Move to Trash", style: Alert.ActionStyle.Destructive },
+    });
+    if (confirmed) await moveToTrash(selected);
+  };
+
+  const preferencesAction = (
+    <Action title="Change Retention Rules" icon={Icon.Gear} onAction={openExtensionPreferences} />
+  );
+
+  const renderCandidate = (candidate: RetentionCandidate) => {
+    const { record } = candidate;
+    const isKept = keptKeys.has(getHistoryRecordKey(record));
+    return (
+      <List.Item
+        key={getHistoryRecordKey(record)}
+        title={record.app.name}
+        subtitle={record.app.version}
+        icon={record.app.iconUrl ? { source: record.app.iconUrl, mask: Image.Mask.RoundedRectangle } : Icon.AppWindow}
+        keywords={[record.app.bundleId, path.basename(candidate.filePath)]}
+        accessories={[
+          ...(isKept ? [{ tag: { value: "Kept", color: Color.Green }, tooltip: "Held back from this run" }] : []),
+          { text: formatFileSize(candidate.sizeBytes), tooltip: "Size on disk" },
+          { text: formatFriendlyDateTime(record.downloadDate), tooltip: "Downloaded" },
+        ]}
+        actions={
+          <ActionPanel>
+            <ActionPanel.Section>
+              {selected.length > 0 && (
+                <Action
+                  title={`Move ${selected.length} ${selected.length === 1 ? "File" : "Files"} to Trash`}
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  onAction={moveAllToTrash}
+                />
+              )}
+              <Action
+                title={isKept ? "Include in Pruning" : "Keep This File"}
+                icon={isKept ? Icon.Trash : Icon.Lock}
+                onAction={() => toggleKept(candidate)}
+                shortcut={{ modifiers: ["cmd", "opt"], key: "l" }}
+              />
+              <Action.ShowInFinder path={candidate.filePath} />
+              <Action
+                title="Move Only This File to Trash"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                onAction={() => moveToTrash([candidate])}
+                shortcut={Keyboard.Shortcut.Common.Remove}
+              />
+            </ActionPanel.Section>
+            <ActionPanel.Section>{preferencesAction}</ActionPanel.Section>
+          </ActionPanel>
+        }
+      />
+    );
+  };
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={`Prune Downloads — ${formatFileSize(selectedBytes)} to reclaim`}
+      searchBarPlaceholder="Filter files..."
+    >
+      {!isRetentionEnabled(policy) ? (
+        <List.EmptyView
+          icon={Icon.Gear}
+          title="No Retention Rules Set"
+          description="Set how many versions to keep per app or a maximum age in the extension preferences"
+          actions={<ActionPanel>{preferencesAction}</ActionPanel>}
+        />
+      ) : (
+        <List.EmptyView
+          icon={Icon.CheckCircle}
+          title="Nothing to Prune"
+          description={`${describeRetentionPolicy(policy)}${plan.keptForFavorites > 0 ? ` (${plan.keptForFavorites} favorite ${plan.keptForFavorites === 1 ? "file" : "files"} kept)` : ""}`}
+          actions={<ActionPanel>{preferencesAction}</ActionPanel>}
+        />
+      )}
+      {byVersions.length > 0 && (
+        <List.Section
+          title={`Beyond the Newest ${policy.keepVersionsPerApp} per App`}
+          subtitle={formatFileSize(byVersions.reduce((total, candidate) => total + candidate.sizeBytes, 0))}
+        >
+          {byVersions.map(renderCandidate)}
+        </List.Section>
+      )}
+      {byAge.length > 0 && (
+        <List.Section
+          title={`Older Than ${policy.maxAgeDays} Days`}
+          subtitle={formatFileSize(byAge.reduce((total, candidate) => total + candidate.sizeBytes, 0))}
+        >
+          {byAge.map(renderCandidate)}
+        </List.Section>
+      )}
+    </List>
+  );
+}
@@ -0,0 +1,96 @@
+import { Action, ActionPanel, Color, Detail, Icon, Keyboard, launchCommand, LaunchType } from "@raycast/api";
+import { useAuthSession } from "../hooks";
+import { useAuthNavigation } from "../hooks/use-auth-navigation";
+import type { AuthSessionState, AuthSessionStatus } from "../utils/auth-session";
+import { formatFriendlyDateTime } from "../utils/formatting";
+
+const STATE_TAGS: Record<AuthSessionState, { text: string; color: Color }> = {
+  "signed-in": { text: "Signed In", color: Color.Green },
+  "signed-out": { text: "Signed Out", color: Color.Orange },
+  unavailable: { text: "ipatool Unavailable", color: Color.Red },
+};
+
+function isDifferentAppleId(a?: string, b?: string): boolean {
+  return Boolean(a && b && a.trim().toLowerCase() !== b.trim().toLowerCase());
+}
+
+function buildMarkdown(status: AuthSessionStatus): string {
+  const account = status.profileName ?? status.sessionAppleId ?? status.storedAppleId;
+  switch (status.state) {
+    case "signed-in": {
+      const lines = [`# Signed In`, "", `ipatool has a session${account ? ` for **${account}**` : ""}.`];
+      if (isDifferentAppleId(status.sessionAppleId, status.storedAppleId)) {
+        lines.push(
+          "",
+          `ipatool's session belongs to ${status.sessionAppleId}, not ${status.storedAppleId}. Sign in again to download as ${status.storedAppleId}.`,
+        );
+      }
+      return lines.join("\n");
+    }
+    case "signed-out":
+      return [
+        `# Signed Out`,
+        "",
+        "ipatool has no session, or it has expired. Searching works as usual; the next download asks you to sign in, or sign in now.",
+        ...(status.error ? ["", `\`${status.error}\``] : []),
+      ].join("\n");
+    case "unavailable":
+      return [`# ipatool Unavailable`, "", status.error ?? "Could not ask ipatool for its session."].join("\n");
+  }
+}
+
+/**
+ * Shows whether ipatool is signed in, as which Apple ID, and when the
+ * extension last signed in
+ */
+export function SessionStatusView() {
+  const { status, isLoading, refresh } = useAuthSession();
+  const authNavigation = useAuthNavigation();
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle="Apple ID Session"
+      markdown={status ? buildMarkdown(status) : ""}
+      metadata={
+        status && (
+          <Detail.Metadata>
+            <Detail.Metadata.TagList title="Status">
+              <Detail.Metadata.TagList.Item {...STATE_TAGS[status.state]} />
+            </Detail.Metadata.TagList>
+            <Detail.Metadata.Label title="Session Apple ID" text={status.sessionAppleId ?? "Unknown"} />
+            <Detail.Metadata.Label title="Stored Apple ID" text={status.storedAppleId ?? "None"} />
+            {status.profileName && <Detail.Metadata.Label title="Account Profile" text={status.profileName} />}
+            <Detail.Metadata.Separator />
+            <Detail.Metadata.Label
+              title="Last Sign-In"
+              text={status.lastSignIn ? formatFriendlyDateTime(status.lastSignIn.signedInAt) : "Not recorded"}
+            />
+            {isDifferentAppleId(status.lastSignIn?.appleId, status.storedAppleId) && (
+              <Detail.Metadata.Label title="Last Sign-In As" text={status.lastSignIn?.appleId} />
+            )}
+            <Detail.Metadata.Label title="Checked" text={formatFriendlyDateTime(status.checkedAt)} />
+          </Detail.Metadata>
+        )
+      }
+      actions={
+        <ActionPanel>
+          {status?.state !== "unavailable" && (
+            <Action title="Sign in Again" icon={Icon.Person} onAction={() => authNavigation.pushLoginForm(refresh)} />
+          )}
+          <Action
+            title="Check Again"
+            icon={Icon.ArrowClockwise}
+            shortcut={Keyboard.Shortcut.Common.Refresh}
+            onAction={refresh}
+          />
+          <Action
+            title="Switch Account"
+            icon={Icon.Switch}
+            onAction={() => launchCommand({ name: "switch-account", type: LaunchType.UserInitiated })}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}